@@ -0,0 +1,13 @@
+CREATE TABLE "token_reservations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"request_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"committed_amount" integer DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'reserved' NOT NULL,
+	"outcome" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"settled_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "token_reservations" ADD CONSTRAINT "token_reservations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
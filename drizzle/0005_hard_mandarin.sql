@@ -0,0 +1,16 @@
+CREATE TABLE "image_edits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"generation_job_id" uuid,
+	"parent_edit_id" uuid,
+	"source_image_url" text NOT NULL,
+	"instruction" text NOT NULL,
+	"masked" boolean DEFAULT false NOT NULL,
+	"image_url" text NOT NULL,
+	"tokens_used" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "image_edits" ADD CONSTRAINT "image_edits_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "image_edits" ADD CONSTRAINT "image_edits_generation_job_id_generation_jobs_id_fk" FOREIGN KEY ("generation_job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "image_edits" ADD CONSTRAINT "image_edits_parent_edit_id_image_edits_id_fk" FOREIGN KEY ("parent_edit_id") REFERENCES "public"."image_edits"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
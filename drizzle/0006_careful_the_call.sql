@@ -0,0 +1,5 @@
+ALTER TABLE "brand_profiles" ADD COLUMN "name" text DEFAULT 'My brand' NOT NULL;--> statement-breakpoint
+ALTER TABLE "brand_profiles" ADD COLUMN "is_active" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "brand_profiles" ADD COLUMN "archived_at" timestamp;--> statement-breakpoint
+-- Profiles saved before brand kits existed become each user's active kit
+UPDATE "brand_profiles" SET "is_active" = true WHERE "id" IN (SELECT DISTINCT ON ("user_id") "id" FROM "brand_profiles" ORDER BY "user_id", "updated_at" DESC);
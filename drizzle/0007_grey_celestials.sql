@@ -0,0 +1,8 @@
+CREATE TABLE "product_analyses" (
+	"image_hash" text PRIMARY KEY NOT NULL,
+	"analysis" jsonb NOT NULL,
+	"token_usage" integer NOT NULL,
+	"hit_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_used_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,16 @@
+CREATE TABLE "brand_profile_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"brand_kit_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"profile_data" jsonb NOT NULL,
+	"source" text NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "brand_profile_versions_kit_version_unique" UNIQUE("brand_kit_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "brand_profiles" ADD COLUMN "current_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "brand_profiles" ADD COLUMN "pinned_version" integer;--> statement-breakpoint
+ALTER TABLE "brand_profile_versions" ADD CONSTRAINT "brand_profile_versions_brand_kit_id_brand_profiles_id_fk" FOREIGN KEY ("brand_kit_id") REFERENCES "public"."brand_profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Existing kits start their history at version 1
+INSERT INTO "brand_profile_versions" ("brand_kit_id", "version", "profile_data", "source", "created_at") SELECT "id", 1, "profile_data", 'analysis', "updated_at" FROM "brand_profiles";
@@ -0,0 +1,9 @@
+ALTER TABLE "brand_templates" ADD COLUMN "label" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "brand_templates" ADD COLUMN "description" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "brand_templates" ADD COLUMN "industry" text;--> statement-breakpoint
+ALTER TABLE "brand_templates" ADD COLUMN "retired_at" timestamp;--> statement-breakpoint
+-- Existing templates are labeled from their names (sportsDrink becomes Sports Drink)
+UPDATE "brand_templates" SET "label" = initcap(regexp_replace("name", '([a-z])([A-Z])', '\1 \2', 'g')) WHERE "label" = '';--> statement-breakpoint
+-- The seeded fashion and food templates become their industries' defaults; sportsDrink stays the default for any industry
+UPDATE "brand_templates" SET "industry" = 'fashion', "is_default" = true WHERE "name" = 'luxuryFashion';--> statement-breakpoint
+UPDATE "brand_templates" SET "industry" = 'food', "is_default" = true WHERE "name" = 'organicFood';
@@ -0,0 +1,54 @@
+CREATE TABLE "generations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"request_id" text NOT NULL,
+	"generation_job_id" uuid,
+	"parent_generation_id" uuid,
+	"prompt" text NOT NULL,
+	"dalle_prompt" text NOT NULL,
+	"source_image_url" text NOT NULL,
+	"brand_kit_id" uuid,
+	"brand_kit_version" integer,
+	"template_name" text,
+	"platform" text,
+	"placement" text,
+	"image_urls" jsonb NOT NULL,
+	"variants" jsonb NOT NULL,
+	"copy" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"quality" text NOT NULL,
+	"tokens_used" integer NOT NULL,
+	"cost_usd" double precision NOT NULL,
+	"favorited_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "generations_request_id_unique" UNIQUE("request_id")
+);
+--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_generation_job_id_generation_jobs_id_fk" FOREIGN KEY ("generation_job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_parent_generation_id_generations_id_fk" FOREIGN KEY ("parent_generation_id") REFERENCES "public"."generations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_brand_kit_id_brand_profiles_id_fk" FOREIGN KEY ("brand_kit_id") REFERENCES "public"."brand_profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generations_user_created_idx" ON "generations" USING btree ("user_id","created_at");--> statement-breakpoint
+-- Backfill the library from completed background jobs (synchronous generations were never stored)
+INSERT INTO "generations" ("user_id", "request_id", "generation_job_id", "prompt", "dalle_prompt", "source_image_url", "brand_kit_id", "brand_kit_version", "template_name", "platform", "placement", "image_urls", "variants", "copy", "quality", "tokens_used", "cost_usd", "created_at")
+SELECT
+	j."user_id",
+	j."id"::text,
+	j."id",
+	j."input"->>'prompt',
+	COALESCE(j."result"->>'adDescription', ''),
+	j."input"->>'imageUrl',
+	(SELECT k."id" FROM "brand_profiles" k WHERE k."id"::text = j."result"->>'brandKitId'),
+	(j."result"->>'brandKitVersion')::integer,
+	j."result"->>'templateName',
+	j."result"->'outputSize'->>'platform',
+	j."result"->'outputSize'->>'placement',
+	COALESCE((SELECT jsonb_agg(v->'imageUrl') FROM jsonb_array_elements(j."result"->'variants') v), '[]'::jsonb),
+	COALESCE(j."result"->'variants', '[]'::jsonb),
+	COALESCE(j."result"->'copy', '[]'::jsonb),
+	CASE WHEN (j."input"->>'isHDQuality')::boolean THEN 'hd' ELSE 'standard' END,
+	COALESCE((j."result"->>'tokensUsed')::integer, 0),
+	COALESCE((j."result"->'tokenUsage'->>'totalCost')::double precision, 0),
+	COALESCE(j."completed_at", j."created_at")
+FROM "generation_jobs" j
+WHERE j."status" = 'completed' AND j."result" IS NOT NULL
+ON CONFLICT ("request_id") DO NOTHING;
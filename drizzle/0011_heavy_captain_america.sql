@@ -0,0 +1,20 @@
+CREATE TABLE "stripe_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" text DEFAULT 'received' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"processed_at" timestamp,
+	"replayed_at" timestamp
+);
+--> statement-breakpoint
+-- Purchases already credited more than once keep their balance effect but stop counting as purchases, so the index can be built
+UPDATE "token_ledger" SET "reason" = 'adjustment', "metadata" = COALESCE("metadata", '{}'::jsonb) || '{"duplicatePurchase": true}'::jsonb
+WHERE "reason" = 'purchase' AND "reference_id" IS NOT NULL AND "id" NOT IN (
+	SELECT DISTINCT ON ("reference_id") "id" FROM "token_ledger"
+	WHERE "reason" = 'purchase' AND "reference_id" IS NOT NULL
+	ORDER BY "reference_id", "created_at"
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "token_ledger_purchase_reference_unique" ON "token_ledger" USING btree ("reference_id") WHERE "token_ledger"."reason" = 'purchase';
\ No newline at end of file
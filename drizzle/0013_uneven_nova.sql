@@ -0,0 +1,28 @@
+CREATE TABLE "token_buckets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"reference_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"remaining" integer NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"expired_at" timestamp,
+	"expired_amount" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "token_reservations" ADD COLUMN "bucket_draws" jsonb;--> statement-breakpoint
+ALTER TABLE "token_buckets" ADD CONSTRAINT "token_buckets_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "token_buckets_user_expires_idx" ON "token_buckets" USING btree ("user_id","expires_at");--> statement-breakpoint
+-- Open buckets for purchases made in the last 28 days. What is left of the
+-- balance is assigned newest purchase first (older tokens were spent first);
+-- earlier purchases are treated as already used.
+INSERT INTO "token_buckets" ("user_id", "reference_id", "amount", "remaining", "expires_at", "created_at")
+SELECT "user_id", "reference_id", "amount", "remaining", "created_at" + interval '28 days', "created_at"
+FROM (
+	SELECT l."user_id", l."reference_id", l."amount", l."created_at",
+		greatest(0, least(l."amount", coalesce(u."tokens", 0)
+			- (sum(l."amount") OVER (PARTITION BY l."user_id" ORDER BY l."created_at" DESC, l."id" ROWS UNBOUNDED PRECEDING) - l."amount"))) AS "remaining"
+	FROM "token_ledger" l
+	JOIN "users" u ON u."id" = l."user_id"
+	WHERE l."reason" = 'purchase' AND l."reference_id" IS NOT NULL AND l."created_at" > now() - interval '28 days'
+) AS "recent_purchases";
@@ -0,0 +1,19 @@
+CREATE TABLE "subscriptions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"customer_id" text NOT NULL,
+	"plan_id" text NOT NULL,
+	"status" text NOT NULL,
+	"current_period_start" timestamp NOT NULL,
+	"current_period_end" timestamp NOT NULL,
+	"cancel_at_period_end" boolean DEFAULT false NOT NULL,
+	"allowance_plan_id" text,
+	"allowance_bucket_id" uuid,
+	"canceled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_allowance_bucket_id_token_buckets_id_fk" FOREIGN KEY ("allowance_bucket_id") REFERENCES "public"."token_buckets"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "subscriptions_user_idx" ON "subscriptions" USING btree ("user_id");
\ No newline at end of file
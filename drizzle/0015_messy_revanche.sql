@@ -0,0 +1 @@
+ALTER TABLE "subscriptions" ADD COLUMN "scheduled_plan_id" text;
\ No newline at end of file
@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BrandTemplateEditor } from '@/components/BrandTemplateEditor';
+import type { BrandTemplateView } from '@/lib/brand-templates';
+import { fetchAllBrandTemplates } from '@/lib/brand-templates-client';
+
+// The admin key only lives for the browser session
+const ADMIN_KEY_STORAGE = 'dekave.adminKey';
+
+/**
+ * Template administration: create, preview, clone and retire brand templates
+ * and choose each industry's default. Requests are authorized with the
+ * ADMIN_API_KEY the admin enters here.
+ */
+export default function AdminTemplatesPage() {
+  const [adminKey, setAdminKey] = useState<string | null>(null);
+  const [keyDraft, setKeyDraft] = useState('');
+  const [templates, setTemplates] = useState<BrandTemplateView[]>([]);
+  // A template ID, 'new', or null for nothing selected
+  const [selected, setSelected] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAdminKey(sessionStorage.getItem(ADMIN_KEY_STORAGE));
+  }, []);
+
+  useEffect(() => {
+    if (!adminKey) return;
+    let cancelled = false;
+    fetchAllBrandTemplates(adminKey)
+      .then(loaded => !cancelled && setTemplates(loaded))
+      .catch(loadError => {
+        if (cancelled) return;
+        // A rejected key is dropped so it can be entered again
+        sessionStorage.removeItem(ADMIN_KEY_STORAGE);
+        setAdminKey(null);
+        setError(loadError.message);
+      });
+    return () => { cancelled = true; };
+  }, [adminKey]);
+
+  const signIn = () => {
+    const key = keyDraft.trim();
+    if (!key) return;
+    sessionStorage.setItem(ADMIN_KEY_STORAGE, key);
+    setError(null);
+    setKeyDraft('');
+    setAdminKey(key);
+  };
+
+  // Saving can change other templates (a new default replaces the old one), so reload them all
+  const handleSaved = async (saved: BrandTemplateView) => {
+    setSelected(saved.id);
+    if (!adminKey) return;
+    try {
+      setTemplates(await fetchAllBrandTemplates(adminKey));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load templates');
+    }
+  };
+
+  if (!adminKey) {
+    return (
+      <main className="min-h-screen bg-black flex items-center justify-center p-4">
+        <div className="w-full max-w-sm flex flex-col gap-3">
+          <h1 className="text-lg font-semibold text-white">Template admin</h1>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <input
+            type="password"
+            value={keyDraft}
+            onChange={(e) => setKeyDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && signIn()}
+            placeholder="Admin key"
+            className="w-full bg-zinc-800/60 text-sm text-white rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-white/30"
+          />
+          <button
+            onClick={signIn}
+            className="rounded-full bg-white px-4 py-1.5 text-sm font-medium text-black hover:bg-zinc-200"
+          >
+            Continue
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  const selectedTemplate = templates.find(template => template.id === selected) ?? null;
+
+  return (
+    <main className="min-h-screen bg-black p-4 sm:p-8">
+      <div className="mx-auto max-w-5xl flex flex-col gap-4 sm:flex-row">
+        <aside className="sm:w-72 flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <h1 className="text-lg font-semibold text-white">Templates</h1>
+            <button
+              onClick={() => setSelected('new')}
+              className="rounded-full px-3 py-1 text-sm text-zinc-300 hover:text-white hover:bg-zinc-800"
+            >
+              New
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <ul className="flex flex-col gap-1">
+            {templates.map(template => (
+              <li key={template.id}>
+                <button
+                  onClick={() => setSelected(template.id)}
+                  className={`w-full text-left rounded-md px-3 py-2 text-sm ${
+                    template.id === selected ? 'bg-zinc-800 text-white' : 'text-zinc-300 hover:bg-zinc-900'
+                  } ${template.retiredAt ? 'opacity-50' : ''}`}
+                >
+                  <span className="block">{template.label}</span>
+                  <span className="flex flex-wrap gap-1 text-[10px] text-zinc-500">
+                    {template.industry ?? 'any industry'}
+                    {template.isDefault && <span className="rounded bg-emerald-500/20 px-1.5 text-emerald-300">Default</span>}
+                    {template.retiredAt && <span className="rounded bg-white/10 px-1.5 text-zinc-400">Retired</span>}
+                    {!template.profile && <span className="rounded bg-red-500/20 px-1.5 text-red-300">Unreadable</span>}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+
+        <section className="flex-1 rounded-2xl border border-zinc-700/50 bg-zinc-900 p-4">
+          {selected ? (
+            <BrandTemplateEditor
+              // Remount on selection so the form starts from the chosen template
+              key={selected}
+              adminKey={adminKey}
+              template={selectedTemplate}
+              onSaved={handleSaved}
+            />
+          ) : (
+            <p className="text-sm text-zinc-500">Pick a template to edit, or create a new one.</p>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import {
+  ACCOUNT_COOKIE,
+  ACCOUNT_COOKIE_MAX_AGE,
+  claimTemporaryAccount,
+  fromAccountCookie,
+  openSignedInAccount,
+  toAccountCookie
+} from '@/lib/accounts';
+import { ApiError } from '@/lib/api-error';
+import { rateLimit } from '@/lib/rate-limit';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+const limiter = rateLimit({
+  interval: 60 * 60 * 1000, // 1 hour
+  uniqueTokenPerInterval: 500,
+});
+
+// New temporary accounts one address may open per hour
+const ACCOUNTS_PER_ADDRESS_PER_HOUR = 3;
+
+/**
+ * Accounts API
+ *
+ * POST returns the user ID to use, opening its account on first use. With a
+ * Supabase session that is the signed-in user. Otherwise it is the
+ * temporary account named by the browser's account cookie, or a new one the
+ * server issues (and sets the cookie for). {fingerprint} identifies the
+ * device, which gets the initial token grant only once.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { fingerprint } = await req.json();
+
+    const supabase = createClient(await cookies());
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session?.user?.email) {
+      return NextResponse.json({ userId: await openSignedInAccount(session.user.id, session.user.email) });
+    }
+
+    if (typeof fingerprint !== 'string') {
+      return NextResponse.json(
+        { error: 'fingerprint is required' },
+        { status: 400 }
+      );
+    }
+
+    const address = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+    const cookieUserId = fromAccountCookie(req.cookies.get(ACCOUNT_COOKIE)?.value);
+    const claimedId = await claimTemporaryAccount(fingerprint, cookieUserId, async () => {
+      try {
+        await limiter.check(ACCOUNTS_PER_ADDRESS_PER_HOUR, `ACCOUNTS_${address}`);
+      } catch {
+        throw new ApiError('Too many new accounts. Please try again later.', 429);
+      }
+    });
+
+    const response = NextResponse.json({ userId: claimedId });
+    if (claimedId !== cookieUserId) {
+      response.cookies.set(ACCOUNT_COOKIE, toAccountCookie(claimedId), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: ACCOUNT_COOKIE_MAX_AGE
+      });
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error opening account:', error);
+    return NextResponse.json(
+      { error: 'Failed to open account' },
+      { status: 500 }
+    );
+  }
+}
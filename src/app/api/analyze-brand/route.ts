@@ -1,91 +1,145 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-// Initialize OpenAI client on the server side
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getBrandKit } from '@/lib/brand-kits';
+import {
+  BrandProfileError,
+  safeParseBrandProfile,
+  type BrandProfile,
+  type BrandSourceAnalysis
+} from '@/lib/brand-profile-schema';
+import {
+  analyzeBrandSource,
+  combineBrandSources,
+  parseBrandSourceInputs,
+  profileSources
+} from '@/lib/brand-sources';
+import { ApiError } from '@/lib/api-error';
+import {
+  BRAND_ANALYSIS_TOKEN_COST,
+  creditTokens,
+  debitTokens,
+  InsufficientTokensError,
+  requireTokenAccount
+} from '@/lib/token-ledger';
 
 export const maxDuration = 60; // Set max duration to 60 seconds for Vercel
 export const dynamic = 'force-dynamic'; // Disable static optimization
 
+/**
+ * Brand Analysis API
+ *
+ * Builds a brand profile from `sources` (product shots, logos, ads and
+ * guideline PDFs or text), or from a single `imageUrl`. With `brandKitId`
+ * the new inputs are combined with the ones that kit was built from. Each
+ * input analyzed costs BRAND_ANALYSIS_TOKEN_COST; inputs that can't be read
+ * are refunded.
+ */
 export async function POST(req: NextRequest) {
   try {
     // Parse request body
-    const { imageUrl, prompt } = await req.json();
+    const { imageUrl, sources, brandKitId, userId } = await req.json();
     
-    if (!imageUrl) {
+    if (!imageUrl && !sources) {
       return new NextResponse(
-        JSON.stringify({ error: 'Image URL is required' }),
+        JSON.stringify({ error: 'Image URL or sources are required' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
     
-    // Call OpenAI to analyze the brand image
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a brand identity expert who analyzes visual brand elements and extracts key characteristics. When creating JSON responses, use camelCase for field names (e.g., brandStyle, colorPalette), not snake_case."
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: `Analyze this brand image and extract key brand elements. Focus on:
-1. Overall brand style and aesthetic
-2. Color palette (provide as array of color descriptions)
-3. Key visual elements and symbols (provide as array)
-4. Mood and tone
-5. Target audience indicators
-6. Industry category
-
-Provide the analysis in a structured JSON format with these EXACT field names:
-{
-  "brandStyle": "string describing overall style",
-  "colorPalette": ["array of colors"],
-  "visualElements": ["array of elements"],
-  "moodAndTone": "string describing mood",
-  "targetAudience": "string describing audience",
-  "industryCategory": "string describing industry"
-}
-
-It's critical to use these exact camelCase field names.`
-            },
-            {
-              type: "image_url",
-              image_url: { url: imageUrl }
-            }
-          ]
-        }
-      ],
-      temperature: 0.5,
-      response_format: { type: "json_object" },
-      max_tokens: 500
+    if (!userId) {
+      return new NextResponse(
+        JSON.stringify({ error: 'User ID is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    const inputs = parseBrandSourceInputs(sources ?? [{ kind: 'product', name: 'Brand image', url: imageUrl }]);
+    
+    // Inputs the kit being extended was already built from
+    let previousSources: BrandSourceAnalysis[] = [];
+    if (brandKitId !== undefined) {
+      const kit = typeof brandKitId === 'string' ? await getBrandKit(userId, brandKitId) : null;
+      if (!kit) {
+        return new NextResponse(
+          JSON.stringify({ error: 'Brand kit not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      const kitProfile = safeParseBrandProfile(kit.profileData);
+      previousSources = kitProfile ? profileSources(kitProfile) : [];
+    }
+    
+    // Charge the fixed brand analysis cost per input against the server-side ledger
+    const cost = BRAND_ANALYSIS_TOKEN_COST * inputs.length;
+    try {
+      await requireTokenAccount(userId);
+      await debitTokens(userId, cost, { reason: 'brand_analysis', metadata: { sources: inputs.length } });
+    } catch (ledgerError) {
+      if (ledgerError instanceof InsufficientTokensError) {
+        return new NextResponse(
+          JSON.stringify({ error: 'Not enough tokens for brand analysis', tokensLeft: ledgerError.balance }),
+          { status: 402, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      throw ledgerError;
+    }
+    
+    const results = await Promise.allSettled(inputs.map(input => analyzeBrandSource(input)));
+    const analyses = results.flatMap(result => result.status === 'fulfilled' ? [result.value.analysis] : []);
+    const failed = inputs
+      .filter((_, index) => results[index].status === 'rejected')
+      .map(input => input.name);
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`Brand analysis of ${inputs[index].name} failed:`, result.reason);
+      }
     });
     
-    // Parse and return the response with field name transformation
-    const rawBrandProfile = JSON.parse(response.choices[0].message.content || "{}");
+    // Combine the inputs; the user isn't charged if they don't add up to a
+    // usable profile, or for the inputs that couldn't be read
+    let brandProfile: BrandProfile;
+    try {
+      if (analyses.length === 0) {
+        throw new BrandProfileError('No input could be analyzed', failed.map(name => `${name}: unreadable`));
+      }
+      brandProfile = combineBrandSources([...previousSources, ...analyses]);
+    } catch (combineError) {
+      const issues = combineError instanceof BrandProfileError ? combineError.issues : ['profile: could not be combined'];
+      console.warn('Unusable brand analysis from AI response:', issues);
+      const { balance } = await creditTokens(userId, cost, {
+        reason: 'adjustment',
+        metadata: { refund: 'brand_analysis', issues }
+      });
+      return new NextResponse(
+        JSON.stringify({
+          error: 'Could not read a complete brand profile from these inputs. Please try again with clearer brand images or guidelines.',
+          issues,
+          tokensLeft: balance
+        }),
+        { status: 422, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     
-    // Transform snake_case field names to camelCase to match our interface
-    const brandProfile = {
-      brandStyle: rawBrandProfile.overall_brand_style_aesthetic || rawBrandProfile.brandStyle,
-      colorPalette: rawBrandProfile.color_palette || rawBrandProfile.colorPalette || [],
-      visualElements: rawBrandProfile.key_visual_elements_symbols || rawBrandProfile.visualElements || [],
-      moodAndTone: rawBrandProfile.mood_tone || rawBrandProfile.moodAndTone,
-      targetAudience: rawBrandProfile.target_audience_indicators || rawBrandProfile.targetAudience,
-      industryCategory: rawBrandProfile.industry_category || rawBrandProfile.industryCategory
-    };
+    if (failed.length > 0) {
+      await creditTokens(userId, BRAND_ANALYSIS_TOKEN_COST * failed.length, {
+        reason: 'adjustment',
+        metadata: { refund: 'brand_analysis', failed }
+      });
+    }
     
-    console.log('Mapped brand profile from AI response:', brandProfile);
+    console.log('Combined brand profile from', analyses.length, 'new and', previousSources.length, 'earlier inputs');
     
     return new NextResponse(
       JSON.stringify(brandProfile),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return new NextResponse(
+        JSON.stringify({ error: error.message, ...error.details }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    
     console.error('Error in brand analysis:', error);
     return new NextResponse(
       JSON.stringify({ 
@@ -95,4 +149,4 @@ It's critical to use these exact camelCase field names.`
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
   }
-} 
\ No newline at end of file
+}
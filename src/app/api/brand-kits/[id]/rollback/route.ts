@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rollbackBrandKit, toBrandKitView } from '@/lib/brand-kits';
+import { ApiError } from '@/lib/api-error';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Brand Kit Rollback API
+ *
+ * POST makes an earlier version of the kit's profile current again. The old
+ * profile is stored as a new version, so the history is never rewritten.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId, version } = await req.json();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json(
+        { error: 'version must be a version number' },
+        { status: 400 }
+      );
+    }
+
+    const kit = await rollbackBrandKit(userId, id, version);
+    return NextResponse.json({ brandKit: toBrandKitView(kit) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error rolling back brand kit:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back brand kit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BRAND_PROFILE_VERSION_SOURCES,
+  getBrandKit,
+  MAX_BRAND_KIT_NAME_LENGTH,
+  MAX_VERSION_NOTE_LENGTH,
+  parseBrandKitName,
+  toBrandKitView,
+  updateBrandKit,
+  type BrandKitUpdate
+} from '@/lib/brand-kits';
+import { BrandProfileError, parseBrandProfile } from '@/lib/brand-profile-schema';
+import { ApiError } from '@/lib/api-error';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Brand Kit API
+ *
+ * GET returns one of the user's kits. PATCH renames it, replaces its profile
+ * (stored as the next version, with an optional `note` and a `profileSource`
+ * of 'edit' or 'analysis'), pins a version (`pinnedVersion`, null to unpin),
+ * archives or restores it (`archived`), or makes it the active kit (`active: true`).
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = new URL(req.url).searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const kit = await getBrandKit(userId, id);
+    if (!kit) {
+      return NextResponse.json(
+        { error: 'Brand kit not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ brandKit: toBrandKitView(kit) });
+  } catch (error) {
+    logger.error('Error fetching brand kit:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch brand kit' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const data = await req.json();
+
+    if (!data.userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const update: BrandKitUpdate = {};
+
+    if (data.name !== undefined) {
+      const name = parseBrandKitName(data.name);
+      if (!name) {
+        return NextResponse.json(
+          { error: `name must be 1 to ${MAX_BRAND_KIT_NAME_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      update.name = name;
+    }
+
+    if (data.profile !== undefined) {
+      update.profile = parseBrandProfile(data.profile);
+
+      // Rollbacks go through their own route so they always record their target
+      const profileSource = data.profileSource ?? 'edit';
+      if (profileSource === 'rollback' || !BRAND_PROFILE_VERSION_SOURCES.includes(profileSource)) {
+        return NextResponse.json(
+          { error: "profileSource must be 'edit' or 'analysis'" },
+          { status: 400 }
+        );
+      }
+      update.profileSource = profileSource;
+
+      if (data.note !== undefined) {
+        if (typeof data.note !== 'string' || data.note.trim().length > MAX_VERSION_NOTE_LENGTH) {
+          return NextResponse.json(
+            { error: `note must be at most ${MAX_VERSION_NOTE_LENGTH} characters` },
+            { status: 400 }
+          );
+        }
+        update.note = data.note.trim() || undefined;
+      }
+    }
+
+    if (data.pinnedVersion !== undefined) {
+      if (data.pinnedVersion !== null && (!Number.isInteger(data.pinnedVersion) || data.pinnedVersion < 1)) {
+        return NextResponse.json(
+          { error: 'pinnedVersion must be a version number or null' },
+          { status: 400 }
+        );
+      }
+      update.pinnedVersion = data.pinnedVersion;
+    }
+
+    if (data.archived !== undefined) {
+      if (typeof data.archived !== 'boolean') {
+        return NextResponse.json(
+          { error: 'archived must be true or false' },
+          { status: 400 }
+        );
+      }
+      update.archived = data.archived;
+    }
+
+    if (data.active !== undefined) {
+      if (data.active !== true) {
+        return NextResponse.json(
+          { error: 'active can only be set to true; activate another kit instead' },
+          { status: 400 }
+        );
+      }
+      update.active = true;
+    }
+
+    const kit = await updateBrandKit(data.userId, id, update);
+    return NextResponse.json({ brandKit: toBrandKitView(kit) });
+  } catch (error) {
+    if (error instanceof BrandProfileError) {
+      return NextResponse.json(
+        { error: 'profile must include brandStyle, colorPalette and moodAndTone', issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error updating brand kit:', error);
+    return NextResponse.json(
+      { error: 'Failed to update brand kit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listBrandKitVersions, toBrandProfileVersionView } from '@/lib/brand-kits';
+import { ApiError } from '@/lib/api-error';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Brand Kit Versions API
+ *
+ * GET returns every profile the kit has had, newest first.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = new URL(req.url).searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const versions = await listBrandKitVersions(userId, id);
+    return NextResponse.json({ versions: versions.map(toBrandProfileVersionView) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error listing brand kit versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list brand kit versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createBrandKit,
+  listBrandKits,
+  MAX_BRAND_KIT_NAME_LENGTH,
+  parseBrandKitName,
+  toBrandKitView
+} from '@/lib/brand-kits';
+import { BrandProfileError, parseBrandProfile } from '@/lib/brand-profile-schema';
+import { ApiError } from '@/lib/api-error';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Brand Kits API
+ *
+ * GET lists a user's brand kits (archived ones with ?includeArchived=true);
+ * POST creates a kit from a name and an analyzed brand profile.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const kits = await listBrandKits(userId, searchParams.get('includeArchived') === 'true');
+    return NextResponse.json({ brandKits: kits.map(toBrandKitView) });
+  } catch (error) {
+    logger.error('Error listing brand kits:', error);
+    return NextResponse.json(
+      { error: 'Failed to list brand kits' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId, name, profile, active } = await req.json();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const kitName = parseBrandKitName(name);
+    if (!kitName) {
+      return NextResponse.json(
+        { error: `name must be 1 to ${MAX_BRAND_KIT_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const kit = await createBrandKit(userId, kitName, parseBrandProfile(profile), active === true);
+    return NextResponse.json({ brandKit: toBrandKitView(kit) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BrandProfileError) {
+      return NextResponse.json(
+        { error: 'profile must include brandStyle, colorPalette and moodAndTone', issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error creating brand kit:', error);
+    return NextResponse.json(
+      { error: 'Failed to create brand kit' },
+      { status: 500 }
+    );
+  }
+}
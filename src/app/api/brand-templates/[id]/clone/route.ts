@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import {
+  cloneBrandTemplate,
+  MAX_TEMPLATE_LABEL_LENGTH,
+  parseTemplateLabel,
+  TEMPLATE_NAME_PATTERN,
+  toBrandTemplateView
+} from '@/lib/brand-templates';
+import { ApiError } from '@/lib/api-error';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Brand Template Clone API
+ *
+ * POST (admin only) copies a template under a new `name`, with an optional
+ * `label`, as a starting point for a variation. The copy is not a default.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    requireAdmin(req);
+    const { id } = await params;
+    const data = await req.json();
+
+    if (typeof data.name !== 'string' || !TEMPLATE_NAME_PATTERN.test(data.name)) {
+      return NextResponse.json(
+        { error: 'name must be 2 to 50 letters, digits or dashes, starting with a letter' },
+        { status: 400 }
+      );
+    }
+
+    let label: string | undefined;
+    if (data.label !== undefined) {
+      label = parseTemplateLabel(data.label) ?? undefined;
+      if (!label) {
+        return NextResponse.json(
+          { error: `label must be 1 to ${MAX_TEMPLATE_LABEL_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const template = await cloneBrandTemplate(id, data.name, label);
+    return NextResponse.json({ template: toBrandTemplateView(template) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error cloning brand template:', error);
+    return NextResponse.json(
+      { error: 'Failed to clone brand template' },
+      { status: 500 }
+    );
+  }
+}
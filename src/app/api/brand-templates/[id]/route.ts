@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import {
+  getBrandTemplate,
+  MAX_TEMPLATE_DESCRIPTION_LENGTH,
+  MAX_TEMPLATE_INDUSTRY_LENGTH,
+  MAX_TEMPLATE_LABEL_LENGTH,
+  parseTemplateIndustry,
+  parseTemplateLabel,
+  parseTemplateProfileInput,
+  toBrandTemplateView,
+  updateBrandTemplate,
+  type BrandTemplateUpdate
+} from '@/lib/brand-templates';
+import { ApiError } from '@/lib/api-error';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Brand Template API
+ *
+ * GET returns one template. PATCH (admin only) edits its label, description,
+ * industry or profile, makes it the default for its industry (`isDefault`),
+ * or retires or restores it (`retired`). Names can't change, since
+ * generations refer to templates by name.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const template = await getBrandTemplate(id);
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Brand template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ template: toBrandTemplateView(template) });
+  } catch (error) {
+    logger.error('Error fetching brand template:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch brand template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    requireAdmin(req);
+    const { id } = await params;
+    const data = await req.json();
+
+    const update: BrandTemplateUpdate = {};
+
+    if (data.label !== undefined) {
+      const label = parseTemplateLabel(data.label);
+      if (!label) {
+        return NextResponse.json(
+          { error: `label must be 1 to ${MAX_TEMPLATE_LABEL_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      update.label = label;
+    }
+
+    if (data.description !== undefined) {
+      if (typeof data.description !== 'string' || data.description.trim().length > MAX_TEMPLATE_DESCRIPTION_LENGTH) {
+        return NextResponse.json(
+          { error: `description must be at most ${MAX_TEMPLATE_DESCRIPTION_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      update.description = data.description.trim();
+    }
+
+    if (data.industry !== undefined) {
+      const industry = parseTemplateIndustry(data.industry);
+      if (industry === undefined) {
+        return NextResponse.json(
+          { error: `industry must be at most ${MAX_TEMPLATE_INDUSTRY_LENGTH} characters, or null for any industry` },
+          { status: 400 }
+        );
+      }
+      update.industry = industry;
+    }
+
+    if (data.profile !== undefined) {
+      update.profile = parseTemplateProfileInput(data.profile);
+    }
+
+    if (data.isDefault !== undefined) {
+      if (typeof data.isDefault !== 'boolean') {
+        return NextResponse.json(
+          { error: 'isDefault must be true or false' },
+          { status: 400 }
+        );
+      }
+      update.isDefault = data.isDefault;
+    }
+
+    if (data.retired !== undefined) {
+      if (typeof data.retired !== 'boolean') {
+        return NextResponse.json(
+          { error: 'retired must be true or false' },
+          { status: 400 }
+        );
+      }
+      update.retired = data.retired;
+    }
+
+    const template = await updateBrandTemplate(id, update);
+    return NextResponse.json({ template: toBrandTemplateView(template) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error updating brand template:', error);
+    return NextResponse.json(
+      { error: 'Failed to update brand template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { parseTemplateProfileInput, renderBrandTemplatePreview } from '@/lib/brand-templates';
+import { ApiError } from '@/lib/api-error';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Brand Template Preview API
+ *
+ * POST (admin only) renders sample copy with a template profile's typography
+ * and layout on a neutral backdrop, so a template can be checked before it is
+ * saved. `colorPalette` optionally previews it in a brand's hex colors.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    requireAdmin(req);
+    const data = await req.json();
+
+    const colorPalette = data.colorPalette ?? [];
+    if (!Array.isArray(colorPalette) || !colorPalette.every(color => typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color))) {
+      return NextResponse.json(
+        { error: 'colorPalette must be a list of hex colors' },
+        { status: 400 }
+      );
+    }
+
+    const imageUrl = await renderBrandTemplatePreview(parseTemplateProfileInput(data.profile), colorPalette);
+    return NextResponse.json({ imageUrl });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error rendering brand template preview:', error);
+    return NextResponse.json(
+      { error: 'Failed to render brand template preview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import {
+  createBrandTemplate,
+  listBrandTemplates,
+  MAX_TEMPLATE_DESCRIPTION_LENGTH,
+  MAX_TEMPLATE_INDUSTRY_LENGTH,
+  MAX_TEMPLATE_LABEL_LENGTH,
+  parseTemplateIndustry,
+  parseTemplateLabel,
+  parseTemplateProfileInput,
+  TEMPLATE_NAME_PATTERN,
+  toBrandTemplateView
+} from '@/lib/brand-templates';
+import { ApiError } from '@/lib/api-error';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Brand Templates API
+ *
+ * GET lists the templates users can pick (retired ones too with
+ * ?includeRetired=true, for admins). POST creates a template (admin only).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const includeRetired = new URL(req.url).searchParams.get('includeRetired') === 'true';
+    if (includeRetired) {
+      requireAdmin(req);
+    }
+
+    const templates = await listBrandTemplates(includeRetired);
+    return NextResponse.json({ templates: templates.map(toBrandTemplateView) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error listing brand templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to list brand templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    requireAdmin(req);
+    const data = await req.json();
+
+    if (typeof data.name !== 'string' || !TEMPLATE_NAME_PATTERN.test(data.name)) {
+      return NextResponse.json(
+        { error: 'name must be 2 to 50 letters, digits or dashes, starting with a letter' },
+        { status: 400 }
+      );
+    }
+
+    const label = parseTemplateLabel(data.label);
+    if (!label) {
+      return NextResponse.json(
+        { error: `label must be 1 to ${MAX_TEMPLATE_LABEL_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const description = data.description ?? '';
+    if (typeof description !== 'string' || description.trim().length > MAX_TEMPLATE_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `description must be at most ${MAX_TEMPLATE_DESCRIPTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const industry = parseTemplateIndustry(data.industry ?? null);
+    if (industry === undefined) {
+      return NextResponse.json(
+        { error: `industry must be at most ${MAX_TEMPLATE_INDUSTRY_LENGTH} characters, or null for any industry` },
+        { status: 400 }
+      );
+    }
+
+    if (data.isDefault !== undefined && typeof data.isDefault !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isDefault must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const template = await createBrandTemplate({
+      name: data.name,
+      label,
+      description: description.trim(),
+      industry,
+      profile: parseTemplateProfileInput(data.profile),
+      isDefault: data.isDefault
+    });
+    return NextResponse.json({ template: toBrandTemplateView(template) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error creating brand template:', error);
+    return NextResponse.json(
+      { error: 'Failed to create brand template' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,11 +2,8 @@ import { NextResponse } from 'next/server';
 import { rateLimit } from '@/lib/rate-limit';
 import { createClient } from '@/lib/supabase/server';
 import { cookies } from 'next/headers';
-
-declare function mcp_stripe_create_payment_link(params: {
-  price: string;
-  quantity: number;
-}): Promise<{ url: string }>;
+import { createCheckoutSession } from '@/lib/stripe';
+import { TOKEN_PACKAGES } from '@/lib/stripe/constants';
 
 const limiter = rateLimit({
   interval: 60 * 1000, // 60 seconds
@@ -40,9 +37,10 @@ export async function POST(request: Request) {
 
     // Parse request body
     const body = await request.json();
-    const { priceId, email, userId, packageId } = body;
+    const { userId, packageId } = body;
+    const email = session.user.email;
 
-    if (!priceId || !email || !userId || !packageId) {
+    if (!userId || !packageId || !email) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -57,13 +55,33 @@ export async function POST(request: Request) {
       );
     }
 
-    // Create payment link using MCP Stripe tool
-    const paymentLink = await mcp_stripe_create_payment_link({
-      price: priceId,
-      quantity: 1
-    });
+    const packageDetails = TOKEN_PACKAGES[packageId as keyof typeof TOKEN_PACKAGES];
+    if (!packageDetails) {
+      return NextResponse.json(
+        { error: 'Invalid package selected' },
+        { status: 400 }
+      );
+    }
+
+    // Checkout returns to the success page, which verifies the session
+    const origin = request.headers.get('origin') || 'http://localhost:3000';
+    const url = await createCheckoutSession(
+      email,
+      `${origin}/success?session_id={CHECKOUT_SESSION_ID}`,
+      `${origin}/`,
+      userId,
+      packageId,
+      packageDetails
+    );
+
+    if (!url) {
+      return NextResponse.json(
+        { error: 'Failed to create payment link' },
+        { status: 500 }
+      );
+    }
 
-    return NextResponse.json({ url: paymentLink.url });
+    return NextResponse.json({ url });
   } catch (error) {
     console.error('Error creating payment link:', error);
     return NextResponse.json(
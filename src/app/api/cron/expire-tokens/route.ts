@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCron } from '@/lib/admin';
+import { ApiError } from '@/lib/api-error';
+import { failStaleGenerationJobs } from '@/lib/generation-jobs';
+import { expireTokenBuckets, releaseStaleReservations } from '@/lib/token-ledger';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Token Expiry Sweep
+ *
+ * GET (scheduled by Vercel Cron, authorized by CRON_SECRET) removes the
+ * tokens left in purchased buckets past their expiry date. Spending and
+ * balance reads expire a user's own buckets too, so a late run never lets
+ * anyone spend expired tokens.
+ *
+ * The same run (every 10 minutes) fails generation jobs whose run was killed
+ * before it finished, and releases token reservations left unsettled by
+ * killed generations and edits.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireCron(req);
+
+    const expired = await expireTokenBuckets();
+    const failedJobs = await failStaleGenerationJobs();
+    const released = await releaseStaleReservations();
+    logger.info('Token expiry sweep finished', { ...expired, failedJobs, released });
+
+    return NextResponse.json({ ...expired, failedJobs, released });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error expiring tokens:', error);
+    return NextResponse.json(
+      { error: 'Failed to expire tokens' },
+      { status: 500 }
+    );
+  }
+}
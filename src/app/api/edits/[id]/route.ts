@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEditLineage } from '@/lib/image-edits';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Image Edit History API
+ *
+ * Returns one of {userId}'s edits together with the chain of edits it was
+ * derived from, nearest first, ending at the edit made directly on the
+ * generated ad
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = req.nextUrl.searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const lineage = await getEditLineage(userId, id);
+
+    if (lineage.length === 0) {
+      return NextResponse.json(
+        { error: 'Edit not found' },
+        { status: 404 }
+      );
+    }
+
+    const [edit, ...ancestors] = lineage;
+    return NextResponse.json({
+      edit,
+      ancestors,
+      generationJobId: edit.generationJobId
+    });
+  } catch (error) {
+    logger.error('Error fetching image edit:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch image edit' },
+      { status: 500 }
+    );
+  }
+}
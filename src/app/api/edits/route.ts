@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api-error';
+import { runImageEdit } from '@/lib/image-edits';
+import logger from '@/lib/logger';
+
+export const maxDuration = 60; // Set max duration to 60 seconds (1 minutes) for Vercel
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Image Edit API
+ *
+ * Revises a generated ad from an instruction and an optional mask
+ * (transparent pixels mark the area to repaint). The new image is linked to
+ * the generation job or edit it came from.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const data = await req.json();
+    const { userId, imageUrl, instruction, maskUrl, generationJobId, parentEditId } = data;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!imageUrl) {
+      return NextResponse.json(
+        { error: 'Image URL is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!instruction || typeof instruction !== 'string' || !instruction.trim()) {
+      return NextResponse.json(
+        { error: 'Edit instruction is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await runImageEdit({
+      userId,
+      imageUrl,
+      instruction: instruction.trim(),
+      maskUrl: maskUrl || undefined,
+      generationJobId: generationJobId || undefined,
+      parentEditId: parentEditId || undefined
+    });
+
+    return NextResponse.json({
+      edit: {
+        id: result.edit.id,
+        imageUrl: result.edit.imageUrl,
+        instruction: result.edit.instruction,
+        masked: result.edit.masked,
+        generationJobId: result.edit.generationJobId,
+        parentEditId: result.edit.parentEditId,
+        createdAt: result.edit.createdAt
+      },
+      tokensUsed: result.tokensUsed,
+      tokensLeft: result.tokensLeft
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error editing image:', error);
+    return NextResponse.json(
+      { error: 'Failed to edit image' },
+      { status: 500 }
+    );
+  }
+}
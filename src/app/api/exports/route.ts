@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildExportPack } from '@/lib/export-pack';
+import { ApiError } from '@/lib/api-error';
+import { rateLimit } from '@/lib/rate-limit';
+import { requireTokenAccount } from '@/lib/token-ledger';
+import logger from '@/lib/logger';
+
+export const maxDuration = 60; // Set max duration to 60 seconds (1 minutes) for Vercel
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+const limiter = rateLimit({
+  interval: 60 * 1000, // 1 minute
+  uniqueTokenPerInterval: 500,
+});
+
+// Packs one user may build per minute; they are free, so this bounds the work
+const EXPORTS_PER_USER_PER_MINUTE = 5;
+
+/**
+ * Export Pack API
+ *
+ * Resizes an ad to every platform placement and returns the files as a ZIP
+ * with a manifest.json describing each file and its source generation.
+ * Only for existing accounts, and rate-limited per user.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const data = await req.json();
+    const { userId, imageUrl, generationJobId, editId } = data;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!imageUrl) {
+      return NextResponse.json(
+        { error: 'Image URL is required' },
+        { status: 400 }
+      );
+    }
+
+    await requireTokenAccount(userId);
+    try {
+      await limiter.check(EXPORTS_PER_USER_PER_MINUTE, `EXPORTS_${userId}`);
+    } catch {
+      throw new ApiError('Too many exports. Please try again in a minute.', 429);
+    }
+
+    const { zip, manifest } = await buildExportPack({
+      userId,
+      imageUrl,
+      generationJobId: generationJobId || undefined,
+      editId: editId || undefined
+    });
+
+    const name = manifest.source.editId || manifest.source.generationJobId || Date.now().toString();
+    return new NextResponse(zip, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="ad-export-${name}.zip"`,
+        'Content-Length': zip.length.toString()
+      }
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error building export pack:', error);
+    return NextResponse.json(
+      { error: 'Failed to build export pack' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getGeneration,
+  setGenerationFavorite,
+  toGenerationDetailView,
+  toGenerationView
+} from '@/lib/generation-history';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Generation API
+ *
+ * GET returns one of the user's generations with the product image it was
+ * made from, for re-opening it in the chat. PATCH marks it as a favorite or
+ * unmarks it (`favorite`).
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = new URL(req.url).searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const generation = await getGeneration(userId, id);
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ generation: toGenerationDetailView(generation) });
+  } catch (error) {
+    logger.error('Error fetching generation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch generation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId, favorite } = await req.json();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof favorite !== 'boolean') {
+      return NextResponse.json(
+        { error: 'favorite must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const generation = await setGenerationFavorite(userId, id, favorite);
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ generation: toGenerationView(generation) });
+  } catch (error) {
+    logger.error('Error updating generation:', error);
+    return NextResponse.json(
+      { error: 'Failed to update generation' },
+      { status: 500 }
+    );
+  }
+}
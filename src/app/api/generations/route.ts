@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DEFAULT_LIBRARY_PAGE_SIZE,
+  listGenerations,
+  MAX_LIBRARY_PAGE_SIZE,
+  MAX_LIBRARY_QUERY_LENGTH,
+  toGenerationView
+} from '@/lib/generation-history';
+import { isUuid } from '@/lib/generation-jobs';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+// A date query parameter: undefined when absent, null when it isn't a date
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Generations API
+ *
+ * GET lists a user's past generations, newest first. `q` searches the prompts;
+ * `brandKitId`, `platform`, `from`/`to` (dates) and `favorites=true` filter
+ * them. Pages hold `limit` generations; pass the response's `nextCursor` as
+ * `before` for the next page.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const query = searchParams.get('q')?.trim() || undefined;
+    if (query && query.length > MAX_LIBRARY_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `q must be at most ${MAX_LIBRARY_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const brandKitId = searchParams.get('brandKitId') || undefined;
+    if (brandKitId && !isUuid(brandKitId)) {
+      return NextResponse.json(
+        { error: 'brandKitId must be the ID of one of your brand kits' },
+        { status: 400 }
+      );
+    }
+
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'from and to must be dates' },
+        { status: 400 }
+      );
+    }
+
+    const before = searchParams.get('before') || undefined;
+    if (before && !isUuid(before)) {
+      return NextResponse.json(
+        { error: 'before must be a nextCursor returned by this API' },
+        { status: 400 }
+      );
+    }
+
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_LIBRARY_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIBRARY_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be a whole number from 1 to ${MAX_LIBRARY_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const generations = await listGenerations(userId, {
+      query,
+      brandKitId,
+      platform: searchParams.get('platform') || undefined,
+      from,
+      to,
+      favoritesOnly: searchParams.get('favorites') === 'true',
+      before,
+      limit
+    });
+
+    // A full page may have more after it
+    const nextCursor = generations.length === limit
+      ? generations[generations.length - 1].id
+      : null;
+
+    return NextResponse.json({ generations: generations.map(toGenerationView), nextCursor });
+  } catch (error) {
+    logger.error('Error listing generations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list generations' },
+      { status: 500 }
+    );
+  }
+}
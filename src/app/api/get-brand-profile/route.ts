@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { getActiveBrandKit } from '@/lib/brand-kits';
+import { safeParseBrandProfile } from '@/lib/brand-profile-schema';
 
 // Helper function to safely parse cookie values
 const parseCookie = (cookieValue: string | undefined): any => {
@@ -28,13 +29,14 @@ export async function GET(req: NextRequest) {
       );
     }
     
-    // Try to get the profile from cookies first (temporary solution)
+    // Try to get the profile from cookies first
     const cookies = req.cookies;
     const profileCookie = cookies.get(`brand_profile_${userId}`)?.value;
     
     if (profileCookie) {
-      try {
-        const profile = parseCookie(profileCookie);
+      // Cookies may hold an older profile version; migrate it like stored profiles
+      const profile = safeParseBrandProfile(parseCookie(profileCookie));
+      if (profile) {
         console.log(`Retrieved brand profile for user ${userId} from cookie`);
         
         return new NextResponse(
@@ -44,52 +46,16 @@ export async function GET(req: NextRequest) {
           }),
           { status: 200, headers: { 'Content-Type': 'application/json' } }
         );
-      } catch (cookieError) {
-        console.error('Error parsing profile cookie:', cookieError);
-        // Continue to try Supabase as fallback
       }
+      console.warn('Ignoring unreadable brand profile cookie');
     }
     
-    // For now, return null if not found in cookie
-    // We'll reimplement Supabase later when JWT issues are fixed
-    console.log(`No brand profile found for user ${userId} in cookies`);
-    return new NextResponse(
-      JSON.stringify({ profile: null }),
-      { status: 404, headers: { 'Content-Type': 'application/json' } }
-    );
-    
-    /* Supabase implementation - uncomment when JWT issues are fixed
-    // Initialize Supabase client
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    );
-    
-    // Get brand profile for this user
-    const { data, error } = await supabase
-      .from('user_brand_profiles')
-      .select('profile')
-      .eq('user_id', userId)
-      .single();
-    
-    if (error) {
-      // If no profile found for this user
-      if (error.code === 'PGRST116') {
-        return new NextResponse(
-          JSON.stringify({ profile: null }),
-          { status: 404, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      console.error('Error retrieving brand profile from Supabase:', error);
-      
-      return new NextResponse(
-        JSON.stringify({ error: `Failed to retrieve profile: ${error.message}` }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
+    // Otherwise use the profile of the user's active brand kit
+    const kit = await getActiveBrandKit(userId);
+    const profile = kit ? safeParseBrandProfile(kit.profileData) : null;
     
-    if (!data || !data.profile) {
+    if (!kit || !profile) {
+      console.log(`No brand profile found for user ${userId}`);
       return new NextResponse(
         JSON.stringify({ profile: null }),
         { status: 404, headers: { 'Content-Type': 'application/json' } }
@@ -97,10 +63,9 @@ export async function GET(req: NextRequest) {
     }
     
     return new NextResponse(
-      JSON.stringify({ profile: data.profile }),
+      JSON.stringify({ profile, source: 'brand_kit', brandKitId: kit.id }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
-    */
   } catch (error) {
     console.error('Error retrieving brand profile:', error);
     
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGenerationJob, isFinishedJob, toJobView } from '@/lib/generation-jobs';
+import logger from '@/lib/logger';
+
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Close slightly before maxDuration; EventSource reconnects and replays the stages
+const STREAM_LIFETIME_MS = (maxDuration - 10) * 1000;
+
+/**
+ * Generation Job Events API (Server-Sent Events)
+ *
+ * Streams a `stage` event for every processRequest stage the job completes,
+ * `status` events when the job status changes, and finally a `completed` or
+ * `failed` event carrying the job before the stream closes. Only {userId}'s
+ * jobs are streamed. The job is read from the database, so the stream works
+ * from any server instance.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const userId = req.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  const initialJob = await getGenerationJob(userId, id);
+
+  if (!initialJob) {
+    return NextResponse.json(
+      { error: 'Job not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+  // Set once the client disconnects; the controller can't be written or closed after that
+  let cancelled = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let sentStages = 0;
+      let lastStatus: string | null = null;
+      let lastHeartbeat = Date.now();
+      const isOpen = () => !cancelled && !req.signal.aborted;
+
+      const write = (chunk: string) => {
+        if (isOpen()) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      let job = initialJob;
+      try {
+        while (isOpen()) {
+          for (const stage of job.stages.slice(sentStages)) {
+            send('stage', stage);
+          }
+          sentStages = job.stages.length;
+
+          if (job.status !== lastStatus) {
+            lastStatus = job.status;
+            send('status', { status: job.status });
+          }
+
+          if (isFinishedJob(job)) {
+            send(job.status, toJobView(job));
+            break;
+          }
+
+          if (Date.now() - startedAt > STREAM_LIFETIME_MS) {
+            break;
+          }
+
+          if (Date.now() - lastHeartbeat > HEARTBEAT_INTERVAL_MS) {
+            write(': heartbeat\n\n');
+            lastHeartbeat = Date.now();
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+          const latest = await getGenerationJob(userId, id);
+          if (!latest) {
+            send('failed', { id, error: 'Job not found' });
+            break;
+          }
+          job = latest;
+        }
+      } catch (error) {
+        // Closing lets the client's EventSource reconnect and resume
+        logger.error('Error streaming generation job events:', error);
+      } finally {
+        if (isOpen()) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
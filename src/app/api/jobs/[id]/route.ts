@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGenerationJob, toJobView } from '@/lib/generation-jobs';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Generation Job Status API
+ *
+ * Returns the current status, completed stages and (once finished) the
+ * result or error of one of {userId}'s generation jobs
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = req.nextUrl.searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getGenerationJob(userId, id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job: toJobView(job) });
+  } catch (error) {
+    logger.error('Error fetching generation job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch generation job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { assertGenerationAllowed, calculateTokenCost, parseGenerationRequest } from '@/lib/generation';
+import { ApiError } from '@/lib/api-error';
+import { resolveBrandKit } from '@/lib/brand-kits';
+import { resolveBrandTemplate } from '@/lib/brand-templates';
+import { getGeneration } from '@/lib/generation-history';
+import { createGenerationJob, runGenerationJob, toJobView } from '@/lib/generation-jobs';
+import { getTokenBalance, requireTokenAccount } from '@/lib/token-ledger';
+import logger from '@/lib/logger';
+
+// The job keeps running after the response is sent, within this route's duration limit
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Submit Generation Job API
+ *
+ * Queues an ad generation and returns immediately with the job ID. Progress
+ * is available from GET /api/jobs/:id and the SSE stream at /api/jobs/:id/events
+ * (both scoped with ?userId=).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const input = parseGenerationRequest(await req.json());
+    const { userId, prompt, isHDQuality, referenceAdUrls, variantCount, templateName, brandKitId, parentGenerationId } = input;
+
+    // The job would fail on an unknown kit, template or parent, so reject them before queueing
+    const brandKit = await resolveBrandKit(userId, brandKitId);
+    if (templateName) {
+      await resolveBrandTemplate(templateName);
+    }
+    if (parentGenerationId && !(await getGeneration(userId, parentGenerationId))) {
+      return NextResponse.json(
+        { error: 'Parent generation not found' },
+        { status: 404 }
+      );
+    }
+
+    await assertGenerationAllowed(userId);
+
+    // Reject up front if the user can't afford it; the job reserves the tokens itself
+    const tokenCost = calculateTokenCost(prompt, isHDQuality, referenceAdUrls.length, variantCount, Boolean(brandKit)).total;
+    await requireTokenAccount(userId);
+    const balance = await getTokenBalance(userId);
+    if (balance < tokenCost) {
+      return NextResponse.json(
+        { error: 'Not enough tokens for this generation', tokensRequired: tokenCost, tokensLeft: balance },
+        { status: 402 }
+      );
+    }
+
+    const job = await createGenerationJob(input);
+
+    // Run the generation once the response has been sent
+    after(() => runGenerationJob(job.id));
+
+    return NextResponse.json(
+      {
+        job: toJobView(job),
+        statusUrl: `/api/jobs/${job.id}?userId=${encodeURIComponent(userId)}`,
+        eventsUrl: `/api/jobs/${job.id}/events?userId=${encodeURIComponent(userId)}`
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error submitting generation job:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit generation job' },
+      { status: 500 }
+    );
+  }
+}
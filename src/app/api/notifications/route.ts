@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listNotifications, markNotificationsRead, toNotificationView } from '@/lib/notifications';
+import { isUuid } from '@/lib/generation-jobs';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Notifications API
+ *
+ * GET lists a user's account notifications, newest first (`unread=true` for
+ * only the unread ones). PATCH marks the notifications in `ids`, or all of
+ * them when `ids` is omitted, as read.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = req.nextUrl.searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const notifications = await listNotifications(userId, {
+      unreadOnly: req.nextUrl.searchParams.get('unread') === 'true'
+    });
+
+    return NextResponse.json({ notifications: notifications.map(toNotificationView) });
+  } catch (error) {
+    logger.error('Error listing notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to list notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const { userId, ids } = await req.json();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string' && isUuid(id)))) {
+      return NextResponse.json(
+        { error: 'ids must be a list of notification IDs' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await markNotificationsRead(userId, ids);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    logger.error('Error updating notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
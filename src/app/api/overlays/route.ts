@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isOverlayDocument } from '@/lib/ad-compositor';
+import { renderOverlayDocument } from '@/lib/ai-processing';
+import { ApiError } from '@/lib/api-error';
+import { getGeneration } from '@/lib/generation-history';
+import { rateLimit } from '@/lib/rate-limit';
+import logger from '@/lib/logger';
+
+export const maxDuration = 60; // Set max duration to 60 seconds (1 minutes) for Vercel
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+const limiter = rateLimit({
+  interval: 60 * 1000, // 1 minute
+  uniqueTokenPerInterval: 500,
+});
+
+// Renders one user may request per minute; they are free, so this bounds the work
+const RENDERS_PER_USER_PER_MINUTE = 20;
+
+/**
+ * Overlay Render API
+ *
+ * Re-renders an ad from an edited layer description (as returned with each
+ * generated variant), so copy, colors and positions can be changed without
+ * regenerating the underlying image. The description must be for a variant of
+ * {generationId}, one of {userId}'s generations: its base image and logos
+ * can't be swapped for other images.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const data = await req.json();
+    const { userId, generationId, overlay } = data;
+
+    if (!userId || typeof generationId !== 'string') {
+      return NextResponse.json(
+        { error: 'User ID and generationId are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isOverlayDocument(overlay)) {
+      return NextResponse.json(
+        { error: 'overlay must be a layer description returned by a generation' },
+        { status: 400 }
+      );
+    }
+
+    const generation = await getGeneration(userId, generationId);
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      );
+    }
+
+    const variant = generation.variants.find(candidate => candidate.overlay?.baseImageUrl === overlay.baseImageUrl);
+    const logoUrls = new Set(
+      variant?.overlay?.layers.flatMap(layer => layer.type === 'logo' ? [layer.url] : []) ?? []
+    );
+    if (!variant || !overlay.layers.every(layer => layer.type !== 'logo' || logoUrls.has(layer.url))) {
+      return NextResponse.json(
+        { error: 'overlay must use the images of one of the generation\'s variants' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await limiter.check(RENDERS_PER_USER_PER_MINUTE, `OVERLAYS_${userId}`);
+    } catch {
+      throw new ApiError('Too many overlay renders. Please try again in a minute.', 429);
+    }
+
+    const imageUrl = await renderOverlayDocument(overlay);
+
+    return NextResponse.json({ imageUrl, overlay });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error rendering overlay:', error);
+    return NextResponse.json(
+      { error: 'Failed to render overlay' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { BrandProfile } from '@/lib/brand-profile';
-
-// Initialize Supabase client on the server side
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { saveProfileToBrandKit, toBrandKitView } from '@/lib/brand-kits';
+import { BrandProfileError, parseBrandProfile } from '@/lib/brand-profile-schema';
+import { ApiError } from '@/lib/api-error';
 
 export const dynamic = 'force-dynamic'; // Disable static optimization
 
 export async function POST(req: NextRequest) {
   try {
     // Parse request body
-    const { userId, profile } = await req.json();
+    const { userId, profile, brandKitId } = await req.json();
     
     if (!userId) {
       return new NextResponse(
@@ -29,64 +24,33 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // Validate profile has required fields
-    if (!profile.brandStyle || !profile.colorPalette || !profile.moodAndTone) {
+    // Validate profile has required fields (older profile versions are migrated)
+    let brandProfile;
+    try {
+      brandProfile = parseBrandProfile(profile);
+    } catch (validationError) {
+      if (!(validationError instanceof BrandProfileError)) throw validationError;
       return new NextResponse(
-        JSON.stringify({ error: 'Incomplete brand profile' }),
+        JSON.stringify({ error: 'Incomplete brand profile', issues: validationError.issues }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
     
-    // Ensure required schema exists
-    try {
-      // Check if table exists
-      const { error: checkError } = await supabase
-        .from('user_brand_profiles')
-        .select('id')
-        .limit(1);
-      
-      // If table doesn't exist, we need to create it
-      if (checkError && checkError.code === '42P01') { // PostgreSQL code for undefined_table
-        console.log('Table user_brand_profiles does not exist, creating...');
-        
-        // Create the table (this would typically be done through migrations)
-        const { error: createError } = await supabase.rpc('create_brand_profiles_table');
-        
-        if (createError) {
-          console.error('Error creating table:', createError);
-          // Continue anyway, the table might be created by another request
-        }
-      }
-    } catch (schemaError) {
-      console.error('Error checking schema:', schemaError);
-      // Continue anyway, as the table might exist
-    }
-    
-    // Upsert brand profile for this user
-    const { error } = await supabase
-      .from('user_brand_profiles')
-      .upsert({
-        user_id: userId,
-        profile: profile,
-        updated_at: new Date().toISOString()
-      }, {
-        onConflict: 'user_id'
-      });
-    
-    if (error) {
-      console.error('Error saving brand profile to Supabase:', error);
-      
-      return new NextResponse(
-        JSON.stringify({ error: `Failed to save profile: ${error.message}` }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
+    // Store into the named kit, the active kit, or a new one
+    const kit = await saveProfileToBrandKit(userId, brandProfile, brandKitId || undefined);
     
     return new NextResponse(
-      JSON.stringify({ success: true }),
+      JSON.stringify({ success: true, brandKit: toBrandKitView(kit) }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return new NextResponse(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    
     console.error('Error saving brand profile:', error);
     
     return new NextResponse(
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { ApiError } from '@/lib/api-error';
+import {
+  getStripeEvent,
+  processStripeEvent,
+  StripeEventError,
+  toStripeEventView
+} from '@/lib/stripe/events';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Stripe Event Replay API
+ *
+ * POST (admin only) re-processes a stored webhook event, for support cases
+ * such as a purchase that failed because its user didn't exist yet. Replays
+ * are safe on processed events: purchases are never credited twice.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    requireAdmin(req);
+    const { id } = await params;
+
+    if (!(await getStripeEvent(id))) {
+      return NextResponse.json(
+        { error: 'Stripe event not found' },
+        { status: 404 }
+      );
+    }
+
+    const { event } = await processStripeEvent(id, { replay: true });
+    return NextResponse.json({ event: toStripeEventView(event) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    // The failure is recorded on the event; return it so support can see what went wrong
+    if (error instanceof StripeEventError) {
+      const { id } = await params;
+      const event = await getStripeEvent(id);
+      return NextResponse.json(
+        { error: error.message, event: event && toStripeEventView(event) },
+        { status: 422 }
+      );
+    }
+
+    logger.error('Error replaying Stripe event:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay Stripe event' },
+      { status: 500 }
+    );
+  }
+}
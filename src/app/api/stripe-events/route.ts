@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { ApiError } from '@/lib/api-error';
+import {
+  listStripeEvents,
+  STRIPE_EVENT_STATUSES,
+  toStripeEventView,
+  type StripeEventStatus
+} from '@/lib/stripe/events';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Stripe Events API
+ *
+ * GET (admin only) lists the most recently received webhook events, e.g.
+ * `?status=failed` for the ones support may need to replay.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireAdmin(req);
+    const status = new URL(req.url).searchParams.get('status') || undefined;
+
+    if (status !== undefined && !STRIPE_EVENT_STATUSES.includes(status as StripeEventStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STRIPE_EVENT_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const events = await listStripeEvents(status as StripeEventStatus | undefined);
+    return NextResponse.json({ events: events.map(toStripeEventView) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error listing Stripe events:', error);
+    return NextResponse.json(
+      { error: 'Failed to list Stripe events' },
+      { status: 500 }
+    );
+  }
+}
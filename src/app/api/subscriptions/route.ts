@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api-error';
+import { SUBSCRIPTION_PLANS } from '@/lib/stripe/constants';
+import {
+  changeSubscriptionPlan,
+  createSubscriptionCheckout,
+  getCurrentSubscription,
+  setSubscriptionCancellation,
+  toSubscriptionView,
+  type SubscriptionAction
+} from '@/lib/stripe/subscriptions';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+const SUBSCRIPTION_ACTIONS: SubscriptionAction[] = ['change', 'cancel', 'resume'];
+
+// The signed-in user, or an error response when it isn't `userId`
+async function requireSessionUser(userId: string): Promise<{ email?: string } | NextResponse> {
+  const supabase = createClient(await cookies());
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (session.user.id !== userId) {
+    return NextResponse.json({ error: 'User ID mismatch' }, { status: 403 });
+  }
+  return { email: session.user.email };
+}
+
+function errorResponse(error: unknown, fallbackError: string) {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: error.message, ...error.details },
+      { status: error.status }
+    );
+  }
+
+  logger.error(`${fallbackError}:`, error);
+  return NextResponse.json(
+    { error: fallbackError },
+    { status: 500 }
+  );
+}
+
+/**
+ * Subscriptions API
+ *
+ * GET lists the plans and the user's current subscription (null without
+ * one). POST {userId, planId} starts a subscription and returns the Stripe
+ * Checkout URL. PATCH {userId, action, planId?} changes the plan
+ * (`change`), cancels at the end of the period (`cancel`) or undoes a
+ * pending cancellation (`resume`). POST and PATCH need the user's session.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = req.nextUrl.searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const subscription = await getCurrentSubscription(userId);
+    return NextResponse.json({
+      plans: Object.values(SUBSCRIPTION_PLANS),
+      subscription: subscription ? toSubscriptionView(subscription) : null
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load subscription');
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId, planId } = await req.json();
+
+    if (!userId || !planId) {
+      return NextResponse.json(
+        { error: 'User ID and plan ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await requireSessionUser(userId);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+    if (!user.email) {
+      return NextResponse.json(
+        { error: 'An email address is required to subscribe' },
+        { status: 400 }
+      );
+    }
+
+    // Stripe sends the user back to the plan screen, which picks up the new plan from the webhook
+    const origin = req.headers.get('origin') || 'http://localhost:3000';
+    const url = await createSubscriptionCheckout(
+      userId,
+      user.email,
+      planId,
+      `${origin}/plans?checkout=success`,
+      `${origin}/plans`
+    );
+
+    return NextResponse.json({ url });
+  } catch (error) {
+    return errorResponse(error, 'Failed to start subscription');
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const { userId, action, planId } = await req.json();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!SUBSCRIPTION_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of ${SUBSCRIPTION_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'change' && !planId) {
+      return NextResponse.json(
+        { error: 'Plan ID is required to change plans' },
+        { status: 400 }
+      );
+    }
+
+    const user = await requireSessionUser(userId);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const subscription = await getCurrentSubscription(userId);
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'No active subscription' },
+        { status: 404 }
+      );
+    }
+
+    const updated = action === 'change'
+      ? await changeSubscriptionPlan(subscription, planId)
+      : await setSubscriptionCancellation(subscription, action === 'cancel');
+
+    return NextResponse.json({ subscription: toSubscriptionView(updated) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update subscription');
+  }
+}
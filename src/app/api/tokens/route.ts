@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  expireUserTokenBuckets,
+  getTokenBalance,
+  getTokenBuckets,
+  requireTokenAccount,
+  toTokenBucketView
+} from '@/lib/token-ledger';
+import { ApiError } from '@/lib/api-error';
+import { getUserTier } from '@/lib/stripe/subscriptions';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Token Balance API
+ *
+ * Returns the server-side token balance for a user (404 for an ID without
+ * an account; accounts are opened by the accounts API). `buckets` lists the
+ * purchased tokens still held with their expiry dates, soonest first;
+ * `nonExpiring` is the rest of the balance. `tier` is the user's tier from
+ * their plan or latest purchase.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = req.nextUrl.searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await requireTokenAccount(userId);
+    await expireUserTokenBuckets(userId);
+    const [balance, buckets, tier] = await Promise.all([
+      getTokenBalance(userId),
+      getTokenBuckets(userId),
+      getUserTier(userId)
+    ]);
+    const bucketed = buckets.reduce((sum, bucket) => sum + bucket.remaining, 0);
+
+    return NextResponse.json({
+      balance,
+      buckets: buckets.map(toTokenBucketView),
+      nonExpiring: Math.max(0, balance - bucketed),
+      tier
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Error fetching token balance:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch token balance' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,239 +1,55 @@
 import { NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { users, transactions } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
-import { TOKEN_PACKAGES } from '@/lib/stripe/constants';
-import { env } from '@/lib/env';
 import Stripe from 'stripe';
-
+import { processStripeEvent, recordStripeEvent, StripeEventError } from '@/lib/stripe/events';
+import logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic'; // Disable static optimization
+
+/**
+ * Stripe Webhook
+ *
+ * Verifies the signature over the raw request body, stores the event, and
+ * applies it at most once (see lib/stripe/events). Redelivered events are
+ * acknowledged without being applied again.
+ */
 export async function POST(req: Request) {
-  try {
-    const body = await req.json();
-    const signature = req.headers.get('stripe-signature');
-
-    if (!signature || !env.STRIPE_WEBHOOK_SECRET) {
-      console.error('Missing signature or webhook secret');
-      return new NextResponse('Configuration error', { status: 400 });
-    }
-
-    // Verify webhook signature
-    let event;
-    try {
-      const rawBody = await req.text();
-      event = Stripe.webhooks.constructEvent(
-        rawBody,
-        signature,
-        env.STRIPE_WEBHOOK_SECRET
-      );
-    } catch (err) {
-      console.error('Webhook signature verification failed:', err);
-      return new NextResponse('Invalid signature', { status: 400 });
-    }
-
-    // Handle different webhook events
-    switch (event.type) {
-      case 'checkout.session.completed':
-        return handleCheckoutCompleted(event.data.object);
-
-      case 'payment_intent.succeeded':
-        return handlePaymentSuccess(event.data.object);
-
-      case 'payment_intent.payment_failed':
-        return handlePaymentFailure(event.data.object);
-
-      case 'payment_intent.requires_action':
-        return handlePaymentActionRequired(event.data.object);
-
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
-        return new NextResponse('Unhandled event type', { status: 200 });
-    }
-  } catch (error) {
-    console.error('Webhook error:', error);
-    return new NextResponse('Webhook error', { status: 500 });
-  }
-}
+  const signature = req.headers.get('stripe-signature');
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
-async function handleCheckoutCompleted(session: any) {
-  const { metadata, customer } = session;
-
-  if (!metadata?.userId || !metadata?.packageId) {
-    console.error('Missing metadata in checkout session');
-    return new NextResponse('Missing metadata', { status: 400 });
-  }
-
-  const packageDetails = TOKEN_PACKAGES[metadata.packageId as keyof typeof TOKEN_PACKAGES];
-  if (!packageDetails) {
-    console.error('Invalid package ID in metadata');
-    return new NextResponse('Invalid package', { status: 400 });
+  if (!signature || !webhookSecret) {
+    logger.error('Missing Stripe signature or webhook secret');
+    return new NextResponse('Configuration error', { status: 400 });
   }
 
+  // The signature covers the exact bytes Stripe sent, so read the body only as text
+  let event: Stripe.Event;
   try {
-    // Create transaction record
-    const [transaction] = await db.insert(transactions)
-      .values({
-        id: crypto.randomUUID(),
-        userId: metadata.userId,
-        packageId: metadata.packageId,
-        amount: session.amount_total ?? 0,
-        status: 'completed',
-        provider: 'stripe',
-        metadata: {
-          customerId: customer?.id,
-          sessionId: session.id,
-          amount: session.amount_total ?? 0
-        }
-      })
-      .returning();
-
-    // Update user tokens and tier
-    const user = await db.select().from(users).where(eq(users.id, metadata.userId)).limit(1).then(rows => rows[0]);
-
-    if (!user) {
-      console.error('User not found');
-      return new NextResponse('User not found', { status: 404 });
-    }
-
-    await db.update(users)
-      .set({
-        tokens: (user.tokens || 0) + packageDetails.tokens,
-        tier: packageDetails.tier,
-        stripeCustomerId: customer
-      })
-      .where(eq(users.id, metadata.userId));
-
-    console.log('Checkout completed:', {
-      userId: metadata.userId,
-      packageId: metadata.packageId,
-      amount: session.amount_total,
-      tokens: packageDetails.tokens,
-      status: 'completed',
-      customer
-    });
-
-    return new NextResponse('Checkout processed successfully', { status: 200 });
-  } catch (error) {
-    console.error('Error processing checkout completion:', error);
-    return new NextResponse('Error processing checkout', { status: 500 });
-  }
-}
-
-async function handlePaymentSuccess(paymentIntent: any) {
-  const { metadata } = paymentIntent;
-
-  if (!metadata?.userId || !metadata?.packageId || !metadata?.transactionId) {
-    console.error('Missing metadata in payment intent');
-    return new NextResponse('Missing metadata', { status: 400 });
-  }
-
-  const packageDetails = TOKEN_PACKAGES[metadata.packageId as keyof typeof TOKEN_PACKAGES];
-  if (!packageDetails) {
-    console.error('Invalid package ID in metadata');
-    return new NextResponse('Invalid package', { status: 400 });
+    const rawBody = await req.text();
+    event = Stripe.webhooks.constructEvent(rawBody, signature, webhookSecret);
+  } catch (err) {
+    logger.error('Webhook signature verification failed:', err);
+    return new NextResponse('Invalid signature', { status: 400 });
   }
 
   try {
-    // Update transaction status
-    await db.update(transactions)
-      .set({
-        status: 'completed',
-        metadata: {
-          paymentIntentId: paymentIntent.id,
-          customerId: paymentIntent.customer
-        }
-      })
-      .where(eq(transactions.id, metadata.transactionId));
+    await recordStripeEvent(event);
+    const { event: processed, duplicate } = await processStripeEvent(event.id);
 
-    // Update user tokens and tier
-    const user = await db.select().from(users).where(eq(users.id, metadata.userId)).limit(1).then(rows => rows[0]);
-
-    if (!user) {
-      console.error('User not found');
-      return new NextResponse('User not found', { status: 404 });
+    if (duplicate) {
+      return new NextResponse('Event already processed', { status: 200 });
     }
 
-    await db.update(users)
-      .set({
-        tokens: (user.tokens || 0) + packageDetails.tokens,
-        tier: packageDetails.tier
-      })
-      .where(eq(users.id, metadata.userId));
-
-    // Track analytics
-    console.log('Payment successful:', {
-      userId: metadata.userId,
-      packageId: metadata.packageId,
-      amount: paymentIntent.amount,
-      tokens: packageDetails.tokens,
-      status: 'completed',
-      customer: paymentIntent.customer
-    });
-
-    return new NextResponse('Payment processed successfully', { status: 200 });
+    return new NextResponse(
+      processed.status === 'ignored' ? 'Unhandled event type' : 'Event processed successfully',
+      { status: 200 }
+    );
   } catch (error) {
-    console.error('Error processing payment success:', error);
-    return new NextResponse('Error processing payment', { status: 500 });
-  }
-}
-
-async function handlePaymentFailure(paymentIntent: any) {
-  const { metadata } = paymentIntent;
-
-  if (!metadata?.transactionId) {
-    return new NextResponse('Missing transaction ID', { status: 400 });
-  }
-
-  try {
-    // Update transaction status
-    await db.update(transactions)
-      .set({
-        status: 'failed',
-        metadata: {
-          paymentIntentId: paymentIntent.id,
-          error: paymentIntent.last_payment_error?.message
-        }
-      })
-      .where(eq(transactions.id, metadata.transactionId));
-
-    console.log('Payment failed:', {
-      transactionId: metadata.transactionId,
-      error: paymentIntent.last_payment_error?.message
-    });
+    // Bad event data is recorded for a support replay; anything else is retried by Stripe
+    if (error instanceof StripeEventError) {
+      return new NextResponse(error.message, { status: 400 });
+    }
 
-    return new NextResponse('Payment failure recorded', { status: 200 });
-  } catch (error) {
-    console.error('Error processing payment failure:', error);
-    return new NextResponse('Error processing payment failure', { status: 500 });
+    logger.error('Webhook error:', error);
+    return new NextResponse('Webhook error', { status: 500 });
   }
 }
-
-async function handlePaymentActionRequired(paymentIntent: any) {
-  const { metadata } = paymentIntent;
-
-  if (!metadata?.transactionId) {
-    return new NextResponse('Missing transaction ID', { status: 400 });
-  }
-
-  try {
-    // Update transaction status
-    await db.update(transactions)
-      .set({
-        status: 'requires_action',
-        metadata: {
-          paymentIntentId: paymentIntent.id,
-          action: paymentIntent.next_action?.type
-        }
-      })
-      .where(eq(transactions.id, metadata.transactionId));
-
-    console.log('Payment requires action:', {
-      transactionId: metadata.transactionId,
-      action: paymentIntent.next_action?.type
-    });
-
-    return new NextResponse('Payment action requirement recorded', { status: 200 });
-  } catch (error) {
-    console.error('Error processing payment action requirement:', error);
-    return new NextResponse('Error processing payment action requirement', { status: 500 });
-  }
-} 
\ No newline at end of file
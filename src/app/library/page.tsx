@@ -0,0 +1,230 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/auth';
+import { fetchBrandKits } from '@/lib/brand-kits-client';
+import type { BrandKitView } from '@/lib/brand-kits';
+import type { GenerationView } from '@/lib/generation-history';
+import {
+  fetchGenerations,
+  setGenerationFavorite,
+  type LibraryFilters
+} from '@/lib/generation-history-client';
+import { PLATFORM_SIZES, formatPlacement, getPlacementSize } from '@/lib/platform-sizes';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 300;
+
+// The day after a YYYY-MM-DD date, so the filter includes the picked day
+function dayAfter(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Asset library: every ad the user has generated, searchable by prompt and
+ * filterable by brand kit, platform, date and favorites. Opening an ad
+ * continues it in the chat.
+ */
+export default function LibraryPage() {
+  const { user } = useAuth();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [brandKits, setBrandKits] = useState<BrandKitView[]>([]);
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<LibraryFilters>({});
+  const [generations, setGenerations] = useState<GenerationView[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Same ID the chat charges: the signed-in user or the temporary one
+  useEffect(() => {
+    const storedUser = localStorage.getItem('dekave_temp_user');
+    setUserId(user?.id ?? (storedUser ? JSON.parse(storedUser).id || null : null));
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!userId) return;
+    fetchBrandKits(userId)
+      .then(setBrandKits)
+      .catch(loadError => console.warn('Could not load brand kits:', loadError));
+  }, [userId]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters(current => ({ ...current, query: search.trim() || undefined }));
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // Start over from the newest ad whenever the filters change
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchGenerations(userId, { ...filters, to: filters.to && dayAfter(filters.to) })
+      .then(page => {
+        if (cancelled) return;
+        setGenerations(page.generations);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(loadError => !cancelled && setError(loadError.message))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [userId, filters]);
+
+  const loadMore = async () => {
+    if (!userId || !nextCursor) return;
+    setIsLoading(true);
+    try {
+      const page = await fetchGenerations(userId, { ...filters, to: filters.to && dayAfter(filters.to) }, nextCursor);
+      setGenerations(current => [...current, ...page.generations]);
+      setNextCursor(page.nextCursor);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load your ads');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleFavorite = async (generation: GenerationView) => {
+    if (!userId) return;
+    try {
+      const updated = await setGenerationFavorite(userId, generation.id, !generation.favorite);
+      setGenerations(current => filters.favoritesOnly && !updated.favorite
+        ? current.filter(entry => entry.id !== updated.id)
+        : current.map(entry => entry.id === updated.id ? updated : entry));
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : 'Failed to update the ad');
+    }
+  };
+
+  const updateFilter = (update: Partial<LibraryFilters>) => setFilters(current => ({ ...current, ...update }));
+  const kitName = (kitId: string | null) => brandKits.find(kit => kit.id === kitId)?.name;
+  const fieldClass = 'bg-zinc-800/60 text-sm text-white rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-white/30';
+
+  return (
+    <main className="min-h-screen bg-black p-4 sm:p-8">
+      <div className="mx-auto max-w-6xl flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-lg font-semibold text-white">Your ads</h1>
+          <Link href="/" className="rounded-full px-3 py-1 text-sm text-zinc-300 hover:text-white hover:bg-zinc-800">
+            Back to chat
+          </Link>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search prompts"
+            className={`${fieldClass} flex-1 min-w-48`}
+          />
+          <select
+            value={filters.brandKitId ?? ''}
+            onChange={(e) => updateFilter({ brandKitId: e.target.value || undefined })}
+            className={fieldClass}
+          >
+            <option value="">All brands</option>
+            {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+          </select>
+          <select
+            value={filters.platform ?? ''}
+            onChange={(e) => updateFilter({ platform: e.target.value || undefined })}
+            className={fieldClass}
+          >
+            <option value="">All platforms</option>
+            {Object.keys(PLATFORM_SIZES).map(platform => (
+              <option key={platform} value={platform}>{platform.charAt(0).toUpperCase() + platform.slice(1)}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            aria-label="From"
+            className={fieldClass}
+          />
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            aria-label="To"
+            className={fieldClass}
+          />
+          <label className="flex items-center gap-2 text-sm text-zinc-300">
+            <input
+              type="checkbox"
+              checked={Boolean(filters.favoritesOnly)}
+              onChange={(e) => updateFilter({ favoritesOnly: e.target.checked || undefined })}
+            />
+            Favorites
+          </label>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {generations.length === 0 && !isLoading ? (
+          <p className="text-sm text-zinc-500">No ads match these filters yet.</p>
+        ) : (
+          <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+            {generations.map(generation => {
+              const size = generation.platform && generation.placement
+                ? getPlacementSize(generation.platform, generation.placement)
+                : null;
+              return (
+                <li key={generation.id} className="flex flex-col gap-2 rounded-xl border border-zinc-700/50 bg-zinc-900 p-2">
+                  <div className="relative">
+                    <img
+                      src={generation.imageUrls[0]}
+                      alt={generation.prompt}
+                      className="aspect-square w-full rounded-lg object-cover"
+                    />
+                    {generation.imageUrls.length > 1 && (
+                      <span className="absolute bottom-1 left-1 rounded bg-black/70 px-1.5 text-[10px] text-zinc-200">
+                        {generation.imageUrls.length} variants
+                      </span>
+                    )}
+                    <button
+                      onClick={() => toggleFavorite(generation)}
+                      aria-label={generation.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                      className={`absolute right-1 top-1 rounded-full bg-black/60 px-2 py-0.5 text-sm ${generation.favorite ? 'text-amber-300' : 'text-zinc-400 hover:text-white'}`}
+                    >
+                      {generation.favorite ? '★' : '☆'}
+                    </button>
+                  </div>
+                  <p className="line-clamp-2 text-xs text-zinc-200">{generation.prompt}</p>
+                  <p className="flex flex-wrap gap-1 text-[10px] text-zinc-500">
+                    <span>{new Date(generation.createdAt).toLocaleDateString()}</span>
+                    {kitName(generation.brandKitId) && <span>· {kitName(generation.brandKitId)}</span>}
+                    {size && <span>· {formatPlacement(size)}</span>}
+                    {generation.quality === 'hd' && <span>· HD</span>}
+                  </p>
+                  <Link
+                    href={`/?generation=${generation.id}`}
+                    className="self-start rounded-full bg-white/10 px-3 py-1 text-xs text-white hover:bg-white/20"
+                  >
+                    Open in chat
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {nextCursor && (
+          <button
+            onClick={loadMore}
+            disabled={isLoading}
+            className="self-center rounded-full px-4 py-1.5 text-sm text-zinc-300 hover:text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -6,9 +6,43 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { Paywall } from '@/components/Paywall';
 import { TokenTopup } from '@/components/TokenTopup';
+import { MaskEditor } from '@/components/MaskEditor';
+import { AdCopyCard } from '@/components/AdCopyCard';
+import { BrandKitSwitcher } from '@/components/BrandKitSwitcher';
+import { BrandProfilePanel } from '@/components/BrandProfilePanel';
+import { ComplianceReportCard } from '@/components/ComplianceReportCard';
+import { getCopyLimits, type AdCopy } from '@/lib/ad-copy';
+import type { ComplianceReport } from '@/lib/brand-compliance';
 import { useAuth } from '@/lib/auth';
 import { trackEvent, EventType } from '@/lib/analytics';
-import { extractBrandProfile, saveBrandProfile } from '@/lib/brand-profile';
+import { extractBrandProfile, fileToBrandSource } from '@/lib/brand-profile';
+import {
+  MAX_BRAND_SOURCES_PER_ANALYSIS,
+  type BrandSourceInput,
+  type BrandSourceKind
+} from '@/lib/brand-profile-schema';
+import { createBrandKitFromProfile, fetchBrandKits, patchBrandKit } from '@/lib/brand-kits-client';
+import type { BrandKitView } from '@/lib/brand-kits';
+import { fetchBrandTemplates } from '@/lib/brand-templates-client';
+import type { BrandTemplateView } from '@/lib/brand-templates';
+import {
+  GENERATION_STAGE_PROGRESS,
+  GenerationRequestError,
+  submitGenerationJob,
+  watchGenerationJob
+} from '@/lib/generation-client';
+import { MAX_REFERENCE_ADS, MAX_VARIANTS } from '@/lib/generation-limits';
+import type { GenerationOutput } from '@/lib/generation';
+import { fetchGeneration } from '@/lib/generation-history-client';
+import type { NotificationView } from '@/lib/notifications';
+import { fetchUnreadNotifications, markNotificationsRead } from '@/lib/notifications-client';
+import {
+  PLATFORM_SIZES,
+  detectPlatformAndSize,
+  formatPlacement,
+  getPlacementSize,
+  type PlacementSize
+} from '@/lib/platform-sizes';
 
 
 type TokenTier = 'Pioneer' | 'Voyager' | 'Dominator' | 'Overlord';
@@ -27,47 +61,28 @@ interface ChatMessage {
   type: 'prompt' | 'result';
   content: string;
   timestamp: number;
-  messageType: 'text' | 'image' | 'mixed';
+  messageType: 'text' | 'image' | 'mixed' | 'variants' | 'copy' | 'compliance';
+  // Image URLs of a multi-variant result, and the index the user picked
+  variants?: string[];
+  selectedVariant?: number;
+  // Server records a result image came from, used to link edits to their parent
+  generationJobId?: string;
+  editId?: string;
+  // Editable ad copy variants and the platform whose limits they follow
+  copyVariants?: AdCopy[];
+  copyPlatform?: string;
+  // Brand compliance of each ad in a result, and the prompt it was generated from
+  complianceReports?: ComplianceReport[];
+  sourcePrompt?: string;
 }
 
-type SocialPlatform = 'instagram' | 'facebook' | 'linkedin' | 'twitter';
-
-interface PlatformSize {
-  width: number;
-  height: number;
-  type: 'post' | 'story' | 'ad' | 'carousel';
-}
-
-const PLATFORM_SIZES: Record<SocialPlatform, Record<string, PlatformSize>> = {
-  instagram: {
-    post: { width: 1080, height: 1080, type: 'post' },
-    story: { width: 1080, height: 1920, type: 'story' },
-    ad_story: { width: 1080, height: 1920, type: 'ad' },
-    ad_landscape: { width: 1080, height: 566, type: 'ad' },
-    ad_square: { width: 1080, height: 1080, type: 'ad' }
-  },
-  facebook: {
-    post: { width: 1200, height: 630, type: 'post' },
-    ad: { width: 1080, height: 1080, type: 'ad' },
-    video: { width: 1280, height: 720, type: 'post' }
-  },
-  linkedin: {
-    post: { width: 1200, height: 627, type: 'post' },
-    story: { width: 1080, height: 1920, type: 'story' },
-    carousel: { width: 1080, height: 1080, type: 'carousel' }
-  },
-  twitter: {
-    tweet: { width: 1600, height: 900, type: 'post' },
-    ad_square: { width: 720, height: 720, type: 'ad' },
-    ad_landscape: { width: 1280, height: 720, type: 'ad' }
-  }
-};
-
 interface EditingContext {
   isEditing: boolean;
   targetMessageId: string | null;
   originalImage: string | null;
   originalPrompt?: string | null;
+  generationJobId?: string | null;
+  parentEditId?: string | null;
 }
 
 interface AppState {
@@ -141,6 +156,19 @@ export default function Home() {
   const [isProcessingPayment, setIsProcessingPayment] = useState<boolean>(false);
   const [windowWidth, setWindowWidth] = useState<number>(0);
   const [isHDQuality, setIsHDQuality] = useState<boolean>(false);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  // 'auto' or a "platform.placement" key of PLATFORM_SIZES
+  const [placementChoice, setPlacementChoice] = useState<string>('auto');
+  // A template name, or '' to use the default for the brand's industry
+  const [templateChoice, setTemplateChoice] = useState<string>('');
+  const [brandTemplates, setBrandTemplates] = useState<BrandTemplateView[]>([]);
+  // Library entry of the latest ad in this chat; the next generation continues from it
+  const [parentGenerationId, setParentGenerationId] = useState<string | null>(null);
+  // Copy and logo drawn onto the generated image by the server
+  const [showOverlayFields, setShowOverlayFields] = useState<boolean>(false);
+  const [overlayCopy, setOverlayCopy] = useState({ headline: '', subhead: '', cta: '' });
+  const [overlayLogo, setOverlayLogo] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
   const [maxTokens, setMaxTokens] = useState<number>(100000);
   const [tokenInfo, setTokenInfo] = useState<TokenUsageInfo>({
     tier: 'Overlord',
@@ -168,12 +196,28 @@ export default function Home() {
   const [draftResponse, setDraftResponse] = useState<string>('');
   const [productImages, setProductImages] = useState<any[]>([]);
   const [progress, setProgress] = useState<number>(0);
+  const [generationMessage, setGenerationMessage] = useState<string | null>(null);
   // Add local token state to track changes
   const [localTokens, setLocalTokens] = useState<number>(tokens);
   // Add state for staged images (images waiting to be sent with prompt)
   const [stagedImage, setStagedImage] = useState<string | null>(null);
+  // Past ads the next generation should match in style
+  const [referenceAds, setReferenceAds] = useState<string[]>([]);
+  // Mask painted over the image being edited (transparent = area to change)
+  const [editMask, setEditMask] = useState<string | null>(null);
+  // Image whose multi-platform export pack is being built
+  const [exportingImage, setExportingImage] = useState<string | null>(null);
+  // The user's brand kits; the active one is used instead of analyzing brand images
+  const [brandKits, setBrandKits] = useState<BrandKitView[]>([]);
+  const [activeBrandKitId, setActiveBrandKitId] = useState<string | null>(null);
+  // Kit whose profile editor is open
+  const [editingBrandKitId, setEditingBrandKitId] = useState<string | null>(null);
+  const editingBrandKit = brandKits.find(kit => kit.id === editingBrandKitId);
+  // Unread account notices (refunds, disputes, expired checkouts)
+  const [notifications, setNotifications] = useState<NotificationView[]>([]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
   
   // Initialize and sync local tokens with auth tokens
   useEffect(() => {
@@ -248,6 +292,102 @@ export default function Home() {
     });
   }, [isAuthenticated, user, tokens, isLoading]);
 
+  // Load the user's brand kits once we know who they are
+  useEffect(() => {
+    const userId = getActiveUserId();
+    if (!userId) return;
+    
+    fetchBrandKits(userId)
+      .then(kits => {
+        setBrandKits(kits);
+        setActiveBrandKitId(kits.find(kit => kit.isActive)?.id ?? null);
+      })
+      .catch(error => console.warn('Could not load brand kits:', error));
+  }, [user?.id]);
+  
+  useEffect(() => {
+    const userId = getActiveUserId();
+    if (!userId) return;
+    
+    fetchUnreadNotifications(userId)
+      .then(setNotifications)
+      .catch(error => console.warn('Could not load notifications:', error));
+  }, [user?.id]);
+  
+  // Re-open an ad from the asset library (/?generation=<id>) so the chat continues from it
+  useEffect(() => {
+    const generationId = new URLSearchParams(window.location.search).get('generation');
+    const userId = getActiveUserId();
+    if (!generationId || !userId) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    
+    fetchGeneration(userId, generationId)
+      .then(generation => {
+        const now = Date.now();
+        const complianceReports = generation.variants
+          .map(variant => variant.compliance)
+          .filter((report): report is ComplianceReport => Boolean(report));
+        const reopened: ChatMessage[] = [
+          { id: `image-${now}`, type: 'prompt', content: generation.sourceImageUrl, timestamp: now, messageType: 'image' },
+          { id: `prompt-${now}`, type: 'prompt', content: generation.prompt, timestamp: now, messageType: 'text' },
+          generation.imageUrls.length > 1
+            ? {
+              id: `variants-${now}`,
+              type: 'result',
+              content: `${generation.imageUrls.length} variants. Pick one to keep editing.`,
+              timestamp: now,
+              messageType: 'variants',
+              variants: generation.imageUrls,
+              generationJobId: generation.generationJobId ?? undefined
+            }
+            : {
+              id: `result-${now}`,
+              type: 'result',
+              content: generation.imageUrls[0],
+              timestamp: now,
+              messageType: 'image',
+              generationJobId: generation.generationJobId ?? undefined
+            }
+        ];
+        if (complianceReports.length > 0) {
+          reopened.push({
+            id: `compliance-${now}`,
+            type: 'result',
+            content: 'Brand check',
+            timestamp: now,
+            messageType: 'compliance',
+            complianceReports,
+            sourcePrompt: generation.prompt
+          });
+        }
+        if (generation.copy.length > 0) {
+          reopened.push({
+            id: `copy-${now}`,
+            type: 'result',
+            content: 'Ad copy. Edit any field, then copy it.',
+            timestamp: now,
+            messageType: 'copy',
+            copyVariants: generation.copy,
+            copyPlatform: generation.platform ?? undefined
+          });
+        }
+        
+        setUploadedImages([generation.sourceImageUrl]);
+        setBrandProfileAnalyzed(true);
+        setChatHistory(reopened);
+        setChatStarted(true);
+        setParentGenerationId(generation.id);
+      })
+      .catch(error => console.warn('Could not re-open generation:', error));
+  }, [user?.id]);
+  
+  // Templates are the same for everyone; without them the picker stays hidden
+  useEffect(() => {
+    fetchBrandTemplates()
+      .then(setBrandTemplates)
+      .catch(error => console.warn('Could not load brand templates:', error));
+  }, []);
+  
   // Listen for state restoration events
   useEffect(() => {
     // Create a reference we can use to track component mounted state
@@ -422,85 +562,146 @@ export default function Home() {
 
   // Handle token check - always returns true in free mode
   
-  // Token utility functions
+  // Resolve the ID the server ledger charges (signed-in user or temporary user)
+  const getActiveUserId = (): string | null => {
+    if (user?.id) return user.id;
+    const storedUser = localStorage.getItem('dekave_temp_user');
+    return storedUser ? JSON.parse(storedUser).id || null : null;
+  };
   
-  // Calculate image tokens based on dimensions and detail level
-  function calculateImageTokens(width: number, height: number, isHDQuality: boolean): number {
-    if (!isHDQuality) {
-      return 85; // Low detail is fixed cost
-    }
-
-    // Scale to fit in 2048x2048 square if needed
-    let scaledWidth = width;
-    let scaledHeight = height;
-    if (width > 2048 || height > 2048) {
-      const scale = Math.min(2048 / width, 2048 / height);
-      scaledWidth = Math.floor(width * scale);
-      scaledHeight = Math.floor(height * scale);
+  const dismissNotification = (notificationId: string) => {
+    const userId = getActiveUserId();
+    setNotifications(prev => prev.filter(notification => notification.id !== notificationId));
+    if (!userId) return;
+    markNotificationsRead(userId, [notificationId])
+      .catch(error => console.warn('Could not mark notification read:', error));
+  };
+  
+  // Analyze brand inputs into a new active kit
+  const createBrandKitFromSources = async (sources: BrandSourceInput[], userId: string) => {
+    // The server charges the analysis cost to the user's token balance
+    const profile = await extractBrandProfile(sources, userId);
+    await refreshTokenCount();
+    
+    const name = profile.industryCategory?.trim().slice(0, 80) || `Brand ${brandKits.length + 1}`;
+    const kit = await createBrandKitFromProfile(userId, name, profile);
+    setBrandKits(prev => [kit, ...prev.map(existing => ({ ...existing, isActive: false }))]);
+    setActiveBrandKitId(kit.id);
+  };
+  
+  // Analyze the uploaded brand images into a new active kit, unless a kit is already active
+  const prepareBrandKit = async (imageUrls: string[], userId: string) => {
+    if (activeBrandKitId) {
+      console.log('Using the active brand kit instead of analyzing the images');
+      return;
     }
-
-    // Scale so shortest side is 768px
-    const shortestSide = Math.min(scaledWidth, scaledHeight);
-    const scale = 768 / shortestSide;
-    scaledWidth = Math.floor(scaledWidth * scale);
-    scaledHeight = Math.floor(scaledHeight * scale);
-
-    // Count 512px squares
-    const tilesX = Math.ceil(scaledWidth / 512);
-    const tilesY = Math.ceil(scaledHeight / 512);
-    const totalTiles = tilesX * tilesY;
-
-    // Calculate final token cost
-    return (totalTiles * 170) + 85;
-  }
-
-  const calculateTokenUsage = (prompt: string): number => {
-    // Detect platform and size from prompt
-    const platformSize = detectPlatformAndSize(prompt);
     
-    // Calculate base image tokens based on platform size or default size
-    const width = platformSize?.width || 1080;
-    const height = platformSize?.height || 1080;
-    const imageTokens = calculateImageTokens(width, height, isHDQuality);
-
-    // Calculate prompt tokens (rough estimation)
-    const promptTokens = Math.ceil(prompt.length / 4);
-
-    // Base cost calculation
-    let totalTokens = imageTokens + promptTokens;
-
-    // Adjust for edit mode
-    if (editingContext.isEditing) {
-      // Editing uses the same image size but requires less processing
-      totalTokens = Math.floor(totalTokens * 0.6); // 60% of new generation
+    await createBrandKitFromSources(
+      imageUrls.slice(0, MAX_BRAND_SOURCES_PER_ANALYSIS).map((url, index) => ({
+        kind: 'product',
+        name: `Brand image ${index + 1}`,
+        url
+      })),
+      userId
+    );
+  };
+  
+  // Rebuild the active kit with more assets (logos, ads, guidelines), or start a kit from them
+  const addBrandAssets = async (kind: BrandSourceKind, files: File[]) => {
+    const userId = getActiveUserId();
+    if (!userId) return;
+    
+    setIsAnalyzingBrand(true);
+    try {
+      const sources = await Promise.all(
+        files.slice(0, MAX_BRAND_SOURCES_PER_ANALYSIS).map(file => fileToBrandSource(file, kind))
+      );
       
-      // Check for major edits
-      const majorEditKeywords = ['completely', 'entirely', 'totally', 'redesign', 'overhaul'];
-      const isMajorEdit = majorEditKeywords.some(keyword => prompt.toLowerCase().includes(keyword));
-      if (isMajorEdit) {
-        totalTokens = Math.floor(totalTokens * (8/6)); // Adjust to 80% for major edits
+      if (!activeBrandKitId) {
+        await createBrandKitFromSources(sources, userId);
+      } else {
+        const profile = await extractBrandProfile(sources, userId, activeBrandKitId);
+        await refreshTokenCount();
+        const kit = await patchBrandKit(userId, activeBrandKitId, { profile, profileSource: 'analysis' });
+        setBrandKits(prev => prev.map(existing => existing.id === kit.id ? kit : existing));
       }
+      
+      // Inputs the server couldn't read are left out of the profile (and refunded)
+      setChatHistory(prev => [...prev, {
+        id: `system-brand-assets-${Date.now()}`,
+        type: 'result',
+        content: `Updated your brand kit with the new ${sources.length === 1 ? 'asset' : 'assets'}.`,
+        timestamp: Date.now(),
+        messageType: 'text'
+      }]);
+      setBrandProfileAnalyzed(true);
+      setChatStarted(true);
+    } catch (error) {
+      console.error('Error adding brand assets:', error);
+      setChatHistory(prev => [...prev, {
+        id: `error-${Date.now()}`,
+        type: 'result',
+        content: "Sorry, those brand assets couldn't be analyzed. Please try again.",
+        timestamp: Date.now(),
+        messageType: 'text'
+      }]);
+    } finally {
+      setIsAnalyzingBrand(false);
+    }
+  };
+  
+  // Generate for another of the user's kits
+  const selectBrandKit = async (kitId: string) => {
+    const userId = getActiveUserId();
+    if (!userId) return;
+    
+    try {
+      const kit = await patchBrandKit(userId, kitId, { active: true });
+      setBrandKits(prev => prev.map(existing => existing.id === kit.id ? kit : { ...existing, isActive: false }));
+      setActiveBrandKitId(kit.id);
+      setBrandProfileAnalyzed(true);
+    } catch (error) {
+      console.error('Error switching brand kit:', error);
     }
-
-    // Add complexity multiplier for sophisticated prompts
-    const promptComplexity = Math.min(1.5, 1 + (prompt.length / 500)); // Max 50% increase
-    totalTokens = Math.floor(totalTokens * promptComplexity);
-
-    // Calculate token cost (simpler now)
-    return Math.min(totalTokens, 10000); // Cap at 10,000 tokens per request
   };
   
-  // Deduct tokens and update UI immediately
-  const deductTokens = (amount: number) => {
-    const newAmount = Math.max(0, localTokens - amount);
-    setLocalTokens(newAmount);
-    localStorage.setItem('dekave_temp_tokens', newAmount.toString());
+  // The next brand image the user uploads is analyzed into a new kit
+  const startNewBrandKit = () => {
+    setActiveBrandKitId(null);
+    setBrandProfileAnalyzed(false);
+    setChatHistory(prev => [...prev, {
+      id: `system-new-brand-kit-${Date.now()}`,
+      type: 'result',
+      content: "Upload an image that represents the new brand's identity and style.",
+      timestamp: Date.now(),
+      messageType: 'text'
+    }]);
   };
-
-  // Calculate token cost for brand analysis
-  const calculateBrandAnalysisTokens = (): number => {
-    // Brand analysis has a fixed cost
-    return 5000;
+  
+  const renameBrandKit = async (kit: BrandKitView) => {
+    const userId = getActiveUserId();
+    const name = window.prompt('Brand kit name', kit.name)?.trim();
+    if (!userId || !name || name === kit.name) return;
+    
+    try {
+      const renamed = await patchBrandKit(userId, kit.id, { name });
+      setBrandKits(prev => prev.map(existing => existing.id === renamed.id ? renamed : existing));
+    } catch (error) {
+      console.error('Error renaming brand kit:', error);
+    }
+  };
+  
+  const archiveBrandKit = async (kit: BrandKitView) => {
+    const userId = getActiveUserId();
+    if (!userId || !window.confirm(`Archive the "${kit.name}" brand kit?`)) return;
+    
+    try {
+      await patchBrandKit(userId, kit.id, { archived: true });
+      setBrandKits(prev => prev.filter(existing => existing.id !== kit.id));
+      if (activeBrandKitId === kit.id) setActiveBrandKitId(null);
+    } catch (error) {
+      console.error('Error archiving brand kit:', error);
+    }
   };
 
   // Add a helper function to add the brand analysis completion message
@@ -550,29 +751,19 @@ export default function Home() {
         setUploadedImages(prev => [...prev, ...newImages.map(img => img.url)]);
         setShowDropzone(false);
         
-        // Analyze brand profile for the first image
+        // Analyze the brand profile from all the uploaded images
         if (newImages.length > 0) {
           setIsAnalyzingBrand(true);
           
-          // Calculate and deduct tokens for brand analysis
-          const brandAnalysisTokens = calculateBrandAnalysisTokens();
-          deductTokens(brandAnalysisTokens);
-          
           try {
-            const profile = await extractBrandProfile(newImages[0].url);
-            
             // In free mode, user might be available or might be temporary
-            const userId = user?.id || localStorage.getItem('dekave_temp_user') 
-              ? JSON.parse(localStorage.getItem('dekave_temp_user') || '{}').id
-              : null;
-              
-            if (profile && userId) {
-              await saveBrandProfile(userId, profile);
-            } else if (profile) {
-              // If we can't save the profile, just continue without saving
-              console.log('Brand profile analyzed but not saved due to missing user ID');
+            const userId = getActiveUserId();
+            if (!userId) {
+              throw new Error('No user ID available for brand analysis');
             }
             
+            await prepareBrandKit(newImages.map(img => img.url), userId);
+            
             // Use the helper function instead of direct setChatHistory
             addBrandAnalysisCompletionMessage();
           } catch (error) {
@@ -643,27 +834,17 @@ export default function Home() {
     if (!brandProfileAnalyzed && newImages.length > 0) {
       setIsAnalyzingBrand(true);
       
-      // Calculate and deduct tokens for brand analysis
-      const brandAnalysisTokens = calculateBrandAnalysisTokens();
-      deductTokens(brandAnalysisTokens);
-      
-      // Analyze brand profile from the dropped image
+      // Analyze the brand profile from the dropped images
       (async () => {
         try {
-          const profile = await extractBrandProfile(newImages[0].url);
-          
           // In free mode, user might be available or might be temporary
-          const userId = user?.id || localStorage.getItem('dekave_temp_user') 
-            ? JSON.parse(localStorage.getItem('dekave_temp_user') || '{}').id
-            : null;
-            
-          if (profile && userId) {
-            await saveBrandProfile(userId, profile);
-          } else if (profile) {
-            // If we can't save the profile, just continue without saving
-            console.log('Brand profile analyzed but not saved due to missing user ID');
+          const userId = getActiveUserId();
+          if (!userId) {
+            throw new Error('No user ID available for brand analysis');
           }
           
+          await prepareBrandKit(newImages.map(img => img.url), userId);
+          
           // Use the helper function instead of direct setChatHistory
           addBrandAnalysisCompletionMessage();
         } catch (error) {
@@ -696,19 +877,15 @@ export default function Home() {
   };
   
   // Modify the handlePromptSubmit function to convert blob URLs to base64
-  const handlePromptSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // A prompt override submits that prompt instead of the input's (e.g. to regenerate with fixes)
+  const handlePromptSubmit = async (e?: React.FormEvent, promptOverride?: string) => {
+    e?.preventDefault();
+    const promptText = promptOverride ?? userPrompt;
     
     // If no prompt and no staged image, do nothing
-    if (!userPrompt.trim() && !stagedImage) return;
+    if (!promptText.trim() && !stagedImage) return;
     
     try {
-      // Calculate token cost for this operation
-      const tokenCost = calculateTokenUsage(userPrompt);
-      
-      // Deduct tokens immediately to update UI
-      deductTokens(tokenCost);
-      
       setIsGenerating(true);
       
       // If there's a staged image, add it to the chat history but not to uploadedImages again
@@ -749,22 +926,51 @@ export default function Home() {
       }
       
       // Add text prompt to chat history if there is one
-      if (userPrompt.trim()) {
+      if (promptText.trim()) {
         setChatHistory(prev => [...prev, {
           id: `prompt-${Date.now()}`,
           type: 'prompt',
-          content: editingContext.isEditing ? `Edit: ${userPrompt}` : userPrompt,
+          content: editingContext.isEditing ? `Edit: ${promptText}` : promptText,
           timestamp: Date.now(),
           messageType: 'text'
         } as ChatMessage]);
       }
       
+      // Show the attached reference ads alongside the prompt
+      const currentReferenceAds = referenceAds;
+      if (currentReferenceAds.length > 0) {
+        setChatHistory(prev => [
+          ...prev,
+          {
+            id: `references-${Date.now()}`,
+            type: 'prompt',
+            content: `Match the style of ${currentReferenceAds.length === 1 ? 'this ad' : `these ${currentReferenceAds.length} ads`}:`,
+            timestamp: Date.now(),
+            messageType: 'text'
+          } as ChatMessage,
+          ...currentReferenceAds.map((referenceUrl, index) => ({
+            id: `reference-${Date.now()}-${index}`,
+            type: 'prompt',
+            content: referenceUrl,
+            timestamp: Date.now(),
+            messageType: 'image'
+          } as ChatMessage))
+        ]);
+      }
+      
       // Store current prompt before clearing
-      const currentPrompt = userPrompt;
+      const currentPrompt = promptText;
       
-      // Clear the input and staged image after submission
+      // Clear the input, staged image and references after submission
       setUserPrompt('');
       setStagedImage(null);
+      setReferenceAds([]);
+      
+      // Editing an existing ad: revise that image instead of generating a new one
+      if (editingContext.isEditing && editingContext.originalImage && currentPrompt.trim()) {
+        await submitEdit(editingContext.originalImage, currentPrompt);
+        return;
+      }
       
       // Convert the image URL to base64 before sending to API
       try {
@@ -776,47 +982,130 @@ export default function Home() {
         throw new Error('Failed to process image for generation');
       }
       
-      // Make actual API call with user's temporary ID
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const referenceAdUrls = await Promise.all(currentReferenceAds.map(blobUrlToBase64));
+      
+      // Queue the generation as a background job and follow its stages over SSE
+      const showStage = (stage: string) => {
+        const update = GENERATION_STAGE_PROGRESS[stage];
+        if (update) {
+          setProgress(update.progress);
+          setGenerationMessage(update.message);
+        }
+      };
+      
+      const outputSize = resolvePlacement(currentPrompt);
+      const overlay = overlayCopy.headline.trim()
+        ? {
+          headline: overlayCopy.headline.trim(),
+          subhead: overlayCopy.subhead.trim() || undefined,
+          cta: overlayCopy.cta.trim() || undefined,
+          logoUrl: overlayLogo ? await blobUrlToBase64(overlayLogo) : undefined
+        }
+        : undefined;
+      
+      let result: GenerationOutput;
+      try {
+        const userId = getActiveUserId() || 'temp_user';
+        const jobId = await submitGenerationJob({
           imageUrl: processedImageUrl,
           prompt: currentPrompt,
-          userId: user?.id || (localStorage.getItem('dekave_temp_user') ? 
-            JSON.parse(localStorage.getItem('dekave_temp_user') || '{}').id : 'temp_user'),
+          userId,
           isHDQuality,
-          resetConversation: false
-        }),
-      });
+          resetConversation: false,
+          referenceAdUrls,
+          variantCount,
+          platform: outputSize?.platform,
+          placement: outputSize?.placement,
+          overlay,
+          brandKitId: activeBrandKitId ?? undefined,
+          templateName: templateChoice || undefined,
+          parentGenerationId: parentGenerationId ?? undefined
+        });
+        showStage('queued');
+        
+        const job = await watchGenerationJob(userId, jobId, showStage);
+        if (!job.result) throw new Error('Generation finished without a result');
+        result = job.result;
+      } catch (requestError) {
+        if (!(requestError instanceof GenerationRequestError)) throw requestError;
+        
+        // Failed generations refund unused tokens, so always take the server balance
+        if (typeof requestError.data.tokensLeft === 'number') setLocalTokens(requestError.data.tokensLeft);
+        
+        // Not enough tokens: show the server balance instead of a generic error
+        if (requestError.status === 402) {
+          setChatHistory(prev => [...prev, {
+            id: `error-${Date.now()}`,
+            type: 'result',
+            content: "You don't have enough tokens left for this generation.",
+            timestamp: Date.now(),
+            messageType: 'text'
+          }]);
+          return;
+        }
+        
+        throw requestError;
+      }
       
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Failed to generate content' }));
-        throw new Error(errorData.error || 'Failed to generate content');
+      // Show the ledger balance returned by the server
+      if (typeof result.tokensLeft === 'number') {
+        setLocalTokens(result.tokensLeft);
       }
       
-      const result = await response.json();
+      if (result.generationId) {
+        setParentGenerationId(result.generationId);
+      }
       
       // Add the generated response to chat history
-      if (result.adImageUrl) {
+      if (result.variants.length > 1) {
+        // Several variants: show them side by side so the user can pick a winner
+        setChatHistory(prev => [...prev, {
+          id: `variants-${Date.now()}`,
+          type: 'result',
+          content: `${result.variants.length} variants${result.outputSize ? ` for ${formatPlacement(result.outputSize)}` : ''} · ${result.tokensPerVariant.toLocaleString()} tokens each. Pick one to keep editing.`,
+          timestamp: Date.now(),
+          messageType: 'variants',
+          variants: result.variants.map(variant => variant.imageUrl),
+          generationJobId: result.requestId
+        }]);
+      } else if (result.adImageUrl) {
         setChatHistory(prev => [...prev, {
           id: `result-${Date.now()}`,
           type: 'result',
           content: result.adImageUrl,
           timestamp: Date.now(),
-          messageType: 'image'
+          messageType: 'image',
+          generationJobId: result.requestId
         }]);
       }
       
-      if (result.adDescription) {
+      // Brand compliance of each ad, with the option to regenerate with fixes
+      const complianceReports = result.variants
+        .map(variant => variant.compliance)
+        .filter((report): report is ComplianceReport => Boolean(report));
+      if (complianceReports.length > 0) {
         setChatHistory(prev => [...prev, {
-          id: `desc-${Date.now()}`,
+          id: `compliance-${Date.now()}`,
           type: 'result',
-          content: result.adDescription,
+          content: 'Brand check',
           timestamp: Date.now(),
-          messageType: 'text'
+          messageType: 'compliance',
+          complianceReports,
+          sourcePrompt: currentPrompt,
+          generationJobId: result.requestId
+        }]);
+      }
+      
+      if (result.copy.length > 0) {
+        setChatHistory(prev => [...prev, {
+          id: `copy-${Date.now()}`,
+          type: 'result',
+          content: `Ad copy${result.outputSize ? ` for ${formatPlacement(result.outputSize)}` : ''}. Edit any field, then copy it.`,
+          timestamp: Date.now(),
+          messageType: 'copy',
+          copyVariants: result.copy,
+          copyPlatform: result.outputSize?.platform,
+          generationJobId: result.requestId
         }]);
       }
       
@@ -833,13 +1122,184 @@ export default function Home() {
       }]);
     } finally {
       setIsGenerating(false);
+      setProgress(0);
+      setGenerationMessage(null);
     }
   };
   
-  // Replace token purchase with token refresh info
-  const handleTokenRefreshInfo = () => {
-    // Show info about token refresh
-    alert("Tokens refresh daily! You have " + localTokens + " tokens remaining today.");
+  // Revise the image being edited, restricted to the painted mask if there is one
+  const submitEdit = async (imageUrl: string, instruction: string) => {
+    setGenerationMessage('Editing your ad...');
+    
+    const response = await fetch('/api/edits', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        userId: getActiveUserId() || 'temp_user',
+        imageUrl: await blobUrlToBase64(imageUrl),
+        instruction,
+        maskUrl: editMask || undefined,
+        generationJobId: editingContext.generationJobId || undefined,
+        parentEditId: editingContext.parentEditId || undefined
+      }),
+    });
+    
+    const data = await response.json().catch(() => ({ error: 'Failed to edit image' }));
+    if (typeof data.tokensLeft === 'number') {
+      setLocalTokens(data.tokensLeft);
+    }
+    
+    if (!response.ok) {
+      if (response.status === 402) {
+        setChatHistory(prev => [...prev, {
+          id: `error-${Date.now()}`,
+          type: 'result',
+          content: "You don't have enough tokens left for this edit.",
+          timestamp: Date.now(),
+          messageType: 'text'
+        }]);
+        return;
+      }
+      throw new Error(data.error || 'Failed to edit image');
+    }
+    
+    const messageId = `edit-${Date.now()}`;
+    setChatHistory(prev => [...prev, {
+      id: messageId,
+      type: 'result',
+      content: data.edit.imageUrl,
+      timestamp: Date.now(),
+      messageType: 'image',
+      generationJobId: data.edit.generationJobId || undefined,
+      editId: data.edit.id
+    }]);
+    
+    // Stay in editing mode on the revised image so edits can be chained
+    setEditingContext({
+      isEditing: true,
+      targetMessageId: messageId,
+      originalImage: data.edit.imageUrl,
+      originalPrompt: instruction,
+      generationJobId: data.edit.generationJobId,
+      parentEditId: data.edit.id
+    });
+    setEditMask(null);
+  };
+  
+  // Download the image resized for every platform placement as a ZIP
+  const exportPack = async (
+    imageUrl: string,
+    source: { generationJobId?: string; editId?: string } = {}
+  ) => {
+    setExportingImage(imageUrl);
+    try {
+      const response = await fetch('/api/exports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId: getActiveUserId() || 'temp_user',
+          imageUrl: await blobUrlToBase64(imageUrl),
+          generationJobId: source.generationJobId,
+          editId: source.editId
+        }),
+      });
+      
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to build export pack');
+      }
+      
+      const downloadUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'ad-export.zip';
+      link.click();
+      URL.revokeObjectURL(downloadUrl);
+      
+      trackEvent(EventType.EXPORT_PACK_DOWNLOADED, {
+        generationJobId: source.generationJobId || null,
+        editId: source.editId || null
+      });
+    } catch (error) {
+      console.error('Error exporting ad:', error);
+      setChatHistory(prev => [...prev, {
+        id: `error-${Date.now()}`,
+        type: 'result',
+        content: "Sorry, there was an error exporting your ad. Please try again.",
+        timestamp: Date.now(),
+        messageType: 'text'
+      }]);
+    } finally {
+      setExportingImage(null);
+    }
+  };
+  
+  // Use a result image as the base for follow-up edits
+  const startEditing = (
+    messageId: string,
+    imageUrl: string,
+    source: { generationJobId?: string; editId?: string } = {}
+  ) => {
+    setEditingContext({
+      isEditing: true,
+      targetMessageId: messageId,
+      originalImage: imageUrl,
+      originalPrompt: chatHistory
+        .slice(0, chatHistory.findIndex(msg => msg.id === messageId))
+        .filter(msg => msg.type === 'prompt' && msg.messageType === 'text')
+        .pop()?.content || null,
+      generationJobId: source.generationJobId || null,
+      parentEditId: source.editId || null
+    });
+    setEditMask(null);
+    
+    const textarea = document.querySelector('textarea');
+    if (textarea) textarea.focus();
+  };
+  
+  const stopEditing = () => {
+    setEditingContext({
+      isEditing: false,
+      targetMessageId: null,
+      originalImage: null,
+      originalPrompt: null
+    });
+    setEditMask(null);
+  };
+  
+  // Save the user's edits to one of a message's copy variants
+  const updateCopyVariant = (messageId: string, index: number, copy: AdCopy) => {
+    setChatHistory(prev => prev.map(msg => 
+      msg.id === messageId && msg.copyVariants
+        ? { ...msg, copyVariants: msg.copyVariants.map((existing, i) => i === index ? copy : existing) }
+        : msg
+    ));
+  };
+  
+  // Make the chosen variant the winner and the base for follow-up edits
+  const selectVariant = (messageId: string, index: number) => {
+    const message = chatHistory.find(msg => msg.id === messageId);
+    if (!message?.variants?.[index]) return;
+    
+    setChatHistory(prev => prev.map(msg => 
+      msg.id === messageId ? { ...msg, selectedVariant: index } : msg
+    ));
+    
+    startEditing(messageId, message.variants[index], { generationJobId: message.generationJobId });
+    
+    trackEvent(EventType.VARIANT_SELECTED, {
+      index,
+      variantCount: message.variants.length
+    });
+  };
+  
+  // Tokens come from packages and plans; the balance opens the top-up
+  const openTokenTopup = () => {
+    setShowTokenTopup(true);
   };
   
   const startNewChat = () => {
@@ -857,52 +1317,56 @@ export default function Home() {
     });
   };
 
-  // Function to detect platform and content type from prompt
-  function detectPlatformAndSize(prompt: string): PlatformSize | null {
-    const promptLower = prompt.toLowerCase();
-    
-    // Platform detection
-    let platform: SocialPlatform | null = null;
-    if (promptLower.includes('instagram') || promptLower.includes('ig')) platform = 'instagram';
-    else if (promptLower.includes('facebook') || promptLower.includes('fb')) platform = 'facebook';
-    else if (promptLower.includes('linkedin')) platform = 'linkedin';
-    else if (promptLower.includes('twitter') || promptLower.includes('x.com')) platform = 'twitter';
-    
-    if (!platform) return null;
-    
-    // Content type detection
-    const isStory = promptLower.includes('story') || promptLower.includes('stories');
-    const isAd = promptLower.includes('ad') || promptLower.includes('advertisement');
-    const isCarousel = promptLower.includes('carousel') || promptLower.includes('swipe');
-    const isLandscape = promptLower.includes('landscape') || promptLower.includes('horizontal');
-    
-    // Determine the appropriate size based on platform and content type
-    if (platform === 'instagram') {
-      if (isStory) return PLATFORM_SIZES.instagram.story;
-      if (isAd && isLandscape) return PLATFORM_SIZES.instagram.ad_landscape;
-      if (isAd) return PLATFORM_SIZES.instagram.ad_square;
-      return PLATFORM_SIZES.instagram.post; // Default to square post
-    }
-    
-    if (platform === 'facebook') {
-      if (isAd) return PLATFORM_SIZES.facebook.ad;
-      return PLATFORM_SIZES.facebook.post;
-    }
-    
-    if (platform === 'linkedin') {
-      if (isStory) return PLATFORM_SIZES.linkedin.story;
-      if (isCarousel) return PLATFORM_SIZES.linkedin.carousel;
-      return PLATFORM_SIZES.linkedin.post;
+  // Placement to size the ad for: the one picked in the selector, or else one detected from the prompt
+  const resolvePlacement = (prompt: string): PlacementSize | null => {
+    if (placementChoice !== 'auto') {
+      const [platform, placement] = placementChoice.split('.');
+      return getPlacementSize(platform, placement);
     }
-    
-    if (platform === 'twitter') {
-      if (isAd && !isLandscape) return PLATFORM_SIZES.twitter.ad_square;
-      if (isAd) return PLATFORM_SIZES.twitter.ad_landscape;
-      return PLATFORM_SIZES.twitter.tweet;
+    return detectPlatformAndSize(prompt);
+  };
+
+  // Attach reference ads, keeping at most MAX_REFERENCE_ADS
+  const handleReferenceUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) {
+      setReferenceAds(prev => [...prev, ...files.map(file => URL.createObjectURL(file))].slice(0, MAX_REFERENCE_ADS));
+      
+      trackEvent(EventType.IMAGE_UPLOAD, {
+        count: files.length,
+        purpose: 'reference_ad'
+      });
     }
+    e.target.value = '';
+  };
+  
+  const ReferenceAdsPreview = () => {
+    if (referenceAds.length === 0) return null;
     
-    return null;
-  }
+    return (
+      <div className="flex items-center gap-2 px-6 pt-3">
+        <span className="text-xs text-zinc-500">Style references</span>
+        {referenceAds.map((referenceUrl, index) => (
+          <div key={referenceUrl} className="relative w-10 h-10 rounded-md overflow-hidden border border-white/20">
+            <img 
+              src={referenceUrl} 
+              alt={`Reference ad ${index + 1}`} 
+              className="w-full h-full object-cover"
+            />
+            <button
+              onClick={() => setReferenceAds(prev => prev.filter(url => url !== referenceUrl))}
+              className="absolute top-0 right-0 bg-black/70 hover:bg-black/90 text-white rounded-bl-md"
+              style={{ width: '14px', height: '14px' }}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  };
 
   // Modify the StagedImagePreview component to make the image smaller
   const StagedImagePreview = () => {
@@ -940,16 +1404,29 @@ export default function Home() {
       type: 'prompt' | 'result';
       content: any; // Use any for flexibility with content type
       timestamp: number;
-      messageType: 'text' | 'image' | 'mixed';
+      messageType: 'text' | 'image' | 'mixed' | 'variants' | 'copy' | 'compliance';
       hasMultipleImages?: boolean;
+      variants?: string[];
+      selectedVariant?: number;
+      generationJobId?: string;
+      editId?: string;
+      copyVariants?: AdCopy[];
+      copyPlatform?: string;
+      complianceReports?: ComplianceReport[];
+      sourcePrompt?: string;
     }> = [];
     
+    // Variant comparisons, ad copy and brand checks are always shown on their own
+    const standsAlone = (message: ChatMessage) => ['variants', 'copy', 'compliance'].includes(message.messageType);
+    
     let i = 0;
     while (i < chatHistory.length) {
       const current = chatHistory[i];
       
       // Check if the next message is from the same user and close in time (within 5 seconds)
       if (i + 1 < chatHistory.length && 
+          !standsAlone(current) &&
+          !standsAlone(chatHistory[i + 1]) &&
           chatHistory[i + 1].type === current.type && 
           chatHistory[i + 1].timestamp - current.timestamp < 5000) {
         
@@ -959,7 +1436,9 @@ export default function Home() {
           type: current.type,
           timestamp: current.timestamp,
           messageType: current.messageType,
-          hasMultipleImages: false
+          hasMultipleImages: false,
+          generationJobId: current.generationJobId,
+          editId: current.editId
         };
         
         // Initialize content based on the first message's type
@@ -976,6 +1455,7 @@ export default function Home() {
         let imageCount = hasImage ? 1 : 0;
         
         while (j < chatHistory.length && 
+               !standsAlone(chatHistory[j]) &&
                chatHistory[j].type === current.type && 
                chatHistory[j].timestamp - chatHistory[j-1].timestamp < 5000) {
           
@@ -1070,9 +1550,22 @@ export default function Home() {
         </div>
         
         <div className="flex items-center gap-4">
+          {brandKits.length > 0 && windowWidth >= 768 && (
+            <BrandKitSwitcher
+              kits={brandKits}
+              activeKitId={activeBrandKitId}
+              disabled={isGenerating || isAnalyzingBrand}
+              onSelect={selectBrandKit}
+              onNew={startNewBrandKit}
+              onEdit={(kit) => setEditingBrandKitId(kit.id)}
+              onRename={renameBrandKit}
+              onArchive={archiveBrandKit}
+              onAddAssets={addBrandAssets}
+            />
+          )}
           {user && (
             <button 
-              onClick={handleTokenRefreshInfo}
+              onClick={openTokenTopup}
               className={`text-sm bg-zinc-800/50 backdrop-blur-sm rounded-full px-3 py-1.5 hover:bg-zinc-700/80 transition-colors flex items-center ${localTokens < 10000 ? 'text-amber-400' : 'text-zinc-300'} ${windowWidth < 768 ? 'md:block hidden' : ''}`}
             >
               <span className="font-medium">{localTokens.toLocaleString()}</span>
@@ -1086,6 +1579,13 @@ export default function Home() {
               )}
             </button>
           )}
+          <Link href="/library" aria-label="Your ads">
+            <button className="rounded-full bg-zinc-800/80 backdrop-blur-sm w-10 h-10 flex items-center justify-center hover:bg-zinc-700/80 transition-colors">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+              </svg>
+            </button>
+          </Link>
           <Link href="/landing">
             <button className="rounded-full bg-zinc-800/80 backdrop-blur-sm w-10 h-10 flex items-center justify-center hover:bg-zinc-700/80 transition-colors">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -1097,15 +1597,28 @@ export default function Home() {
       </motion.div>
       
       {/* Mobile tokens display below top toolbar */}
-      {user && windowWidth < 768 && (
+      {(user || brandKits.length > 0) && windowWidth < 768 && (
         <motion.div 
-          className="flex justify-center items-center mb-2 z-10"
+          className="flex justify-center items-center gap-2 mb-2 z-10"
           initial={{ opacity: 0, y: -5 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.3, delay: 0.2 }}
         >
-          <div 
-            onClick={handleTokenRefreshInfo}
+          {brandKits.length > 0 && (
+            <BrandKitSwitcher
+              kits={brandKits}
+              activeKitId={activeBrandKitId}
+              disabled={isGenerating || isAnalyzingBrand}
+              onSelect={selectBrandKit}
+              onNew={startNewBrandKit}
+              onEdit={(kit) => setEditingBrandKitId(kit.id)}
+              onRename={renameBrandKit}
+              onArchive={archiveBrandKit}
+              onAddAssets={addBrandAssets}
+            />
+          )}
+          {user && <div 
+            onClick={openTokenTopup}
             className={`text-sm bg-zinc-800/50 backdrop-blur-sm rounded-full px-3 py-1 ${localTokens < 10000 ? 'text-amber-400' : 'text-zinc-300'} flex items-center`}
           >
             <span className="font-medium">{localTokens.toLocaleString()}</span>
@@ -1117,10 +1630,31 @@ export default function Home() {
                 </svg>
               </span>
             )}
-          </div>
+          </div>}
         </motion.div>
       )}
       
+      {/* Account notices */}
+      {notifications.length > 0 && (
+        <div className="mx-auto w-full max-w-2xl px-4 flex flex-col gap-2 relative z-10">
+          {notifications.map(notification => (
+            <div key={notification.id} className="flex items-start gap-3 rounded-lg border border-amber-500/20 bg-amber-500/10 px-3 py-2">
+              <div className="flex-1">
+                <p className="text-sm font-medium text-amber-300">{notification.title}</p>
+                <p className="text-xs text-zinc-300">{notification.message}</p>
+              </div>
+              <button
+                onClick={() => dismissNotification(notification.id)}
+                aria-label="Dismiss"
+                className="text-zinc-400 hover:text-white text-sm"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      
       {/* Main chat area */}
       <div className="flex-1 flex flex-col overflow-y-auto px-4 py-6 relative z-10">
         <AnimatePresence mode="wait">
@@ -1359,6 +1893,65 @@ export default function Home() {
                           <div className="bg-zinc-900/50 backdrop-blur-sm rounded-2xl rounded-tl-sm p-3 max-w-[90%] relative group">
                             {item.messageType === 'text' ? (
                               <p className="text-white">{item.content}</p>
+                            ) : item.messageType === 'variants' && item.variants ? (
+                              // Side-by-side variant comparison
+                              <div className="flex flex-col space-y-3">
+                                <div className="grid grid-cols-2 gap-2">
+                                  {item.variants.map((imageUrl, index) => (
+                                    <button
+                                      key={index}
+                                      onClick={() => selectVariant(item.id, index)}
+                                      className={`relative rounded-lg overflow-hidden border-2 transition-colors ${
+                                        item.selectedVariant === index ? 'border-white' : 'border-transparent hover:border-white/40'
+                                      }`}
+                                    >
+                                      <img 
+                                        src={imageUrl}
+                                        alt={`Variant ${index + 1}`}
+                                        className="w-full object-cover"
+                                        style={{ height: windowWidth < 640 ? '140px' : '220px' }}
+                                      />
+                                      <span className="absolute bottom-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded-full">
+                                        {item.selectedVariant === index ? 'Winner' : `Variant ${index + 1}`}
+                                      </span>
+                                    </button>
+                                  ))}
+                                </div>
+                                <p className="text-zinc-400 text-sm">{item.content}</p>
+                                {item.selectedVariant !== undefined && (
+                                  <button
+                                    onClick={() => exportPack(item.variants![item.selectedVariant!], item)}
+                                    disabled={exportingImage !== null}
+                                    className="self-start bg-white/10 hover:bg-white/20 text-white text-xs px-3 py-1 rounded-full"
+                                  >
+                                    {exportingImage === item.variants[item.selectedVariant] ? 'Exporting...' : 'Export winner in all sizes'}
+                                  </button>
+                                )}
+                              </div>
+                            ) : item.messageType === 'copy' && item.copyVariants ? (
+                              // Editable copy variants
+                              <div className="flex flex-col space-y-3">
+                                <p className="text-zinc-400 text-sm">{item.content}</p>
+                                {item.copyVariants.map((copy, index) => (
+                                  <AdCopyCard
+                                    key={index}
+                                    copy={copy}
+                                    limits={getCopyLimits(item.copyPlatform)}
+                                    label={`Copy ${index + 1}`}
+                                    onChange={(updated) => updateCopyVariant(item.id, index, updated)}
+                                  />
+                                ))}
+                              </div>
+                            ) : item.messageType === 'compliance' && item.complianceReports ? (
+                              // Brand compliance of the generated ads
+                              <div className="flex flex-col space-y-2">
+                                <p className="text-zinc-400 text-sm">{item.content}</p>
+                                <ComplianceReportCard
+                                  reports={item.complianceReports}
+                                  disabled={isGenerating}
+                                  onRegenerate={(fixInstructions) => handlePromptSubmit(undefined, `${item.sourcePrompt ?? ''}\n\n${fixInstructions}`.trim())}
+                                />
+                              </div>
                             ) : item.messageType === 'image' ? (
                               <div className="relative">
                                 <img 
@@ -1371,6 +1964,14 @@ export default function Home() {
                                     objectFit: 'contain'
                                   }}
                                 />
+                                <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                                <button
+                                  onClick={() => exportPack(Array.isArray(item.content) ? item.content[0] : item.content, item)}
+                                  disabled={exportingImage !== null}
+                                  className="bg-black/50 hover:bg-black/70 text-white text-xs px-2 py-1 rounded-full"
+                                >
+                                  {exportingImage === (Array.isArray(item.content) ? item.content[0] : item.content) ? 'Exporting...' : 'Export sizes'}
+                                </button>
                                 <button
                                   onClick={() => {
                                     // Get the actual image URL regardless of content structure
@@ -1383,22 +1984,13 @@ export default function Home() {
                                       originalImageUrl = item.content.images[0];
                                     }
                                     
-                                    setEditingContext({
-                                      isEditing: true,
-                                      targetMessageId: item.id,
-                                      originalImage: originalImageUrl,
-                                      originalPrompt: chatHistory
-                                        .slice(0, chatHistory.findIndex(msg => msg.id === item.id))
-                                        .filter(msg => msg.type === 'prompt')
-                                        .pop()?.content || null
-                                    });
-                                    const textarea = document.querySelector('textarea');
-                                    if (textarea) textarea.focus();
+                                    startEditing(item.id, originalImageUrl, item);
                                   }}
-                                  className="absolute top-2 right-2 bg-black/50 hover:bg-black/70 text-white text-xs px-2 py-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                                  className="bg-black/50 hover:bg-black/70 text-white text-xs px-2 py-1 rounded-full"
                                 >
                                   Edit
                                 </button>
+                                </div>
                               </div>
                             ) : (
                               // Mixed message from assistant (typically doesn't happen but added for completeness)
@@ -1442,15 +2034,32 @@ export default function Home() {
                                           ))}
                                         </div>
                                       ) : (
-                                        <img 
-                                          src={item.content.images[0]} 
-                                          alt="User uploaded"
-                                          className="rounded-lg w-full object-cover mb-3"
-                                          style={{
-                                            height: windowWidth < 640 ? '120px' : '150px',
-                                            width: '100%'
-                                          }}
-                                        />
+                                        <div className="relative mb-3">
+                                          <img 
+                                            src={item.content.images[0]} 
+                                            alt="Generated ad"
+                                            className="rounded-lg w-full object-cover"
+                                            style={{
+                                              height: windowWidth < 640 ? '120px' : '150px',
+                                              width: '100%'
+                                            }}
+                                          />
+                                          <div className="absolute top-2 right-2 flex gap-1">
+                                            <button
+                                              onClick={() => exportPack(item.content.images[0], item)}
+                                              disabled={exportingImage !== null}
+                                              className="bg-black/50 hover:bg-black/70 text-white text-xs px-2 py-1 rounded-full"
+                                            >
+                                              {exportingImage === item.content.images[0] ? 'Exporting...' : 'Export sizes'}
+                                            </button>
+                                            <button
+                                              onClick={() => startEditing(item.id, item.content.images[0], item)}
+                                              className="bg-black/50 hover:bg-black/70 text-white text-xs px-2 py-1 rounded-full"
+                                            >
+                                              Edit
+                                            </button>
+                                          </div>
+                                        </div>
                                       )
                                     )}
                                     
@@ -1486,8 +2095,16 @@ export default function Home() {
           <LoadingSpinner 
             variant="small" 
             color="#ffffff" 
-            message={isAnalyzingBrand ? "Analyzing your brand profile..." : "Generating your ad..."} 
+            message={isAnalyzingBrand ? "Analyzing your brand profile..." : (generationMessage || "Generating your ad...")} 
           />
+          {isGenerating && progress > 0 && (
+            <div className="mt-4 h-1 w-48 bg-zinc-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-white transition-all duration-500"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          )}
         </motion.div>
       )}
 
@@ -1510,12 +2127,7 @@ export default function Home() {
                   <span className="text-sm text-zinc-400">Editing previous image</span>
                 </div>
                 <button
-                  onClick={() => setEditingContext({
-                    isEditing: false,
-                    targetMessageId: null,
-                    originalImage: null,
-                    originalPrompt: null
-                  })}
+                  onClick={stopEditing}
                   className="text-zinc-500 hover:text-white transition-colors"
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -1525,10 +2137,78 @@ export default function Home() {
               </div>
             )}
             
+            {/* Mask painting for the image being edited */}
+            {editingContext.isEditing && editingContext.originalImage && (
+              <div className="mb-2 px-4 py-3 bg-zinc-800/50 rounded-lg">
+                <MaskEditor
+                  key={editingContext.originalImage}
+                  imageUrl={editingContext.originalImage}
+                  onChange={setEditMask}
+                />
+              </div>
+            )}
+            
             <div className="relative rounded-2xl bg-zinc-900/50 backdrop-blur-sm border border-white/10 overflow-hidden">
               {/* Staged Image Preview */}
               <StagedImagePreview />
               
+              {/* Reference ads the generation should match */}
+              <ReferenceAdsPreview />
+              
+              {/* Copy and logo composited onto the ad */}
+              {showOverlayFields && !editingContext.isEditing && (
+                <div className="flex flex-wrap items-center gap-2 px-6 pt-3">
+                  <input
+                    value={overlayCopy.headline}
+                    onChange={(e) => setOverlayCopy(prev => ({ ...prev, headline: e.target.value }))}
+                    placeholder="Headline"
+                    maxLength={120}
+                    className="flex-1 min-w-[140px] bg-zinc-800/80 text-sm text-white placeholder-zinc-500 rounded-lg px-3 py-1.5 focus:outline-none"
+                  />
+                  <input
+                    value={overlayCopy.subhead}
+                    onChange={(e) => setOverlayCopy(prev => ({ ...prev, subhead: e.target.value }))}
+                    placeholder="Subhead (optional)"
+                    maxLength={200}
+                    className="flex-1 min-w-[140px] bg-zinc-800/80 text-sm text-white placeholder-zinc-500 rounded-lg px-3 py-1.5 focus:outline-none"
+                  />
+                  <input
+                    value={overlayCopy.cta}
+                    onChange={(e) => setOverlayCopy(prev => ({ ...prev, cta: e.target.value }))}
+                    placeholder="Button (optional)"
+                    maxLength={30}
+                    className="w-36 bg-zinc-800/80 text-sm text-white placeholder-zinc-500 rounded-lg px-3 py-1.5 focus:outline-none"
+                  />
+                  <input
+                    type="file"
+                    ref={logoInputRef}
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) setOverlayLogo(URL.createObjectURL(file));
+                      e.target.value = '';
+                    }}
+                  />
+                  {overlayLogo ? (
+                    <button
+                      onClick={() => setOverlayLogo(null)}
+                      title="Remove logo"
+                      className="w-8 h-8 rounded-md overflow-hidden border border-white/20"
+                    >
+                      <img src={overlayLogo} alt="Logo" className="w-full h-full object-contain" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => logoInputRef.current?.click()}
+                      className="text-xs text-zinc-400 hover:text-white"
+                    >
+                      + Logo
+                    </button>
+                  )}
+                </div>
+              )}
+              
               <textarea
                 value={userPrompt}
                 onChange={(e) => setUserPrompt(e.target.value)}
@@ -1547,6 +2227,60 @@ export default function Home() {
               />
               
               <div className="absolute bottom-2 right-2 flex space-x-2 items-center">
+                {/* Platform placement selector */}
+                {uploadedImages.length > 0 && !isGenerating && !editingContext.isEditing && (
+                  <select
+                    value={placementChoice}
+                    onChange={(e) => setPlacementChoice(e.target.value)}
+                    title="Platform and placement to size the ad for"
+                    className="bg-zinc-800/80 text-xs text-zinc-300 rounded-full px-2 py-1 focus:outline-none"
+                  >
+                    <option value="auto">Auto size</option>
+                    {Object.entries(PLATFORM_SIZES).map(([platform, placements]) => (
+                      <optgroup key={platform} label={platform.charAt(0).toUpperCase() + platform.slice(1)}>
+                        {Object.entries(placements).map(([placement, size]) => (
+                          <option key={placement} value={`${platform}.${placement}`}>
+                            {placement.replace(/_/g, ' ')} ({size.width}×{size.height})
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                )}
+                
+                {/* Brand template selector */}
+                {uploadedImages.length > 0 && !isGenerating && !editingContext.isEditing && brandTemplates.length > 0 && (
+                  <select
+                    value={templateChoice}
+                    onChange={(e) => setTemplateChoice(e.target.value)}
+                    title="Art direction template"
+                    className="bg-zinc-800/80 text-xs text-zinc-300 rounded-full px-2 py-1 focus:outline-none"
+                  >
+                    <option value="">Auto template</option>
+                    {brandTemplates.map(template => (
+                      <option key={template.id} value={template.name} title={template.description}>
+                        {template.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                
+                {/* Variant count selector */}
+                {uploadedImages.length > 0 && !isGenerating && (
+                  <select
+                    value={variantCount}
+                    onChange={(e) => setVariantCount(Number(e.target.value))}
+                    title="Number of variants to generate"
+                    className="bg-zinc-800/80 text-xs text-zinc-300 rounded-full px-2 py-1 focus:outline-none"
+                  >
+                    {Array.from({ length: MAX_VARIANTS }, (_, index) => index + 1).map(count => (
+                      <option key={count} value={count}>
+                        {count === 1 ? '1 variant' : `${count} variants`}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                
                 {/* Quality toggle switch */}
                 {uploadedImages.length > 0 && !isGenerating && (
                   <div className="flex items-center mr-2">
@@ -1607,6 +2341,36 @@ export default function Home() {
                   </svg>
                 </button>
                 
+                <button 
+                  onClick={() => setShowOverlayFields(prev => !prev)}
+                  title="Add a headline, button and logo drawn on top of the ad"
+                  className={`rounded-full backdrop-blur-sm w-8 h-8 flex items-center justify-center transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                    showOverlayFields || overlayCopy.headline.trim() ? 'bg-white/20 text-white' : 'bg-zinc-800/80 hover:bg-zinc-700/80'
+                  }`}
+                  disabled={isGenerating || editingContext.isEditing}
+                >
+                  <span className="text-sm font-semibold">T</span>
+                </button>
+                
+                <input
+                  type="file"
+                  ref={referenceInputRef}
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={handleReferenceUpload}
+                />
+                <button 
+                  onClick={() => referenceInputRef.current?.click()}
+                  title={`Add up to ${MAX_REFERENCE_ADS} past ads whose style you like`}
+                  className="rounded-full bg-zinc-800/80 backdrop-blur-sm w-8 h-8 flex items-center justify-center hover:bg-zinc-700/80 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={isGenerating || referenceAds.length >= MAX_REFERENCE_ADS}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                  </svg>
+                </button>
+                
                 <button 
                   onClick={(e) => handlePromptSubmit(e)}
                   disabled={(!userPrompt.trim() && !stagedImage) || !uploadedImages.length || isGenerating}
@@ -1641,6 +2405,24 @@ export default function Home() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Brand profile editor and version history */}
+      <AnimatePresence>
+        {editingBrandKit && getActiveUserId() && (
+          <BrandProfilePanel
+            key={editingBrandKit.id}
+            kit={editingBrandKit}
+            userId={getActiveUserId() as string}
+            onClose={() => setEditingBrandKitId(null)}
+            onChange={(kit) => setBrandKits(prev => prev.map(existing => existing.id === kit.id ? kit : existing))}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Token packages, with a link to the monthly plans */}
+      <AnimatePresence>
+        {showTokenTopup && <TokenTopup onClose={() => setShowTokenTopup(false)} />}
+      </AnimatePresence>
     </div>
   );
 }
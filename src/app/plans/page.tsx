@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/auth';
+import type { SubscriptionPlan } from '@/lib/stripe/constants';
+import type { SubscriptionView } from '@/lib/stripe/subscriptions';
+import { fetchSubscription, startSubscription, updateSubscription } from '@/lib/subscriptions-client';
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000000 ? `${tokens / 1000000}M` : `${tokens / 1000}k`;
+}
+
+/**
+ * Plan management: subscribe to a monthly plan, switch between plans and
+ * cancel or resume. Upgrades apply (and are charged, prorated) right away;
+ * downgrades and cancellations at the end of the billing period.
+ */
+export default function PlansPage() {
+  const { user, refreshTokenCount } = useAuth();
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [subscription, setSubscription] = useState<SubscriptionView | null>(null);
+  const [pendingPlanId, setPendingPlanId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Back from Stripe Checkout; the plan appears once the webhook has run
+  const [checkedOut, setCheckedOut] = useState(false);
+
+  useEffect(() => {
+    setCheckedOut(new URLSearchParams(window.location.search).get('checkout') === 'success');
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    setIsLoading(true);
+    fetchSubscription(user.id)
+      .then(overview => {
+        setPlans(overview.plans);
+        setSubscription(overview.subscription);
+      })
+      .catch(loadError => setError(loadError.message))
+      .finally(() => setIsLoading(false));
+  }, [user?.id]);
+
+  const currentPlan = plans.find(plan => plan.id === subscription?.planId);
+  const scheduledPlan = plans.find(plan => plan.id === subscription?.scheduledPlanId);
+
+  const choosePlan = async (plan: SubscriptionPlan) => {
+    if (!user) return;
+    setPendingPlanId(plan.id);
+    setError(null);
+    try {
+      if (subscription) {
+        setSubscription(await updateSubscription(user.id, 'change', plan.id));
+        // An upgrade's extra allowance arrives with its invoice
+        await refreshTokenCount();
+      } else {
+        window.location.href = await startSubscription(user.id, plan.id);
+      }
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : 'Failed to change plan');
+    } finally {
+      setPendingPlanId(null);
+    }
+  };
+
+  const setCancellation = async (cancel: boolean) => {
+    if (!user) return;
+    setPendingPlanId(subscription?.planId ?? null);
+    setError(null);
+    try {
+      setSubscription(await updateSubscription(user.id, cancel ? 'cancel' : 'resume'));
+    } catch (cancelError) {
+      setError(cancelError instanceof Error ? cancelError.message : 'Failed to update plan');
+    } finally {
+      setPendingPlanId(null);
+    }
+  };
+
+  const periodEnd = subscription && new Date(subscription.currentPeriodEnd).toLocaleDateString();
+
+  return (
+    <main className="min-h-screen bg-black p-4 sm:p-8">
+      <div className="mx-auto max-w-4xl flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-lg font-semibold text-white">Your plan</h1>
+          <Link href="/" className="rounded-full px-3 py-1 text-sm text-zinc-300 hover:text-white hover:bg-zinc-800">
+            Back to chat
+          </Link>
+        </div>
+
+        {!user && (
+          <p className="text-sm text-zinc-400">Sign in to subscribe to a monthly plan.</p>
+        )}
+
+        {checkedOut && !subscription && !isLoading && (
+          <p className="rounded-lg border border-zinc-700/50 bg-zinc-900 p-3 text-sm text-zinc-300">
+            Thanks for subscribing! Your plan will show here once the payment is confirmed.
+          </p>
+        )}
+
+        {error && (
+          <p className="rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-sm text-red-500">{error}</p>
+        )}
+
+        {subscription && currentPlan && (
+          <div className="rounded-xl border border-zinc-700/50 bg-zinc-900 p-4 text-sm text-zinc-300">
+            <p className="text-white font-medium">{currentPlan.name}</p>
+            <p className="mt-1">
+              {subscription.cancelAtPeriodEnd
+                ? `Cancelled — your plan and its tokens end on ${periodEnd}.`
+                : scheduledPlan
+                  ? `Switches to the ${scheduledPlan.name} on ${periodEnd}, with ${formatTokens(scheduledPlan.monthlyTokens)} tokens.`
+                  : `Renews on ${periodEnd} with ${formatTokens(currentPlan.monthlyTokens)} tokens.`}
+            </p>
+            {subscription.status === 'past_due' && (
+              <p className="mt-1 text-amber-300">Your last payment failed. Update your card to keep your plan.</p>
+            )}
+            <button
+              onClick={() => setCancellation(!subscription.cancelAtPeriodEnd)}
+              disabled={pendingPlanId !== null}
+              className="mt-3 rounded-full border border-zinc-700 px-3 py-1 text-zinc-300 hover:text-white hover:bg-zinc-800 disabled:opacity-50"
+            >
+              {subscription.cancelAtPeriodEnd ? 'Keep my plan' : 'Cancel plan'}
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {plans.map(plan => {
+            const isCurrent = plan.id === currentPlan?.id;
+            const isScheduled = plan.id === scheduledPlan?.id;
+            // Choosing the current plan again calls a scheduled downgrade off
+            const label = !currentPlan
+              ? 'Subscribe'
+              : isCurrent ? 'Keep this plan'
+                : isScheduled ? 'Starts at renewal'
+                  : plan.rank > currentPlan.rank ? 'Upgrade now' : 'Downgrade at renewal';
+
+            return (
+              <div
+                key={plan.id}
+                className={`rounded-xl border p-4 ${isCurrent ? 'border-white/30 bg-white/5' : 'border-zinc-700/50 bg-zinc-900'}`}
+              >
+                <div className="flex items-baseline justify-between">
+                  <p className="text-white font-medium">{plan.name}</p>
+                  <p className="text-white font-bold">${plan.price}<span className="text-xs font-normal text-zinc-400">/month</span></p>
+                </div>
+                <p className="mt-2 text-sm text-zinc-300">{formatTokens(plan.monthlyTokens)} tokens every month</p>
+                <p className="text-xs text-zinc-400">
+                  {plan.rolloverLimit > 0
+                    ? `Up to ${formatTokens(plan.rolloverLimit)} unused tokens roll over`
+                    : 'Unused tokens expire at renewal'}
+                </p>
+                <p className="text-xs mt-1 text-zinc-300">Tier: <span className="font-medium">{plan.tier}</span></p>
+                <button
+                  onClick={() => choosePlan(plan)}
+                  disabled={!user || (isCurrent && !scheduledPlan) || isScheduled || pendingPlanId !== null}
+                  className="mt-3 w-full rounded-lg bg-white py-2 text-sm font-medium text-black hover:bg-zinc-200 disabled:opacity-50"
+                >
+                  {isCurrent && !scheduledPlan ? 'Current plan' : pendingPlanId === plan.id ? 'Working…' : label}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-zinc-500">
+          Plan tokens expire at the end of each billing month, except for what rolls over. Token packages can still be bought on top of a plan.
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { formatCopy, hashtagLength, type AdCopy, type CopyLimits } from '@/lib/ad-copy';
+
+type AdCopyCardProps = {
+  copy: AdCopy;
+  limits: CopyLimits;
+  label: string;
+  onChange: (copy: AdCopy) => void;
+};
+
+// Remaining-characters counter, red once the limit is exceeded
+function Counter({ length, limit }: { length: number; limit: number }) {
+  return (
+    <span className={`text-[10px] ${length > limit ? 'text-red-400' : 'text-zinc-500'}`}>
+      {length}/{limit}
+    </span>
+  );
+}
+
+/**
+ * One editable ad copy variant with per-field character limits
+ */
+export function AdCopyCard({ copy, limits, label, onChange }: AdCopyCardProps) {
+  const [copied, setCopied] = useState(false);
+  // Hashtags are edited as free text and split when the field loses focus
+  const [hashtagDraft, setHashtagDraft] = useState(copy.hashtags.join(' '));
+  const draftHashtags = hashtagDraft.split(/\s+/).filter(Boolean);
+  const combinedLength = copy.primaryText.length + hashtagLength(draftHashtags);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(formatCopy(copy));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const fieldClass = 'w-full bg-zinc-800/60 text-sm text-white rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-white/30';
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-white/10 p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-zinc-400">{label}</span>
+        <button onClick={handleCopy} className="text-xs text-zinc-300 hover:text-white">
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <input
+          value={copy.headline}
+          onChange={(e) => onChange({ ...copy, headline: e.target.value })}
+          className={`${fieldClass} font-semibold`}
+          aria-label="Headline"
+        />
+        <Counter length={copy.headline.length} limit={limits.headline} />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <textarea
+          value={copy.primaryText}
+          onChange={(e) => onChange({ ...copy, primaryText: e.target.value })}
+          rows={3}
+          className={`${fieldClass} resize-none`}
+          aria-label="Primary text"
+        />
+        <Counter length={copy.primaryText.length} limit={limits.primaryText} />
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex flex-1 flex-col gap-1">
+          <input
+            value={hashtagDraft}
+            onChange={(e) => setHashtagDraft(e.target.value)}
+            onBlur={() => onChange({ ...copy, hashtags: draftHashtags })}
+            className={`${fieldClass} text-zinc-300`}
+            aria-label="Hashtags"
+          />
+          <span className={`text-[10px] ${draftHashtags.length > limits.hashtags ? 'text-red-400' : 'text-zinc-500'}`}>
+            {draftHashtags.length}/{limits.hashtags} hashtags
+            {limits.combined ? ` · ${combinedLength}/${limits.combined} with text` : ''}
+          </span>
+        </div>
+        <div className="flex w-32 flex-col gap-1">
+          <input
+            value={copy.cta}
+            onChange={(e) => onChange({ ...copy, cta: e.target.value })}
+            className={fieldClass}
+            aria-label="Call to action"
+          />
+          <Counter length={copy.cta.length} limit={limits.cta} />
+        </div>
+      </div>
+    </div>
+  );
+}
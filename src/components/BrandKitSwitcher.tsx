@@ -0,0 +1,113 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { BrandKitView } from '@/lib/brand-kits';
+import type { BrandSourceKind } from '@/lib/brand-profile-schema';
+
+// Select value that starts a new kit from the next brand image
+export const NEW_BRAND_KIT = 'new';
+
+// Asset kinds that can be added to a kit, and the files each accepts
+const ASSET_OPTIONS: { kind: BrandSourceKind; label: string; accept: string }[] = [
+  { kind: 'logo', label: 'Logo', accept: 'image/*' },
+  { kind: 'product', label: 'Product shots', accept: 'image/*' },
+  { kind: 'ad', label: 'Existing ads', accept: 'image/*' },
+  { kind: 'guideline', label: 'Brand guidelines (PDF, text)', accept: 'application/pdf,text/plain,text/markdown,.md,.txt' }
+];
+
+interface BrandKitSwitcherProps {
+  kits: BrandKitView[];
+  // The kit generations use, or null while a new kit is being set up
+  activeKitId: string | null;
+  disabled?: boolean;
+  onSelect: (kitId: string) => void;
+  onNew: () => void;
+  onEdit: (kit: BrandKitView) => void;
+  onRename: (kit: BrandKitView) => void;
+  onArchive: (kit: BrandKitView) => void;
+  // Re-analyze the active kit with more inputs (or start a kit from them)
+  onAddAssets: (kind: BrandSourceKind, files: File[]) => void;
+}
+
+/**
+ * Picks the brand kit the chat generates for, with edit, rename, archive and
+ * add-assets actions
+ */
+export function BrandKitSwitcher({ kits, activeKitId, disabled, onSelect, onNew, onEdit, onRename, onArchive, onAddAssets }: BrandKitSwitcherProps) {
+  const activeKit = kits.find(kit => kit.id === activeKitId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [assetKind, setAssetKind] = useState<BrandSourceKind>('logo');
+
+  const pickAssets = (kind: BrandSourceKind) => {
+    setAssetKind(kind);
+    if (fileInputRef.current) {
+      fileInputRef.current.accept = ASSET_OPTIONS.find(option => option.kind === kind)?.accept || '';
+      fileInputRef.current.click();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-sm bg-zinc-800/50 backdrop-blur-sm rounded-full pl-3 pr-1 py-1">
+      <select
+        value={activeKitId ?? NEW_BRAND_KIT}
+        onChange={(e) => e.target.value === NEW_BRAND_KIT ? onNew() : onSelect(e.target.value)}
+        disabled={disabled}
+        className="bg-transparent text-zinc-300 max-w-[10rem] truncate focus:outline-none disabled:opacity-50"
+        aria-label="Brand kit"
+      >
+        {kits.map(kit => (
+          <option key={kit.id} value={kit.id} className="bg-zinc-900">{kit.name}</option>
+        ))}
+        <option value={NEW_BRAND_KIT} className="bg-zinc-900">+ New brand kit</option>
+      </select>
+      {activeKit && (
+        <>
+          <button
+            onClick={() => onEdit(activeKit)}
+            disabled={disabled}
+            className="rounded-full px-2 py-0.5 text-xs text-zinc-400 hover:text-white hover:bg-zinc-700/80 disabled:opacity-50"
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => onRename(activeKit)}
+            disabled={disabled}
+            className="rounded-full px-2 py-0.5 text-xs text-zinc-400 hover:text-white hover:bg-zinc-700/80 disabled:opacity-50"
+          >
+            Rename
+          </button>
+          <button
+            onClick={() => onArchive(activeKit)}
+            disabled={disabled}
+            className="rounded-full px-2 py-0.5 text-xs text-zinc-400 hover:text-white hover:bg-zinc-700/80 disabled:opacity-50"
+          >
+            Archive
+          </button>
+        </>
+      )}
+      <select
+        value=""
+        onChange={(e) => e.target.value && pickAssets(e.target.value as BrandSourceKind)}
+        disabled={disabled}
+        className="rounded-full bg-transparent px-2 py-0.5 text-xs text-zinc-400 hover:text-white hover:bg-zinc-700/80 focus:outline-none disabled:opacity-50"
+        aria-label="Add brand assets"
+      >
+        <option value="" className="bg-zinc-900">Add assets</option>
+        {ASSET_OPTIONS.map(option => (
+          <option key={option.kind} value={option.kind} className="bg-zinc-900">{option.label}</option>
+        ))}
+      </select>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files || []);
+          e.target.value = '';
+          if (files.length > 0) onAddAssets(assetKind, files);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { BrandKitView, BrandProfileVersionView } from '@/lib/brand-kits';
+import type { BrandProfile, BrandProfileField } from '@/lib/brand-profile-schema';
+import { diffBrandProfiles, type BrandProfileChange } from '@/lib/brand-profile-diff';
+import { fetchBrandKitVersions, patchBrandKit, rollbackBrandKit } from '@/lib/brand-kits-client';
+
+interface BrandProfilePanelProps {
+  kit: BrandKitView;
+  userId: string;
+  onClose: () => void;
+  // Called with the updated kit after a save, rollback, pin or unpin
+  onChange: (kit: BrandKitView) => void;
+}
+
+const SOURCE_LABELS: Record<BrandProfileVersionView['source'], string> = {
+  analysis: 'Analysis',
+  edit: 'Edited',
+  rollback: 'Rollback'
+};
+
+// Lists are edited as comma-separated text and split on save
+function splitList(text: string): string[] {
+  return text.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// Fields the user changed are theirs now: fully confident, no longer attributed to an input
+function markEdited(original: BrandProfile, edited: BrandProfile): BrandProfile {
+  const edits = diffBrandProfiles(original, edited).map(change => change.field);
+  if (edits.length === 0) {
+    return edited;
+  }
+
+  const confidence = { ...edited.confidence };
+  edits
+    .filter((field): field is BrandProfileField => !field.startsWith('style.'))
+    .forEach(field => { confidence[field] = 1; });
+
+  return {
+    ...edited,
+    confidence,
+    attributions: edited.attributions?.filter(attribution => !edits.includes(attribution.field))
+  };
+}
+
+function ChangeList({ changes }: { changes: BrandProfileChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-zinc-500">No differences</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-2 text-xs">
+      {changes.map(change => (
+        <li key={change.field} className="rounded-md bg-zinc-800/60 px-2 py-1.5">
+          <span className="text-zinc-400">{change.label}</span>
+          {change.added || change.removed ? (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {change.removed?.map(entry => (
+                <span key={`-${entry}`} className="rounded bg-red-500/20 px-1.5 text-red-300 line-through">{entry}</span>
+              ))}
+              {change.added?.map(entry => (
+                <span key={`+${entry}`} className="rounded bg-emerald-500/20 px-1.5 text-emerald-300">{entry}</span>
+              ))}
+            </div>
+          ) : (
+            <div className="mt-1 flex flex-col gap-0.5">
+              {change.before && <span className="text-red-300 line-through">{change.before}</span>}
+              {change.after && <span className="text-emerald-300">{change.after}</span>}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Edit a brand kit's profile, browse its versions, compare any two, and roll
+ * back to or pin a version
+ */
+export function BrandProfilePanel({ kit, userId, onClose, onChange }: BrandProfilePanelProps) {
+  const [tab, setTab] = useState<'profile' | 'history'>('profile');
+  const [draft, setDraft] = useState<BrandProfile | null>(kit.profile);
+  const [colorsDraft, setColorsDraft] = useState(kit.profile?.colorPalette.join(', ') ?? '');
+  const [elementsDraft, setElementsDraft] = useState(kit.profile?.visualElements.join(', ') ?? '');
+  const [note, setNote] = useState('');
+  const [versions, setVersions] = useState<BrandProfileVersionView[]>([]);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchBrandKitVersions(userId, kit.id)
+      .then(loaded => {
+        if (cancelled) return;
+        setVersions(loaded);
+        // Default comparison: what the latest version changed
+        setCompareTo(loaded[0]?.version ?? null);
+        setCompareFrom(loaded[1]?.version ?? null);
+      })
+      .catch(loadError => !cancelled && setError(loadError.message));
+    return () => { cancelled = true; };
+  }, [userId, kit.id, historyKey]);
+
+  // Take on a kit returned by the server and reload its history
+  const applyKit = (updated: BrandKitView) => {
+    setDraft(updated.profile);
+    setColorsDraft(updated.profile?.colorPalette.join(', ') ?? '');
+    setElementsDraft(updated.profile?.visualElements.join(', ') ?? '');
+    setNote('');
+    setHistoryKey(key => key + 1);
+    onChange(updated);
+  };
+
+  const run = async (action: () => Promise<BrandKitView>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      applyKit(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const save = () => {
+    if (!draft || !kit.profile) return;
+    const edited = { ...draft, colorPalette: splitList(colorsDraft), visualElements: splitList(elementsDraft) };
+    run(() => patchBrandKit(userId, kit.id, {
+      profile: markEdited(kit.profile as BrandProfile, edited),
+      note: note.trim() || undefined
+    }));
+  };
+
+  const updateDraft = (update: Partial<BrandProfile>) => setDraft(current => current && { ...current, ...update });
+  const palette = draft?.extractedPalette ?? [];
+  const fromProfile = versions.find(version => version.version === compareFrom)?.profile;
+  const toProfile = versions.find(version => version.version === compareTo)?.profile;
+
+  const fieldClass = 'w-full bg-zinc-800/60 text-sm text-white rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-white/30';
+  const labelClass = 'flex items-center justify-between text-xs text-zinc-400';
+
+  // Confidence badge for fields built from analyzed inputs
+  const confidence = (field: BrandProfileField) => {
+    const value = draft?.confidence?.[field];
+    return value === undefined ? null : <span className="text-[10px] text-zinc-500">{Math.round(value * 100)}% confident</span>;
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-2 sm:p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col bg-zinc-900 border border-zinc-700/50 rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+          <div>
+            <h2 className="text-base font-semibold text-white">{kit.name}</h2>
+            <p className="text-xs text-zinc-500">
+              Version {kit.currentVersion}{kit.pinnedVersion !== null && ` · version ${kit.pinnedVersion} pinned for generations`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white p-1" aria-label="Close">✕</button>
+        </div>
+
+        <div className="flex gap-1 px-4 pt-3 text-sm">
+          {(['profile', 'history'] as const).map(name => (
+            <button
+              key={name}
+              onClick={() => setTab(name)}
+              className={`rounded-full px-3 py-1 ${tab === name ? 'bg-white text-black' : 'text-zinc-400 hover:text-white'}`}
+            >
+              {name === 'profile' ? 'Profile' : 'History'}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          {tab === 'profile' && !draft && (
+            <p className="text-sm text-zinc-400">This profile can no longer be read. Roll back to an earlier version from the history.</p>
+          )}
+
+          {tab === 'profile' && draft && (
+            <>
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>Style {confidence('brandStyle')}</span>
+                <textarea
+                  value={draft.brandStyle}
+                  onChange={(e) => updateDraft({ brandStyle: e.target.value })}
+                  rows={2}
+                  className={`${fieldClass} resize-none`}
+                />
+              </label>
+
+              <div className="flex flex-col gap-1">
+                <span className={labelClass}>Palette {confidence('extractedPalette')}</span>
+                <div className="flex flex-wrap items-center gap-2">
+                  {palette.map((color, index) => (
+                    <div key={index} className="flex items-center gap-1 rounded-md bg-zinc-800/60 pl-1 pr-2 py-1">
+                      <input
+                        type="color"
+                        value={color.hex}
+                        onChange={(e) => updateDraft({
+                          extractedPalette: palette.map((entry, i) => i === index ? { ...entry, hex: e.target.value.toLowerCase() } : entry)
+                        })}
+                        className="h-6 w-6 cursor-pointer rounded border-0 bg-transparent"
+                        aria-label={`Color ${index + 1}`}
+                      />
+                      <span className="text-xs text-zinc-300">{color.hex}</span>
+                      {color.coverage > 0 && <span className="text-[10px] text-zinc-500">{color.coverage}%</span>}
+                      <button
+                        onClick={() => updateDraft({ extractedPalette: palette.filter((_, i) => i !== index) })}
+                        className="text-xs text-zinc-500 hover:text-white"
+                        aria-label={`Remove ${color.hex}`}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateDraft({ extractedPalette: [...palette, { hex: '#000000', coverage: 0 }] })}
+                    className="rounded-md px-2 py-1 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800"
+                  >
+                    + Color
+                  </button>
+                </div>
+              </div>
+
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>Color names {confidence('colorPalette')}</span>
+                <input value={colorsDraft} onChange={(e) => setColorsDraft(e.target.value)} className={fieldClass} />
+              </label>
+
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>Visual elements {confidence('visualElements')}</span>
+                <input value={elementsDraft} onChange={(e) => setElementsDraft(e.target.value)} className={fieldClass} />
+              </label>
+
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>Mood and tone {confidence('moodAndTone')}</span>
+                <input value={draft.moodAndTone} onChange={(e) => updateDraft({ moodAndTone: e.target.value })} className={fieldClass} />
+              </label>
+
+              <div className="flex gap-2">
+                <label className="flex flex-1 flex-col gap-1">
+                  <span className={labelClass}>Audience {confidence('targetAudience')}</span>
+                  <input value={draft.targetAudience} onChange={(e) => updateDraft({ targetAudience: e.target.value })} className={fieldClass} />
+                </label>
+                <label className="flex flex-1 flex-col gap-1">
+                  <span className={labelClass}>Industry {confidence('industryCategory')}</span>
+                  <input value={draft.industryCategory} onChange={(e) => updateDraft({ industryCategory: e.target.value })} className={fieldClass} />
+                </label>
+              </div>
+
+              <div className="flex items-center gap-2 pt-1">
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What changed? (optional)"
+                  maxLength={200}
+                  className={`${fieldClass} flex-1`}
+                />
+                <button
+                  onClick={save}
+                  disabled={isSaving}
+                  className="rounded-full bg-white px-4 py-1.5 text-sm font-medium text-black hover:bg-zinc-200 disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save version'}
+                </button>
+              </div>
+            </>
+          )}
+
+          {tab === 'history' && (
+            <>
+              <ul className="flex flex-col gap-1">
+                {versions.map(version => (
+                  <li key={version.id} className="flex items-center gap-2 rounded-md bg-zinc-800/40 px-2 py-1.5 text-xs">
+                    <span className="font-medium text-white">v{version.version}</span>
+                    <span className="text-zinc-400">{SOURCE_LABELS[version.source]}</span>
+                    {version.version === kit.currentVersion && <span className="rounded bg-white/10 px-1.5 text-zinc-300">Current</span>}
+                    {version.version === kit.pinnedVersion && <span className="rounded bg-amber-500/20 px-1.5 text-amber-300">Pinned</span>}
+                    <span className="flex-1 truncate text-zinc-500" title={version.note ?? undefined}>
+                      {version.note || new Date(version.createdAt).toLocaleString()}
+                    </span>
+                    {version.version !== kit.currentVersion && (
+                      <button
+                        onClick={() => run(() => rollbackBrandKit(userId, kit.id, version.version))}
+                        disabled={isSaving || !version.profile}
+                        className="text-zinc-400 hover:text-white disabled:opacity-50"
+                      >
+                        Roll back
+                      </button>
+                    )}
+                    <button
+                      onClick={() => run(() => patchBrandKit(userId, kit.id, {
+                        pinnedVersion: version.version === kit.pinnedVersion ? null : version.version
+                      }))}
+                      disabled={isSaving}
+                      className="text-zinc-400 hover:text-white disabled:opacity-50"
+                    >
+                      {version.version === kit.pinnedVersion ? 'Unpin' : 'Pin'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {versions.length > 1 && (
+                <div className="flex flex-col gap-2 pt-2">
+                  <div className="flex items-center gap-2 text-xs text-zinc-400">
+                    Compare
+                    {[{ value: compareFrom, set: setCompareFrom }, { value: compareTo, set: setCompareTo }].map(({ value, set }, index) => (
+                      <select
+                        key={index}
+                        value={value ?? ''}
+                        onChange={(e) => set(Number(e.target.value))}
+                        className="bg-zinc-800 rounded px-1 py-0.5 text-zinc-200"
+                        aria-label={index === 0 ? 'Compare from version' : 'Compare to version'}
+                      >
+                        {versions.map(version => (
+                          <option key={version.id} value={version.version}>v{version.version}</option>
+                        ))}
+                      </select>
+                    ))}
+                  </div>
+                  {fromProfile && toProfile
+                    ? <ChangeList changes={diffBrandProfiles(fromProfile, toProfile)} />
+                    : <p className="text-xs text-zinc-500">One of these versions can no longer be read</p>}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { BRAND_PROFILE_VERSION, type BrandStyle, type BrandTemplateProfile } from '@/lib/brand-profile-schema';
+import type { BrandTemplateView } from '@/lib/brand-templates';
+import {
+  cloneBrandTemplate,
+  createBrandTemplate,
+  patchBrandTemplate,
+  previewBrandTemplate
+} from '@/lib/brand-templates-client';
+
+interface BrandTemplateEditorProps {
+  adminKey: string;
+  // The template to edit, or null to create one
+  template: BrandTemplateView | null;
+  // Called with the saved template after a create, edit, clone, retire or restore
+  onSaved: (template: BrandTemplateView) => void;
+}
+
+const STYLE_FIELDS: { field: keyof BrandStyle; label: string; placeholder: string }[] = [
+  { field: 'messagingStyle', label: 'Messaging', placeholder: 'energetic, motivational, performance-focused' },
+  { field: 'typography', label: 'Typography', placeholder: 'bold, sans-serif, dynamic' },
+  { field: 'colorScheme', label: 'Color scheme', placeholder: 'vibrant blues, energetic reds, and clean whites' },
+  { field: 'productPlacement', label: 'Product placement', placeholder: 'action shots, prominently featured' },
+  { field: 'layoutStructure', label: 'Layout', placeholder: 'dynamic, asymmetrical with strong movement' }
+];
+
+/**
+ * Create or edit a brand template, render a preview of its typography and
+ * layout, clone it, and retire or restore it
+ */
+export function BrandTemplateEditor({ adminKey, template, onSaved }: BrandTemplateEditorProps) {
+  const [name, setName] = useState('');
+  const [label, setLabel] = useState(template?.label ?? '');
+  const [description, setDescription] = useState(template?.description ?? '');
+  const [industry, setIndustry] = useState(template?.industry ?? '');
+  const [style, setStyle] = useState<BrandStyle>(template?.profile?.style ?? {});
+  const [isDefault, setIsDefault] = useState(template?.isDefault ?? false);
+  const [cloneName, setCloneName] = useState('');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile: BrandTemplateProfile = {
+    version: BRAND_PROFILE_VERSION,
+    // Empty fields are left out rather than stored as blanks
+    style: Object.fromEntries(
+      Object.entries(style).filter(([, value]) => value?.trim())
+    ) as BrandStyle
+  };
+  const isRetired = Boolean(template?.retiredAt);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const save = () => run(async () => {
+    const fields = { label, description, industry: industry.trim() || null, profile, isDefault };
+    onSaved(template
+      ? await patchBrandTemplate(adminKey, template.id, fields)
+      : await createBrandTemplate(adminKey, { name, ...fields }));
+  });
+
+  const preview = () => run(async () => {
+    setPreviewUrl(await previewBrandTemplate(adminKey, profile));
+  });
+
+  const clone = () => run(async () => {
+    if (!template) return;
+    onSaved(await cloneBrandTemplate(adminKey, template.id, cloneName));
+    setCloneName('');
+  });
+
+  const setRetired = (retired: boolean) => run(async () => {
+    if (!template) return;
+    onSaved(await patchBrandTemplate(adminKey, template.id, { retired }));
+  });
+
+  const fieldClass = 'w-full bg-zinc-800/60 text-sm text-white rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-white/30';
+  const labelClass = 'text-xs text-zinc-400';
+  const buttonClass = 'rounded-full px-4 py-1.5 text-sm text-zinc-300 hover:text-white hover:bg-zinc-800 disabled:opacity-50';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-base font-semibold text-white">{template ? template.label : 'New template'}</h2>
+          {template && (
+            <p className="text-xs text-zinc-500">
+              {template.name}{isRetired && ' · retired'}
+            </p>
+          )}
+        </div>
+        {template && (
+          <button onClick={() => setRetired(!isRetired)} disabled={isBusy} className={buttonClass}>
+            {isRetired ? 'Restore' : 'Retire'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {!template && (
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Name (used by the API, can&apos;t be changed later)</span>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="outdoorGear" className={fieldClass} />
+        </label>
+      )}
+
+      <div className="flex gap-2">
+        <label className="flex flex-1 flex-col gap-1">
+          <span className={labelClass}>Label</span>
+          <input value={label} onChange={(e) => setLabel(e.target.value)} className={fieldClass} />
+        </label>
+        <label className="flex flex-1 flex-col gap-1">
+          <span className={labelClass}>Industry (blank for any)</span>
+          <input value={industry} onChange={(e) => setIndustry(e.target.value)} placeholder="fashion" className={fieldClass} />
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className={labelClass}>Description</span>
+        <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={`${fieldClass} resize-none`} />
+      </label>
+
+      {STYLE_FIELDS.map(({ field, label: fieldLabel, placeholder }) => (
+        <label key={field} className="flex flex-col gap-1">
+          <span className={labelClass}>{fieldLabel}</span>
+          <input
+            value={style[field] ?? ''}
+            onChange={(e) => setStyle(current => ({ ...current, [field]: e.target.value }))}
+            placeholder={placeholder}
+            className={fieldClass}
+          />
+        </label>
+      ))}
+
+      <label className="flex items-center gap-2 text-sm text-zinc-300">
+        <input type="checkbox" checked={isDefault} disabled={isRetired} onChange={(e) => setIsDefault(e.target.checked)} />
+        Default for {industry.trim() ? `the ${industry.trim().toLowerCase()} industry` : 'any industry'}
+      </label>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={isBusy}
+          className="rounded-full bg-white px-4 py-1.5 text-sm font-medium text-black hover:bg-zinc-200 disabled:opacity-50"
+        >
+          {template ? 'Save' : 'Create'}
+        </button>
+        <button onClick={preview} disabled={isBusy} className={buttonClass}>Preview</button>
+      </div>
+
+      {template && (
+        <div className="flex items-center gap-2">
+          <input
+            value={cloneName}
+            onChange={(e) => setCloneName(e.target.value)}
+            placeholder="Name for a copy"
+            className={`${fieldClass} flex-1`}
+          />
+          <button onClick={clone} disabled={isBusy || !cloneName.trim()} className={buttonClass}>Clone</button>
+        </div>
+      )}
+
+      {previewUrl && (
+        <img src={previewUrl} alt="Template preview" className="w-full max-w-sm rounded-lg border border-white/10" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import type { ComplianceReport, ComplianceStatus } from '@/lib/brand-compliance';
+
+interface ComplianceReportCardProps {
+  // One report per rendered variant, in variant order
+  reports: ComplianceReport[];
+  disabled?: boolean;
+  // Called with the fix instructions of the ad that scored lowest
+  onRegenerate: (fixInstructions: string) => void;
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, string> = {
+  pass: 'bg-emerald-500/20 text-emerald-300',
+  warn: 'bg-amber-500/20 text-amber-300',
+  fail: 'bg-red-500/20 text-red-300'
+};
+
+const STATUS_LABELS: Record<ComplianceStatus, string> = {
+  pass: 'On brand',
+  warn: 'Mostly on brand',
+  fail: 'Off brand'
+};
+
+function CheckRow({ label, score, status, detail }: { label: string; score: number; status: ComplianceStatus; detail?: string }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-16 text-zinc-400">{label}</span>
+      <span className={`rounded px-1.5 ${STATUS_STYLES[status]}`}>{score}</span>
+      {detail && <span className="truncate text-zinc-500">{detail}</span>}
+    </div>
+  );
+}
+
+/**
+ * How well generated ads match the brand: an overall score per ad, the
+ * palette, logo and style checks behind it, and the issues found
+ */
+export function ComplianceReportCard({ reports, disabled, onRegenerate }: ComplianceReportCardProps) {
+  const worst = reports.reduce((lowest, report) => report.score < lowest.score ? report : lowest, reports[0]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      {reports.map((report, index) => (
+        <div key={index} className="flex flex-col gap-1.5 rounded-lg bg-zinc-800/40 p-2">
+          <div className="flex items-center gap-2 text-sm">
+            {reports.length > 1 && <span className="text-zinc-400">Variant {index + 1}</span>}
+            <span className={`rounded-full px-2 py-0.5 text-xs ${STATUS_STYLES[report.status]}`}>
+              {STATUS_LABELS[report.status]} · {report.score}
+            </span>
+          </div>
+          {report.palette && (
+            <CheckRow
+              label="Colors"
+              score={report.palette.score}
+              status={report.palette.status}
+              detail={report.palette.offBrandColors.length ? `Off palette: ${report.palette.offBrandColors.join(', ')}` : undefined}
+            />
+          )}
+          {report.logo && (
+            <CheckRow
+              label="Logo"
+              score={report.logo.score}
+              status={report.logo.status}
+              detail={!report.logo.present ? 'Missing' : report.logo.contrast !== null ? `Contrast ${report.logo.contrast}:1` : undefined}
+            />
+          )}
+          {report.style && (
+            <CheckRow
+              label="Style"
+              score={report.style.score}
+              status={report.style.status}
+              detail={`Tone ${report.style.toneScore} · style ${report.style.styleScore}`}
+            />
+          )}
+          {report.issues.length > 0 && (
+            <ul className="list-disc pl-4 text-xs text-zinc-300">
+              {report.issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+        </div>
+      ))}
+      {worst?.fixInstructions && (
+        <button
+          onClick={() => onRegenerate(worst.fixInstructions as string)}
+          disabled={disabled}
+          className="self-start bg-white/10 hover:bg-white/20 text-white text-xs px-3 py-1 rounded-full disabled:opacity-50"
+        >
+          Regenerate to fix
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useRef, useState } from 'react';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  // Called with a PNG data URL of the mask, or null when nothing is painted
+  onChange: (maskUrl: string | null) => void;
+}
+
+// Mask resolution; the server scales it to the edit canvas
+const MASK_SIZE = 1024;
+
+/**
+ * Lets the user paint over the part of an image they want changed.
+ * The exported mask is opaque everywhere except the painted strokes, which
+ * are transparent (the convention the image edit model uses).
+ */
+export function MaskEditor({ imageUrl, onChange }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [hasStrokes, setHasStrokes] = useState(false);
+  const [brushSize, setBrushSize] = useState(80);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * MASK_SIZE,
+      y: ((e.clientY - rect.top) / rect.height) * MASK_SIZE
+    };
+  };
+
+  const drawTo = (point: { x: number; y: number }) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const from = lastPointRef.current || point;
+    context.strokeStyle = '#ffffff';
+    context.lineWidth = brushSize;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+  };
+
+  // Build the mask: opaque background with the strokes cut out
+  const exportMask = () => {
+    const strokes = canvasRef.current;
+    if (!strokes) return;
+
+    const mask = document.createElement('canvas');
+    mask.width = MASK_SIZE;
+    mask.height = MASK_SIZE;
+    const context = mask.getContext('2d');
+    if (!context) return;
+
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, MASK_SIZE, MASK_SIZE);
+    context.globalCompositeOperation = 'destination-out';
+    context.drawImage(strokes, 0, 0);
+    onChange(mask.toDataURL('image/png'));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDrawing(true);
+    lastPointRef.current = null;
+    drawTo(getPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing) return;
+    drawTo(getPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawing) return;
+    setIsDrawing(false);
+    setHasStrokes(true);
+    lastPointRef.current = null;
+    exportMask();
+  };
+
+  const clearMask = () => {
+    const context = canvasRef.current?.getContext('2d');
+    context?.clearRect(0, 0, MASK_SIZE, MASK_SIZE);
+    setHasStrokes(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative w-full max-w-xs aspect-square rounded-lg overflow-hidden bg-black/40">
+        <img
+          src={imageUrl}
+          alt="Image to edit"
+          className="absolute inset-0 w-full h-full object-contain"
+        />
+        <canvas
+          ref={canvasRef}
+          width={MASK_SIZE}
+          height={MASK_SIZE}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+      </div>
+      <div className="flex items-center gap-3 text-xs text-zinc-400">
+        <span>{hasStrokes ? 'Only the painted area will change' : 'Paint the area to change, or leave blank to edit the whole image'}</span>
+        <input
+          type="range"
+          min={20}
+          max={200}
+          value={brushSize}
+          onChange={(e) => setBrushSize(Number(e.target.value))}
+          title="Brush size"
+          className="w-20"
+        />
+        {hasStrokes && (
+          <button onClick={clearMask} className="text-zinc-300 hover:text-white">
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,7 +21,7 @@ export function PaymentHistory() {
       if (!user?.stripeCustomerId) return;
 
       try {
-        const history = await getPaymentHistory(user.stripeCustomerId);
+        const history = await getPaymentHistory();
         setPayments(history);
       } catch (err) {
         setError('Failed to load payment history');
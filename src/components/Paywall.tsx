@@ -14,7 +14,7 @@ type PaywallProps = {
 
 // Cost calculation based on API usage
 // Pricing in IDR: 75,000 for 100k tokens, 150,000 for 250k tokens, etc.
-// All tokens expire 28 days after purchase
+// Purchased tokens expire 28 days after purchase (enforced by the token ledger)
 
 export function Paywall({ onClose, isLoading = false }: PaywallProps) {
   const { user, signInWithGoogle } = useAuth();
@@ -1,9 +1,12 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/lib/auth';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { decrypt } from '@/lib/crypto';
 import { trackEvent, EventType } from '@/lib/analytics';
+import type { TokenBucketView } from '@/lib/token-ledger';
+import { expiringSoon, fetchTokenBalance } from '@/lib/tokens-client';
 
 type TokenPackage = {
   id: string;
@@ -23,6 +26,15 @@ export function TokenTopup({ onClose }: TokenTopupProps) {
   const [selectedPlan, setSelectedPlan] = useState<TokenPackage | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  // Purchased tokens that expire within the warning window
+  const [expiringBuckets, setExpiringBuckets] = useState<TokenBucketView[]>([]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    fetchTokenBalance(user.id)
+      .then(({ buckets }) => setExpiringBuckets(expiringSoon(buckets)))
+      .catch(loadError => console.warn('Could not load token expiry dates:', loadError));
+  }, [user?.id]);
 
   const tokenPackages: TokenPackage[] = [
     { 
@@ -80,7 +92,7 @@ export function TokenTopup({ onClose }: TokenTopupProps) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          planId: plan.id,
+          packageId: plan.id,
           userId: user.id,
         }),
       });
@@ -187,6 +199,16 @@ export function TokenTopup({ onClose }: TokenTopupProps) {
             </div>
           )}
           
+          {expiringBuckets.length > 0 && (
+            <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-sm space-y-1">
+              {expiringBuckets.map(bucket => (
+                <p key={bucket.id}>
+                  {formatTokens(bucket.remaining)} purchased tokens expire on {new Date(bucket.expiresAt).toLocaleDateString()}.
+                </p>
+              ))}
+            </div>
+          )}
+          
           <motion.form onSubmit={(e) => { e.preventDefault(); handlePurchase(selectedPlan as TokenPackage); }} className="space-y-3 sm:space-y-4">
             <div className="grid grid-cols-1 gap-2 sm:gap-3">
               {tokenPackages.map((pkg, index) => (
@@ -264,6 +286,10 @@ export function TokenTopup({ onClose }: TokenTopupProps) {
             <p className="text-xs text-center text-zinc-500">
               Secure payment processing. Tokens expire 28 days after purchase.
             </p>
+            <p className="text-xs text-center text-zinc-400 mt-2">
+              Need tokens every month?{' '}
+              <Link href="/plans" className="underline hover:text-white">See monthly plans</Link>
+            </p>
           </div>
         </div>
       </motion.div>
@@ -0,0 +1,24 @@
+// Response body of the accounts route, throwing with the server's message on failure
+async function readAccountResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * The user ID to use on this device: the signed-in user, the temporary
+ * account this browser's account cookie holds, or one the server issues
+ */
+export async function claimAccount(fingerprint: string): Promise<string> {
+  const response = await fetch('/api/accounts', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ fingerprint }),
+  });
+  const data = await readAccountResponse<{ userId: string }>(response, 'Failed to open account');
+  return data.userId;
+}
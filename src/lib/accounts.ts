@@ -0,0 +1,110 @@
+/**
+ * Accounts
+ *
+ * Only the server opens token accounts (and grants their initial tokens).
+ * Signed-in users get one under their Supabase ID. Visitors without a login
+ * get an ID issued here, and resume it only with the signed httpOnly cookie
+ * set alongside it; the ID alone proves nothing. The device fingerprint is
+ * part of each issued ID so the free grant is given once per device.
+ * Every other route only accepts IDs that already have an account.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { eq, like } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import logger from '@/lib/logger';
+import { ApiError } from './api-error';
+import { INITIAL_TOKEN_GRANT, openTokenAccount } from './token-ledger';
+
+// httpOnly cookie holding the browser's temporary ID and its signature
+export const ACCOUNT_COOKIE = 'dekave_account';
+export const ACCOUNT_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year, in seconds
+
+// Issued temporary IDs look like `user-<fingerprint>-<random>`
+const TEMPORARY_ID_PREFIX = 'user-';
+
+// Device fingerprints sent by the browser (a hash prefix, or a random fallback ID)
+const FINGERPRINT_PATTERN = /^[0-9a-z]{8,16}$/;
+
+async function accountExists(userId: string): Promise<boolean> {
+  const [row] = await db.select({ id: users.id })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return Boolean(row);
+}
+
+function signAccountId(userId: string): Buffer {
+  const key = process.env.ENCRYPTION_KEY;
+  if (!key) {
+    throw new Error('ENCRYPTION_KEY environment variable is required to sign account cookies');
+  }
+  return createHmac('sha256', key).update(userId).digest();
+}
+
+/**
+ * Value of the account cookie for an issued temporary ID
+ */
+export function toAccountCookie(userId: string): string {
+  return `${userId}.${signAccountId(userId).toString('base64url')}`;
+}
+
+/**
+ * The temporary ID an account cookie vouches for, or null if it is missing
+ * or its signature doesn't match
+ */
+export function fromAccountCookie(value: string | undefined): string | null {
+  const separator = value?.lastIndexOf('.') ?? -1;
+  if (!value || separator <= 0) {
+    return null;
+  }
+
+  const userId = value.slice(0, separator);
+  const signature = Buffer.from(value.slice(separator + 1), 'base64url');
+  const expected = signAccountId(userId);
+  return signature.length === expected.length && timingSafeEqual(signature, expected) ? userId : null;
+}
+
+/**
+ * Open the account of a signed-in user (a no-op once it exists)
+ */
+export async function openSignedInAccount(userId: string, email: string): Promise<string> {
+  await openTokenAccount(userId, email);
+  return userId;
+}
+
+/**
+ * The temporary account for a browser: `cookieUserId` (already verified with
+ * fromAccountCookie) when it is still an account, else a newly issued one.
+ * Only the device's first account gets the initial grant. `beforeIssue` runs
+ * (and may throw, e.g. to rate-limit) only when a new account would be
+ * opened. Throws ApiError (400) for a malformed fingerprint.
+ */
+export async function claimTemporaryAccount(
+  fingerprint: string,
+  cookieUserId: string | null,
+  beforeIssue?: () => Promise<void>
+): Promise<string> {
+  if (cookieUserId && await accountExists(cookieUserId)) {
+    return cookieUserId;
+  }
+
+  if (!FINGERPRINT_PATTERN.test(fingerprint)) {
+    throw new ApiError('fingerprint must be 8 to 16 lowercase letters or digits', 400);
+  }
+
+  const devicePrefix = `${TEMPORARY_ID_PREFIX}${fingerprint}-`;
+  const [earlier] = await db.select({ id: users.id })
+    .from(users)
+    .where(like(users.id, `${devicePrefix}%`))
+    .limit(1);
+
+  await beforeIssue?.();
+  const issuedId = `${devicePrefix}${randomBytes(8).toString('hex')}`;
+  const grant = earlier ? 0 : INITIAL_TOKEN_GRANT;
+  await openTokenAccount(issuedId, undefined, grant);
+  logger.info('Issued temporary account', { userId: issuedId, grant });
+  return issuedId;
+}
@@ -0,0 +1,548 @@
+/**
+ * Ad Compositor
+ *
+ * Lays out headline, subhead, CTA button and brand logo on top of a generated
+ * image. Image models render text unreliably, so copy is drawn here instead.
+ * Every render is described by an OverlayDocument (positions, fonts, colors)
+ * that can be changed and rendered again without regenerating the image.
+ */
+
+import sharp from 'sharp';
+import { loadImageBuffer } from './image-processing';
+import { PLATFORM_SIZES } from './platform-sizes';
+
+export type LayoutPresetName = 'dynamic' | 'balanced' | 'clean';
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Copy and assets to place on the ad
+export interface AdOverlayInput {
+  headline: string;
+  subhead?: string;
+  cta?: string;
+  logoUrl?: string;
+  // Forces a preset instead of deriving one from the template's layoutStructure
+  preset?: LayoutPresetName;
+}
+
+// Brand traits that drive the overlay's look
+export interface OverlayStyle {
+  // e.g. "bold, sans-serif, dynamic" (the template's style.typography)
+  typography?: string;
+  // Hex colors are used; descriptive entries are ignored
+  colorPalette?: string[];
+  // e.g. "balanced, generous whitespace, geometric" (the template's style.layoutStructure)
+  layoutStructure?: string;
+}
+
+export interface TextLayer {
+  type: 'text';
+  role: 'headline' | 'subhead';
+  lines: string[];
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  lineHeight: number;
+  fontFamily: string;
+  fontWeight: number;
+  color: string;
+  align: TextAlign;
+}
+
+export interface ButtonLayer {
+  type: 'button';
+  role: 'cta';
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: number;
+  color: string;
+  background: string;
+}
+
+export interface LogoLayer {
+  type: 'logo';
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Gradient behind the copy so it stays legible on busy images
+export interface ScrimLayer {
+  type: 'scrim';
+  edge: 'top' | 'bottom';
+  height: number;
+  color: string;
+  opacity: number;
+}
+
+export type OverlayLayer = TextLayer | ButtonLayer | LogoLayer | ScrimLayer;
+
+export interface OverlayDocument {
+  version: 1;
+  baseImageUrl: string;
+  width: number;
+  height: number;
+  preset: LayoutPresetName;
+  // Drawn in order, first at the bottom; logos always go on top
+  layers: OverlayLayer[];
+}
+
+interface LayoutPreset {
+  // Keywords in layoutStructure that select this preset
+  keywords: string[];
+  align: TextAlign;
+  // Which edge the copy block is anchored to
+  anchor: 'top' | 'bottom';
+  // Left edge and width of the copy block, as fractions of the image width
+  x: number;
+  width: number;
+  // Headline size as a fraction of the image's shorter side
+  headlineScale: number;
+  logoCorner: 'top-left' | 'top-right' | 'top-center' | 'bottom-right';
+}
+
+// Presets mirror the layoutStructure values of the seeded brand templates
+export const LAYOUT_PRESETS: Record<LayoutPresetName, LayoutPreset> = {
+  // "dynamic, asymmetrical with strong movement"
+  dynamic: {
+    keywords: ['dynamic', 'asymmetric', 'movement', 'energetic', 'diagonal'],
+    align: 'left',
+    anchor: 'top',
+    x: 0.07,
+    width: 0.62,
+    headlineScale: 0.085,
+    logoCorner: 'bottom-right'
+  },
+  // "balanced, generous whitespace, geometric"
+  balanced: {
+    keywords: ['balanced', 'whitespace', 'geometric', 'symmetric', 'centered', 'minimal'],
+    align: 'center',
+    anchor: 'bottom',
+    x: 0.15,
+    width: 0.7,
+    headlineScale: 0.065,
+    logoCorner: 'top-center'
+  },
+  // "clean, organized, with natural elements"
+  clean: {
+    keywords: ['clean', 'organized', 'natural', 'grid', 'structured'],
+    align: 'left',
+    anchor: 'bottom',
+    x: 0.08,
+    width: 0.84,
+    headlineScale: 0.07,
+    logoCorner: 'top-left'
+  }
+};
+
+const DEFAULT_PRESET: LayoutPresetName = 'clean';
+
+// Distance from the image edges, as a fraction of the shorter side
+const MARGIN_SCALE = 0.06;
+const LOGO_SCALE = 0.14;
+
+const LIGHT_TEXT = '#FFFFFF';
+const DARK_TEXT = '#111111';
+
+const HEX_COLOR = /#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/i;
+
+/**
+ * Pick the preset whose keywords best match a layoutStructure description
+ */
+export function selectLayoutPreset(layoutStructure?: string): LayoutPresetName {
+  const description = (layoutStructure || '').toLowerCase();
+  let best: LayoutPresetName = DEFAULT_PRESET;
+  let bestScore = 0;
+
+  for (const [name, preset] of Object.entries(LAYOUT_PRESETS) as [LayoutPresetName, LayoutPreset][]) {
+    const score = preset.keywords.filter(keyword => description.includes(keyword)).length;
+    if (score > bestScore) {
+      best = name;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function fontFor(typography: string = ''): { family: string; isSerif: boolean; headlineWeight: number; bodyWeight: number } {
+  const description = typography.toLowerCase();
+  const isSerif = description.includes('serif') && !description.includes('sans');
+  const isBold = /bold|heavy|strong|impact/.test(description);
+  const isLight = /light|thin|elegant|refined/.test(description);
+
+  return {
+    family: isSerif ? 'Georgia, Times New Roman, serif' : 'Helvetica, Arial, sans-serif',
+    isSerif,
+    headlineWeight: isBold ? 800 : isLight ? 500 : 700,
+    bodyWeight: isLight ? 300 : 400
+  };
+}
+
+function paletteColors(colorPalette: string[] = []): string[] {
+  return colorPalette
+    .map(color => color.match(HEX_COLOR)?.[0])
+    .filter((color): color is string => Boolean(color));
+}
+
+// Relative luminance (0-1) of a hex color
+function luminance(hex: string): number {
+  const value = hex.length === 4
+    ? hex.slice(1).split('').map(char => char + char).join('')
+    : hex.slice(1);
+  const [r, g, b] = [0, 2, 4].map(offset => parseInt(value.slice(offset, offset + 2), 16) / 255);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrastingText(background: string): string {
+  return luminance(background) > 0.55 ? DARK_TEXT : LIGHT_TEXT;
+}
+
+// Greedy word wrap using an average glyph width estimate
+function wrapText(text: string, fontSize: number, maxWidth: number, isSerif: boolean): string[] {
+  const charWidth = fontSize * (isSerif ? 0.5 : 0.55);
+  const maxChars = Math.max(1, Math.floor(maxWidth / charWidth));
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.trim().split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length > maxChars && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines;
+}
+
+// Average luminance (0-1) of part of the image
+async function regionLuminance(image: Buffer, left: number, top: number, width: number, height: number): Promise<number> {
+  const { channels } = await sharp(image)
+    .extract({ left, top, width: Math.max(1, width), height: Math.max(1, height) })
+    .removeAlpha()
+    .stats();
+  const [r, g = r, b = r] = channels.map(channel => channel.mean / 255);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Lay out the copy and logo for an image, without rendering it
+ */
+export async function layoutOverlay(
+  baseImageUrl: string,
+  overlay: AdOverlayInput,
+  style: OverlayStyle = {}
+): Promise<OverlayDocument> {
+  const image = await loadImageBuffer(baseImageUrl);
+  const { width = 1024, height = 1024 } = await sharp(image).metadata();
+
+  const presetName = overlay.preset || selectLayoutPreset(style.layoutStructure);
+  const preset = LAYOUT_PRESETS[presetName];
+  const font = fontFor(style.typography);
+  const palette = paletteColors(style.colorPalette);
+
+  const unit = Math.min(width, height);
+  const margin = Math.round(unit * MARGIN_SCALE);
+  const blockX = Math.round(width * preset.x);
+  const blockWidth = Math.round(width * preset.width);
+
+  // Size and wrap each text element, then stack them
+  const headlineSize = Math.round(unit * preset.headlineScale);
+  const subheadSize = Math.round(headlineSize * 0.45);
+  const ctaSize = Math.round(headlineSize * 0.38);
+  const headlineLines = wrapText(overlay.headline, headlineSize, blockWidth, font.isSerif).slice(0, 3);
+  const subheadLines = overlay.subhead ? wrapText(overlay.subhead, subheadSize, blockWidth, font.isSerif).slice(0, 3) : [];
+  const ctaHeight = overlay.cta ? Math.round(ctaSize * 2.4) : 0;
+  const ctaWidth = overlay.cta ? Math.round(overlay.cta.length * ctaSize * 0.62 + ctaSize * 2.4) : 0;
+  const gap = Math.round(headlineSize * 0.4);
+
+  const headlineHeight = headlineLines.length * headlineSize * 1.15;
+  const subheadHeight = subheadLines.length * subheadSize * 1.35;
+  const blockHeight = headlineHeight +
+    (subheadLines.length ? gap + subheadHeight : 0) +
+    (overlay.cta ? gap + ctaHeight : 0);
+  const blockY = preset.anchor === 'top' ? margin : Math.round(height - margin - blockHeight);
+
+  // Light copy on dark areas and vice versa; a scrim covers busy mid-tones
+  const brightness = await regionLuminance(
+    image,
+    Math.min(blockX, width - 1),
+    Math.max(0, Math.min(blockY, height - 1)),
+    Math.min(blockWidth, width - blockX),
+    Math.min(Math.round(blockHeight), height - Math.max(0, blockY))
+  );
+  const textColor = brightness > 0.6 ? DARK_TEXT : LIGHT_TEXT;
+  const needsScrim = brightness > 0.35 && brightness <= 0.6;
+  const accent = palette[0] || (textColor === LIGHT_TEXT ? LIGHT_TEXT : DARK_TEXT);
+
+  const layers: OverlayLayer[] = [];
+  if (needsScrim) {
+    layers.push({
+      type: 'scrim',
+      edge: preset.anchor,
+      height: Math.min(height, Math.round(blockHeight + margin * 2.5)),
+      color: '#000000',
+      opacity: 0.55
+    });
+  }
+
+  let y = blockY;
+  layers.push({
+    type: 'text',
+    role: 'headline',
+    lines: headlineLines,
+    x: blockX,
+    y,
+    width: blockWidth,
+    fontSize: headlineSize,
+    lineHeight: 1.15,
+    fontFamily: font.family,
+    fontWeight: font.headlineWeight,
+    color: textColor,
+    align: preset.align
+  });
+  y += headlineHeight;
+
+  if (subheadLines.length) {
+    y += gap;
+    layers.push({
+      type: 'text',
+      role: 'subhead',
+      lines: subheadLines,
+      x: blockX,
+      y: Math.round(y),
+      width: blockWidth,
+      fontSize: subheadSize,
+      lineHeight: 1.35,
+      fontFamily: font.family,
+      fontWeight: font.bodyWeight,
+      color: textColor,
+      align: preset.align
+    });
+    y += subheadHeight;
+  }
+
+  if (overlay.cta) {
+    y += gap;
+    const buttonX = preset.align === 'center'
+      ? Math.round(blockX + (blockWidth - ctaWidth) / 2)
+      : preset.align === 'right' ? blockX + blockWidth - ctaWidth : blockX;
+    layers.push({
+      type: 'button',
+      role: 'cta',
+      text: overlay.cta,
+      x: buttonX,
+      y: Math.round(y),
+      width: ctaWidth,
+      height: ctaHeight,
+      radius: Math.round(ctaHeight / 2),
+      fontSize: ctaSize,
+      fontFamily: font.family,
+      fontWeight: 700,
+      color: contrastingText(accent),
+      background: accent
+    });
+  }
+
+  if (overlay.logoUrl) {
+    const logoSize = Math.round(unit * LOGO_SCALE);
+    const logoX = preset.logoCorner === 'top-left'
+      ? margin
+      : preset.logoCorner === 'top-center' ? Math.round((width - logoSize) / 2) : width - margin - logoSize;
+    const logoY = preset.logoCorner === 'bottom-right' ? height - margin - logoSize : margin;
+    layers.push({ type: 'logo', url: overlay.logoUrl, x: logoX, y: logoY, width: logoSize, height: logoSize });
+  }
+
+  return { version: 1, baseImageUrl, width, height, preset: presetName, layers };
+}
+
+// Largest canvas an overlay is rendered at: the biggest placement dimension
+export const MAX_OVERLAY_DIMENSION = Math.max(
+  ...Object.values(PLATFORM_SIZES).flatMap(placements =>
+    Object.values(placements).flatMap(size => [size.width, size.height])
+  )
+);
+
+// Limits for client-edited layer descriptions
+const MAX_OVERLAY_LAYERS = 12;
+const MAX_TEXT_LINES = 6;
+const MAX_LAYER_TEXT_LENGTH = 200;
+const MAX_FONT_SIZE = 400;
+
+const EXACT_HEX_COLOR = /^#(?:[0-9a-f]{6}|[0-9a-f]{3})$/i;
+const FONT_FAMILY = /^[a-z0-9 ,-]{1,100}$/i;
+const TEXT_ALIGNS = new Set<TextAlign>(['left', 'center', 'right']);
+
+function isNumberIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function isLayerText(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_LAYER_TEXT_LENGTH;
+}
+
+function isColor(value: unknown): value is string {
+  return typeof value === 'string' && EXACT_HEX_COLOR.test(value);
+}
+
+// Font settings shared by text and button layers
+function isFont(layer: Record<string, unknown>): boolean {
+  return isNumberIn(layer.fontSize, 1, MAX_FONT_SIZE) &&
+    typeof layer.fontFamily === 'string' && FONT_FAMILY.test(layer.fontFamily) &&
+    isNumberIn(layer.fontWeight, 100, 1000) &&
+    isColor(layer.color);
+}
+
+function isOverlayLayer(value: unknown, width: number, height: number): value is OverlayLayer {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const layer = value as Record<string, unknown>;
+
+  const isPlaced = isNumberIn(layer.x, 0, width) && isNumberIn(layer.y, 0, height);
+  switch (layer.type) {
+    case 'text':
+      return (layer.role === 'headline' || layer.role === 'subhead') &&
+        Array.isArray(layer.lines) && layer.lines.length <= MAX_TEXT_LINES && layer.lines.every(isLayerText) &&
+        isPlaced && isNumberIn(layer.width, 0, width) &&
+        isNumberIn(layer.lineHeight, 0.5, 3) &&
+        isFont(layer) &&
+        TEXT_ALIGNS.has(layer.align as TextAlign);
+    case 'button':
+      return layer.role === 'cta' &&
+        isLayerText(layer.text) &&
+        isPlaced && isNumberIn(layer.width, 0, width) && isNumberIn(layer.height, 0, height) &&
+        isNumberIn(layer.radius, 0, Math.min(width, height)) &&
+        isFont(layer) &&
+        isColor(layer.background);
+    case 'logo': {
+      // Composited as a bitmap, so it has to sit on whole pixels inside the canvas
+      const { x, y, width: logoWidth, height: logoHeight } = layer;
+      return typeof layer.url === 'string' &&
+        [x, y, logoWidth, logoHeight].every(Number.isInteger) &&
+        isNumberIn(x, 0, width) && isNumberIn(y, 0, height) &&
+        isNumberIn(logoWidth, 1, width - x) && isNumberIn(logoHeight, 1, height - y);
+    }
+    case 'scrim':
+      return (layer.edge === 'top' || layer.edge === 'bottom') &&
+        isNumberIn(layer.height, 0, height) &&
+        isColor(layer.color) &&
+        isNumberIn(layer.opacity, 0, 1);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check that a client-supplied value is a layer description that is safe to
+ * render: known layer types, hex colors, bounded numbers and a canvas no
+ * bigger than MAX_OVERLAY_DIMENSION
+ */
+export function isOverlayDocument(value: unknown): value is OverlayDocument {
+  const document = value as Partial<OverlayDocument> | null;
+  if (
+    !document ||
+    document.version !== 1 ||
+    typeof document.baseImageUrl !== 'string' ||
+    !Number.isInteger(document.width) || !isNumberIn(document.width, 1, MAX_OVERLAY_DIMENSION) ||
+    !Number.isInteger(document.height) || !isNumberIn(document.height, 1, MAX_OVERLAY_DIMENSION) ||
+    typeof document.preset !== 'string' || !Object.hasOwn(LAYOUT_PRESETS, document.preset) ||
+    !Array.isArray(document.layers) || document.layers.length > MAX_OVERLAY_LAYERS
+  ) {
+    return false;
+  }
+
+  const { width, height } = document;
+  return document.layers.every(layer => isOverlayLayer(layer, width, height));
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function textAnchor(align: TextAlign): string {
+  return align === 'center' ? 'middle' : align === 'right' ? 'end' : 'start';
+}
+
+function anchorX(layer: { x: number; width: number }, align: TextAlign): number {
+  return align === 'center' ? layer.x + layer.width / 2 : align === 'right' ? layer.x + layer.width : layer.x;
+}
+
+// SVG for every layer except logos, which are composited as bitmaps
+function renderSvg(document: OverlayDocument): string {
+  const defs: string[] = [];
+  const shapes: string[] = [];
+
+  document.layers.forEach((layer, index) => {
+    if (layer.type === 'scrim') {
+      const id = `scrim-${index}`;
+      const isTop = layer.edge === 'top';
+      defs.push(
+        `<linearGradient id="${id}" x1="0" y1="${isTop ? 0 : 1}" x2="0" y2="${isTop ? 1 : 0}">` +
+        `<stop offset="0" stop-color="${escapeXml(layer.color)}" stop-opacity="${layer.opacity}"/>` +
+        `<stop offset="1" stop-color="${escapeXml(layer.color)}" stop-opacity="0"/>` +
+        `</linearGradient>`
+      );
+      const y = isTop ? 0 : document.height - layer.height;
+      shapes.push(`<rect x="0" y="${y}" width="${document.width}" height="${layer.height}" fill="url(#${id})"/>`);
+    } else if (layer.type === 'text') {
+      const x = anchorX(layer, layer.align);
+      const tspans = layer.lines.map((line, lineIndex) =>
+        `<tspan x="${x}" dy="${lineIndex === 0 ? layer.fontSize : Math.round(layer.fontSize * layer.lineHeight)}">${escapeXml(line)}</tspan>`
+      ).join('');
+      shapes.push(
+        `<text y="${layer.y}" font-family="${escapeXml(layer.fontFamily)}" font-size="${layer.fontSize}" ` +
+        `font-weight="${layer.fontWeight}" fill="${escapeXml(layer.color)}" text-anchor="${textAnchor(layer.align)}">${tspans}</text>`
+      );
+    } else if (layer.type === 'button') {
+      shapes.push(
+        `<rect x="${layer.x}" y="${layer.y}" width="${layer.width}" height="${layer.height}" rx="${layer.radius}" fill="${escapeXml(layer.background)}"/>` +
+        `<text x="${layer.x + layer.width / 2}" y="${Math.round(layer.y + layer.height / 2 + layer.fontSize * 0.35)}" text-anchor="middle" ` +
+        `font-family="${escapeXml(layer.fontFamily)}" font-size="${layer.fontSize}" font-weight="${layer.fontWeight}" fill="${escapeXml(layer.color)}">` +
+        `${escapeXml(layer.text)}</text>`
+      );
+    }
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${document.width}" height="${document.height}" ` +
+    `viewBox="0 0 ${document.width} ${document.height}"><defs>${defs.join('')}</defs>${shapes.join('')}</svg>`;
+}
+
+/**
+ * Render an overlay document onto its base image as a PNG
+ */
+export async function renderOverlay(document: OverlayDocument): Promise<Buffer> {
+  const base = await sharp(await loadImageBuffer(document.baseImageUrl))
+    .resize(document.width, document.height, { fit: 'fill' })
+    .toBuffer();
+
+  const composites: sharp.OverlayOptions[] = [
+    { input: Buffer.from(renderSvg(document)), top: 0, left: 0 }
+  ];
+
+  for (const layer of document.layers) {
+    if (layer.type !== 'logo') continue;
+    const logo = await sharp(await loadImageBuffer(layer.url))
+      .resize(layer.width, layer.height, { fit: 'inside' })
+      .png()
+      .toBuffer();
+    composites.push({ input: logo, top: layer.y, left: layer.x });
+  }
+
+  return sharp(base)
+    .composite(composites)
+    .png()
+    .toBuffer();
+}
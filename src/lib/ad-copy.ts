@@ -0,0 +1,100 @@
+/**
+ * Ad Copy
+ *
+ * Structured ad copy and the character limits each platform puts on it.
+ * Shared by the copywriting stage, which trims model output to fit, and the
+ * chat, which shows remaining characters while the user edits.
+ */
+
+import type { SocialPlatform } from './platform-sizes';
+
+export interface AdCopy {
+  headline: string;
+  primaryText: string;
+  cta: string;
+  hashtags: string[];
+}
+
+export interface CopyLimits {
+  headline: number;
+  primaryText: number;
+  cta: number;
+  // Maximum number of hashtags
+  hashtags: number;
+  // Characters shared by primary text and hashtags, when they are posted together
+  combined?: number;
+}
+
+// Limits for copy not tied to a platform (the strictest common placements)
+export const DEFAULT_COPY_LIMITS: CopyLimits = {
+  headline: 40,
+  primaryText: 125,
+  cta: 20,
+  hashtags: 5
+};
+
+// Recommended lengths before the platform truncates the copy in the feed
+export const PLATFORM_COPY_LIMITS: Record<SocialPlatform, CopyLimits> = {
+  instagram: { headline: 40, primaryText: 125, cta: 20, hashtags: 30, combined: 2200 },
+  facebook: { headline: 40, primaryText: 125, cta: 20, hashtags: 5 },
+  linkedin: { headline: 70, primaryText: 150, cta: 20, hashtags: 5 },
+  twitter: { headline: 70, primaryText: 280, cta: 20, hashtags: 3, combined: 280 }
+};
+
+export function getCopyLimits(platform?: string | null): CopyLimits {
+  return (platform && PLATFORM_COPY_LIMITS[platform as SocialPlatform]) || DEFAULT_COPY_LIMITS;
+}
+
+// Shorten text to a length, cutting at a word boundary where possible
+function truncate(text: string, maxLength: number): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (trimmed.length <= maxLength) {
+    return trimmed;
+  }
+
+  const cut = trimmed.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:-]+$/, '')}…`;
+}
+
+function normalizeHashtag(tag: string): string {
+  // Keep word characters, including accented and non-Latin letters
+  const word = tag.replace(/^#+/, '').replace(/[^\w\u00C0-\uFFFF]/g, '');
+  return word ? `#${word}` : '';
+}
+
+// Characters the hashtags take up when appended to the primary text
+export function hashtagLength(hashtags: string[]): number {
+  return hashtags.length ? hashtags.join(' ').length + 1 : 0;
+}
+
+/**
+ * Trim copy to a platform's limits: each field is shortened to its own limit,
+ * hashtags are normalized and de-duplicated, and where text and hashtags share
+ * a limit, hashtags are dropped before the primary text is shortened further.
+ */
+export function fitCopyToLimits(copy: AdCopy, limits: CopyLimits): AdCopy {
+  let hashtags = Array.from(new Set(copy.hashtags.map(normalizeHashtag).filter(Boolean))).slice(0, limits.hashtags);
+  let primaryText = truncate(copy.primaryText, limits.primaryText);
+
+  if (limits.combined) {
+    while (hashtags.length && primaryText.length + hashtagLength(hashtags) > limits.combined) {
+      hashtags = hashtags.slice(0, -1);
+    }
+    primaryText = truncate(primaryText, limits.combined - hashtagLength(hashtags));
+  }
+
+  return {
+    headline: truncate(copy.headline, limits.headline),
+    primaryText,
+    cta: truncate(copy.cta, limits.cta),
+    hashtags
+  };
+}
+
+// Copy as it would be pasted into a post
+export function formatCopy(copy: AdCopy): string {
+  return [copy.headline, copy.primaryText, copy.hashtags.join(' '), copy.cta]
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -0,0 +1,50 @@
+/**
+ * Admin Access
+ *
+ * Admin routes (template management, Stripe event replays) are authorized
+ * by the ADMIN_API_KEY environment variable, sent as `Authorization: Bearer
+ * <key>`. When the variable is unset every admin request is refused.
+ *
+ * Scheduled jobs are authorized the same way by CRON_SECRET, which Vercel
+ * Cron sends with each invocation.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiError } from './api-error';
+
+// Hashing first gives both sides the same length, as timingSafeEqual requires
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// Check the request's bearer token against `secret`
+function requireBearer(req: Request, secret: string | undefined, label: string): void {
+  if (!secret) {
+    throw new ApiError(`${label} access is not configured`, 403);
+  }
+
+  const header = req.headers.get('authorization') || '';
+  const key = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!key) {
+    throw new ApiError(`${label} key is required`, 401);
+  }
+
+  if (!timingSafeEqual(digest(key), digest(secret))) {
+    throw new ApiError(`Invalid ${label.toLowerCase()} key`, 403);
+  }
+}
+
+/**
+ * Throws ApiError (401 without a key, 403 with a wrong one or when
+ * admin access isn't configured) unless the request carries the admin key.
+ */
+export function requireAdmin(req: Request): void {
+  requireBearer(req, process.env.ADMIN_API_KEY, 'Admin');
+}
+
+/**
+ * Like requireAdmin, for scheduled jobs carrying CRON_SECRET
+ */
+export function requireCron(req: Request): void {
+  requireBearer(req, process.env.CRON_SECRET, 'Cron');
+}
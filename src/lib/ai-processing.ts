@@ -2,13 +2,44 @@
  * AI Processing Module
  * 
  * Handles AI tasks for generating professional marketing content
- * using OpenAI's models with cost optimization.
+ * using the configured AI provider (OpenAI or the offline local fake)
+ * with cost optimization.
  */
 
-import OpenAI from 'openai';
 import { encode } from 'gpt-tokenizer'; // For token counting
 import logger from './logger'; // Import the structured logger
 import { ConversationManager, createConversationManager } from './conversation-manager';
+import { getAIProvider, type ImageResult, type ImageSize } from './ai-providers';
+import { ApiError } from './api-error';
+import {
+  fitImageToSize,
+  loadImageBuffer,
+  prepareEditImages,
+  restoreEditedImage,
+  toDataUrl
+} from './image-processing';
+import type { PlacementSize } from './platform-sizes';
+import { MAX_REFERENCE_ADS, MAX_VARIANTS } from './generation-limits';
+import {
+  BRAND_PROFILE_JSON_FORMAT,
+  brandPaletteHexes,
+  parseBrandProfile,
+  type BrandProfile,
+  type BrandStyle,
+  type BrandTemplateProfile
+} from './brand-profile-schema';
+import { resolveBrandTemplate, type ResolvedBrandTemplate } from './brand-templates';
+import type { ComplianceReport } from './brand-compliance';
+import { extractPalette } from './color-palette';
+import { cacheProductAnalysis, getCachedProductAnalysis, hashImage } from './product-analysis-cache';
+import { fitCopyToLimits, getCopyLimits, type AdCopy, type CopyLimits } from './ad-copy';
+import {
+  layoutOverlay,
+  renderOverlay,
+  type AdOverlayInput,
+  type OverlayDocument,
+  type OverlayStyle
+} from './ad-compositor';
 
 // Remove fs and path imports since we're no longer using the file system
 // import fs from 'fs';
@@ -24,64 +55,114 @@ export async function enhanceImage(imageUrl: string): Promise<string> {
   try {
     logger.info('Enhancing image quality:', { imageUrl });
     
-    // Fetch the image data to analyze
-    const imageResponse = await fetch(imageUrl);
-    if (!imageResponse.ok) {
-      throw new Error(`Failed to fetch image: ${imageResponse.status}`);
-    }
-    
-    // Convert blob to File object which implements the FileLike interface required by OpenAI
-    const imageBlob = await imageResponse.blob();
-    const imageFile = new File([imageBlob], 'product-image.png', { type: 'image/png' });
-    
-    // Initialize AI with upscaling instructions
-    const response = await openai.images.edit({
-      image: imageFile,
+    // Edit the image with upscaling instructions
+    const enhancedImage = await getAIProvider().editImage({
+      imageUrl,
       prompt: "Enhance this product image. Improve lighting, color balance, and sharpness. Remove any background distractions. Make the product appear more professional and appealing for marketing.",
-      n: 1,
-      size: "1024x1024",
-      response_format: "url"
+      size: "1024x1024"
     });
     
-    const enhancedImageUrl = response.data[0]?.url;
-    if (!enhancedImageUrl) {
-      throw new Error("No enhanced image URL returned from API");
-    }
-    
     // Store the enhanced image permanently (OpenAI URLs expire)
-    return await storeGeneratedImage(enhancedImageUrl);
+    return await persistImage(enhancedImage);
   } catch (error) {
     logger.error('Error enhancing image:', error);
     throw new Error('Failed to enhance image');
   }
 }
 
-// AI processing logic using cost-optimized OpenAI models
-// import fs from 'fs';
-// import path from 'path';
-
-// Initialize OpenAI client with better error handling
-let openai: OpenAI;
-try {
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-  
-  if (!process.env.OPENAI_API_KEY) {
-    logger.error('OPENAI_API_KEY is not set. Set this environment variable to use OpenAI services.');
+/**
+ * Revises a generated ad with the provider's image-edit model
+ * 
+ * @param imageUrl - URL of the ad to revise
+ * @param instruction - Description of the change
+ * @param maskUrl - Optional mask; transparent pixels mark the area to repaint
+ * @returns Promise containing URL of the revised image
+ */
+export async function editAdImage(imageUrl: string, instruction: string, maskUrl?: string): Promise<string> {
+  try {
+    logger.info('Editing ad image', { masked: Boolean(maskUrl) });
+    
+    // The edit model needs square RGBA PNGs for both image and mask
+    const inputs = await prepareEditImages(imageUrl, maskUrl);
+    
+    const editedImage = await getAIProvider().editImage({
+      imageUrl: inputs.imageUrl,
+      maskUrl: inputs.maskUrl,
+      prompt: instruction.slice(0, 1000), // Edit prompts are limited to 1000 characters
+      size: "1024x1024"
+    });
+    
+    // Return the edit at the source's dimensions (e.g. a platform-sized ad stays that size)
+    const restored = await restoreEditedImage(
+      await loadImageBuffer(editedImage.url),
+      inputs.width,
+      inputs.height
+    );
+    
+    // Store the edited image permanently (OpenAI URLs expire)
+    return await persistImage(editedImage, restored);
+  } catch (error) {
+    // A refused image URL is the caller's to report, e.g. as a 400
+    if (error instanceof ApiError) throw error;
+    logger.error('Error editing ad image:', error);
+    throw new Error('Failed to edit image. Please try again.');
   }
-} catch (error) {
-  logger.error('Failed to initialize OpenAI client:', error);
-  // Create a dummy client that will throw appropriate errors when used
-  openai = {} as OpenAI;
 }
 
+// AI processing logic using cost-optimized models from the configured provider
+// import fs from 'fs';
+// import path from 'path';
+
 // Cost tracking for billing and analytics
+// Whether an analysis was reused ('hit') or had to be run ('miss')
+export type CacheStatus = 'hit' | 'miss';
+
 interface CostTracker {
   imageAnalysisTokens: number;
   promptGenerationTokens: number;
+  copyGenerationTokens: number;
   dalleImageGeneration: number;
   totalCostUSD: number;
+  cache: {
+    // A stored brand kit profile counts as a hit
+    brandProfile: CacheStatus;
+    productAnalysis: CacheStatus;
+  };
+}
+
+// Pipeline stages, reported in order as processRequest completes them
+export type PipelineStage = 'brand_analyzed' | 'product_analyzed' | 'prompt_ready' | 'image_stored';
+
+export interface ProcessRequestOptions {
+  // Called after each stage completes successfully
+  onStage?: (stage: PipelineStage) => void;
+  // Number of image variants to render from the same prompt (1 to MAX_VARIANTS)
+  variantCount?: number;
+  // Platform placement to size the images for; square 1024px when omitted
+  outputSize?: PlacementSize | null;
+  // Copy and logo to composite onto each image after it renders
+  overlay?: AdOverlayInput;
+  // Stored brand kit profile; skips analyzing the brand from the image
+  brandProfile?: BrandProfile;
+}
+
+// Composition directives that make each variant a distinct layout of the same ad
+const VARIANT_COMPOSITIONS = [
+  'Composition: the product centered as the hero with generous negative space.',
+  'Composition: the product offset to one side following the rule of thirds, leaving room for a headline.',
+  'Composition: a top-down flat lay with supporting props arranged around the product.',
+  'Composition: the product shown in use in a realistic lifestyle scene.'
+];
+
+// One rendered image of a multi-variant generation
+export interface AdVariant {
+  index: number;
+  composition: string | null;
+  imageUrl: string;
+  // Layers drawn over the rendered image, kept for re-editing the copy
+  overlay?: OverlayDocument;
+  // How well the ad matches the brand, checked after it renders
+  compliance?: ComplianceReport;
 }
 
 // Store conversation managers by user ID for persistent conversations
@@ -97,53 +178,36 @@ function getConversationManager(userId: string): ConversationManager {
   return userConversations.get(userId)!;
 }
 
-// Update the function to fetch from Supabase
-export async function loadBrandTemplate(templateName: string): Promise<any> {
-  try {
-    // Create Supabase client
-    const { createClient } = await import('@supabase/supabase-js');
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    );
-    
-    console.log(`Loading brand template: ${templateName}`);
-    
-    // Fetch template from brand_templates table
-    const { data: template, error } = await supabase
-      .from('brand_templates')
-      .select('*')
-      .eq('name', templateName)
-      .single();
-
-    if (error) {
-      console.error('Error fetching template:', error);
-      throw error;
-    }
-
-    if (!template) {
-      // Fetch default template if requested template not found
-      const { data: defaultTemplate, error: defaultError } = await supabase
-        .from('brand_templates')
-        .select('*')
-        .eq('name', 'sportsDrink')
-        .single();
-
-      if (defaultError || !defaultTemplate) {
-        throw new Error('No templates found in database');
-      }
-      
-      console.warn(`Template ${templateName} not found, using default template`);
-      return defaultTemplate.profile;
-    }
+// The picked template, else the default for the brand's industry. Without a
+// pick, a failure to load the defaults only means no template art direction.
+async function loadBrandTemplate(templateName: string | undefined, industryCategory: string): Promise<ResolvedBrandTemplate | null> {
+  if (templateName) {
+    return resolveBrandTemplate(templateName);
+  }
 
-    return template.profile;
+  try {
+    return await resolveBrandTemplate(undefined, industryCategory);
   } catch (error) {
-    console.error(`Error loading template ${templateName}:`, error);
-    throw new Error(`Failed to load template ${templateName}. Please try again.`);
+    logger.warn('Default brand templates unavailable, continuing without one', { industryCategory, error });
+    return null;
   }
 }
 
+const ART_DIRECTION_LABELS: Record<keyof BrandStyle, string> = {
+  messagingStyle: 'messaging',
+  typography: 'typography',
+  colorScheme: 'color scheme',
+  productPlacement: 'product placement',
+  layoutStructure: 'layout'
+};
+
+function formatArtDirection(style: BrandStyle): string {
+  return (Object.keys(ART_DIRECTION_LABELS) as (keyof BrandStyle)[])
+    .filter(field => style[field])
+    .map(field => `${ART_DIRECTION_LABELS[field]}: ${style[field]}`)
+    .join('; ');
+}
+
 // Count tokens in text for cost estimation with error handling
 function countTokens(text: string): number {
   try {
@@ -156,6 +220,66 @@ function countTokens(text: string): number {
   }
 }
 
+// Number of alternative copy sets written for each generation
+export const COPY_VARIANT_COUNT = 3;
+
+// Write structured ad copy variants in the brand's voice, trimmed to the platform's limits
+export async function generateAdCopy(
+  brandProfile: { moodAndTone?: string; targetAudience?: string; brandStyle?: string },
+  productAnalysis: unknown,
+  userPrompt: string,
+  platform?: string | null,
+  count: number = COPY_VARIANT_COUNT
+): Promise<{copy: AdCopy[], tokenUsage: number}> {
+  try {
+    const limits: CopyLimits = getCopyLimits(platform);
+    const systemPrompt = "You are a senior advertising copywriter who writes concise, on-brand social ad copy.";
+    const copyPrompt = `Write ${count} distinct ad copy variants${platform ? ` for ${platform}` : ''} in JSON format:
+{
+  "variants": [
+    { "headline": "max ${limits.headline} characters", "primaryText": "max ${limits.primaryText} characters", "cta": "max ${limits.cta} characters", "hashtags": ["up to ${limits.hashtags} hashtags"] }
+  ]
+}
+Tone: ${brandProfile.moodAndTone || 'professional'}. Audience: ${brandProfile.targetAudience || 'general audience'}. Brand style: ${brandProfile.brandStyle || 'professional'}.
+Product: ${JSON.stringify(productAnalysis)}
+Request: ${userPrompt}
+Vary the angle of each variant (benefit, emotion, urgency). Stay within the character limits.`;
+    
+    // Count input tokens for cost calculation
+    const inputTokens = countTokens(systemPrompt) + countTokens(copyPrompt);
+    
+    const response = await getAIProvider().completeText({
+      purpose: 'ad-copy',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: copyPrompt }
+      ],
+      temperature: 0.8,
+      json: true,
+      maxTokens: 700
+    });
+    
+    const parsed = JSON.parse(response.content || '{}') as { variants?: Partial<AdCopy>[] };
+    const copy = (Array.isArray(parsed.variants) ? parsed.variants : [])
+      .filter(variant => typeof variant?.headline === 'string' && variant.headline.trim())
+      .slice(0, count)
+      .map(variant => fitCopyToLimits({
+        headline: variant.headline || '',
+        primaryText: typeof variant.primaryText === 'string' ? variant.primaryText : '',
+        cta: typeof variant.cta === 'string' ? variant.cta : '',
+        hashtags: Array.isArray(variant.hashtags) ? variant.hashtags.filter(tag => typeof tag === 'string') : []
+      }, limits));
+    
+    return {
+      copy,
+      tokenUsage: inputTokens + response.usage.completionTokens
+    };
+  } catch (error) {
+    console.error('Error generating ad copy:', error);
+    throw new Error('Failed to write ad copy. Please try again.');
+  }
+}
+
 // Analyze user product image with GPT-4o-mini (more cost effective than GPT-4o)
 export async function analyzeProductImage(imageUrl: string): Promise<{analysis: any, tokenUsage: number}> {
   try {
@@ -165,39 +289,24 @@ export async function analyzeProductImage(imageUrl: string): Promise<{analysis:
     // Count input tokens for cost calculation
     const inputTokens = countTokens(systemPrompt) + countTokens(userPrompt);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // Most cost-effective vision model
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text" as const,
-              text: userPrompt
-            },
-            {
-              type: "image_url" as const,
-              image_url: { url: imageUrl }
-            }
-          ]
-        }
-      ],
+    const response = await getAIProvider().analyzeImage({
+      purpose: 'product-analysis',
+      systemPrompt,
+      userPrompt,
+      imageUrl,
+      detail: 'standard', // Most cost-effective vision model
       temperature: 0.3, // Lower temperature for more consistent, concise results
-      response_format: { type: "json_object" },
-      max_tokens: 500 // Limit output tokens to control costs
+      json: true,
+      maxTokens: 500 // Limit output tokens to control costs
     });
     
     // Calculate total tokens used (input + output)
-    const outputTokens = response.usage?.completion_tokens || 0;
+    const outputTokens = response.usage.completionTokens;
     const totalTokens = inputTokens + outputTokens;
     
     // Parse the JSON response
     return {
-      analysis: JSON.parse(response.choices[0].message.content || "{}"),
+      analysis: JSON.parse(response.content || "{}"),
       tokenUsage: totalTokens
     };
   } catch (error) {
@@ -206,26 +315,40 @@ export async function analyzeProductImage(imageUrl: string): Promise<{analysis:
   }
 }
 
+// Product analysis reused for identical image bytes; the vision model only runs on a cache miss.
+// The cache is an optimization, so lookup and store failures fall back to analyzing.
+async function analyzeProductImageCached(imageUrl: string): Promise<{analysis: Record<string, unknown>, tokenUsage: number, cacheStatus: CacheStatus}> {
+  let imageHash: string | null = null;
+  try {
+    imageHash = hashImage(await loadImageBuffer(imageUrl));
+    const cached = await getCachedProductAnalysis(imageHash);
+    if (cached) {
+      return { analysis: cached.analysis, tokenUsage: 0, cacheStatus: 'hit' };
+    }
+  } catch (cacheError) {
+    logger.warn('Product analysis cache lookup failed, analyzing the image', { error: cacheError });
+  }
+  
+  const { analysis, tokenUsage } = await analyzeProductImage(imageUrl);
+  if (imageHash) {
+    await cacheProductAnalysis(imageHash, analysis, tokenUsage).catch(cacheError => {
+      logger.warn('Failed to cache product analysis', { error: cacheError });
+    });
+  }
+  return { analysis, tokenUsage, cacheStatus: 'miss' };
+}
+
 // Create a prompt for DALL-E based on brand template and product analysis
 export async function createDALLEPrompt(
-  brandProfile: any,
+  brandTemplate: BrandTemplateProfile,
   productAnalysis: any,
   userPrompt: string
 ): Promise<{prompt: string, tokenUsage: number}> {
   try {
-    // Optimize input data to reduce tokens
-    const optimizedBrandProfile = {
-      messaging_style: brandProfile.brand_style_profile?.messaging_style,
-      typography: brandProfile.brand_style_profile?.typography,
-      color_scheme: brandProfile.brand_style_profile?.color_scheme,
-      product_placement: brandProfile.brand_style_profile?.product_placement,
-      layout_structure: brandProfile.brand_style_profile?.layout_structure
-    };
-    
     const systemPrompt = "Create a detailed DALL-E 3 prompt for a professional advertisement. Focus on layout, colors, product placement, and typography. Be specific but concise.";
     
     const combinedContext = {
-      brandStyle: optimizedBrandProfile,
+      brandStyle: brandTemplate.style,
       productDetails: productAnalysis,
       userPrompt: userPrompt
     };
@@ -234,9 +357,9 @@ export async function createDALLEPrompt(
     const inputJson = JSON.stringify(combinedContext);
     const inputTokens = countTokens(systemPrompt) + countTokens(inputJson);
     
-    // Use GPT-3.5 Turbo instead of GPT-4o-mini for non-vision tasks to save costs
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo", // Much cheaper than GPT-4 models for text-only tasks
+    // Text-only tasks use the provider's cheaper text model to save costs
+    const response = await getAIProvider().completeText({
+      purpose: 'dalle-prompt',
       messages: [
         {
           role: "system",
@@ -248,15 +371,15 @@ export async function createDALLEPrompt(
         }
       ],
       temperature: 0.7,
-      max_tokens: 600 // Limit token usage
+      maxTokens: 600 // Limit token usage
     });
     
     // Calculate total tokens
-    const outputTokens = response.usage?.completion_tokens || 0;
+    const outputTokens = response.usage.completionTokens;
     const totalTokens = inputTokens + outputTokens;
     
     return {
-      prompt: response.choices[0].message.content || "",
+      prompt: response.content,
       tokenUsage: totalTokens
     };
   } catch (error) {
@@ -265,44 +388,135 @@ export async function createDALLEPrompt(
   }
 }
 
-// Generate an ad image using DALL-E 3
-export async function generateAdImage(prompt: string, isHDQuality: boolean): Promise<string> {
+// Sizes DALL-E 3 can render, as width/height aspect ratios
+const GENERATION_SIZE_RATIOS: Record<ImageSize, number> = {
+  '1024x1024': 1,
+  '1792x1024': 1792 / 1024,
+  '1024x1792': 1024 / 1792
+};
+
+/**
+ * The supported generation size whose aspect ratio is closest to the target,
+ * so as little as possible is cropped or padded afterwards
+ */
+export function closestGenerationSize(width: number, height: number): ImageSize {
+  const targetRatio = Math.log(width / height);
+  const sizes = Object.keys(GENERATION_SIZE_RATIOS) as ImageSize[];
+
+  return sizes.reduce((best, size) =>
+    Math.abs(Math.log(GENERATION_SIZE_RATIOS[size]) - targetRatio) <
+    Math.abs(Math.log(GENERATION_SIZE_RATIOS[best]) - targetRatio)
+      ? size
+      : best
+  );
+}
+
+// Generate an ad image using DALL-E 3, sized for a platform placement when one is given
+export async function generateAdImage(
+  prompt: string,
+  isHDQuality: boolean,
+  outputSize?: PlacementSize | null
+): Promise<string> {
   try {
     // Trim prompt to stay within DALL-E limits and reduce costs
     const trimmedPrompt = prompt.slice(0, 900);
     
-    const response = await openai.images.generate({
-      model: "dall-e-3",
+    const generatedImage = await getAIProvider().generateImage({
       prompt: trimmedPrompt,
-      n: 1,
-      size: "1024x1024", // Size is the same for both qualities
-      quality: isHDQuality ? "hd" : "standard", // Quality differs based on parameter
-      style: "vivid"
+      size: outputSize ? closestGenerationSize(outputSize.width, outputSize.height) : "1024x1024",
+      quality: isHDQuality ? "hd" : "standard" // Quality differs based on parameter
     });
     
-    const generatedImageUrl = response.data[0].url || "";
+    if (!outputSize) {
+      // Store the image (DALL-E URLs expire after a short time)
+      return await persistImage(generatedImage);
+    }
+    
+    // Crop or pad to the placement's exact pixel dimensions
+    const { buffer, mode } = await fitImageToSize(
+      await loadImageBuffer(generatedImage.url),
+      outputSize.width,
+      outputSize.height
+    );
+    logger.info('Fitted ad image to placement', {
+      platform: outputSize.platform,
+      placement: outputSize.placement,
+      mode
+    });
     
-    // Store the image (DALL-E URLs expire after a short time)
-    return await storeGeneratedImage(generatedImageUrl);
+    return await persistImage(generatedImage, buffer);
   } catch (error) {
     console.error('Error generating ad image:', error);
     throw new Error('Failed to generate ad image. Please try again.');
   }
 }
 
+/**
+ * Composites headline, subhead, CTA and logo onto a generated ad
+ * 
+ * @param baseImageUrl - URL of the generated image without copy
+ * @param overlay - Copy and logo to place
+ * @param style - Brand typography, palette and layout structure
+ * @returns Promise containing URL of the final ad and its layer description
+ */
+export async function composeAdImage(
+  baseImageUrl: string,
+  overlay: AdOverlayInput,
+  style: OverlayStyle = {}
+): Promise<{ imageUrl: string; overlay: OverlayDocument }> {
+  const document = await layoutOverlay(baseImageUrl, overlay, style);
+  return { imageUrl: await renderOverlayDocument(document), overlay: document };
+}
+
+// Render a (possibly edited) layer description and store the result like its base image
+export async function renderOverlayDocument(document: OverlayDocument): Promise<string> {
+  try {
+    const rendered = await renderOverlay(document);
+    return document.baseImageUrl.startsWith('data:')
+      ? toDataUrl(rendered)
+      : await storeGeneratedImage(rendered);
+  } catch (error) {
+    logger.error('Error compositing ad overlay:', error);
+    throw new Error('Failed to add text to the ad. Please try again.');
+  }
+}
+
+// Overlay style from the brand's palette and the template's art direction
+function overlayStyleFor(template: ResolvedBrandTemplate | null, colorPalette: string[]): OverlayStyle {
+  return {
+    typography: template?.profile.style.typography,
+    layoutStructure: template?.profile.style.layoutStructure,
+    colorPalette
+  };
+}
+
+// Persist provider output (or a processed copy of it) only when the provider's
+// URL expires; local renders stay inline data URLs
+async function persistImage(image: ImageResult, processed?: Buffer): Promise<string> {
+  if (!image.ephemeral) {
+    return processed ? toDataUrl(processed) : image.url;
+  }
+  return storeGeneratedImage(processed ?? image.url);
+}
+
 // Store the generated image - persists DALL-E images which expire after a short time
-async function storeGeneratedImage(imageUrl: string): Promise<string> {
+async function storeGeneratedImage(image: string | Buffer): Promise<string> {
   try {
     // Import Vercel Blob Storage
     const { put } = await import('@vercel/blob');
     
-    // Fetch the image from the OpenAI URL
-    const response = await fetch(imageUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+    // Fetch the image from the OpenAI URL unless it was already processed locally
+    let imageBlob: Blob;
+    if (typeof image === 'string') {
+      const response = await fetch(image);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+      }
+      imageBlob = await response.blob();
+    } else {
+      imageBlob = new Blob([image], { type: 'image/png' });
     }
     
-    const imageBlob = await response.blob();
     const filename = `ad-images/${Date.now()}-${Math.random().toString(36).substring(2, 10)}.png`;
     
     // Store the image in Vercel Blob Storage
@@ -325,15 +539,78 @@ async function storeGeneratedImage(imageUrl: string): Promise<string> {
   }
 }
 
-// Add new interface for brand analysis
-interface BrandProfile {
-  brandStyle: string;
-  colorPalette: string[];
-  visualElements: string[];
-  moodAndTone: string;
-  targetAudience: string;
-  industryCategory: string;
-  timestamp: string;
+// Style traits collected from the past ads a user wants to match
+export interface ReferenceStyle {
+  layout: string[];
+  typography: string[];
+  colorTreatment: string[];
+  imagery: string[];
+  copyTone: string[];
+}
+
+const REFERENCE_STYLE_FIELDS: (keyof ReferenceStyle)[] = ['layout', 'typography', 'colorTreatment', 'imagery', 'copyTone'];
+
+// Analyze reference ads and merge their traits into a single style block
+export async function analyzeReferenceAds(referenceAdUrls: string[]): Promise<{analysis: ReferenceStyle, tokenUsage: number}> {
+  try {
+    const systemPrompt = "You are an advertising art director who describes the visual style of existing ads so it can be reproduced.";
+    const userPrompt = `Describe the style of this advertisement in JSON format with these properties, each a short phrase:
+{
+  "layout": "composition and placement of product, text and whitespace",
+  "typography": "type style, weight and hierarchy",
+  "colorTreatment": "how color is used (contrast, saturation, gradients)",
+  "imagery": "photography or illustration style, lighting, background",
+  "copyTone": "tone of the ad copy"
+}`;
+    
+    // Count input tokens for cost calculation
+    const inputTokens = countTokens(systemPrompt) + countTokens(userPrompt);
+    
+    const responses = await Promise.all(
+      referenceAdUrls.slice(0, MAX_REFERENCE_ADS).map(imageUrl => getAIProvider().analyzeImage({
+        purpose: 'reference-style',
+        systemPrompt,
+        userPrompt,
+        imageUrl,
+        detail: 'standard',
+        temperature: 0.3,
+        json: true,
+        maxTokens: 300
+      }))
+    );
+    
+    const style: ReferenceStyle = { layout: [], typography: [], colorTreatment: [], imagery: [], copyTone: [] };
+    let totalTokens = 0;
+    
+    for (const response of responses) {
+      totalTokens += inputTokens + response.usage.completionTokens;
+      const traits = JSON.parse(response.content || "{}") as Partial<Record<keyof ReferenceStyle, string>>;
+      
+      // Merge traits, skipping ones another reference already contributed
+      for (const field of REFERENCE_STYLE_FIELDS) {
+        const trait = traits[field];
+        if (typeof trait === 'string' && trait.trim() && !style[field].includes(trait.trim())) {
+          style[field].push(trait.trim());
+        }
+      }
+    }
+    
+    return {
+      analysis: style,
+      tokenUsage: totalTokens
+    };
+  } catch (error) {
+    console.error('Error analyzing reference ads:', error);
+    throw new Error('Failed to analyze reference ads. Please try different images.');
+  }
+}
+
+// Render a reference style as prompt text
+function formatReferenceStyle(style: ReferenceStyle): string {
+  return REFERENCE_STYLE_FIELDS
+    .filter(field => style[field].length > 0)
+    .map(field => `${field}: ${style[field].join('; ')}`)
+    .join('. ');
 }
 
 // Add specialized function for brand analysis
@@ -348,46 +625,43 @@ export async function analyzeBrandProfile(imageUrl: string): Promise<{analysis:
 5. Target audience indicators
 6. Industry category
 
-Provide the analysis in a structured JSON format matching the BrandProfile interface.`;
+Provide the analysis in a structured JSON format with these exact field names:
+${BRAND_PROFILE_JSON_FORMAT}`;
     
     // Count input tokens for cost calculation
     const inputTokens = countTokens(systemPrompt) + countTokens(userPrompt);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: userPrompt
-            },
-            {
-              type: "image_url",
-              image_url: { url: imageUrl }
-            }
-          ]
-        }
-      ],
-      temperature: 0.5, // Lower temperature for more consistent analysis
-      response_format: { type: "json_object" },
-      max_tokens: 500
-    });
+    const [response, extractedPalette] = await Promise.all([
+      getAIProvider().analyzeImage({
+        purpose: 'brand-analysis',
+        systemPrompt,
+        userPrompt,
+        imageUrl,
+        detail: 'detailed',
+        temperature: 0.5, // Lower temperature for more consistent analysis
+        json: true,
+        maxTokens: 500
+      }),
+      // Exact colors come from the pixels; the model only describes them
+      loadImageBuffer(imageUrl)
+        .then(image => extractPalette(image))
+        .catch(error => {
+          logger.warn('Color palette extraction failed, using described colors only', { error });
+          return undefined;
+        })
+    ]);
     
     // Calculate total tokens used
-    const outputTokens = response.usage?.completion_tokens || 0;
+    const outputTokens = response.usage.completionTokens;
     const totalTokens = inputTokens + outputTokens;
     
-    // Parse and validate the response
-    const brandProfile = JSON.parse(response.choices[0].message.content || "{}") as BrandProfile;
-    
-    // Add timestamp
-    brandProfile.timestamp = new Date().toISOString();
+    // Repair and validate the response; an incomplete profile is an error
+    // rather than something to paper over with generic defaults
+    const brandProfile = parseBrandProfile({
+      ...JSON.parse(response.content || "{}"),
+      extractedPalette,
+      timestamp: new Date().toISOString()
+    });
     
     return {
       analysis: brandProfile,
@@ -406,8 +680,20 @@ export async function processRequest(
   templateName?: string,
   referenceAdUrls: string[] = [],
   isHDQuality: boolean = false,
-  userId?: string
-): Promise<{ adDescription: string; adImageUrl: string; costData: CostTracker; conversationSummary?: string }> {
+  userId?: string,
+  options: ProcessRequestOptions = {}
+): Promise<{
+  adDescription: string;
+  adImageUrl: string;
+  variants: AdVariant[];
+  costData: CostTracker;
+  copy: AdCopy[];
+  referenceStyle?: ReferenceStyle;
+  conversationSummary?: string;
+  templateName?: string;
+  // The profile the ad was made for, stored or freshly analyzed
+  brandProfile: BrandProfile;
+}> {
   try {
     // Get or create conversation manager for this user
     const conversationManager = userId ? 
@@ -418,32 +704,56 @@ export async function processRequest(
     const costData: CostTracker = {
       imageAnalysisTokens: 0,
       promptGenerationTokens: 0,
+      copyGenerationTokens: 0,
       dalleImageGeneration: 0,
-      totalCostUSD: 0
+      totalCostUSD: 0,
+      cache: { brandProfile: 'miss', productAnalysis: 'miss' }
     };
     
-    // Step 1: Always analyze brand profile from the uploaded image
-    console.log('Analyzing brand profile from image...');
-    const { analysis: brandProfile, tokenUsage: brandTokens } = await analyzeBrandProfile(imageUrl);
-    
-    // Validate that brand profile was successfully analyzed
-    if (!brandProfile || Object.keys(brandProfile).length === 0) {
-      throw new Error('Failed to analyze brand profile from image. Please try again with a clearer brand image.');
+    // Step 1: Use the brand kit's stored profile, or analyze the brand from the uploaded image
+    let brandProfile: BrandProfile;
+    if (options.brandProfile) {
+      console.log('Using stored brand kit profile');
+      brandProfile = options.brandProfile;
+      costData.cache.brandProfile = 'hit';
+    } else {
+      console.log('Analyzing brand profile from image...');
+      const { analysis, tokenUsage: brandTokens } = await analyzeBrandProfile(imageUrl);
+      
+      // analyzeBrandProfile rejects incomplete profiles, so this one is usable
+      console.log('Brand profile analysis successful:', JSON.stringify(analysis, null, 2));
+      brandProfile = analysis;
+      costData.imageAnalysisTokens += brandTokens;
     }
-    
-    console.log('Brand profile analysis successful:', JSON.stringify(brandProfile, null, 2));
-    costData.imageAnalysisTokens += brandTokens;
+    const template = await loadBrandTemplate(templateName, brandProfile.industryCategory);
+    if (template) {
+      console.log(`Using brand template: ${template.name}`);
+    }
+    options.onStage?.('brand_analyzed');
     
     // Add brand analysis to conversation context
     conversationManager.addAssistantMessage(`I've analyzed your brand profile. Here are the key elements: ${JSON.stringify(brandProfile)}`);
     
-    // Step 2: Analyze product details
+    // Step 2: Analyze product details, reusing an earlier analysis of the same image
     console.log('Analyzing product details...');
-    const { analysis: productAnalysis, tokenUsage: productTokens } = await analyzeProductImage(imageUrl);
+    const { analysis: productAnalysis, tokenUsage: productTokens, cacheStatus } = await analyzeProductImageCached(imageUrl);
     costData.imageAnalysisTokens += productTokens;
+    costData.cache.productAnalysis = cacheStatus;
     
     // Add product analysis to conversation context
     conversationManager.addAssistantMessage(`I've analyzed your product image. Here are the key details: ${JSON.stringify(productAnalysis)}`);
+    
+    // Analyze any reference ads the user wants the result to resemble
+    let referenceStyle: ReferenceStyle | undefined;
+    if (referenceAdUrls.length > 0) {
+      console.log(`Analyzing ${Math.min(referenceAdUrls.length, MAX_REFERENCE_ADS)} reference ads...`);
+      const { analysis, tokenUsage: referenceTokens } = await analyzeReferenceAds(referenceAdUrls);
+      referenceStyle = analysis;
+      costData.imageAnalysisTokens += referenceTokens;
+      
+      conversationManager.addAssistantMessage(`I've analyzed your reference ads. Their shared style is: ${formatReferenceStyle(referenceStyle)}`);
+    }
+    options.onStage?.('product_analyzed');
       
     // Update system prompt with brand profile information
     conversationManager.updateSystemPrompt(
@@ -456,12 +766,13 @@ export async function processRequest(
     // Use conversation context for generating the DALL-E prompt
     const messageContext = conversationManager.getMessages();
     
-    // Verify brand profile properties exist before using them
-    const brandStyle = brandProfile.brandStyle || 'professional';
-    const colorPalette = Array.isArray(brandProfile.colorPalette) && brandProfile.colorPalette.length > 0 
-      ? brandProfile.colorPalette.join(', ') 
-      : 'brand colors';
-    const moodAndTone = brandProfile.moodAndTone || 'professional';
+    // Required fields are guaranteed by the profile schema; audience is optional
+    const brandStyle = brandProfile.brandStyle;
+    const paletteHexes = brandPaletteHexes(brandProfile);
+    const colorPalette = paletteHexes.length
+      ? `${paletteHexes.join(', ')} (${brandProfile.colorPalette.join(', ')})`
+      : brandProfile.colorPalette.join(', ');
+    const moodAndTone = brandProfile.moodAndTone;
     const targetAudience = brandProfile.targetAudience || 'general audience';
     
     // Log the values being used
@@ -475,38 +786,102 @@ export async function processRequest(
     // Add specific instruction for DALL-E prompt creation
     messageContext.push({
       role: 'user',
-      content: `Based on our conversation so far, create a detailed DALL-E 3 prompt for a professional advertisement. Focus on layout, colors, product placement, and typography. Consider the product analysis and the analyzed brand profile. Keep the prompt under 900 characters. Include the following elements from the brand profile: style: ${brandStyle}, colors: ${colorPalette}, mood: ${moodAndTone}, target audience: ${targetAudience}.`
+      content: `Based on our conversation so far, create a detailed DALL-E 3 prompt for a professional advertisement. Focus on layout, colors, product placement, and typography. Consider the product analysis and the analyzed brand profile. Keep the prompt under 900 characters. Include the following elements from the brand profile: style: ${brandStyle}, colors: ${colorPalette}, mood: ${moodAndTone}, target audience: ${targetAudience}.${
+        referenceStyle
+          ? ` Match this reference style for layout, typography and imagery, but keep the brand's colors and mood where they conflict: ${formatReferenceStyle(referenceStyle)}.`
+          : ''
+      }${
+        template
+          ? ` Follow this art direction, but keep the brand's colors where they conflict: ${formatArtDirection(template.profile.style)}.`
+          : ''
+      }${
+        options.overlay
+          ? ' Do not render any text, letters or logos in the image and leave clear space for a headline; the copy is added afterwards.'
+          : ''
+      }`
     });
     
-    // Use conversation history when generating the DALL-E prompt
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo", 
-      messages: messageContext,
-      temperature: 0.7,
-      max_tokens: 600
-    });
-    
-    const dallePrompt = response.choices[0].message.content || "";
-    const promptTokens = response.usage?.total_tokens || 0;
+    // Use conversation history when generating the DALL-E prompt; the ad copy
+    // is written alongside it. Copy is optional, so a failure there only logs.
+    const [response, copyResult] = await Promise.all([
+      getAIProvider().completeText({
+        purpose: 'dalle-prompt',
+        messages: messageContext,
+        temperature: 0.7,
+        maxTokens: 600
+      }),
+      generateAdCopy(brandProfile, productAnalysis, prompt, options.outputSize?.platform)
+        .catch(copyError => {
+          logger.warn('Ad copy generation failed, continuing without copy', { error: copyError });
+          return { copy: [] as AdCopy[], tokenUsage: 0 };
+        })
+    ]);
+    
+    const dallePrompt = response.content;
+    const promptTokens = response.usage.totalTokens;
     costData.promptGenerationTokens = promptTokens;
+    costData.copyGenerationTokens = copyResult.tokenUsage;
+    options.onStage?.('prompt_ready');
     
     // Add the generated DALL-E prompt to conversation history
     conversationManager.addAssistantMessage(`I've created a DALL-E prompt for your advertisement: ${dallePrompt}`);
     
-    // Calculate cost for prompt generation (GPT-3.5 Turbo)
+    // Calculate cost for prompt and copy generation (GPT-3.5 Turbo)
     // $0.0015 per 1K input tokens, $0.002 per 1K output tokens
-    const promptGenerationCost = (promptTokens / 1000) * 0.002;
+    const promptGenerationCost = ((promptTokens + copyResult.tokenUsage) / 1000) * 0.002;
+    
+    // Step 4: Generate the ad image(s) using DALL-E 3
+    // DALL-E 3 only returns one image per request, so variants are rendered in parallel
+    const variantCount = Math.min(Math.max(Math.floor(options.variantCount || 1), 1), MAX_VARIANTS);
+    console.log(`Generating ${variantCount} advertisement image(s) (${isHDQuality ? 'HD' : 'Standard'} quality)...`);
+    const overlayStyle = options.overlay
+      ? overlayStyleFor(template, paletteHexes)
+      : null;
+    const renders = await Promise.allSettled(
+      Array.from({ length: variantCount }, async (_, index): Promise<AdVariant> => {
+        // Put the directive first; generateAdImage trims long prompts from the end
+        const composition = variantCount > 1 ? VARIANT_COMPOSITIONS[index] : null;
+        const imageUrl = await generateAdImage(
+          composition ? `${composition} ${dallePrompt}` : dallePrompt,
+          isHDQuality,
+          options.outputSize
+        );
+        
+        // Draw the copy ourselves rather than trusting the image model's text
+        if (options.overlay && overlayStyle) {
+          const composed = await composeAdImage(imageUrl, options.overlay, overlayStyle);
+          return { index, composition, imageUrl: composed.imageUrl, overlay: composed.overlay };
+        }
+        return { index, composition, imageUrl };
+      })
+    );
     
-    // Step 4: Generate the ad image using DALL-E 3
-    console.log(`Generating advertisement image (${isHDQuality ? 'HD' : 'Standard'} quality)...`);
-    const adImageUrl = await generateAdImage(dallePrompt, isHDQuality);
+    // Keep the variants that rendered; fail only if none did
+    const variants = renders
+      .filter((render): render is PromiseFulfilledResult<AdVariant> => render.status === 'fulfilled')
+      .map(render => render.value);
+    if (variants.length === 0) {
+      throw (renders[0] as PromiseRejectedResult).reason;
+    }
+    if (variants.length < variantCount) {
+      console.warn(`Only ${variants.length} of ${variantCount} variants were generated`);
+    }
+    const adImageUrl = variants[0].imageUrl;
+    options.onStage?.('image_stored');
     
     // Add the generated image to conversation history
-    conversationManager.addAssistantMessage(`I've generated an advertisement image based on your requirements. [Generated Image]`);
+    conversationManager.addAssistantMessage(
+      variants.length > 1
+        ? `I've generated ${variants.length} advertisement variants with different compositions. [Generated Images]`
+        : `I've generated an advertisement image based on your requirements. [Generated Image]`
+    );
     
     // DALL-E 3 image generation cost
-    // Standard quality: $0.04 per image, HD quality: $0.08 per image
-    const dalleGenerationCost = isHDQuality ? 0.08 : 0.04;
+    // Square: $0.04 standard / $0.08 HD per image; wide or tall: $0.08 / $0.12
+    const isSquareRender = !options.outputSize ||
+      closestGenerationSize(options.outputSize.width, options.outputSize.height) === '1024x1024';
+    const imageCost = isSquareRender ? (isHDQuality ? 0.08 : 0.04) : (isHDQuality ? 0.12 : 0.08);
+    const dalleGenerationCost = imageCost * variants.length;
     costData.dalleImageGeneration = dalleGenerationCost;
     
     // Calculate total cost
@@ -515,15 +890,21 @@ export async function processRequest(
     // Log costs for monitoring
     console.log('Cost breakdown:', {
       imageAnalysis: `$${(costData.imageAnalysisTokens * 0.02).toFixed(4)} (${costData.imageAnalysisTokens} tokens)`,
-      promptGeneration: `$${promptGenerationCost.toFixed(4)} (${promptTokens} tokens)`,
-      imageGeneration: `$${dalleGenerationCost.toFixed(2)} (${isHDQuality ? 'HD' : 'Standard'})`,
+      promptGeneration: `$${promptGenerationCost.toFixed(4)} (${promptTokens} prompt + ${copyResult.tokenUsage} copy tokens)`,
+      imageGeneration: `$${dalleGenerationCost.toFixed(2)} (${variants.length} x ${isHDQuality ? 'HD' : 'Standard'})`,
+      cache: `brand profile ${costData.cache.brandProfile}, product analysis ${costData.cache.productAnalysis}`,
       total: `$${costData.totalCostUSD.toFixed(4)} USD`
     });
     
     return {
       adDescription: dallePrompt,
       adImageUrl: adImageUrl,
+      variants,
+      copy: copyResult.copy,
       costData: costData,
+      referenceStyle,
+      templateName: template?.name,
+      brandProfile,
       // Include conversation summary for context if needed by the client
       conversationSummary: userId ? undefined : conversationManager.serialize()
     };
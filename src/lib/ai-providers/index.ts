@@ -0,0 +1,34 @@
+import logger from '../logger';
+import { AI_PROVIDER } from '../env';
+import { LocalProvider } from './local';
+import { OpenAIProvider } from './openai';
+import type { AIProvider, AIProviderName } from './types';
+
+export type * from './types';
+
+// Single provider instance per server process
+let provider: AIProvider | null = null;
+
+/**
+ * Create a provider by name
+ */
+export function createAIProvider(name: AIProviderName): AIProvider {
+  switch (name) {
+    case 'local':
+      return new LocalProvider();
+    case 'openai':
+    default:
+      return new OpenAIProvider(process.env.OPENAI_API_KEY);
+  }
+}
+
+/**
+ * Get the provider selected by AI_PROVIDER (defaults to OpenAI)
+ */
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = createAIProvider(AI_PROVIDER);
+    logger.info(`Using AI provider: ${provider.name}`);
+  }
+  return provider;
+}
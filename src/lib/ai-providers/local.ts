@@ -0,0 +1,179 @@
+import type {
+  AIProvider,
+  CompletionResult,
+  DocumentRequest,
+  ImageEditRequest,
+  ImageGenerationRequest,
+  ImageResult,
+  ProviderUsage,
+  TextCompletionRequest,
+  VisionRequest
+} from './types';
+
+/**
+ * Local Provider
+ *
+ * Deterministic stand-in for the real models so the whole pipeline can run
+ * offline in development and CI. The same input always yields the same output,
+ * and no network calls are made.
+ */
+
+const PALETTES = [
+  ['#0B3D91', '#E63946', '#F1FAEE'],
+  ['#1D3557', '#A8DADC', '#FFB703'],
+  ['#2A9D8F', '#E9C46A', '#264653'],
+  ['#6D597A', '#E56B6F', '#EAAC8B']
+];
+
+// Canned JSON answers keyed by request purpose
+const VISION_FIXTURES: Record<string, (seed: number) => Record<string, unknown>> = {
+  'brand-analysis': (seed) => ({
+    brandStyle: 'clean, modern and product-focused',
+    colorPalette: PALETTES[seed % PALETTES.length],
+    visualElements: ['bold product shot', 'geometric shapes', 'minimal typography'],
+    moodAndTone: 'confident and energetic',
+    targetAudience: 'young urban professionals',
+    industryCategory: 'consumer goods'
+  }),
+  'product-analysis': (seed) => ({
+    productType: 'packaged consumer product',
+    features: ['premium packaging', 'compact size'],
+    colors: PALETTES[seed % PALETTES.length],
+    targetAudience: 'everyday shoppers',
+    uniqueSellingPoints: ['high quality', 'distinctive design']
+  }),
+  'brand-compliance': (seed) => ({
+    toneScore: 70 + (seed % 25),
+    styleScore: 65 + (seed % 30),
+    issues: seed % 3 === 0 ? ['The scene feels calmer than the brand\'s energetic tone'] : [],
+    suggestions: seed % 3 === 0 ? ['Use more dynamic angles and movement'] : []
+  }),
+  'reference-style': (seed) => ({
+    layout: seed % 2 === 0 ? 'centered hero product with generous whitespace' : 'product offset left with headline on the right',
+    typography: 'bold sans-serif headline, light body copy',
+    colorTreatment: 'high contrast with a single accent color',
+    imagery: 'studio photography with soft shadows',
+    copyTone: 'short and punchy'
+  })
+};
+
+// Canned JSON answers for document analysis, keyed by request purpose
+const DOCUMENT_FIXTURES: Record<string, (seed: number) => Record<string, unknown>> = {
+  'brand-guideline': (seed) => ({
+    brandStyle: 'confident, minimal and consistent across channels',
+    colorPalette: PALETTES[seed % PALETTES.length].map((hex, index) => `${['primary', 'secondary', 'accent'][index]} ${hex}`),
+    visualElements: ['logo with clear space', 'geometric shapes'],
+    moodAndTone: 'confident and approachable',
+    targetAudience: 'young urban professionals',
+    industryCategory: 'consumer goods'
+  })
+};
+
+const COPY_ANGLES = ['Built for every day', 'Feel the difference', 'Only while it lasts'];
+
+// Canned JSON answers for text completions, keyed by request purpose
+const TEXT_FIXTURES: Record<string, (seed: number) => Record<string, unknown>> = {
+  // Guidelines pasted as text are read like guideline documents
+  'brand-guideline': DOCUMENT_FIXTURES['brand-guideline'],
+  'ad-copy': (seed) => ({
+    variants: COPY_ANGLES.map((headline, index) => ({
+      headline,
+      primaryText: `Local copy variant ${index + 1} for product ${seed.toString(16)}. Made to fit the way you live.`,
+      cta: index === 2 ? 'Shop now' : 'Learn more',
+      hashtags: ['#local', '#ad', `#variant${index + 1}`]
+    }))
+  })
+};
+
+// FNV-1a hash, used to derive stable variations from the input
+function hash(input: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    value ^= input.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+// Rough token estimate so cost tracking still produces numbers
+function estimateUsage(input: string, output: string): ProviderUsage {
+  const promptTokens = Math.ceil(input.length / 4);
+  const completionTokens = Math.ceil(output.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Render a placeholder SVG as a data URL; data URLs never expire
+function renderPlaceholder(label: string, seed: number, size: string): string {
+  const [width, height] = size.split('x').map(Number);
+  const palette = PALETTES[seed % PALETTES.length];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="100%" height="100%" fill="${palette[0]}"/>` +
+    `<circle cx="${width / 2}" cy="${height / 2}" r="${Math.min(width, height) / 4}" fill="${palette[1]}"/>` +
+    `<text x="50%" y="90%" text-anchor="middle" font-family="sans-serif" font-size="32" fill="${palette[2]}">${escapeXml(label)}</text>` +
+    `</svg>`;
+
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+export class LocalProvider implements AIProvider {
+  public readonly name = 'local' as const;
+
+  public async analyzeImage(request: VisionRequest): Promise<CompletionResult> {
+    const seed = hash(request.imageUrl);
+    const fixture = VISION_FIXTURES[request.purpose];
+    const content = request.json
+      ? JSON.stringify(fixture ? fixture(seed) : {})
+      : `Local analysis (${request.purpose}) of image ${seed.toString(16)}`;
+
+    return {
+      content,
+      usage: estimateUsage(request.systemPrompt + request.userPrompt, content)
+    };
+  }
+
+  public async analyzeDocument(request: DocumentRequest): Promise<CompletionResult> {
+    const seed = hash(request.documentUrl);
+    const fixture = DOCUMENT_FIXTURES[request.purpose];
+    const content = request.json
+      ? JSON.stringify(fixture ? fixture(seed) : {})
+      : `Local analysis (${request.purpose}) of document ${request.filename}`;
+
+    return {
+      content,
+      usage: estimateUsage(request.systemPrompt + request.userPrompt, content)
+    };
+  }
+
+  public async completeText(request: TextCompletionRequest): Promise<CompletionResult> {
+    const input = request.messages.map(message => message.content).join('\n');
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const fixture = TEXT_FIXTURES[request.purpose];
+    const content = request.json
+      ? JSON.stringify(fixture ? fixture(hash(input)) : {})
+      : `Local ${request.purpose} response: ${(lastUserMessage?.content || '').slice(0, 400)}`;
+
+    return {
+      content,
+      usage: estimateUsage(input, content)
+    };
+  }
+
+  public async generateImage(request: ImageGenerationRequest): Promise<ImageResult> {
+    const size = request.size || '1024x1024';
+    return {
+      url: renderPlaceholder(`Local ${request.quality || 'standard'} render`, hash(request.prompt), size),
+      ephemeral: false
+    };
+  }
+
+  public async editImage(request: ImageEditRequest): Promise<ImageResult> {
+    return {
+      url: renderPlaceholder('Local edit', hash(request.imageUrl + request.prompt), request.size || '1024x1024'),
+      ephemeral: false
+    };
+  }
+}
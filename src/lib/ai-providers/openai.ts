@@ -0,0 +1,175 @@
+import OpenAI from 'openai';
+import logger from '../logger';
+import { OPENAI_MODELS } from '../env';
+import type {
+  AIProvider,
+  CompletionResult,
+  DocumentRequest,
+  ImageEditRequest,
+  ImageGenerationRequest,
+  ImageResult,
+  TextCompletionRequest,
+  VisionRequest
+} from './types';
+
+// Fetch a remote image and wrap it in a File, which the OpenAI SDK accepts as an upload
+async function fetchImageFile(url: string, filename: string): Promise<File> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  return new File([blob], filename, { type: 'image/png' });
+}
+
+/**
+ * OpenAI-backed provider (GPT-4o family for vision/text, DALL-E for images)
+ */
+export class OpenAIProvider implements AIProvider {
+  public readonly name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor(apiKey: string | undefined) {
+    if (!apiKey) {
+      logger.error('OPENAI_API_KEY is not set. Set this environment variable to use OpenAI services.');
+    }
+
+    this.client = new OpenAI({ apiKey });
+  }
+
+  public async analyzeImage(request: VisionRequest): Promise<CompletionResult> {
+    const model = request.detail === 'detailed' ? OPENAI_MODELS.visionDetailed : OPENAI_MODELS.vision;
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: request.systemPrompt
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text' as const,
+              text: request.userPrompt
+            },
+            {
+              type: 'image_url' as const,
+              image_url: { url: request.imageUrl }
+            }
+          ]
+        }
+      ],
+      temperature: request.temperature,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+      max_tokens: request.maxTokens
+    });
+
+    return {
+      content: response.choices[0].message.content || '',
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        totalTokens: response.usage?.total_tokens || 0
+      }
+    };
+  }
+
+  public async analyzeDocument(request: DocumentRequest): Promise<CompletionResult> {
+    // Only the larger vision model reads PDF pages
+    const response = await this.client.chat.completions.create({
+      model: OPENAI_MODELS.visionDetailed,
+      messages: [
+        {
+          role: 'system',
+          content: request.systemPrompt
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text' as const,
+              text: request.userPrompt
+            },
+            {
+              type: 'file' as const,
+              file: { filename: request.filename, file_data: request.documentUrl }
+            }
+          ]
+        }
+      ],
+      temperature: request.temperature,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+      max_tokens: request.maxTokens
+    });
+
+    return {
+      content: response.choices[0].message.content || '',
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        totalTokens: response.usage?.total_tokens || 0
+      }
+    };
+  }
+
+  public async completeText(request: TextCompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.chat.completions.create({
+      model: OPENAI_MODELS.text,
+      messages: request.messages,
+      temperature: request.temperature,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+      max_tokens: request.maxTokens
+    });
+
+    return {
+      content: response.choices[0].message.content || '',
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        totalTokens: response.usage?.total_tokens || 0
+      }
+    };
+  }
+
+  public async generateImage(request: ImageGenerationRequest): Promise<ImageResult> {
+    const response = await this.client.images.generate({
+      model: OPENAI_MODELS.image,
+      prompt: request.prompt,
+      n: 1,
+      size: request.size || '1024x1024',
+      quality: request.quality || 'standard',
+      style: 'vivid'
+    });
+
+    const url = response.data[0]?.url;
+    if (!url) {
+      throw new Error('No image URL returned from API');
+    }
+
+    return { url, ephemeral: true };
+  }
+
+  public async editImage(request: ImageEditRequest): Promise<ImageResult> {
+    const image = await fetchImageFile(request.imageUrl, 'source-image.png');
+    const mask = request.maskUrl ? await fetchImageFile(request.maskUrl, 'mask.png') : undefined;
+
+    const response = await this.client.images.edit({
+      image,
+      ...(mask && { mask }),
+      prompt: request.prompt,
+      n: 1,
+      size: request.size || '1024x1024',
+      response_format: 'url'
+    });
+
+    const url = response.data[0]?.url;
+    if (!url) {
+      throw new Error('No edited image URL returned from API');
+    }
+
+    return { url, ephemeral: true };
+  }
+}
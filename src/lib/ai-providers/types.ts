@@ -0,0 +1,87 @@
+/**
+ * AI Provider Types
+ *
+ * Shared contract for the model backends used by the ad generation pipeline.
+ * Each provider covers vision analysis, text completion, image generation
+ * and image editing so callers never talk to a vendor SDK directly.
+ */
+
+export type AIProviderName = 'openai' | 'local';
+
+// Chat message shape accepted by text completions
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Token usage reported back for cost tracking
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  usage: ProviderUsage;
+}
+
+interface BaseCompletionRequest {
+  // Short task label (e.g. 'brand-analysis') used for logging and local fixtures
+  purpose: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model for a JSON object instead of free text
+  json?: boolean;
+}
+
+export interface VisionRequest extends BaseCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  imageUrl: string;
+  // 'detailed' trades cost for accuracy (e.g. GPT-4o instead of GPT-4o-mini)
+  detail?: 'standard' | 'detailed';
+}
+
+export interface DocumentRequest extends BaseCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  // Base64 data URL of the document (e.g. a PDF)
+  documentUrl: string;
+  filename: string;
+}
+
+export interface TextCompletionRequest extends BaseCompletionRequest {
+  messages: ProviderMessage[];
+}
+
+export type ImageSize = '1024x1024' | '1792x1024' | '1024x1792';
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  size?: ImageSize;
+  quality?: 'standard' | 'hd';
+}
+
+export interface ImageEditRequest {
+  imageUrl: string;
+  prompt: string;
+  // Transparent areas of the mask mark the region to repaint
+  maskUrl?: string;
+  size?: '1024x1024';
+}
+
+export interface ImageResult {
+  url: string;
+  // Ephemeral URLs expire (e.g. DALL-E links) and must be copied to storage
+  ephemeral: boolean;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  analyzeImage(request: VisionRequest): Promise<CompletionResult>;
+  analyzeDocument(request: DocumentRequest): Promise<CompletionResult>;
+  completeText(request: TextCompletionRequest): Promise<CompletionResult>;
+  generateImage(request: ImageGenerationRequest): Promise<ImageResult>;
+  editImage(request: ImageEditRequest): Promise<ImageResult>;
+}
@@ -27,6 +27,8 @@ export enum EventType {
   TOKEN_PURCHASE_INITIATED = 'token_purchase_initiated',
   PAYMENT_LINK_CREATED = 'payment_link_created',
   PAYMENT_LINK_ERROR = 'payment_link_error',
+  VARIANT_SELECTED = 'variant_selected',
+  EXPORT_PACK_DOWNLOADED = 'export_pack_downloaded',
 }
 
 interface EventProperties {
@@ -0,0 +1,14 @@
+/**
+ * A request that can't be carried out. `status` is the HTTP status the route
+ * should respond with, and `details` is safe to return to the client.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
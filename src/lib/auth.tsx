@@ -8,9 +8,10 @@ import {
   ReactNode
 } from 'react';
 import { createClient } from '@/lib/supabase/client';
-import { getUserTokens } from '@/lib/supabase';
+import { fetchTokenBalance } from '@/lib/tokens-client';
+import { claimAccount } from '@/lib/accounts-client';
 import { trackEvent, EventType } from '@/lib/analytics';
-import { getDeviceFingerprint, getPersistentUserId } from '@/lib/fingerprint';
+import { getDeviceFingerprint } from '@/lib/fingerprint';
 
 // Add interface for extended user
 interface ExtendedUser {
@@ -44,33 +45,14 @@ type UserAuth = {
 // Create the auth context
 const AuthContext = createContext<UserAuth | undefined>(undefined);
 
-// Update the generateUniqueId function to be more persistent
-const generateUniqueId = async (): Promise<string> => {
-  // Get fingerprint-based persistent ID
-  return await getPersistentUserId();
-};
-
-// Function to check if tokens should be refreshed
-const shouldRefreshTokens = (lastRefresh: string) => {
-  if (!lastRefresh) return true;
-  
-  const lastRefreshDate = new Date(lastRefresh);
-  const now = new Date();
-  
-  // Check if it's a new day (different day, month, or year)
-  return lastRefreshDate.getDate() !== now.getDate() ||
-         lastRefreshDate.getMonth() !== now.getMonth() ||
-         lastRefreshDate.getFullYear() !== now.getFullYear();
-};
-
 // Provider component
 export function AuthProvider({ children }: { children: ReactNode }) {
   // const supabase = createClient();
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(true); // Always authenticated
   const [user, setUser] = useState<ExtendedUser | null>(null);
-  const [tokens, setTokens] = useState<number>(100000); // Start with 100,000 tokens
+  const [tokens, setTokens] = useState<number>(0); // Loaded from the server-side ledger
   const [tokensExpiryDate, setTokensExpiryDate] = useState<string | undefined>(undefined);
-  const [tier, setTier] = useState<'Pioneer' | 'Voyager' | 'Dominator' | 'Overlord'>('Overlord'); // Everyone gets top tier
+  const [tier, setTier] = useState<'Pioneer' | 'Voyager' | 'Dominator' | 'Overlord'>('Pioneer'); // Set by the server from plans and purchases
   const [isLoading, setIsLoading] = useState(true);
 
   // Add this before the useEffect in AuthProvider
@@ -142,77 +124,38 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       try {
         // Check localStorage for existing user
         const storedUser = localStorage.getItem('dekave_temp_user');
-        let userId, lastTokenRefresh;
+        const storedUserId: string | undefined = storedUser ? JSON.parse(storedUser).id : undefined;
         
-        if (storedUser) {
-          // Use existing user
-          const parsedUser = JSON.parse(storedUser);
-          userId = parsedUser.id;
-          lastTokenRefresh = parsedUser.lastTokenRefresh;
-          console.log('Found existing temporary user:', userId);
-          
-          // Validate against fingerprint to prevent bypassing by clearing localStorage
-          // Get the current device fingerprint and create a persistent ID
-          const persistentId = await getPersistentUserId(userId);
-          
-          // If the user ID doesn't match our fingerprint pattern, it might be spoofed
-          // In that case, generate a new ID based on the device fingerprint
-          if (!userId.includes(persistentId.split('-')[1])) {
-            console.log('User ID mismatch with device fingerprint, creating new ID');
-            userId = persistentId;
-            lastTokenRefresh = new Date().toISOString();
-          }
-          
-          // Check if tokens should be refreshed
-          if (shouldRefreshTokens(lastTokenRefresh)) {
-            console.log('Refreshing tokens for temporary user');
-            lastTokenRefresh = new Date().toISOString();
-            localStorage.setItem('dekave_temp_user', JSON.stringify({
-              id: userId,
-              lastTokenRefresh,
-              fingerprint: persistentId.split('-')[1] // Store fingerprint part for validation
-            }));
-            
-            // Reset tokens to maximum
-            setTokens(100000);
-          } else {
-            // Get saved token count if available
-            const savedTokens = localStorage.getItem('dekave_temp_tokens');
-            if (savedTokens) {
-              setTokens(parseInt(savedTokens, 10));
-            }
-          }
-        } else {
-          // Generate new user with fingerprint-based ID
-          userId = await generateUniqueId();
-          lastTokenRefresh = new Date().toISOString();
-          console.log('Created new fingerprint-based temporary user:', userId);
-          
-          // Store in localStorage with fingerprint info
+        // The server opens accounts: it resumes the one this browser's
+        // httpOnly account cookie proves it holds, or issues a new one
+        const fingerprint = (await getDeviceFingerprint()).substring(0, 16);
+        const userId = await claimAccount(fingerprint);
+        if (userId !== storedUserId) {
+          console.log('Using server-issued temporary user:', userId);
           localStorage.setItem('dekave_temp_user', JSON.stringify({
             id: userId,
-            lastTokenRefresh,
-            fingerprint: userId.split('-')[1] // Store fingerprint part for validation
           }));
-          
-          // Default tokens
-          setTokens(100000);
         }
         
+        // Balance and tier come from the server: tokens are granted only by
+        // purchases and plan renewals, never refreshed here
+        const { balance, buckets, tier: serverTier } = await fetchTokenBalance(userId);
+        
         // Set the user state
         const temporaryUser: ExtendedUser = {
           id: userId,
           email: 'temporary@user.com',
-          tokens: 100000,
-          tier: 'Overlord',
+          tokens: balance,
+          tier: serverTier,
           hasLoggedInBefore: true,
-          tokens_expiry_date: new Date(new Date().setDate(new Date().getDate() + 1)).toISOString(),
+          tokens_expiry_date: buckets[0]?.expiresAt,
         };
         
         if (isMounted) {
           setUser(temporaryUser);
+          setTokens(balance);
           setIsAuthenticated(true);
-          setTier('Overlord');
+          setTier(serverTier);
           setTokensExpiryDate(temporaryUser.tokens_expiry_date);
           setIsLoading(false);
           
@@ -239,21 +182,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Initialize immediately
     initializeTemporaryUser();
     
-    // Set up a daily check for token refresh
-    const checkInterval = setInterval(() => {
-      const storedUser = localStorage.getItem('dekave_temp_user');
-      if (storedUser) {
-        const parsedUser = JSON.parse(storedUser);
-        if (shouldRefreshTokens(parsedUser.lastTokenRefresh)) {
-          console.log('Daily token refresh triggered');
-          initializeTemporaryUser();
-        }
-      }
-    }, 3600000); // Check every hour
-    
     return () => {
       isMounted = false;
-      clearInterval(checkInterval);
     };
   }, []);
 
@@ -638,16 +568,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         timestamp: new Date().toISOString()
       });
       
-      // Reset token count to maximum
-      setTokens(100000);
-      
       // Update localStorage
       if (user?.id) {
         localStorage.setItem('dekave_temp_user', JSON.stringify({
           id: user.id,
-          lastTokenRefresh: new Date().toISOString(),
         }));
-        localStorage.setItem('dekave_temp_tokens', '100000');
       }
       
       return Promise.resolve();
@@ -657,40 +582,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Update token refresh to validate against fingerprint
+  // Refresh the token count and tier from the server-side ledger
   const refreshTokenCount = async () => {
     try {
-      // For temporary users, check fingerprint to prevent abuse
-      if (user && user.id.startsWith('user-')) {
-        const persistentId = await getPersistentUserId(user.id);
-        const fingerprintPart = persistentId.split('-')[1];
-        
-        // Get tokens from localStorage, but verify against fingerprint
-        const storedUser = localStorage.getItem('dekave_temp_user');
-        if (storedUser) {
-          const parsedUser = JSON.parse(storedUser);
-          
-          // If fingerprint doesn't match, token count might be tampered
-          if (parsedUser.fingerprint !== fingerprintPart) {
-            console.warn('Fingerprint mismatch detected during token refresh');
-            // Reset to default token count to prevent abuse
-            setTokens(10000); // Lower amount for suspected tampering
-            localStorage.setItem('dekave_temp_tokens', '10000');
-            return;
-          }
-          
-          // Valid user, proceed with token refresh
-          const tokensFromStorage = localStorage.getItem('dekave_temp_tokens');
-          if (tokensFromStorage) {
-            setTokens(parseInt(tokensFromStorage, 10));
-          }
-        }
-      } else if (user) {
-        // For regular logged-in users, get from database
-        const tokens = await getUserTokens(user.id);
-        if (tokens !== null) {
-          setTokens(tokens);
-        }
+      if (user) {
+        const { balance, buckets, tier } = await fetchTokenBalance(user.id);
+        setTokens(balance);
+        setTier(tier);
+        setTokensExpiryDate(buckets[0]?.expiresAt);
       }
     } catch (error) {
       console.error('Error refreshing token count:', error);
@@ -703,9 +602,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { success: true };
   };
 
-  // Function to check if tokens are expired
+  // Expiry is enforced by the server ledger: balances read from /api/tokens
+  // never include expired tokens, so the client has nothing left to check
   const tokensExpired = () => {
-    // Tokens never expire in this free mode
     return false;
   };
 
@@ -719,13 +618,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Save token usage to localStorage for persistence across sessions
-  useEffect(() => {
-    if (user?.id && tokens !== 100000) {
-      localStorage.setItem('dekave_temp_tokens', tokens.toString());
-    }
-  }, [tokens, user?.id]);
-
   return (
     <AuthContext.Provider value={{
       isAuthenticated,
@@ -0,0 +1,297 @@
+/**
+ * Brand Compliance
+ *
+ * Checks a generated ad against the brand profile it was made for:
+ *   palette  the ad's measured colors against the brand's hex colors (greys,
+ *            whites and blacks go with any brand)
+ *   logo     when a logo overlay was requested, that it was drawn, stands out
+ *            from the image behind it and isn't covered by the copy
+ *   style    a vision model's score of the ad's tone and style against the
+ *            profile's mood, style and audience
+ * The checks are combined into one score, and the problems found are phrased
+ * as instructions a regeneration can follow.
+ */
+
+import sharp from 'sharp';
+import { getAIProvider } from './ai-providers';
+import type { OverlayDocument } from './ad-compositor';
+import { brandPaletteHexes, type BrandProfile } from './brand-profile-schema';
+import { colorChroma, colorDistance, extractPalette } from './color-palette';
+import { loadImageBuffer } from './image-processing';
+import logger from './logger';
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+// Scores (0-100) at or above which a check passes or only warns
+const PASS_SCORE = 80;
+const WARN_SCORE = 60;
+
+// Output colors within this RGB distance of a brand color count as on-brand
+const PALETTE_MATCH_DISTANCE = 60;
+
+// Colors less colorful than this are neutrals and fit any palette
+const NEUTRAL_CHROMA = 0.15;
+
+// Mean per-channel difference (0-255) under which the logo region matches the logo
+const LOGO_MATCH_DIFFERENCE = 24;
+
+// WCAG contrast ratio the logo should have against the image behind it
+const MIN_LOGO_CONTRAST = 1.5;
+
+// How much each check counts towards the overall score
+const CHECK_WEIGHTS = { palette: 0.4, logo: 0.2, style: 0.4 };
+
+export interface PaletteCompliance {
+  score: number;
+  status: ComplianceStatus;
+  // The ad's measured colors and the nearest brand color to each
+  colors: { hex: string; coverage: number; nearestBrandHex: string; onBrand: boolean }[];
+  offBrandColors: string[];
+}
+
+export interface LogoCompliance {
+  score: number;
+  status: ComplianceStatus;
+  present: boolean;
+  // Contrast ratio of the logo against the image behind it (1 to 21)
+  contrast: number | null;
+  overlapsCopy: boolean;
+}
+
+export interface StyleCompliance {
+  score: number;
+  status: ComplianceStatus;
+  toneScore: number;
+  styleScore: number;
+  issues: string[];
+}
+
+export interface ComplianceReport {
+  score: number;
+  status: ComplianceStatus;
+  // Null when the check doesn't apply (no hex palette, no logo requested) or couldn't run
+  palette: PaletteCompliance | null;
+  logo: LogoCompliance | null;
+  style: StyleCompliance | null;
+  issues: string[];
+  // Instructions to add to the prompt when regenerating, or null if the ad passed
+  fixInstructions: string | null;
+  tokenUsage: number;
+  checkedAt: string;
+}
+
+export interface ComplianceInput {
+  imageUrl: string;
+  brandProfile: BrandProfile;
+  // Layers drawn over the image, if the ad has an overlay
+  overlay?: OverlayDocument;
+  // Whether the request asked for a logo, so a missing one is caught
+  logoRequested?: boolean;
+}
+
+function statusFor(score: number): ComplianceStatus {
+  return score >= PASS_SCORE ? 'pass' : score >= WARN_SCORE ? 'warn' : 'fail';
+}
+
+function clampScore(value: unknown): number {
+  const score = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(score) ? Math.round(Math.min(100, Math.max(0, score))) : 0;
+}
+
+async function checkPalette(image: Buffer, brandHexes: string[]): Promise<PaletteCompliance> {
+  const measured = await extractPalette(image);
+  const colors = measured.map(color => {
+    const nearestBrandHex = brandHexes.reduce((best, hex) =>
+      colorDistance(color.hex, hex) < colorDistance(color.hex, best) ? hex : best);
+    const onBrand = colorChroma(color.hex) < NEUTRAL_CHROMA ||
+      colorDistance(color.hex, nearestBrandHex) <= PALETTE_MATCH_DISTANCE;
+    return { hex: color.hex, coverage: color.coverage, nearestBrandHex, onBrand };
+  });
+
+  const totalCoverage = colors.reduce((total, color) => total + color.coverage, 0);
+  const onBrandCoverage = colors.filter(color => color.onBrand).reduce((total, color) => total + color.coverage, 0);
+  const score = totalCoverage ? Math.round((onBrandCoverage / totalCoverage) * 100) : 100;
+
+  return {
+    score,
+    status: statusFor(score),
+    colors,
+    offBrandColors: colors.filter(color => !color.onBrand).map(color => color.hex)
+  };
+}
+
+function relativeLuminance([r, g, b]: number[]): number {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+function contrastRatio(a: number, b: number): number {
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+function overlaps(a: { x: number; y: number; width: number; height: number }, b: { x: number; y: number; width: number; height: number }): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+async function checkLogo(image: Buffer, overlay: OverlayDocument | undefined): Promise<LogoCompliance> {
+  const layer = overlay?.layers.find(candidate => candidate.type === 'logo');
+  if (!overlay || !layer || layer.type !== 'logo') {
+    return { score: 0, status: 'fail', present: false, contrast: null, overlapsCopy: false };
+  }
+
+  // The logo as it was composited: fitted inside its box, anchored top-left
+  const logo = await sharp(await loadImageBuffer(layer.url))
+    .resize(layer.width, layer.height, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const region = { left: layer.x, top: layer.y, width: logo.info.width, height: logo.info.height };
+  const [rendered, background] = await Promise.all([
+    sharp(image).resize(overlay.width, overlay.height, { fit: 'fill' }).extract(region).removeAlpha().raw().toBuffer(),
+    sharp(await loadImageBuffer(overlay.baseImageUrl)).resize(overlay.width, overlay.height, { fit: 'fill' }).extract(region).removeAlpha().raw().toBuffer()
+  ]);
+
+  // Compare only the logo's opaque pixels
+  let difference = 0;
+  let opaque = 0;
+  const logoColor = [0, 0, 0];
+  const backgroundColor = [0, 0, 0];
+  for (let pixel = 0; pixel < logo.info.width * logo.info.height; pixel++) {
+    if (logo.data[pixel * 4 + 3] < 128) continue;
+    opaque++;
+    for (let channel = 0; channel < 3; channel++) {
+      difference += Math.abs(rendered[pixel * 3 + channel] - logo.data[pixel * 4 + channel]);
+      logoColor[channel] += logo.data[pixel * 4 + channel];
+      backgroundColor[channel] += background[pixel * 3 + channel];
+    }
+  }
+
+  const present = opaque > 0 && difference / (opaque * 3) <= LOGO_MATCH_DIFFERENCE;
+  const contrast = present
+    ? Math.round(contrastRatio(
+      relativeLuminance(logoColor.map(total => total / opaque)),
+      relativeLuminance(backgroundColor.map(total => total / opaque))
+    ) * 100) / 100
+    : null;
+  const overlapsCopy = overlay.layers.some(other =>
+    (other.type === 'text' || other.type === 'button') &&
+    overlaps({ ...region, x: region.left, y: region.top }, {
+      x: other.x,
+      y: other.y,
+      width: other.width,
+      height: other.type === 'button' ? other.height : other.lines.length * other.fontSize * other.lineHeight
+    }));
+
+  const score = !present ? 0 : Math.max(0, 100 - (contrast !== null && contrast < MIN_LOGO_CONTRAST ? 40 : 0) - (overlapsCopy ? 30 : 0));
+  return { score, status: statusFor(score), present, contrast, overlapsCopy };
+}
+
+function stylePrompt(profile: BrandProfile): string {
+  return `Rate how well this ad fits the brand described below. Judge the image only, not any text drawn on it.
+
+Brand style: ${profile.brandStyle}
+Mood and tone: ${profile.moodAndTone}
+Target audience: ${profile.targetAudience || 'general audience'}
+Visual elements: ${profile.visualElements.join(', ') || 'none specified'}
+
+Respond with a JSON object with these EXACT field names:
+- toneScore: 0 to 100, how well the ad's mood matches the brand's mood and tone
+- styleScore: 0 to 100, how well its visual style matches the brand style and visual elements
+- issues: short descriptions of what doesn't fit the brand (empty if nothing)
+- suggestions: short instructions that would make it fit better (empty if nothing)`;
+}
+
+async function checkStyle(imageUrl: string, profile: BrandProfile): Promise<{ style: StyleCompliance; suggestions: string[]; tokenUsage: number }> {
+  const response = await getAIProvider().analyzeImage({
+    purpose: 'brand-compliance',
+    systemPrompt: 'You are a brand manager reviewing ads for consistency with brand guidelines. Be specific and strict.',
+    userPrompt: stylePrompt(profile),
+    imageUrl,
+    temperature: 0.2,
+    maxTokens: 400,
+    json: true
+  });
+
+  const output = JSON.parse(response.content || '{}');
+  const toText = (value: unknown) => Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0).map(entry => entry.trim())
+    : [];
+  const toneScore = clampScore(output.toneScore);
+  const styleScore = clampScore(output.styleScore);
+  const score = Math.round((toneScore + styleScore) / 2);
+
+  return {
+    style: { score, status: statusFor(score), toneScore, styleScore, issues: toText(output.issues) },
+    suggestions: toText(output.suggestions),
+    tokenUsage: response.usage.totalTokens
+  };
+}
+
+/**
+ * Score an ad against its brand profile. Checks that fail to run are left out
+ * of the report (and logged) rather than failing it.
+ */
+export async function checkBrandCompliance(input: ComplianceInput): Promise<ComplianceReport> {
+  const { imageUrl, brandProfile, overlay } = input;
+  const brandHexes = brandPaletteHexes(brandProfile);
+  const image = await loadImageBuffer(imageUrl);
+
+  const settle = <T>(check: string, promise: Promise<T>): Promise<T | null> => promise.catch(error => {
+    logger.warn('Brand compliance check failed', { check, error });
+    return null;
+  });
+
+  const [palette, logo, styleResult] = await Promise.all([
+    brandHexes.length ? settle('palette', checkPalette(image, brandHexes)) : null,
+    input.logoRequested ? settle('logo', checkLogo(image, overlay)) : null,
+    settle('style', checkStyle(imageUrl, brandProfile))
+  ]);
+  const style = styleResult?.style ?? null;
+
+  const weighted = ([['palette', palette], ['logo', logo], ['style', style]] as const)
+    .filter(([, check]) => check !== null)
+    .map(([name, check]) => ({ weight: CHECK_WEIGHTS[name], score: check!.score }));
+  const totalWeight = weighted.reduce((total, check) => total + check.weight, 0);
+  const score = totalWeight
+    ? Math.round(weighted.reduce((total, check) => total + check.score * check.weight, 0) / totalWeight)
+    : 100;
+
+  const issues: string[] = [];
+  const fixes: string[] = [];
+  if (palette && palette.status !== 'pass') {
+    issues.push(`Colors ${palette.offBrandColors.join(', ')} are off the brand palette`);
+    fixes.push(`Use the brand colors ${brandHexes.join(', ')} and avoid ${palette.offBrandColors.join(', ')}`);
+  }
+  if (logo && !logo.present) {
+    issues.push('The logo is missing from the ad');
+  } else if (logo && logo.contrast !== null && logo.contrast < MIN_LOGO_CONTRAST) {
+    issues.push('The logo blends into the image behind it');
+    fixes.push('Keep the area behind the logo plain and in a contrasting tone');
+  }
+  if (logo?.overlapsCopy) {
+    issues.push('The copy overlaps the logo');
+  }
+  if (style && style.status !== 'pass') {
+    issues.push(...style.issues);
+    fixes.push(...(styleResult?.suggestions ?? []));
+    if (!styleResult?.suggestions.length) {
+      fixes.push(`Match the brand's mood (${brandProfile.moodAndTone}) and style (${brandProfile.brandStyle}) more closely`);
+    }
+  }
+
+  const status = statusFor(score);
+  return {
+    score,
+    status,
+    palette,
+    logo,
+    style,
+    issues,
+    fixInstructions: status !== 'pass' && fixes.length ? `Fix these brand issues: ${fixes.join('; ')}.` : null,
+    tokenUsage: styleResult?.tokenUsage ?? 0,
+    checkedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,74 @@
+import type { BrandKitView, BrandKitUpdate, BrandProfileVersionView } from './brand-kits';
+import type { BrandProfile } from './brand-profile';
+
+// Response body of the brand kit routes, throwing with the server's message on failure
+async function readBrandKitResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * The user's unarchived brand kits, active first
+ */
+export async function fetchBrandKits(userId: string): Promise<BrandKitView[]> {
+  const response = await fetch(`/api/brand-kits?userId=${encodeURIComponent(userId)}`);
+  const data = await readBrandKitResponse<{ brandKits: BrandKitView[] }>(response, 'Failed to load brand kits');
+  return data.brandKits;
+}
+
+/**
+ * Store an analyzed profile as a new kit and make it the active one
+ */
+export async function createBrandKitFromProfile(userId: string, name: string, profile: BrandProfile): Promise<BrandKitView> {
+  const response = await fetch('/api/brand-kits', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ userId, name, profile, active: true }),
+  });
+  const data = await readBrandKitResponse<{ brandKit: BrandKitView }>(response, 'Failed to create brand kit');
+  return data.brandKit;
+}
+
+/**
+ * Rename, re-profile, pin a version of, archive or activate a kit
+ */
+export async function patchBrandKit(userId: string, kitId: string, update: BrandKitUpdate): Promise<BrandKitView> {
+  const response = await fetch(`/api/brand-kits/${kitId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ userId, ...update }),
+  });
+  const data = await readBrandKitResponse<{ brandKit: BrandKitView }>(response, 'Failed to update brand kit');
+  return data.brandKit;
+}
+
+/**
+ * Every version of a kit's profile, newest first
+ */
+export async function fetchBrandKitVersions(userId: string, kitId: string): Promise<BrandProfileVersionView[]> {
+  const response = await fetch(`/api/brand-kits/${kitId}/versions?userId=${encodeURIComponent(userId)}`);
+  const data = await readBrandKitResponse<{ versions: BrandProfileVersionView[] }>(response, 'Failed to load brand kit history');
+  return data.versions;
+}
+
+/**
+ * Make an earlier version of a kit's profile current again
+ */
+export async function rollbackBrandKit(userId: string, kitId: string, version: number): Promise<BrandKitView> {
+  const response = await fetch(`/api/brand-kits/${kitId}/rollback`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ userId, version }),
+  });
+  const data = await readBrandKitResponse<{ brandKit: BrandKitView }>(response, 'Failed to roll back brand kit');
+  return data.brandKit;
+}
@@ -0,0 +1,351 @@
+/**
+ * Brand Kits
+ *
+ * Named brand profiles stored in `brand_profiles`. A user can keep a kit per
+ * client or product line, archive the ones they no longer use, and mark one
+ * as active; generations can name a kit to use its stored profile instead of
+ * analyzing the uploaded image again.
+ *
+ * Every profile a kit has had is kept in `brand_profile_versions`. Rolling
+ * back adds the old profile as a new version, and a kit can pin a version
+ * (e.g. for the length of a campaign) so generations ignore later edits.
+ */
+
+import { and, asc, desc, eq, isNull, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import {
+  brandProfiles,
+  brandProfileVersions,
+  type BrandKit,
+  type BrandProfileVersion
+} from '@/lib/db/schema';
+import { safeParseBrandProfile, type BrandProfile } from './brand-profile-schema';
+import { ApiError } from './api-error';
+import { isUuid } from './generation-jobs';
+import { requireTokenAccount } from './token-ledger';
+import logger from './logger';
+
+export const MAX_BRAND_KIT_NAME_LENGTH = 80;
+
+export const MAX_VERSION_NOTE_LENGTH = 200;
+
+// What produced a version of a kit's profile
+export const BRAND_PROFILE_VERSION_SOURCES = ['analysis', 'edit', 'rollback'] as const;
+export type BrandProfileVersionSource = typeof BRAND_PROFILE_VERSION_SOURCES[number];
+
+// Client-facing view of a kit
+export interface BrandKitView {
+  id: string;
+  name: string;
+  // Null if the stored profile can no longer be read
+  profile: BrandProfile | null;
+  isActive: boolean;
+  archivedAt: string | null;
+  // Version `profile` is
+  currentVersion: number;
+  // Version generations use instead of the current one, or null
+  pinnedVersion: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BrandProfileVersionView {
+  id: string;
+  version: number;
+  source: BrandProfileVersionSource;
+  note: string | null;
+  // Null if the stored profile can no longer be read
+  profile: BrandProfile | null;
+  createdAt: string;
+}
+
+export interface BrandKitUpdate {
+  name?: string;
+  // A new profile is stored as the kit's next version
+  profile?: BrandProfile;
+  profileSource?: BrandProfileVersionSource;
+  note?: string;
+  // A version number to pin, or null to unpin
+  pinnedVersion?: number | null;
+  // true archives the kit (and deactivates it), false restores it
+  archived?: boolean;
+  // Only true is meaningful: activating one kit deactivates the others
+  active?: boolean;
+}
+
+export function toBrandKitView(kit: BrandKit): BrandKitView {
+  return {
+    id: kit.id,
+    name: kit.name,
+    profile: safeParseBrandProfile(kit.profileData),
+    isActive: kit.isActive,
+    archivedAt: kit.archivedAt ? kit.archivedAt.toISOString() : null,
+    currentVersion: kit.currentVersion,
+    pinnedVersion: kit.pinnedVersion,
+    createdAt: kit.createdAt.toISOString(),
+    updatedAt: kit.updatedAt.toISOString()
+  };
+}
+
+export function toBrandProfileVersionView(row: BrandProfileVersion): BrandProfileVersionView {
+  return {
+    id: row.id,
+    version: row.version,
+    source: row.source as BrandProfileVersionSource,
+    note: row.note,
+    profile: safeParseBrandProfile(row.profileData),
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+/**
+ * Validate a kit name from a request body.
+ * Returns the trimmed name, or null if it is empty or too long.
+ */
+export function parseBrandKitName(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const name = value.trim();
+  return name.length > 0 && name.length <= MAX_BRAND_KIT_NAME_LENGTH ? name : null;
+}
+
+/**
+ * The user's kits, active first, then most recently updated
+ */
+export async function listBrandKits(userId: string, includeArchived: boolean = false): Promise<BrandKit[]> {
+  return db.select()
+    .from(brandProfiles)
+    .where(includeArchived
+      ? eq(brandProfiles.userId, userId)
+      : and(eq(brandProfiles.userId, userId), isNull(brandProfiles.archivedAt)))
+    .orderBy(desc(brandProfiles.isActive), desc(brandProfiles.updatedAt), asc(brandProfiles.name));
+}
+
+/**
+ * One of the user's kits, or null if it doesn't exist or belongs to someone else
+ */
+export async function getBrandKit(userId: string, kitId: string): Promise<BrandKit | null> {
+  if (!isUuid(kitId)) {
+    return null;
+  }
+
+  const [kit] = await db.select()
+    .from(brandProfiles)
+    .where(and(eq(brandProfiles.id, kitId), eq(brandProfiles.userId, userId)))
+    .limit(1);
+
+  return kit ?? null;
+}
+
+export async function getActiveBrandKit(userId: string): Promise<BrandKit | null> {
+  const [kit] = await db.select()
+    .from(brandProfiles)
+    .where(and(
+      eq(brandProfiles.userId, userId),
+      eq(brandProfiles.isActive, true),
+      isNull(brandProfiles.archivedAt)
+    ))
+    .limit(1);
+
+  return kit ?? null;
+}
+
+/**
+ * The kit a generation should use: the named kit, else the user's active kit.
+ * Throws ApiError if a named kit is not the user's or is archived.
+ */
+export async function resolveBrandKit(userId: string, kitId?: string): Promise<BrandKit | null> {
+  if (!kitId) {
+    return getActiveBrandKit(userId);
+  }
+
+  const kit = await getBrandKit(userId, kitId);
+  if (!kit || kit.archivedAt) {
+    throw new ApiError('Brand kit not found', 404);
+  }
+  return kit;
+}
+
+/**
+ * Create a kit. The user's first kit, or one created with `activate`, becomes the active kit.
+ */
+export async function createBrandKit(
+  userId: string,
+  name: string,
+  profile: BrandProfile,
+  activate: boolean = false
+): Promise<BrandKit> {
+  await requireTokenAccount(userId);
+
+  const kit = await db.transaction(async (tx) => {
+    const [active] = await tx.select({ id: brandProfiles.id })
+      .from(brandProfiles)
+      .where(and(eq(brandProfiles.userId, userId), eq(brandProfiles.isActive, true)))
+      .limit(1);
+    const isActive = activate || !active;
+
+    if (isActive && active) {
+      await tx.update(brandProfiles)
+        .set({ isActive: false })
+        .where(eq(brandProfiles.userId, userId));
+    }
+
+    const [created] = await tx.insert(brandProfiles)
+      .values({ userId, name, profileData: profile, isActive })
+      .returning();
+    await tx.insert(brandProfileVersions)
+      .values({ brandKitId: created.id, version: created.currentVersion, profileData: profile, source: 'analysis' });
+    return created;
+  });
+
+  logger.info('Brand kit created', { kitId: kit.id, userId, isActive: kit.isActive });
+  return kit;
+}
+
+/**
+ * Rename, re-profile, archive, restore or activate a kit.
+ * Throws ApiError if the kit is not the user's or an archived kit is activated.
+ */
+export async function updateBrandKit(userId: string, kitId: string, update: BrandKitUpdate): Promise<BrandKit> {
+  const kit = await getBrandKit(userId, kitId);
+  if (!kit) {
+    throw new ApiError('Brand kit not found', 404);
+  }
+
+  const archived = update.archived ?? Boolean(kit.archivedAt);
+  if (update.active && archived) {
+    throw new ApiError('Archived brand kits cannot be made active', 409);
+  }
+
+  if (typeof update.pinnedVersion === 'number' && !(await getBrandKitVersion(userId, kitId, update.pinnedVersion))) {
+    throw new ApiError('Brand profile version not found', 404);
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    if (update.active && !kit.isActive) {
+      await tx.update(brandProfiles)
+        .set({ isActive: false })
+        .where(eq(brandProfiles.userId, userId));
+    }
+
+    // The row update locks the kit, so concurrent edits get consecutive versions
+    const [row] = await tx.update(brandProfiles)
+      .set({
+        name: update.name ?? kit.name,
+        profileData: update.profile ?? kit.profileData,
+        currentVersion: update.profile ? sql`${brandProfiles.currentVersion} + 1` : kit.currentVersion,
+        pinnedVersion: update.pinnedVersion !== undefined ? update.pinnedVersion : kit.pinnedVersion,
+        isActive: archived ? false : update.active || kit.isActive,
+        archivedAt: archived ? kit.archivedAt ?? new Date() : null,
+        updatedAt: new Date()
+      })
+      .where(eq(brandProfiles.id, kit.id))
+      .returning();
+
+    if (update.profile) {
+      await tx.insert(brandProfileVersions).values({
+        brandKitId: kit.id,
+        version: row.currentVersion,
+        profileData: update.profile,
+        source: update.profileSource ?? 'edit',
+        note: update.note ?? null
+      });
+    }
+    return row;
+  });
+
+  logger.info('Brand kit updated', { kitId, userId, fields: Object.keys(update), version: updated.currentVersion });
+  return updated;
+}
+
+/**
+ * A kit's profile history, newest first. Throws ApiError if the kit is not the user's.
+ */
+export async function listBrandKitVersions(userId: string, kitId: string): Promise<BrandProfileVersion[]> {
+  const kit = await getBrandKit(userId, kitId);
+  if (!kit) {
+    throw new ApiError('Brand kit not found', 404);
+  }
+
+  return db.select()
+    .from(brandProfileVersions)
+    .where(eq(brandProfileVersions.brandKitId, kit.id))
+    .orderBy(desc(brandProfileVersions.version));
+}
+
+export async function getBrandKitVersion(userId: string, kitId: string, version: number): Promise<BrandProfileVersion | null> {
+  const kit = await getBrandKit(userId, kitId);
+  if (!kit) {
+    return null;
+  }
+
+  const [row] = await db.select()
+    .from(brandProfileVersions)
+    .where(and(eq(brandProfileVersions.brandKitId, kit.id), eq(brandProfileVersions.version, version)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Make an earlier version current again by storing it as the next version.
+ * Throws ApiError if the version doesn't exist or can no longer be read.
+ */
+export async function rollbackBrandKit(userId: string, kitId: string, version: number): Promise<BrandKit> {
+  const target = await getBrandKitVersion(userId, kitId, version);
+  if (!target) {
+    throw new ApiError('Brand profile version not found', 404);
+  }
+
+  const profile = safeParseBrandProfile(target.profileData);
+  if (!profile) {
+    throw new ApiError('This brand profile version can no longer be read', 422);
+  }
+
+  return updateBrandKit(userId, kitId, {
+    profile,
+    profileSource: 'rollback',
+    note: `Rolled back to version ${version}`
+  });
+}
+
+/**
+ * The profile generations should use from a kit: its pinned version if it has
+ * one, else its current profile
+ */
+export async function getBrandKitProfileData(kit: BrandKit): Promise<{ profileData: unknown; version: number }> {
+  if (kit.pinnedVersion === null) {
+    return { profileData: kit.profileData, version: kit.currentVersion };
+  }
+
+  const [pinned] = await db.select()
+    .from(brandProfileVersions)
+    .where(and(eq(brandProfileVersions.brandKitId, kit.id), eq(brandProfileVersions.version, kit.pinnedVersion)))
+    .limit(1);
+
+  if (!pinned) {
+    logger.warn('Pinned brand profile version is missing, using the current profile', { kitId: kit.id, pinnedVersion: kit.pinnedVersion });
+    return { profileData: kit.profileData, version: kit.currentVersion };
+  }
+  return { profileData: pinned.profileData, version: pinned.version };
+}
+
+/**
+ * Store an analyzed profile: into the given kit, else the active kit, else a new kit
+ */
+export async function saveProfileToBrandKit(
+  userId: string,
+  profile: BrandProfile,
+  kitId?: string
+): Promise<BrandKit> {
+  const target = kitId ? await getBrandKit(userId, kitId) : await getActiveBrandKit(userId);
+  if (kitId && !target) {
+    throw new ApiError('Brand kit not found', 404);
+  }
+
+  return target
+    ? updateBrandKit(userId, target.id, { profile, profileSource: 'analysis' })
+    : createBrandKit(userId, profile.industryCategory.slice(0, MAX_BRAND_KIT_NAME_LENGTH) || 'My brand', profile);
+}
@@ -0,0 +1,78 @@
+/**
+ * Brand Profile Diff
+ *
+ * Field-by-field differences between two versions of a brand profile, for
+ * the version history view and for marking which fields a user edited.
+ */
+
+import type { BrandProfile, BrandProfileField, BrandStyle } from './brand-profile-schema';
+
+export type BrandProfileDiffField = BrandProfileField | `style.${keyof BrandStyle}`;
+
+export interface BrandProfileChange {
+  field: BrandProfileDiffField;
+  label: string;
+  // Text fields: the value before and after (empty when unset)
+  before?: string;
+  after?: string;
+  // List fields: the entries added and removed
+  added?: string[];
+  removed?: string[];
+}
+
+export const BRAND_PROFILE_FIELD_LABELS: Record<BrandProfileDiffField, string> = {
+  brandStyle: 'Style',
+  colorPalette: 'Colors',
+  extractedPalette: 'Palette',
+  visualElements: 'Visual elements',
+  moodAndTone: 'Mood and tone',
+  targetAudience: 'Audience',
+  industryCategory: 'Industry',
+  'style.messagingStyle': 'Messaging style',
+  'style.typography': 'Typography',
+  'style.colorScheme': 'Color scheme',
+  'style.productPlacement': 'Product placement',
+  'style.layoutStructure': 'Layout'
+};
+
+const TEXT_FIELDS = ['brandStyle', 'moodAndTone', 'targetAudience', 'industryCategory'] as const;
+
+const STYLE_FIELDS: (keyof BrandStyle)[] = ['messagingStyle', 'typography', 'colorScheme', 'productPlacement', 'layoutStructure'];
+
+function diffText(field: BrandProfileDiffField, before: string = '', after: string = ''): BrandProfileChange | null {
+  return before.trim() === after.trim()
+    ? null
+    : { field, label: BRAND_PROFILE_FIELD_LABELS[field], before, after };
+}
+
+// Entries compare case-insensitively, so re-capitalizing one isn't a change
+function diffList(field: BrandProfileDiffField, before: string[], after: string[]): BrandProfileChange | null {
+  const beforeKeys = new Set(before.map(entry => entry.toLowerCase()));
+  const afterKeys = new Set(after.map(entry => entry.toLowerCase()));
+  const added = after.filter(entry => !beforeKeys.has(entry.toLowerCase()));
+  const removed = before.filter(entry => !afterKeys.has(entry.toLowerCase()));
+
+  return added.length || removed.length
+    ? { field, label: BRAND_PROFILE_FIELD_LABELS[field], added, removed }
+    : null;
+}
+
+/**
+ * What changed from one profile to another, in display order
+ */
+export function diffBrandProfiles(before: BrandProfile, after: BrandProfile): BrandProfileChange[] {
+  const changes = [
+    diffText('brandStyle', before.brandStyle, after.brandStyle),
+    diffList(
+      'extractedPalette',
+      (before.extractedPalette ?? []).map(color => color.hex),
+      (after.extractedPalette ?? []).map(color => color.hex)
+    ),
+    diffList('colorPalette', before.colorPalette, after.colorPalette),
+    diffList('visualElements', before.visualElements, after.visualElements),
+    ...TEXT_FIELDS.slice(1).map(field => diffText(field, before[field], after[field])),
+    ...STYLE_FIELDS.map(field => diffText(`style.${field}`, before.style?.[field], after.style?.[field]))
+  ];
+
+  return changes.filter((change): change is BrandProfileChange => change !== null);
+}
@@ -0,0 +1,390 @@
+/**
+ * Brand Profile Schema
+ *
+ * The one shape of a brand profile, shared by brand analysis, brand kits and
+ * brand templates. Stored JSON and model output go through parseBrandProfile,
+ * which migrates older versions, repairs common model mistakes (snake_case
+ * keys, comma-separated lists, color objects) and rejects profiles that are
+ * still missing what generation needs.
+ *
+ * Versions:
+ *   1  unversioned camelCase profiles, plus snake_case variants from the model;
+ *      templates stored their art direction under `brand_style_profile`
+ *   2  adds `version` and the optional camelCase `style` block
+ *   3  adds `extractedPalette`, exact colors measured from the image's pixels;
+ *      `colorPalette` keeps the model's descriptive colors
+ *   4  adds `sources`, `confidence` and `attributions` for profiles built from
+ *      several images and guideline documents
+ */
+
+import { z } from 'zod';
+
+export const BRAND_PROFILE_VERSION = 4;
+
+// Most colors kept from a palette
+export const MAX_PALETTE_COLORS = 12;
+
+// Most per-input analyses kept on a profile
+export const MAX_BRAND_SOURCES = 24;
+
+// Most inputs analyzed in one request
+export const MAX_BRAND_SOURCES_PER_ANALYSIS = 8;
+
+// Kinds of input a profile can be built from
+export const BRAND_SOURCE_KINDS = ['product', 'logo', 'ad', 'guideline'] as const;
+
+// Profile fields that carry a confidence and attributions
+export const BRAND_PROFILE_FIELDS = [
+  'brandStyle',
+  'colorPalette',
+  'extractedPalette',
+  'visualElements',
+  'moodAndTone',
+  'targetAudience',
+  'industryCategory'
+] as const;
+
+// Art direction a template (or a detailed brand) prescribes
+export const BrandStyleSchema = z.object({
+  messagingStyle: z.string().trim().min(1).optional(),
+  typography: z.string().trim().min(1).optional(),
+  colorScheme: z.string().trim().min(1).optional(),
+  productPlacement: z.string().trim().min(1).optional(),
+  layoutStructure: z.string().trim().min(1).optional()
+});
+
+// A measured color and the percentage of the image it covers
+export const PaletteColorSchema = z.object({
+  hex: z.string().regex(/^#[0-9a-f]{6}$/, 'hex must be a 6-digit lowercase hex color'),
+  coverage: z.number().min(0).max(100)
+});
+
+const ConfidenceSchema = z.number().min(0).max(1).optional();
+
+// How strongly the inputs back each field, from 0 to 1
+export const BrandConfidenceSchema = z.object({
+  brandStyle: ConfidenceSchema,
+  colorPalette: ConfidenceSchema,
+  extractedPalette: ConfidenceSchema,
+  visualElements: ConfidenceSchema,
+  moodAndTone: ConfidenceSchema,
+  targetAudience: ConfidenceSchema,
+  industryCategory: ConfidenceSchema
+});
+
+// Which inputs contributed a value (a color, an element, or a whole text field)
+export const BrandAttributionSchema = z.object({
+  field: z.enum(BRAND_PROFILE_FIELDS),
+  value: z.string(),
+  sourceIds: z.array(z.string().min(1)).min(1)
+});
+
+// What one input (an image or a guideline document) said about the brand;
+// kept so the profile can be rebuilt when more inputs are added
+export const BrandSourceAnalysisSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(BRAND_SOURCE_KINDS),
+  name: z.string().trim().min(1),
+  analyzedAt: z.string(),
+  brandStyle: z.string().trim().min(1).optional(),
+  colorPalette: z.array(z.string().trim().min(1)).max(MAX_PALETTE_COLORS).default([]),
+  extractedPalette: z.array(PaletteColorSchema).max(MAX_PALETTE_COLORS).optional(),
+  visualElements: z.array(z.string().trim().min(1)).default([]),
+  moodAndTone: z.string().trim().min(1).optional(),
+  targetAudience: z.string().trim().min(1).optional(),
+  industryCategory: z.string().trim().min(1).optional()
+});
+
+export const BrandProfileSchema = z.object({
+  version: z.literal(BRAND_PROFILE_VERSION),
+  brandStyle: z.string().trim().min(1, 'brandStyle is required'),
+  colorPalette: z.array(z.string().trim().min(1))
+    .min(1, 'colorPalette needs at least one color')
+    .max(MAX_PALETTE_COLORS),
+  extractedPalette: z.array(PaletteColorSchema).max(MAX_PALETTE_COLORS).optional(),
+  visualElements: z.array(z.string().trim().min(1)).default([]),
+  moodAndTone: z.string().trim().min(1, 'moodAndTone is required'),
+  targetAudience: z.string().trim().default(''),
+  industryCategory: z.string().trim().default(''),
+  timestamp: z.string(),
+  style: BrandStyleSchema.optional(),
+  sources: z.array(BrandSourceAnalysisSchema).max(MAX_BRAND_SOURCES).optional(),
+  confidence: BrandConfidenceSchema.optional(),
+  attributions: z.array(BrandAttributionSchema).optional()
+});
+
+// What a brand template stores: art direction without a specific brand
+export const BrandTemplateProfileSchema = z.object({
+  version: z.literal(BRAND_PROFILE_VERSION),
+  style: BrandStyleSchema
+});
+
+export type BrandStyle = z.infer<typeof BrandStyleSchema>;
+export type PaletteColor = z.infer<typeof PaletteColorSchema>;
+export type BrandSourceKind = typeof BRAND_SOURCE_KINDS[number];
+export type BrandProfileField = typeof BRAND_PROFILE_FIELDS[number];
+export type BrandConfidence = z.infer<typeof BrandConfidenceSchema>;
+export type BrandAttribution = z.infer<typeof BrandAttributionSchema>;
+export type BrandSourceAnalysis = z.infer<typeof BrandSourceAnalysisSchema>;
+export type BrandProfile = z.infer<typeof BrandProfileSchema>;
+export type BrandTemplateProfile = z.infer<typeof BrandTemplateProfileSchema>;
+
+// An input as the client sends it: an image URL, a PDF data URL, or guideline text
+export interface BrandSourceInput {
+  kind: BrandSourceKind;
+  name: string;
+  url?: string;
+  text?: string;
+}
+
+// JSON format brand analysis prompts ask the model for
+export const BRAND_PROFILE_JSON_FORMAT = `{
+  "brandStyle": "string describing overall style and aesthetic",
+  "colorPalette": ["descriptive color names, e.g. deep navy"],
+  "visualElements": ["key visual elements and symbols"],
+  "moodAndTone": "string describing mood and tone",
+  "targetAudience": "string describing target audience",
+  "industryCategory": "string describing industry category"
+}`;
+
+/**
+ * A profile that could not be repaired into the current schema
+ */
+export class BrandProfileError extends Error {
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = 'BrandProfileError';
+  }
+}
+
+// Other keys each field has been stored or returned under
+const PROFILE_FIELD_ALIASES: Record<Exclude<BrandProfileField, 'extractedPalette'>, string[]> = {
+  brandStyle: ['brand_style', 'overall_brand_style_aesthetic', 'overall_style'],
+  colorPalette: ['color_palette', 'colors'],
+  visualElements: ['visual_elements', 'key_visual_elements_symbols', 'key_visual_elements'],
+  moodAndTone: ['mood_and_tone', 'mood_tone', 'mood'],
+  targetAudience: ['target_audience', 'target_audience_indicators'],
+  industryCategory: ['industry_category', 'industry']
+};
+
+const STYLE_FIELD_ALIASES: Record<keyof BrandStyle, string[]> = {
+  messagingStyle: ['messaging_style'],
+  typography: [],
+  colorScheme: ['color_scheme'],
+  productPlacement: ['product_placement'],
+  layoutStructure: ['layout_structure']
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pick(source: Record<string, unknown>, field: string, aliases: string[]): unknown {
+  for (const key of [field, ...aliases]) {
+    if (source[key] !== undefined && source[key] !== null) {
+      return source[key];
+    }
+  }
+  return undefined;
+}
+
+// Flatten a value to prose; nested template objects become "key: value; ..." text
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) {
+    const parts = value.map(toText).filter((part): part is string => Boolean(part));
+    return parts.length ? parts.join(', ') : undefined;
+  }
+  if (isRecord(value)) {
+    const parts = Object.entries(value)
+      .map(([key, entry]) => {
+        const text = toText(entry);
+        return text ? `${key.replace(/_/g, ' ')}: ${text}` : null;
+      })
+      .filter((part): part is string => Boolean(part));
+    return parts.length ? parts.join('; ') : undefined;
+  }
+  return undefined;
+}
+
+// Lists sometimes arrive as one comma-separated string
+function toList(value: unknown, readEntry: (entry: unknown) => string | undefined = toText): string[] {
+  const entries = typeof value === 'string' ? value.split(/[,;\n]/) : Array.isArray(value) ? value : [];
+  const seen = new Set<string>();
+  const list: string[] = [];
+  for (const entry of entries) {
+    const text = readEntry(entry)?.trim();
+    if (text && !seen.has(text.toLowerCase())) {
+      seen.add(text.toLowerCase());
+      list.push(text);
+    }
+  }
+  return list;
+}
+
+// Colors sometimes arrive as objects such as { name: 'Navy', hex: '#001f3f' }
+function toColor(entry: unknown): string | undefined {
+  if (isRecord(entry)) {
+    return toText(entry.hex ?? entry.code ?? entry.color ?? entry.value ?? entry.name);
+  }
+  const color = toText(entry);
+  // Expand shorthand hex so palettes compare consistently
+  return color && /^#?[0-9a-f]{3}$/i.test(color)
+    ? `#${color.replace('#', '').split('').map(digit => digit + digit).join('')}`.toLowerCase()
+    : color;
+}
+
+// Keep the measured colors that are still well formed; they are only ever machine-written
+function migrateExtractedPalette(raw: unknown): PaletteColor[] | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const palette = raw.flatMap(entry => {
+    const result = PaletteColorSchema.safeParse(isRecord(entry) && typeof entry.hex === 'string' ? { ...entry, hex: entry.hex.toLowerCase() } : entry);
+    return result.success ? [result.data] : [];
+  }).slice(0, MAX_PALETTE_COLORS);
+  return palette.length ? palette : undefined;
+}
+
+function migrateBrandSourceAnalysis(raw: unknown): Record<string, unknown> {
+  const source = isRecord(raw) ? raw : {};
+  const aliases = PROFILE_FIELD_ALIASES;
+
+  return {
+    id: source.id,
+    kind: source.kind,
+    name: toText(source.name),
+    analyzedAt: typeof source.analyzedAt === 'string' ? source.analyzedAt : new Date().toISOString(),
+    brandStyle: toText(pick(source, 'brandStyle', aliases.brandStyle)),
+    colorPalette: toList(pick(source, 'colorPalette', aliases.colorPalette), toColor).slice(0, MAX_PALETTE_COLORS),
+    extractedPalette: migrateExtractedPalette(source.extractedPalette),
+    visualElements: toList(pick(source, 'visualElements', aliases.visualElements)),
+    moodAndTone: toText(pick(source, 'moodAndTone', aliases.moodAndTone)),
+    targetAudience: toText(pick(source, 'targetAudience', aliases.targetAudience)),
+    industryCategory: toText(pick(source, 'industryCategory', aliases.industryCategory))
+  };
+}
+
+// Stored input analyses that no longer validate are dropped rather than failing the profile
+function migrateBrandSources(raw: unknown): BrandSourceAnalysis[] | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const sources = raw.flatMap(entry => {
+    const analysis = safeParseBrandSourceAnalysis(entry);
+    return analysis ? [analysis] : [];
+  }).slice(-MAX_BRAND_SOURCES);
+  return sources.length ? sources : undefined;
+}
+
+function migrateAttributions(raw: unknown): BrandAttribution[] | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const attributions = raw.flatMap(entry => {
+    const result = BrandAttributionSchema.safeParse(entry);
+    return result.success ? [result.data] : [];
+  });
+  return attributions.length ? attributions : undefined;
+}
+
+function migrateBrandStyle(raw: unknown): BrandStyle | undefined {
+  if (!isRecord(raw)) {
+    return undefined;
+  }
+
+  const style: BrandStyle = {};
+  for (const [field, aliases] of Object.entries(STYLE_FIELD_ALIASES) as [keyof BrandStyle, string[]][]) {
+    const text = toText(pick(raw, field, aliases));
+    if (text) style[field] = text;
+  }
+  return Object.keys(style).length ? style : undefined;
+}
+
+/**
+ * Bring stored or model-produced profile JSON up to the current version.
+ * The result still needs validating; parseBrandProfile does both.
+ */
+export function migrateBrandProfile(raw: unknown): Record<string, unknown> {
+  const source = isRecord(raw) ? raw : {};
+  const aliases = PROFILE_FIELD_ALIASES;
+
+  return {
+    version: BRAND_PROFILE_VERSION,
+    brandStyle: toText(pick(source, 'brandStyle', aliases.brandStyle)),
+    colorPalette: toList(pick(source, 'colorPalette', aliases.colorPalette), toColor).slice(0, MAX_PALETTE_COLORS),
+    extractedPalette: migrateExtractedPalette(source.extractedPalette),
+    visualElements: toList(pick(source, 'visualElements', aliases.visualElements)),
+    moodAndTone: toText(pick(source, 'moodAndTone', aliases.moodAndTone)),
+    targetAudience: toText(pick(source, 'targetAudience', aliases.targetAudience)),
+    industryCategory: toText(pick(source, 'industryCategory', aliases.industryCategory)),
+    timestamp: typeof source.timestamp === 'string' ? source.timestamp : new Date().toISOString(),
+    style: migrateBrandStyle(source.style ?? source.brand_style_profile),
+    sources: migrateBrandSources(source.sources),
+    confidence: BrandConfidenceSchema.safeParse(source.confidence).data,
+    attributions: migrateAttributions(source.attributions)
+  };
+}
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'profile'}: ${issue.message}`);
+}
+
+/**
+ * Migrate, repair and validate a brand profile.
+ * Throws BrandProfileError when required fields are missing or unusable.
+ */
+export function parseBrandProfile(raw: unknown): BrandProfile {
+  const result = BrandProfileSchema.safeParse(migrateBrandProfile(raw));
+  if (!result.success) {
+    throw new BrandProfileError('Incomplete brand profile', describeIssues(result.error));
+  }
+  return result.data;
+}
+
+export function safeParseBrandProfile(raw: unknown): BrandProfile | null {
+  const result = BrandProfileSchema.safeParse(migrateBrandProfile(raw));
+  return result.success ? result.data : null;
+}
+
+/**
+ * Repair and validate what one input said about the brand (model output plus
+ * the input's id, kind and name). Returns null when it can't be read.
+ */
+export function safeParseBrandSourceAnalysis(raw: unknown): BrandSourceAnalysis | null {
+  const result = BrandSourceAnalysisSchema.safeParse(migrateBrandSourceAnalysis(raw));
+  return result.success ? result.data : null;
+}
+
+/**
+ * The exact hex colors to render a brand with: the measured palette, most
+ * dominant first, or for profiles analyzed before colors were measured, any
+ * hex codes the model put in its palette.
+ */
+export function brandPaletteHexes(profile: BrandProfile): string[] {
+  if (profile.extractedPalette?.length) {
+    return profile.extractedPalette.map(color => color.hex);
+  }
+  return profile.colorPalette.filter(color => /^#[0-9a-f]{6}$/i.test(color));
+}
+
+/**
+ * Migrate and validate a template profile (v1 templates keep their art
+ * direction in snake_case under `brand_style_profile`).
+ * Throws BrandProfileError when no style fields are present.
+ */
+export function parseBrandTemplateProfile(raw: unknown): BrandTemplateProfile {
+  const source = isRecord(raw) ? raw : {};
+  const result = BrandTemplateProfileSchema.safeParse({
+    version: BRAND_PROFILE_VERSION,
+    style: migrateBrandStyle(source.style ?? source.brand_style_profile)
+  });
+  if (!result.success) {
+    throw new BrandProfileError('Invalid brand template profile', describeIssues(result.error));
+  }
+  return result.data;
+}
@@ -1,30 +1,19 @@
 import { createClient } from '@supabase/supabase-js';
 import { env } from '@/lib/env';
+import {
+  BrandProfileError,
+  parseBrandProfile,
+  type BrandProfile,
+  type BrandSourceInput,
+  type BrandSourceKind
+} from './brand-profile-schema';
 
-// Brand profile interface
-export interface BrandProfile {
-  brandStyle: string;
-  colorPalette: string[];
-  visualElements: string[];
-  moodAndTone: string;
-  targetAudience: string;
-  industryCategory: string;
-  timestamp: string;
-}
+// Brand profiles are defined (and validated) by brand-profile-schema
+export type { BrandProfile };
 
 // Don't initialize OpenAI on the client side
 // This will be handled by the API routes
 
-const BRAND_PROFILE_PROMPT = `Analyze this brand image and extract key brand elements in JSON format with these properties:
-{
-  "brandStyle": "string describing overall style and aesthetic",
-  "colorPalette": ["array of hex color codes"],
-  "visualElements": ["array of key visual elements and symbols"],
-  "moodAndTone": "string describing mood and tone",
-  "targetAudience": "string describing target audience",
-  "industryCategory": "string describing industry category"
-}`;
-
 async function blobUrlToBase64(blobUrl: string): Promise<string> {
   try {
     // Check if it's a blob URL
@@ -66,23 +55,49 @@ async function blobUrlToBase64(blobUrl: string): Promise<string> {
 }
 
 /**
- * Extract brand profile from an image using API
+ * Read an uploaded file as a brand analysis input: images and PDFs as data
+ * URLs, text and Markdown guidelines as text
  */
-export async function extractBrandProfile(imageUrl: string): Promise<BrandProfile> {
+export async function fileToBrandSource(file: File, kind: BrandSourceKind): Promise<BrandSourceInput> {
+  if (file.type.startsWith('text/') || /\.(txt|md)$/i.test(file.name)) {
+    return { kind, name: file.name, text: await file.text() };
+  }
+
+  const url = URL.createObjectURL(file);
   try {
-    console.log('Extracting brand profile from:', imageUrl.substring(0, 50) + '...');
+    return { kind, name: file.name, url: await blobUrlToBase64(url) };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Extract a brand profile from one or more inputs (images, logos, ads and
+ * guideline documents) using the API. With a brand kit ID, the inputs are
+ * combined with the ones that kit was built from.
+ * The analysis cost is charged to the given user's token balance.
+ */
+export async function extractBrandProfile(
+  sources: BrandSourceInput[],
+  userId: string,
+  brandKitId?: string
+): Promise<BrandProfile> {
+  try {
+    console.log(`Extracting brand profile from ${sources.length} input(s)`);
     
-    // Safety check for valid image URL
-    if (!imageUrl || (typeof imageUrl === 'string' && imageUrl.trim().length === 0)) {
-      throw new Error('Invalid image URL provided');
+    // Safety check for valid inputs
+    if (sources.length === 0 || sources.some(source => !source.url?.trim() && !source.text?.trim())) {
+      throw new Error('Invalid brand inputs provided');
     }
     
-    // Process image URL to base64 if it's a blob URL
-    let processedImageUrl = imageUrl;
-    if (imageUrl.startsWith('blob:')) {
+    // Process blob URLs to base64 so the server can read them
+    const processedSources = await Promise.all(sources.map(async source => {
+      if (!source.url?.startsWith('blob:')) {
+        return source;
+      }
       console.log('Converting blob URL to base64 for API use');
-      processedImageUrl = await blobUrlToBase64(imageUrl);
-    }
+      return { ...source, url: await blobUrlToBase64(source.url) };
+    }));
     
     // Use the API route instead of direct OpenAI calls
     const response = await fetch('/api/analyze-brand', {
@@ -91,8 +106,9 @@ export async function extractBrandProfile(imageUrl: string): Promise<BrandProfil
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        imageUrl: processedImageUrl,
-        prompt: BRAND_PROFILE_PROMPT
+        sources: processedSources,
+        brandKitId,
+        userId
       }),
     });
     
@@ -103,28 +119,15 @@ export async function extractBrandProfile(imageUrl: string): Promise<BrandProfil
     
     const result = await response.json();
     
-    // Validate the extracted profile has required fields
-    if (!result.brandStyle || !result.colorPalette || !result.moodAndTone) {
-      console.warn('Incomplete brand profile extracted:', result);
+    // The server validates too; this keeps the client type honest
+    let brandProfile: BrandProfile;
+    try {
+      brandProfile = parseBrandProfile(result);
+    } catch (validationError) {
+      console.warn('Incomplete brand profile extracted:', validationError instanceof BrandProfileError ? validationError.issues : result);
       throw new Error('Incomplete brand profile extracted. Please try again with a clearer brand image.');
     }
     
-    // Ensure colorPalette is an array
-    if (!Array.isArray(result.colorPalette)) {
-      result.colorPalette = [result.colorPalette as unknown as string];
-    }
-    
-    // Ensure visualElements is an array
-    if (!Array.isArray(result.visualElements)) {
-      result.visualElements = [result.visualElements as unknown as string];
-    }
-    
-    // Add timestamp
-    const brandProfile = {
-      ...result,
-      timestamp: new Date().toISOString()
-    };
-    
     console.log('Successfully extracted brand profile');
     return brandProfile;
   } catch (error) {
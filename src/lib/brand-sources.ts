@@ -0,0 +1,317 @@
+/**
+ * Brand Sources
+ *
+ * Builds one brand profile from several inputs: product shots, logos, existing
+ * ads and brand guidelines (a PDF or pasted text). Each input is analyzed on
+ * its own and its analysis is kept on the profile, so adding assets later only
+ * analyzes the new ones. The analyses are then combined, trusting guidelines
+ * over logos over ads over product shots, into a profile that records how
+ * confident each field is and which inputs each value came from.
+ */
+
+import { randomUUID } from 'crypto';
+import { getAIProvider } from './ai-providers';
+import {
+  BRAND_PROFILE_JSON_FORMAT,
+  BRAND_SOURCE_KINDS,
+  MAX_BRAND_SOURCES,
+  MAX_BRAND_SOURCES_PER_ANALYSIS,
+  MAX_PALETTE_COLORS,
+  parseBrandProfile,
+  safeParseBrandSourceAnalysis,
+  type BrandAttribution,
+  type BrandConfidence,
+  type BrandProfile,
+  type BrandSourceAnalysis,
+  type BrandSourceInput,
+  type BrandSourceKind,
+  type PaletteColor
+} from './brand-profile-schema';
+import { extractPalette, mergePalettes } from './color-palette';
+import { ApiError } from './api-error';
+import { loadImageBuffer } from './image-processing';
+import logger from './logger';
+
+export const MAX_GUIDELINE_TEXT_LENGTH = 20000;
+
+const MAX_SOURCE_NAME_LENGTH = 120;
+
+const MAX_VISUAL_ELEMENTS = 12;
+
+// How much each kind of input is trusted when inputs disagree
+const SOURCE_WEIGHTS: Record<BrandSourceKind, number> = {
+  guideline: 1,
+  logo: 0.8,
+  ad: 0.7,
+  product: 0.5
+};
+
+const SOURCE_FOCUS: Record<BrandSourceKind, string> = {
+  product: 'This is a product photo. Read the brand from its packaging, styling and setting.',
+  logo: "This is the brand's logo. Read the brand from its mark, lettering and colors.",
+  ad: 'This is an existing ad for the brand. Read the brand from its layout, imagery and copy.',
+  guideline: "These are the brand's guidelines. Report what they specify rather than interpreting them, and give each color with the exact hex code the guidelines list (e.g. primary navy #001f3f)."
+};
+
+const SYSTEM_PROMPT = 'You are a brand identity expert who analyzes visual brand elements and extracts key characteristics. When creating JSON responses, use camelCase for field names (e.g., brandStyle, colorPalette), not snake_case.';
+
+type TextField = 'brandStyle' | 'moodAndTone' | 'targetAudience' | 'industryCategory';
+type ListField = 'colorPalette' | 'visualElements';
+
+function sourcePrompt(kind: BrandSourceKind): string {
+  return `${SOURCE_FOCUS[kind]}
+
+Extract key brand elements: overall style and aesthetic, color palette, key visual elements and symbols, mood and tone, target audience indicators and industry category. Leave out anything this input doesn't show.
+
+Provide the analysis in a structured JSON format with these EXACT field names:
+${BRAND_PROFILE_JSON_FORMAT}`;
+}
+
+function isImageUrl(url: string): boolean {
+  return url.startsWith('data:image/') || url.startsWith('https://') || url.startsWith('http://');
+}
+
+/**
+ * Validate the inputs of an analysis request.
+ * Throws ApiError (400) describing the first invalid input.
+ */
+export function parseBrandSourceInputs(value: unknown): BrandSourceInput[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_BRAND_SOURCES_PER_ANALYSIS) {
+    throw new ApiError(`sources must be a list of 1 to ${MAX_BRAND_SOURCES_PER_ANALYSIS} inputs`, 400);
+  }
+
+  return value.map((entry, index): BrandSourceInput => {
+    const kind = entry?.kind;
+    if (!BRAND_SOURCE_KINDS.includes(kind)) {
+      throw new ApiError(`sources[${index}].kind must be one of ${BRAND_SOURCE_KINDS.join(', ')}`, 400);
+    }
+
+    const name = (typeof entry.name === 'string' && entry.name.trim().slice(0, MAX_SOURCE_NAME_LENGTH)) || `${kind} ${index + 1}`;
+    const url = typeof entry.url === 'string' ? entry.url : undefined;
+    const text = typeof entry.text === 'string' ? entry.text.trim() : undefined;
+
+    if (kind === 'guideline') {
+      if (text) {
+        if (text.length > MAX_GUIDELINE_TEXT_LENGTH) {
+          throw new ApiError(`sources[${index}].text must be at most ${MAX_GUIDELINE_TEXT_LENGTH} characters`, 400);
+        }
+        return { kind, name, text };
+      }
+      if (url?.startsWith('data:application/pdf;base64,')) {
+        return { kind, name, url };
+      }
+      throw new ApiError(`sources[${index}] must be guideline text or a PDF data URL`, 400);
+    }
+
+    if (!url || !isImageUrl(url)) {
+      throw new ApiError(`sources[${index}].url must be an image data URL or an http(s) URL`, 400);
+    }
+    return { kind, name, url };
+  });
+}
+
+// Guidelines say which colors to use but not how much of an ad each covers,
+// so the colors they list share the palette equally
+function guidelinePalette(colors: string[]): PaletteColor[] | undefined {
+  const hexes = new Set<string>();
+  for (const color of colors) {
+    const match = color.match(/#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/i)?.[0].toLowerCase();
+    if (match) {
+      hexes.add(match.length === 4 ? `#${match.slice(1).split('').map(digit => digit + digit).join('')}` : match);
+    }
+  }
+
+  const palette = [...hexes].slice(0, MAX_PALETTE_COLORS);
+  return palette.length
+    ? palette.map(hex => ({ hex, coverage: Math.round(1000 / palette.length) / 10 }))
+    : undefined;
+}
+
+function hasFindings(analysis: BrandSourceAnalysis): boolean {
+  return Boolean(
+    analysis.brandStyle || analysis.moodAndTone || analysis.colorPalette.length ||
+    analysis.visualElements.length || analysis.extractedPalette?.length
+  );
+}
+
+/**
+ * Analyze one input. Images are also measured for their exact palette.
+ * Throws if the input yields nothing usable.
+ */
+export async function analyzeBrandSource(source: BrandSourceInput): Promise<{ analysis: BrandSourceAnalysis; tokenUsage: number }> {
+  const provider = getAIProvider();
+  const userPrompt = sourcePrompt(source.kind);
+  const request = {
+    purpose: source.kind === 'guideline' ? 'brand-guideline' : 'brand-analysis',
+    temperature: 0.5,
+    json: true,
+    maxTokens: 700
+  };
+
+  let response;
+  let extractedPalette: PaletteColor[] | undefined;
+  if (source.kind === 'guideline') {
+    response = source.text
+      ? await provider.completeText({
+        ...request,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: `${userPrompt}\n\nGuidelines:\n${source.text}` }
+        ]
+      })
+      : await provider.analyzeDocument({
+        ...request,
+        systemPrompt: SYSTEM_PROMPT,
+        userPrompt,
+        documentUrl: source.url || '',
+        filename: source.name
+      });
+  } else {
+    const imageUrl = source.url || '';
+    [response, extractedPalette] = await Promise.all([
+      provider.analyzeImage({ ...request, systemPrompt: SYSTEM_PROMPT, userPrompt, imageUrl, detail: 'detailed' }),
+      loadImageBuffer(imageUrl)
+        .then(image => extractPalette(image))
+        .catch(error => {
+          logger.warn('Color palette extraction failed for brand source', { name: source.name, error });
+          return undefined;
+        })
+    ]);
+  }
+
+  let output: unknown;
+  try {
+    output = JSON.parse(response.content || '{}');
+  } catch {
+    throw new Error(`The analysis of ${source.name} was not valid JSON`);
+  }
+
+  const analysis = safeParseBrandSourceAnalysis({
+    ...(typeof output === 'object' ? output : {}),
+    id: randomUUID(),
+    kind: source.kind,
+    name: source.name,
+    analyzedAt: new Date().toISOString(),
+    extractedPalette
+  });
+  if (!analysis || !hasFindings(analysis)) {
+    throw new Error(`No brand details could be read from ${source.name}`);
+  }
+
+  if (source.kind === 'guideline') {
+    analysis.extractedPalette = guidelinePalette(analysis.colorPalette);
+  }
+
+  return { analysis, tokenUsage: response.usage.totalTokens };
+}
+
+/**
+ * The input analyses behind a profile. Profiles analyzed before inputs were
+ * kept count as one product shot.
+ */
+export function profileSources(profile: BrandProfile): BrandSourceAnalysis[] {
+  if (profile.sources?.length) {
+    return profile.sources;
+  }
+
+  return [{
+    id: 'earlier-analysis',
+    kind: 'product',
+    name: 'Earlier analysis',
+    analyzedAt: profile.timestamp,
+    brandStyle: profile.brandStyle,
+    colorPalette: profile.colorPalette,
+    extractedPalette: profile.extractedPalette,
+    visualElements: profile.visualElements,
+    moodAndTone: profile.moodAndTone,
+    targetAudience: profile.targetAudience || undefined,
+    industryCategory: profile.industryCategory || undefined
+  }];
+}
+
+function average(values: number[]): number {
+  return Math.round((values.reduce((total, value) => total + value, 0) / values.length) * 100) / 100;
+}
+
+/**
+ * Combine input analyses into one profile.
+ *
+ * Text fields come from the most trusted input that has one (the newest on a
+ * tie) and are as confident as that input is trusted. List values are ranked
+ * by the weight of the inputs that mention them; their confidence is the
+ * average share of weight behind the values kept. Measured palettes are merged
+ * the same way. Throws BrandProfileError if the inputs together still lack
+ * what generation needs.
+ */
+export function combineBrandSources(sources: BrandSourceAnalysis[]): BrandProfile {
+  const kept = sources.slice(-MAX_BRAND_SOURCES);
+  const weightOf = (source: BrandSourceAnalysis) => SOURCE_WEIGHTS[source.kind];
+  const confidence: BrandConfidence = {};
+  const attributions: BrandAttribution[] = [];
+
+  const textField = (field: TextField): string | undefined => {
+    const chosen = kept
+      .filter(source => source[field])
+      .reduce<BrandSourceAnalysis | undefined>((best, source) => !best || weightOf(source) >= weightOf(best) ? source : best, undefined);
+    const value = chosen?.[field];
+    if (!chosen || !value) {
+      return undefined;
+    }
+
+    confidence[field] = weightOf(chosen);
+    attributions.push({ field, value, sourceIds: [chosen.id] });
+    return value;
+  };
+
+  const listField = (field: ListField, limit: number): string[] => {
+    const contributors = kept.filter(source => source[field].length > 0);
+    const totalWeight = contributors.reduce((total, source) => total + weightOf(source), 0);
+    const values = new Map<string, { value: string; weight: number; sourceIds: string[] }>();
+    for (const source of contributors) {
+      for (const value of source[field]) {
+        const entry = values.get(value.toLowerCase()) ?? { value, weight: 0, sourceIds: [] };
+        if (!entry.sourceIds.includes(source.id)) {
+          entry.weight += weightOf(source);
+          entry.sourceIds.push(source.id);
+        }
+        values.set(value.toLowerCase(), entry);
+      }
+    }
+
+    // Stable sort: equally backed values keep the order they were first seen in
+    const ranked = [...values.values()].sort((a, b) => b.weight - a.weight).slice(0, limit);
+    if (ranked.length) {
+      confidence[field] = average(ranked.map(entry => entry.weight / totalWeight));
+    }
+    ranked.forEach(({ value, sourceIds }) => attributions.push({ field, value, sourceIds }));
+    return ranked.map(entry => entry.value);
+  };
+
+  const paletteSources = kept.filter(source => source.extractedPalette?.length);
+  const palette = mergePalettes(paletteSources.map(source => ({
+    palette: source.extractedPalette ?? [],
+    weight: weightOf(source)
+  })));
+  if (palette.length) {
+    confidence.extractedPalette = average(palette.map(color => color.support));
+  }
+  palette.forEach(color => attributions.push({
+    field: 'extractedPalette',
+    value: color.hex,
+    sourceIds: color.sources.map(index => paletteSources[index].id)
+  }));
+
+  return parseBrandProfile({
+    brandStyle: textField('brandStyle'),
+    colorPalette: listField('colorPalette', MAX_PALETTE_COLORS),
+    extractedPalette: palette.length ? palette.map(({ hex, coverage }) => ({ hex, coverage })) : undefined,
+    visualElements: listField('visualElements', MAX_VISUAL_ELEMENTS),
+    moodAndTone: textField('moodAndTone'),
+    targetAudience: textField('targetAudience'),
+    industryCategory: textField('industryCategory'),
+    timestamp: new Date().toISOString(),
+    sources: kept,
+    confidence,
+    attributions
+  });
+}
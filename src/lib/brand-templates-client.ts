@@ -0,0 +1,82 @@
+import type { BrandTemplateProfile } from './brand-profile-schema';
+import type { BrandTemplateInput, BrandTemplateUpdate, BrandTemplateView } from './brand-templates';
+
+// Response body of the brand template routes, throwing with the server's message on failure
+async function readBrandTemplateResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+function adminHeaders(adminKey: string): HeadersInit {
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${adminKey}`,
+  };
+}
+
+/**
+ * Templates users can pick, defaults first
+ */
+export async function fetchBrandTemplates(): Promise<BrandTemplateView[]> {
+  const response = await fetch('/api/brand-templates');
+  const data = await readBrandTemplateResponse<{ templates: BrandTemplateView[] }>(response, 'Failed to load templates');
+  return data.templates;
+}
+
+/**
+ * Every template, retired ones included
+ */
+export async function fetchAllBrandTemplates(adminKey: string): Promise<BrandTemplateView[]> {
+  const response = await fetch('/api/brand-templates?includeRetired=true', { headers: adminHeaders(adminKey) });
+  const data = await readBrandTemplateResponse<{ templates: BrandTemplateView[] }>(response, 'Failed to load templates');
+  return data.templates;
+}
+
+export async function createBrandTemplate(adminKey: string, input: BrandTemplateInput): Promise<BrandTemplateView> {
+  const response = await fetch('/api/brand-templates', {
+    method: 'POST',
+    headers: adminHeaders(adminKey),
+    body: JSON.stringify(input),
+  });
+  const data = await readBrandTemplateResponse<{ template: BrandTemplateView }>(response, 'Failed to create template');
+  return data.template;
+}
+
+/**
+ * Edit, retire, restore or make a template its industry's default
+ */
+export async function patchBrandTemplate(adminKey: string, templateId: string, update: BrandTemplateUpdate): Promise<BrandTemplateView> {
+  const response = await fetch(`/api/brand-templates/${templateId}`, {
+    method: 'PATCH',
+    headers: adminHeaders(adminKey),
+    body: JSON.stringify(update),
+  });
+  const data = await readBrandTemplateResponse<{ template: BrandTemplateView }>(response, 'Failed to update template');
+  return data.template;
+}
+
+export async function cloneBrandTemplate(adminKey: string, templateId: string, name: string, label?: string): Promise<BrandTemplateView> {
+  const response = await fetch(`/api/brand-templates/${templateId}/clone`, {
+    method: 'POST',
+    headers: adminHeaders(adminKey),
+    body: JSON.stringify({ name, label }),
+  });
+  const data = await readBrandTemplateResponse<{ template: BrandTemplateView }>(response, 'Failed to clone template');
+  return data.template;
+}
+
+/**
+ * Render sample copy with a (possibly unsaved) template profile; returns an image data URL
+ */
+export async function previewBrandTemplate(adminKey: string, profile: BrandTemplateProfile, colorPalette?: string[]): Promise<string> {
+  const response = await fetch('/api/brand-templates/preview', {
+    method: 'POST',
+    headers: adminHeaders(adminKey),
+    body: JSON.stringify({ profile, colorPalette }),
+  });
+  const data = await readBrandTemplateResponse<{ imageUrl: string }>(response, 'Failed to render preview');
+  return data.imageUrl;
+}
@@ -0,0 +1,359 @@
+/**
+ * Brand Templates
+ *
+ * Art direction presets stored in `brand_templates` (messaging, typography,
+ * color scheme, placement and layout, without a specific brand). Admins
+ * create, clone and retire templates and mark one default per industry; a
+ * generation uses the template the user picked, else the default for the
+ * brand's industry, else the default for any industry.
+ *
+ * Generations refer to templates by `name`, so a name never changes once a
+ * template exists; retiring a template hides it instead of deleting it.
+ */
+
+import sharp from 'sharp';
+import { and, asc, desc, eq, isNull, ne } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { brandTemplates, type BrandTemplate } from '@/lib/db/schema';
+import { layoutOverlay, renderOverlay } from './ad-compositor';
+import {
+  BrandProfileError,
+  parseBrandTemplateProfile,
+  type BrandTemplateProfile
+} from './brand-profile-schema';
+import { ApiError } from './api-error';
+import { isUuid } from './generation-jobs';
+import { toDataUrl } from './image-processing';
+import logger from './logger';
+
+export const MAX_TEMPLATE_LABEL_LENGTH = 60;
+
+export const MAX_TEMPLATE_DESCRIPTION_LENGTH = 300;
+
+export const MAX_TEMPLATE_INDUSTRY_LENGTH = 40;
+
+// Names are identifiers clients send as `templateName`, e.g. sportsDrink
+export const TEMPLATE_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9-]{1,49}$/;
+
+// Colors used by previews when no brand palette is given
+const PREVIEW_PALETTE = ['#1f2937', '#f59e0b'];
+
+const PREVIEW_SIZE = 1024;
+
+const PREVIEW_COPY = {
+  headline: 'Your headline goes here',
+  subhead: 'A short line about the product and why it matters',
+  cta: 'Shop now'
+};
+
+// Client-facing view of a template
+export interface BrandTemplateView {
+  id: string;
+  name: string;
+  label: string;
+  description: string;
+  // Null when the template suits any industry
+  industry: string | null;
+  // Null if the stored profile can no longer be read
+  profile: BrandTemplateProfile | null;
+  isDefault: boolean;
+  retiredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BrandTemplateInput {
+  name: string;
+  label: string;
+  description?: string;
+  industry?: string | null;
+  profile: BrandTemplateProfile;
+  isDefault?: boolean;
+}
+
+export interface BrandTemplateUpdate {
+  label?: string;
+  description?: string;
+  industry?: string | null;
+  profile?: BrandTemplateProfile;
+  // true makes this the default for its industry, false stops it being one
+  isDefault?: boolean;
+  // true retires the template (and stops it being a default), false restores it
+  retired?: boolean;
+}
+
+// The template a generation resolved to
+export interface ResolvedBrandTemplate {
+  name: string;
+  profile: BrandTemplateProfile;
+}
+
+function readTemplateProfile(raw: unknown): BrandTemplateProfile | null {
+  try {
+    return parseBrandTemplateProfile(raw);
+  } catch {
+    return null;
+  }
+}
+
+export function toBrandTemplateView(template: BrandTemplate): BrandTemplateView {
+  return {
+    id: template.id,
+    name: template.name,
+    label: template.label || template.name,
+    description: template.description,
+    industry: template.industry,
+    profile: readTemplateProfile(template.profile),
+    isDefault: template.isDefault,
+    retiredAt: template.retiredAt ? template.retiredAt.toISOString() : null,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Validate a template profile from a request body.
+ * Throws ApiError (400) listing the problems when no style fields are set.
+ */
+export function parseTemplateProfileInput(value: unknown): BrandTemplateProfile {
+  try {
+    return parseBrandTemplateProfile(value);
+  } catch (error) {
+    if (error instanceof BrandProfileError) {
+      throw new ApiError('profile.style needs at least one art direction field', 400, { issues: error.issues });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validate a template label from a request body.
+ * Returns the trimmed label, or null if it is empty or too long.
+ */
+export function parseTemplateLabel(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const label = value.trim();
+  return label.length > 0 && label.length <= MAX_TEMPLATE_LABEL_LENGTH ? label : null;
+}
+
+/**
+ * Normalize an industry from a request body: lowercase and trimmed, with an
+ * empty value meaning any industry. Returns undefined if it isn't a string or is too long.
+ */
+export function parseTemplateIndustry(value: unknown): string | null | undefined {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'string' || value.trim().length > MAX_TEMPLATE_INDUSTRY_LENGTH) {
+    return undefined;
+  }
+  return value.trim().toLowerCase() || null;
+}
+
+/**
+ * Templates in the picker's order: defaults first, then by label.
+ * Retired templates are only included when asked for.
+ */
+export async function listBrandTemplates(includeRetired: boolean = false): Promise<BrandTemplate[]> {
+  return db.select()
+    .from(brandTemplates)
+    .where(includeRetired ? undefined : isNull(brandTemplates.retiredAt))
+    .orderBy(desc(brandTemplates.isDefault), asc(brandTemplates.label), asc(brandTemplates.name));
+}
+
+export async function getBrandTemplate(templateId: string): Promise<BrandTemplate | null> {
+  if (!isUuid(templateId)) {
+    return null;
+  }
+
+  const [template] = await db.select()
+    .from(brandTemplates)
+    .where(eq(brandTemplates.id, templateId))
+    .limit(1);
+
+  return template ?? null;
+}
+
+export async function getBrandTemplateByName(name: string): Promise<BrandTemplate | null> {
+  const [template] = await db.select()
+    .from(brandTemplates)
+    .where(eq(brandTemplates.name, name))
+    .limit(1);
+
+  return template ?? null;
+}
+
+function industryCondition(industry: string | null) {
+  return industry === null ? isNull(brandTemplates.industry) : eq(brandTemplates.industry, industry);
+}
+
+/**
+ * Create a template. Throws ApiError (409) if the name is taken.
+ */
+export async function createBrandTemplate(input: BrandTemplateInput): Promise<BrandTemplate> {
+  if (await getBrandTemplateByName(input.name)) {
+    throw new ApiError(`A template named ${input.name} already exists`, 409);
+  }
+
+  const industry = input.industry ?? null;
+  const template = await db.transaction(async (tx) => {
+    if (input.isDefault) {
+      await tx.update(brandTemplates)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(and(industryCondition(industry), eq(brandTemplates.isDefault, true)));
+    }
+
+    const [created] = await tx.insert(brandTemplates)
+      .values({
+        name: input.name,
+        label: input.label,
+        description: input.description ?? '',
+        industry,
+        profile: input.profile,
+        isDefault: Boolean(input.isDefault)
+      })
+      .returning();
+    return created;
+  });
+
+  logger.info('Brand template created', { templateId: template.id, name: template.name, industry, isDefault: template.isDefault });
+  return template;
+}
+
+/**
+ * Edit, retire, restore or change the default status of a template.
+ * Throws ApiError if the template doesn't exist or a retired template is made a default.
+ */
+export async function updateBrandTemplate(templateId: string, update: BrandTemplateUpdate): Promise<BrandTemplate> {
+  const template = await getBrandTemplate(templateId);
+  if (!template) {
+    throw new ApiError('Brand template not found', 404);
+  }
+
+  const retired = update.retired ?? Boolean(template.retiredAt);
+  if (update.isDefault && retired) {
+    throw new ApiError('Retired templates cannot be a default', 409);
+  }
+
+  const industry = update.industry !== undefined ? update.industry : template.industry;
+  const isDefault = !retired && (update.isDefault ?? template.isDefault);
+
+  const updated = await db.transaction(async (tx) => {
+    // One default per industry: moving a default to another industry replaces that industry's default too
+    if (isDefault) {
+      await tx.update(brandTemplates)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(and(industryCondition(industry), eq(brandTemplates.isDefault, true), ne(brandTemplates.id, template.id)));
+    }
+
+    const [row] = await tx.update(brandTemplates)
+      .set({
+        label: update.label ?? template.label,
+        description: update.description ?? template.description,
+        industry,
+        profile: update.profile ?? template.profile,
+        isDefault,
+        retiredAt: retired ? template.retiredAt ?? new Date() : null,
+        updatedAt: new Date()
+      })
+      .where(eq(brandTemplates.id, template.id))
+      .returning();
+    return row;
+  });
+
+  logger.info('Brand template updated', { templateId, fields: Object.keys(update), isDefault, retired });
+  return updated;
+}
+
+/**
+ * Copy a template under a new name. The copy is never a default.
+ * Throws ApiError if the original doesn't exist or the name is taken.
+ */
+export async function cloneBrandTemplate(templateId: string, name: string, label?: string): Promise<BrandTemplate> {
+  const template = await getBrandTemplate(templateId);
+  if (!template) {
+    throw new ApiError('Brand template not found', 404);
+  }
+
+  const profile = readTemplateProfile(template.profile);
+  if (!profile) {
+    throw new ApiError('This template can no longer be read', 422);
+  }
+
+  return createBrandTemplate({
+    name,
+    label: label || `${template.label || template.name} (copy)`.slice(0, MAX_TEMPLATE_LABEL_LENGTH),
+    description: template.description,
+    industry: template.industry,
+    profile
+  });
+}
+
+/**
+ * The template a generation should use: the named one, else the default for
+ * the brand's industry (the most specific industry named in it), else the
+ * default for any industry. Returns null when there is none to use.
+ * Throws ApiError (400) if a named template doesn't exist or is retired.
+ */
+export async function resolveBrandTemplate(name?: string, industryCategory?: string): Promise<ResolvedBrandTemplate | null> {
+  if (name) {
+    const template = await getBrandTemplateByName(name);
+    const profile = template && !template.retiredAt ? readTemplateProfile(template.profile) : null;
+    if (!template || !profile) {
+      throw new ApiError(`Template ${name} is not available`, 400);
+    }
+    return { name: template.name, profile };
+  }
+
+  const category = (industryCategory || '').toLowerCase();
+  const defaults = await db.select()
+    .from(brandTemplates)
+    .where(and(eq(brandTemplates.isDefault, true), isNull(brandTemplates.retiredAt)));
+
+  const candidates = defaults
+    .filter(template => template.industry === null || category.includes(template.industry))
+    .sort((a, b) => (b.industry?.length ?? -1) - (a.industry?.length ?? -1));
+
+  for (const template of candidates) {
+    const profile = readTemplateProfile(template.profile);
+    if (profile) {
+      return { name: template.name, profile };
+    }
+    logger.warn('Default brand template is unreadable, skipping it', { templateId: template.id, name: template.name });
+  }
+  return null;
+}
+
+// A neutral studio backdrop with a placeholder product, so previews show the layout rather than an image
+function previewBackdrop(): Promise<Buffer> {
+  const size = PREVIEW_SIZE;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">
+  <defs>
+    <linearGradient id="backdrop" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="#e5e7eb"/>
+      <stop offset="1" stop-color="#9ca3af"/>
+    </linearGradient>
+  </defs>
+  <rect width="${size}" height="${size}" fill="url(#backdrop)"/>
+  <ellipse cx="${size / 2}" cy="${size * 0.82}" rx="${size * 0.2}" ry="${size * 0.03}" fill="#6b7280" opacity="0.5"/>
+  <rect x="${size * 0.4}" y="${size * 0.42}" width="${size * 0.2}" height="${size * 0.4}" rx="${size * 0.03}" fill="#d1d5db" stroke="#6b7280" stroke-width="4"/>
+</svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * Render sample copy with a template's typography and layout, in the given
+ * brand colors (hex) or neutral ones. Returns a PNG data URL.
+ */
+export async function renderBrandTemplatePreview(profile: BrandTemplateProfile, colorPalette: string[] = []): Promise<string> {
+  const baseImageUrl = toDataUrl(await previewBackdrop());
+  const document = await layoutOverlay(baseImageUrl, PREVIEW_COPY, {
+    typography: profile.style.typography,
+    layoutStructure: profile.style.layoutStructure,
+    colorPalette: colorPalette.length ? colorPalette : PREVIEW_PALETTE
+  });
+  return toDataUrl(await renderOverlay(document));
+}
@@ -0,0 +1,221 @@
+/**
+ * Color Palette Extraction
+ *
+ * Reads a brand's exact colors from the pixels of an uploaded image with
+ * median cut quantization, so the palette passed to generation and overlays
+ * doesn't depend on how a vision model chose to describe the colors. The
+ * same image always yields the same palette.
+ */
+
+import sharp from 'sharp';
+import type { PaletteColor } from './brand-profile-schema';
+
+// Colors kept by default
+export const DEFAULT_PALETTE_SIZE = 6;
+
+// Longest side the image is reduced to before quantizing
+const SAMPLE_SIZE = 96;
+
+// Boxes the color space is cut into before similar colors are merged
+const QUANTIZE_BOXES = 16;
+
+// Colors closer than this (RGB distance) are reported as one color
+const MERGE_DISTANCE = 28;
+
+// Colors covering less of the image than this (percent) are dropped as noise,
+// mostly blends along edges
+const MIN_COVERAGE = 2;
+
+// Pixels more transparent than this are ignored (logos on transparent backgrounds)
+const MIN_ALPHA = 128;
+
+type Rgb = [number, number, number];
+
+// A palette and how much its input counts when palettes are merged
+export interface WeightedPalette {
+  palette: PaletteColor[];
+  weight: number;
+}
+
+export interface MergedPaletteColor extends PaletteColor {
+  // Indexes of the palettes the color appears in
+  sources: number[];
+  // Share of the total weight behind the color, from 0 to 1
+  support: number;
+}
+
+interface ColorBox {
+  pixels: Rgb[];
+  // Channel with the widest spread, and that spread
+  channel: number;
+  range: number;
+}
+
+function toBox(pixels: Rgb[]): ColorBox {
+  let channel = 0;
+  let range = 0;
+  for (let c = 0; c < 3; c++) {
+    let min = 255;
+    let max = 0;
+    for (const pixel of pixels) {
+      if (pixel[c] < min) min = pixel[c];
+      if (pixel[c] > max) max = pixel[c];
+    }
+    if (max - min > range) {
+      channel = c;
+      range = max - min;
+    }
+  }
+  return { pixels, channel, range };
+}
+
+function averageColor(pixels: Rgb[]): Rgb {
+  const sum = [0, 0, 0];
+  for (const pixel of pixels) {
+    sum[0] += pixel[0];
+    sum[1] += pixel[1];
+    sum[2] += pixel[2];
+  }
+  return sum.map(total => Math.round(total / pixels.length)) as Rgb;
+}
+
+function distance(a: Rgb, b: Rgb): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+function toHex(color: Rgb): string {
+  return `#${color.map(value => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function fromHex(hex: string): Rgb {
+  return [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as Rgb;
+}
+
+/**
+ * RGB distance between two 6-digit hex colors, from 0 (identical) to about 441
+ */
+export function colorDistance(a: string, b: string): number {
+  return distance(fromHex(a), fromHex(b));
+}
+
+/**
+ * How colorful a 6-digit hex color is, from 0 (a grey) to 1 (fully saturated)
+ */
+export function colorChroma(hex: string): number {
+  const channels = fromHex(hex);
+  return (Math.max(...channels) - Math.min(...channels)) / 255;
+}
+
+// Split the box with the most spread-weighted pixels at the median of its widest channel
+function medianCut(pixels: Rgb[], boxCount: number): ColorBox[] {
+  const boxes = [toBox(pixels)];
+
+  while (boxes.length < boxCount) {
+    let target = -1;
+    let score = 0;
+    boxes.forEach((box, index) => {
+      const boxScore = box.range * box.pixels.length;
+      if (box.pixels.length > 1 && boxScore > score) {
+        target = index;
+        score = boxScore;
+      }
+    });
+    if (target === -1) break; // every box is a single color
+
+    const { pixels: boxPixels, channel } = boxes[target];
+    const sorted = [...boxPixels].sort((a, b) => a[channel] - b[channel]);
+    const median = Math.floor(sorted.length / 2);
+    boxes.splice(target, 1, toBox(sorted.slice(0, median)), toBox(sorted.slice(median)));
+  }
+
+  return boxes;
+}
+
+/**
+ * The dominant colors of an image as hex codes with the percentage of
+ * (opaque) pixels each covers, most dominant first.
+ */
+export async function extractPalette(image: Buffer, maxColors: number = DEFAULT_PALETTE_SIZE): Promise<PaletteColor[]> {
+  const { data, info } = await sharp(image)
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels: Rgb[] = [];
+  for (let offset = 0; offset < data.length; offset += info.channels) {
+    if (data[offset + 3] >= MIN_ALPHA) {
+      pixels.push([data[offset], data[offset + 1], data[offset + 2]]);
+    }
+  }
+  if (pixels.length === 0) {
+    return [];
+  }
+
+  // Merge near-identical boxes into the larger one so shading doesn't split a color
+  const colors: { color: Rgb; count: number }[] = [];
+  const boxes = medianCut(pixels, QUANTIZE_BOXES)
+    .map(box => ({ color: averageColor(box.pixels), count: box.pixels.length }))
+    .sort((a, b) => b.count - a.count || toHex(a.color).localeCompare(toHex(b.color)));
+  for (const box of boxes) {
+    const similar = colors.find(entry => distance(entry.color, box.color) < MERGE_DISTANCE);
+    if (similar) {
+      similar.count += box.count;
+    } else {
+      colors.push({ ...box });
+    }
+  }
+
+  return colors
+    .map(({ color, count }) => ({
+      hex: toHex(color),
+      coverage: Math.round((count / pixels.length) * 1000) / 10
+    }))
+    .filter(color => color.coverage >= MIN_COVERAGE)
+    .sort((a, b) => b.coverage - a.coverage || a.hex.localeCompare(b.hex))
+    .slice(0, maxColors);
+}
+
+/**
+ * Combine the palettes of several inputs into one. Similar colors merge, the
+ * most heavily weighted input's exact value wins, and coverage becomes the
+ * weighted average across all the palettes.
+ */
+export function mergePalettes(palettes: WeightedPalette[], maxColors: number = DEFAULT_PALETTE_SIZE): MergedPaletteColor[] {
+  const totalWeight = palettes.reduce((total, { weight }) => total + weight, 0);
+  if (totalWeight === 0) {
+    return [];
+  }
+
+  const clusters: { color: Rgb; leadWeight: number; coverage: number; weight: number; sources: number[] }[] = [];
+  palettes.forEach(({ palette, weight }, index) => {
+    for (const entry of palette) {
+      const color = fromHex(entry.hex);
+      const cluster = clusters.find(existing => distance(existing.color, color) < MERGE_DISTANCE);
+      if (!cluster) {
+        clusters.push({ color, leadWeight: weight, coverage: entry.coverage * weight, weight, sources: [index] });
+        continue;
+      }
+
+      cluster.coverage += entry.coverage * weight;
+      if (!cluster.sources.includes(index)) {
+        cluster.sources.push(index);
+        cluster.weight += weight;
+      }
+      if (weight > cluster.leadWeight) {
+        cluster.color = color;
+        cluster.leadWeight = weight;
+      }
+    }
+  });
+
+  return clusters
+    .map(cluster => ({
+      hex: toHex(cluster.color),
+      coverage: Math.min(100, Math.round((cluster.coverage / totalWeight) * 10) / 10),
+      sources: cluster.sources,
+      support: Math.round((cluster.weight / totalWeight) * 100) / 100
+    }))
+    .sort((a, b) => b.coverage - a.coverage || a.hex.localeCompare(b.hex))
+    .slice(0, maxColors);
+}
@@ -1,5 +1,5 @@
-import OpenAI from 'openai';
 import logger from './logger';
+import { getAIProvider, type AIProvider } from './ai-providers';
 
 // Define message structure matching OpenAI's API
 export interface ConversationMessage {
@@ -25,13 +25,11 @@ const DEFAULT_CONFIG: ConversationConfig = {
 export class ConversationManager {
   private messages: ConversationMessage[] = [];
   private config: ConversationConfig;
-  private openai: OpenAI;
+  private provider: AIProvider;
 
-  constructor(apiKey: string, config: Partial<ConversationConfig> = {}) {
-    // Initialize OpenAI client
-    this.openai = new OpenAI({
-      apiKey,
-    });
+  constructor(provider: AIProvider, config: Partial<ConversationConfig> = {}) {
+    // Provider used for summarization
+    this.provider = provider;
 
     // Merge provided config with defaults
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -148,15 +146,15 @@ export class ConversationManager {
         }
       ];
 
-      // Generate summary using OpenAI
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
+      // Generate summary using the configured AI provider
+      const response = await this.provider.completeText({
+        purpose: 'conversation-summary',
         messages: summarizationMessages,
         temperature: 0.3, // Lower temperature for more factual summary
-        max_tokens: 500
+        maxTokens: 500
       });
 
-      const summary = response.choices[0].message.content || "Conversation summary unavailable.";
+      const summary = response.content || "Conversation summary unavailable.";
       
       // Keep only the system message and last 2 exchanges
       const systemMessage = this.messages.find(msg => msg.role === 'system');
@@ -227,13 +225,8 @@ export class ConversationManager {
 }
 
 /**
- * Helper function to create a conversation manager with the default API key
+ * Helper function to create a conversation manager with the configured AI provider
  */
 export function createConversationManager(config?: Partial<ConversationConfig>): ConversationManager {
-  if (!process.env.OPENAI_API_KEY) {
-    logger.error('OPENAI_API_KEY environment variable is not set');
-    throw new Error('OpenAI API key is required to manage conversations');
-  }
-  
-  return new ConversationManager(process.env.OPENAI_API_KEY, config);
+  return new ConversationManager(getAIProvider(), config);
 } 
\ No newline at end of file
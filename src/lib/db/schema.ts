@@ -1,5 +1,11 @@
-import { pgTable, text, timestamp, integer, jsonb, uuid, boolean } from 'drizzle-orm/pg-core';
-import type { PgTableFn } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, integer, jsonb, uuid, boolean, unique, doublePrecision, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import type { AnyPgColumn, PgTableFn } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import type { AdOverlayInput } from '../ad-compositor';
+import type { AdCopy } from '../ad-copy';
+import type { AdVariant } from '../ai-processing';
+import type { PlatformPlacement } from '../platform-sizes';
+import type { TransactionHistoryEntry } from '../stripe/transactions';
 
 export const users = pgTable('users', {
   id: text('id').primaryKey(),
@@ -8,6 +14,7 @@ export const users = pgTable('users', {
   tokens: integer('tokens').default(0),
   tier: text('tier').default('Pioneer'),
   stripeCustomerId: text('stripe_customer_id'),
+  generationsFrozenAt: timestamp('generations_frozen_at'), // Set while a payment dispute is open
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
 });
@@ -30,40 +37,298 @@ export const transactions = pgTable('transactions', {
     previousPurchase?: boolean;
     error?: string;
     action?: string;
+    chargeId?: string;
+    refundedAmount?: number; // Cents refunded or lost to a dispute so far
+    tokensClawedBack?: number;
+    disputeId?: string;
+    disputeStatus?: string;
+    subscriptionId?: string;
+    tokens?: number; // Tokens the payment bought, when not a package's
   }>(),
+  history: jsonb('history').$type<TransactionHistoryEntry[]>().notNull().default([]), // Every status change, oldest first
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
+}, (table) => [
+  // Refunds and disputes arrive keyed by the payment intent
+  index('transactions_payment_intent_idx').on(sql`(${table.metadata}->>'paymentIntentId')`)
+]);
+
+// Append-only record of every token movement; users.tokens is the running balance
+export const tokenLedger = pgTable('token_ledger', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  amount: integer('amount').notNull(), // Positive for credits, negative for debits
+  balanceAfter: integer('balance_after').notNull(),
+  reason: text('reason').notNull(),
+  referenceId: text('reference_id'),
+  metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => [
+  // A payment is credited at most once, however often its webhook is delivered
+  uniqueIndex('token_ledger_purchase_reference_unique').on(table.referenceId).where(sql`${table.reason} = 'purchase'`)
+]);
+
+// Stripe webhook events as received; `status` records whether each has been applied
+export const stripeEvents = pgTable('stripe_events', {
+  id: text('id').primaryKey(), // Stripe event ID (evt_...)
+  type: text('type').notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(), // The verified event body
+  status: text('status').notNull().default('received'), // received | processed | ignored | failed
+  attempts: integer('attempts').notNull().default(0),
+  lastError: text('last_error'),
+  receivedAt: timestamp('received_at').notNull().defaultNow(),
+  processedAt: timestamp('processed_at'),
+  replayedAt: timestamp('replayed_at') // Last time support re-processed the event
+});
+
+// Subscriptions to the monthly plans, kept in sync with Stripe by the webhook
+export const subscriptions = pgTable('subscriptions', {
+  id: text('id').primaryKey(), // Stripe subscription ID (sub_...)
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  customerId: text('customer_id').notNull(),
+  planId: text('plan_id').notNull(),
+  status: text('status').notNull(), // Stripe's status: active, past_due, canceled, ...
+  currentPeriodStart: timestamp('current_period_start').notNull(),
+  currentPeriodEnd: timestamp('current_period_end').notNull(),
+  cancelAtPeriodEnd: boolean('cancel_at_period_end').notNull().default(false),
+  scheduledPlanId: text('scheduled_plan_id'), // Plan a scheduled downgrade switches to at the end of the period
+  allowancePlanId: text('allowance_plan_id'), // Plan whose allowance the current period was granted
+  allowanceBucketId: uuid('allowance_bucket_id').references(() => tokenBuckets.id, { onDelete: 'set null' }),
+  canceledAt: timestamp('canceled_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+}, (table) => [
+  index('subscriptions_user_idx').on(table.userId)
+]);
+
+// Messages for a user about their account (refunds, disputes, expired checkouts)
+export const notifications = pgTable('notifications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  kind: text('kind').notNull(),
+  title: text('title').notNull(),
+  message: text('message').notNull(),
+  referenceId: text('reference_id'), // The transaction it is about
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => [
+  index('notifications_user_created_idx').on(table.userId, table.createdAt)
+]);
+
+// Tokens held for an in-flight request until it is committed or released
+export const tokenReservations = pgTable('token_reservations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  requestId: text('request_id').notNull(),
+  amount: integer('amount').notNull(),
+  committedAmount: integer('committed_amount').notNull().default(0),
+  status: text('status').notNull().default('reserved'), // reserved | committed | released
+  outcome: jsonb('outcome').$type<{
+    completedStages?: string[];
+    stageCosts?: Record<string, number>;
+    attempts?: number;
+    error?: string;
+  }>(),
+  // Purchased buckets the hold was taken from, so a release can put tokens back
+  bucketDraws: jsonb('bucket_draws').$type<Array<{ bucketId: string; amount: number }>>(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  settledAt: timestamp('settled_at')
+});
+
+// Purchased tokens, one bucket per purchase. Spending takes from the bucket
+// expiring soonest; what is left when a bucket expires is swept off the balance.
+export const tokenBuckets = pgTable('token_buckets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  referenceId: text('reference_id').notNull(), // The purchase (transaction ID)
+  amount: integer('amount').notNull(),
+  remaining: integer('remaining').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  expiredAt: timestamp('expired_at'), // When the sweep removed what was left
+  expiredAmount: integer('expired_amount').notNull().default(0),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => [
+  index('token_buckets_user_expires_idx').on(table.userId, table.expiresAt)
+]);
+
+// Background ad generations; `stages` grows as processRequest reports progress
+export const generationJobs = pgTable('generation_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  status: text('status').notNull().default('queued'), // queued | running | completed | failed
+  stages: jsonb('stages').$type<{ stage: string; at: string }[]>().notNull().default([]),
+  input: jsonb('input').$type<{
+    imageUrl: string;
+    prompt: string;
+    templateName?: string;
+    isHDQuality?: boolean;
+    resetConversation?: boolean;
+    referenceAdUrls?: string[];
+    variantCount?: number;
+    placement?: PlatformPlacement;
+    brandKitId?: string;
+    overlay?: AdOverlayInput;
+    parentGenerationId?: string;
+  }>().notNull(),
+  result: jsonb('result').$type<Record<string, unknown>>(),
+  error: text('error'),
+  errorDetails: jsonb('error_details').$type<Record<string, unknown>>(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  completedAt: timestamp('completed_at')
 });
 
+// Revisions of generated ads; each edit links to the generation or edit it was made from
+export const imageEdits = pgTable('image_edits', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  generationJobId: uuid('generation_job_id').references(() => generationJobs.id, { onDelete: 'set null' }),
+  parentEditId: uuid('parent_edit_id').references((): AnyPgColumn => imageEdits.id, { onDelete: 'set null' }),
+  sourceImageUrl: text('source_image_url').notNull(),
+  instruction: text('instruction').notNull(),
+  masked: boolean('masked').notNull().default(false),
+  imageUrl: text('image_url').notNull(),
+  tokensUsed: integer('tokens_used').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+});
+
+// Named brand kits; a user can keep several and marks at most one as active
 export const brandProfiles = pgTable('brand_profiles', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull().default('My brand'),
   profileData: jsonb('profile_data').notNull(),
+  isActive: boolean('is_active').notNull().default(false),
+  archivedAt: timestamp('archived_at'),
+  currentVersion: integer('current_version').notNull().default(1), // Version profile_data holds
+  pinnedVersion: integer('pinned_version'), // Version generations use instead of the latest, if set
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+// Every profile a brand kit has had, numbered from 1; rollbacks add a version rather than deleting any
+export const brandProfileVersions = pgTable('brand_profile_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  brandKitId: uuid('brand_kit_id').notNull().references(() => brandProfiles.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  profileData: jsonb('profile_data').notNull(),
+  source: text('source').notNull(), // analysis | edit | rollback
+  note: text('note'),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => [
+  unique('brand_profile_versions_kit_version_unique').on(table.brandKitId, table.version)
+]);
+
+// Product image analyses keyed by a SHA-256 of the image bytes, reused across generations
+export const productAnalyses = pgTable('product_analyses', {
+  imageHash: text('image_hash').primaryKey(),
+  analysis: jsonb('analysis').$type<Record<string, unknown>>().notNull(),
+  tokenUsage: integer('token_usage').notNull(), // Tokens the original analysis cost
+  hitCount: integer('hit_count').notNull().default(0),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastUsedAt: timestamp('last_used_at').notNull().defaultNow()
+});
+
 export const brandTemplates = pgTable('brand_templates', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: text('name').notNull().unique(),
+  label: text('label').notNull().default(''),
+  description: text('description').notNull().default(''),
+  industry: text('industry'), // Lowercase industry the template suits; null for any industry
   profile: jsonb('profile').notNull(),
-  isDefault: boolean('is_default').notNull().default(false),
+  isDefault: boolean('is_default').notNull().default(false), // Default for its industry
+  retiredAt: timestamp('retired_at'), // Retired templates can no longer be picked
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow()
 });
 
+// Completed generations, kept for the asset library; regenerating from a
+// past ad links the new generation to it
+export const generations = pgTable('generations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  requestId: text('request_id').notNull().unique(), // Request (or job) ID the generation's tokens were reserved under
+  generationJobId: uuid('generation_job_id').references(() => generationJobs.id, { onDelete: 'set null' }),
+  parentGenerationId: uuid('parent_generation_id').references((): AnyPgColumn => generations.id, { onDelete: 'set null' }),
+  prompt: text('prompt').notNull(),
+  dallePrompt: text('dalle_prompt').notNull(),
+  sourceImageUrl: text('source_image_url').notNull(), // Product image the ad was made from
+  brandKitId: uuid('brand_kit_id').references(() => brandProfiles.id, { onDelete: 'set null' }),
+  brandKitVersion: integer('brand_kit_version'),
+  templateName: text('template_name'),
+  platform: text('platform'), // PLATFORM_SIZES placement, null for the default square
+  placement: text('placement'),
+  imageUrls: jsonb('image_urls').$type<string[]>().notNull(),
+  variants: jsonb('variants').$type<AdVariant[]>().notNull(), // Includes each ad's overlay and compliance report
+  copy: jsonb('copy').$type<AdCopy[]>().notNull().default([]),
+  quality: text('quality').notNull(), // standard | hd
+  tokensUsed: integer('tokens_used').notNull(),
+  costUsd: doublePrecision('cost_usd').notNull(), // Provider cost estimate
+  favoritedAt: timestamp('favorited_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => [
+  index('generations_user_created_idx').on(table.userId, table.createdAt)
+]);
+
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
 
+export type TokenLedgerEntry = typeof tokenLedger.$inferSelect;
+export type NewTokenLedgerEntry = typeof tokenLedger.$inferInsert;
+
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type NewStripeEvent = typeof stripeEvents.$inferInsert;
+
+export type Subscription = typeof subscriptions.$inferSelect;
+export type NewSubscription = typeof subscriptions.$inferInsert;
+
+export type UserNotification = typeof notifications.$inferSelect;
+export type NewUserNotification = typeof notifications.$inferInsert;
+
+export type TokenReservation = typeof tokenReservations.$inferSelect;
+export type NewTokenReservation = typeof tokenReservations.$inferInsert;
+
+export type TokenBucket = typeof tokenBuckets.$inferSelect;
+export type NewTokenBucket = typeof tokenBuckets.$inferInsert;
+
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type NewGenerationJob = typeof generationJobs.$inferInsert;
+
+export type ImageEdit = typeof imageEdits.$inferSelect;
+export type NewImageEdit = typeof imageEdits.$inferInsert;
+
+export type BrandKit = typeof brandProfiles.$inferSelect;
+export type NewBrandKit = typeof brandProfiles.$inferInsert;
+
+export type BrandProfileVersion = typeof brandProfileVersions.$inferSelect;
+export type NewBrandProfileVersion = typeof brandProfileVersions.$inferInsert;
+
+export type ProductAnalysis = typeof productAnalyses.$inferSelect;
+export type NewProductAnalysis = typeof productAnalyses.$inferInsert;
+
 export type BrandTemplate = typeof brandTemplates.$inferSelect;
 export type NewBrandTemplate = typeof brandTemplates.$inferInsert;
 
+export type Generation = typeof generations.$inferSelect;
+export type NewGeneration = typeof generations.$inferInsert;
+
 export type Schema = {
   users: typeof users;
   transactions: typeof transactions;
+  tokenLedger: typeof tokenLedger;
+  tokenReservations: typeof tokenReservations;
+  tokenBuckets: typeof tokenBuckets;
+  generationJobs: typeof generationJobs;
+  imageEdits: typeof imageEdits;
   brandProfiles: typeof brandProfiles;
+  brandProfileVersions: typeof brandProfileVersions;
+  productAnalyses: typeof productAnalyses;
   brandTemplates: typeof brandTemplates;
+  generations: typeof generations;
+  stripeEvents: typeof stripeEvents;
+  notifications: typeof notifications;
+  subscriptions: typeof subscriptions;
 }; 
\ No newline at end of file
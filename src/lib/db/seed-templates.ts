@@ -1,45 +1,58 @@
 import { db } from './index';
 import { brandTemplates } from './schema';
+import { BRAND_PROFILE_VERSION, BrandTemplateProfileSchema } from '../brand-profile-schema';
 
 const initialTemplates = [
   {
     name: 'sportsDrink',
+    label: 'Sports Drink',
+    description: 'High-energy action shots with bold type, for performance and fitness products',
+    industry: null,
     profile: {
-      brand_style_profile: {
-        messaging_style: "energetic, motivational, performance-focused",
+      version: BRAND_PROFILE_VERSION,
+      style: {
+        messagingStyle: "energetic, motivational, performance-focused",
         typography: "bold, sans-serif, dynamic",
-        color_scheme: "vibrant blues, energetic reds, and clean whites",
-        product_placement: "action shots, prominently featured",
-        layout_structure: "dynamic, asymmetrical with strong movement"
+        colorScheme: "vibrant blues, energetic reds, and clean whites",
+        productPlacement: "action shots, prominently featured",
+        layoutStructure: "dynamic, asymmetrical with strong movement"
       }
     },
     isDefault: true
   },
   {
     name: 'luxuryFashion',
+    label: 'Luxury Fashion',
+    description: 'Minimal, elegant compositions with serif type and generous whitespace',
+    industry: 'fashion',
     profile: {
-      brand_style_profile: {
-        messaging_style: "sophisticated, exclusive, aspirational",
+      version: BRAND_PROFILE_VERSION,
+      style: {
+        messagingStyle: "sophisticated, exclusive, aspirational",
         typography: "elegant, serif, refined",
-        color_scheme: "monochromatic, gold accents, muted tones",
-        product_placement: "minimalistic, artistic, center-stage",
-        layout_structure: "balanced, generous whitespace, geometric"
+        colorScheme: "monochromatic, gold accents, muted tones",
+        productPlacement: "minimalistic, artistic, center-stage",
+        layoutStructure: "balanced, generous whitespace, geometric"
       }
     },
-    isDefault: false
+    isDefault: true
   },
   {
     name: 'organicFood',
+    label: 'Organic Food',
+    description: 'Warm, natural lifestyle scenes that put ingredients first',
+    industry: 'food',
     profile: {
-      brand_style_profile: {
-        messaging_style: "authentic, wholesome, sustainable",
+      version: BRAND_PROFILE_VERSION,
+      style: {
+        messagingStyle: "authentic, wholesome, sustainable",
         typography: "friendly, natural, approachable",
-        color_scheme: "earthy greens, warm browns, natural palette",
-        product_placement: "ingredient-focused, context-rich, lifestyle",
-        layout_structure: "clean, organized, with natural elements"
+        colorScheme: "earthy greens, warm browns, natural palette",
+        productPlacement: "ingredient-focused, context-rich, lifestyle",
+        layoutStructure: "clean, organized, with natural elements"
       }
     },
-    isDefault: false
+    isDefault: true
   }
 ];
 
@@ -47,18 +60,15 @@ export async function seedBrandTemplates() {
   try {
     console.log('Starting to seed brand templates...');
 
-    // Insert templates one by one, handling conflicts
+    // Insert templates one by one; templates that already exist are left as
+    // admins have edited them
     for (const template of initialTemplates) {
+      // Fail before writing anything the generation pipeline couldn't read
+      BrandTemplateProfileSchema.parse(template.profile);
+
       await db.insert(brandTemplates)
         .values(template)
-        .onConflictDoUpdate({
-          target: brandTemplates.name,
-          set: {
-            profile: template.profile,
-            isDefault: template.isDefault,
-            updatedAt: new Date()
-          }
-        });
+        .onConflictDoNothing({ target: brandTemplates.name });
     }
 
     console.log('Successfully seeded brand templates');
@@ -41,9 +41,14 @@ const serverEnvSchema = z.object({
   // Stripe
   STRIPE_SECRET_KEY: z.string().optional(),
   STRIPE_WEBHOOK_SECRET: z.string().optional(),
+  // Send Stripe API calls elsewhere, e.g. a local stripe-mock in tests
+  STRIPE_API_BASE_URL: z.string().url().optional(),
   
-  // OpenAI (server-side only)
-  OPENAI_API_KEY: z.string().min(1),
+  // AI provider ('local' runs the pipeline offline with deterministic fakes)
+  AI_PROVIDER: z.enum(['openai', 'local']).default('openai'),
+  
+  // OpenAI (server-side only, required when AI_PROVIDER is 'openai')
+  OPENAI_API_KEY: z.string().optional(),
   
   // Vercel Blob Storage
   BLOB_READ_WRITE_TOKEN: z.string().optional(),
@@ -51,7 +56,16 @@ const serverEnvSchema = z.object({
   // Google Auth
   GOOGLE_CLIENT_ID: z.string().optional(),
   GOOGLE_CLIENT_SECRET: z.string().optional(),
-});
+  
+  // Admin API (template management); admin routes are disabled when unset
+  ADMIN_API_KEY: z.string().min(24, 'Admin API key must be at least 24 characters long').optional(),
+  
+  // Scheduled jobs (token expiry sweep); sent by Vercel Cron, jobs are refused when unset
+  CRON_SECRET: z.string().min(16, 'Cron secret must be at least 16 characters long').optional(),
+}).refine(
+  (vars) => vars.AI_PROVIDER !== 'openai' || !!vars.OPENAI_API_KEY,
+  { message: 'OPENAI_API_KEY is required when AI_PROVIDER is openai', path: ['OPENAI_API_KEY'] }
+);
 
 // Parse environment variables based on runtime context
 const parseEnv = () => {
@@ -69,10 +83,14 @@ const parseEnv = () => {
       NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY,
       STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
       STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
+      STRIPE_API_BASE_URL: process.env.STRIPE_API_BASE_URL,
+      AI_PROVIDER: process.env.AI_PROVIDER,
       OPENAI_API_KEY: process.env.OPENAI_API_KEY,
       BLOB_READ_WRITE_TOKEN: process.env.BLOB_READ_WRITE_TOKEN,
       GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
       GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
+      ADMIN_API_KEY: process.env.ADMIN_API_KEY,
+      CRON_SECRET: process.env.CRON_SECRET,
     });
     debugEnv('server', parsed);
     return parsed;
@@ -128,6 +146,25 @@ export const STRIPE_PRICE_IDS = {
   max: process.env.STRIPE_MAX_PRICE_ID || 'price_1R8eFgBfSVCq5UYnbCgskl2Y'
 } as const;
 
+// Stripe recurring Price IDs for the subscription plans (a plan without one can't be subscribed to)
+export const STRIPE_PLAN_PRICE_IDS = {
+  pioneer: process.env.STRIPE_PIONEER_PLAN_PRICE_ID || '',
+  voyager: process.env.STRIPE_VOYAGER_PLAN_PRICE_ID || '',
+  dominator: process.env.STRIPE_DOMINATOR_PLAN_PRICE_ID || '',
+  overlord: process.env.STRIPE_OVERLORD_PLAN_PRICE_ID || ''
+} as const;
+
+// AI provider used by the generation pipeline
+export const AI_PROVIDER: 'openai' | 'local' = process.env.AI_PROVIDER === 'local' ? 'local' : 'openai';
+
+// OpenAI model names, overridable per environment
+export const OPENAI_MODELS = {
+  vision: process.env.OPENAI_VISION_MODEL || 'gpt-4o-mini',
+  visionDetailed: process.env.OPENAI_VISION_DETAILED_MODEL || 'gpt-4o',
+  text: process.env.OPENAI_TEXT_MODEL || 'gpt-3.5-turbo',
+  image: process.env.OPENAI_IMAGE_MODEL || 'dall-e-3'
+} as const;
+
 // Export environment-specific values
 export const DATABASE_URL = typeof window === 'undefined' 
   ? process.env.DATABASE_URL || process.env.SUPABASE_URL?.replace('https://', 'postgresql://postgres:postgres@')?.replace('.supabase.co', '.supabase.co:5432/postgres')
@@ -164,6 +201,9 @@ export default {
   DATABASE_URL,
   STRIPE_PUBLISHABLE_KEY,
   STRIPE_PRICE_IDS,
+  STRIPE_PLAN_PRICE_IDS,
+  AI_PROVIDER,
+  OPENAI_MODELS,
   IS_PRODUCTION,
   IS_DEVELOPMENT,
   getUrl,
@@ -0,0 +1,129 @@
+/**
+ * Export Pack
+ *
+ * Renders a finished ad at every placement in PLATFORM_SIZES and bundles the
+ * files into a ZIP with a manifest describing each one and the generation or
+ * edit the master image came from.
+ */
+
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { generationJobs } from '@/lib/db/schema';
+import { ApiError } from './api-error';
+import type { GenerationOutput } from './generation';
+import { isUuid } from './generation-jobs';
+import { getImageEdit } from './image-edits';
+import { fitImageToSize, loadImageBuffer } from './image-processing';
+import { PLATFORM_SIZES, type PlatformSize, type SocialPlatform } from './platform-sizes';
+import logger from './logger';
+
+export interface ExportPackInput {
+  userId: string;
+  // The master image to resize
+  imageUrl: string;
+  // Where the master came from; when given, imageUrl must be one of its outputs
+  generationJobId?: string;
+  editId?: string;
+}
+
+export interface ExportPackFile {
+  file: string;
+  platform: SocialPlatform;
+  placement: string;
+  type: PlatformSize['type'];
+  width: number;
+  height: number;
+  fit: 'crop' | 'pad';
+}
+
+export interface ExportPackManifest {
+  createdAt: string;
+  source: {
+    generationJobId: string | null;
+    editId: string | null;
+    // Position of the master among the generation's variants, when it is one
+    variantIndex: number | null;
+  };
+  master: { width: number; height: number };
+  files: ExportPackFile[];
+}
+
+export interface ExportPack {
+  zip: Buffer;
+  manifest: ExportPackManifest;
+}
+
+// Check the master image against the generation or edit it claims to come from
+async function resolveSource(input: ExportPackInput): Promise<ExportPackManifest['source']> {
+  if (input.editId) {
+    const edit = await getImageEdit(input.editId);
+    if (!edit || edit.userId !== input.userId || edit.imageUrl !== input.imageUrl) {
+      throw new ApiError('Edit not found', 404);
+    }
+    return { generationJobId: edit.generationJobId, editId: edit.id, variantIndex: null };
+  }
+
+  if (input.generationJobId) {
+    const [job] = isUuid(input.generationJobId)
+      ? await db.select()
+        .from(generationJobs)
+        .where(eq(generationJobs.id, input.generationJobId))
+        .limit(1)
+      : [];
+    const result = job?.result as unknown as GenerationOutput | null | undefined;
+    const variant = result?.variants?.find(variant => variant.imageUrl === input.imageUrl);
+    if (!job || job.userId !== input.userId || !result || (!variant && result.adImageUrl !== input.imageUrl)) {
+      throw new ApiError('Generation not found', 404);
+    }
+    return { generationJobId: job.id, editId: null, variantIndex: variant?.index ?? null };
+  }
+
+  return { generationJobId: null, editId: null, variantIndex: null };
+}
+
+/**
+ * Build the export pack for an ad.
+ * Throws ApiError if the claimed source is not the user's.
+ */
+export async function buildExportPack(input: ExportPackInput): Promise<ExportPack> {
+  const source = await resolveSource(input);
+  const master = await loadImageBuffer(input.imageUrl);
+  const { width = 0, height = 0 } = await sharp(master).metadata();
+
+  const zip = new JSZip();
+  const files: ExportPackFile[] = [];
+
+  // Placements are rendered one at a time to keep memory use flat
+  for (const [platform, placements] of Object.entries(PLATFORM_SIZES) as [SocialPlatform, Record<string, PlatformSize>][]) {
+    for (const [placement, size] of Object.entries(placements)) {
+      const { buffer, mode } = await fitImageToSize(master, size.width, size.height);
+      const file = `${platform}/${placement}-${size.width}x${size.height}.png`;
+      zip.file(file, buffer);
+      files.push({
+        file,
+        platform,
+        placement,
+        type: size.type,
+        width: size.width,
+        height: size.height,
+        fit: mode
+      });
+    }
+  }
+
+  const manifest: ExportPackManifest = {
+    createdAt: new Date().toISOString(),
+    source,
+    master: { width, height },
+    files
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  logger.info('Export pack built', { userId: input.userId, ...source, fileCount: files.length });
+  return {
+    zip: await zip.generateAsync({ type: 'nodebuffer' }),
+    manifest
+  };
+}
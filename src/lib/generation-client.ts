@@ -0,0 +1,129 @@
+import type { AdOverlayInput } from './ad-compositor';
+import type { GenerationJobView } from './generation-jobs';
+
+// Chat status message and progress percentage shown after each pipeline stage
+export const GENERATION_STAGE_PROGRESS: Record<string, { message: string; progress: number }> = {
+  queued: { message: 'Queued...', progress: 5 },
+  brand_analyzed: { message: 'Brand analyzed, looking at your product...', progress: 30 },
+  product_analyzed: { message: 'Product analyzed, writing the image prompt...', progress: 45 },
+  prompt_ready: { message: 'Prompt ready, rendering your ad...', progress: 60 },
+  image_stored: { message: 'Image stored, finishing up...', progress: 95 }
+};
+
+/**
+ * Error from the generation API, carrying the HTTP status and response body
+ * (which includes `tokensLeft` when the server knows the balance)
+ */
+export class GenerationRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly data: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'GenerationRequestError';
+  }
+}
+
+/**
+ * Submit a background generation job and return its ID
+ */
+export async function submitGenerationJob(body: {
+  imageUrl: string;
+  prompt: string;
+  userId: string;
+  templateName?: string;
+  isHDQuality?: boolean;
+  resetConversation?: boolean;
+  referenceAdUrls?: string[];
+  variantCount?: number;
+  // Key into PLATFORM_SIZES, e.g. 'instagram' + 'story'
+  platform?: string;
+  placement?: string;
+  overlay?: AdOverlayInput;
+  // Use this kit's stored profile instead of analyzing the image
+  brandKitId?: string;
+  // Past generation this one iterates on
+  parentGenerationId?: string;
+}): Promise<string> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({ error: 'Failed to submit generation' }));
+  if (!response.ok) {
+    throw new GenerationRequestError(data.error || 'Failed to submit generation', response.status, data);
+  }
+
+  return data.job.id;
+}
+
+function jobFailure(job: GenerationJobView): GenerationRequestError {
+  const details = job.errorDetails || {};
+  const status = typeof details.status === 'number' ? details.status : 500;
+  return new GenerationRequestError(job.error || 'Failed to generate content', status, details);
+}
+
+/**
+ * Follow one of the user's jobs over Server-Sent Events until it finishes.
+ * Resolves with the completed job, rejects with GenerationRequestError if it fails.
+ */
+export function watchGenerationJob(
+  userId: string,
+  jobId: string,
+  onStage: (stage: string) => void
+): Promise<GenerationJobView> {
+  const query = `userId=${encodeURIComponent(userId)}`;
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/jobs/${jobId}/events?${query}`);
+    // Stages are replayed when the stream reconnects, so report each only once
+    const seenStages = new Set<string>();
+
+    const finish = (job: GenerationJobView) => {
+      events.close();
+      if (job.status === 'completed') {
+        resolve(job);
+      } else {
+        reject(jobFailure(job));
+      }
+    };
+
+    events.addEventListener('status', (event) => {
+      const { status } = JSON.parse((event as MessageEvent).data);
+      if (status === 'queued') onStage('queued');
+    });
+
+    events.addEventListener('stage', (event) => {
+      const { stage } = JSON.parse((event as MessageEvent).data);
+      if (!seenStages.has(stage)) {
+        seenStages.add(stage);
+        onStage(stage);
+      }
+    });
+
+    events.addEventListener('completed', (event) => finish(JSON.parse((event as MessageEvent).data)));
+    events.addEventListener('failed', (event) => finish(JSON.parse((event as MessageEvent).data)));
+
+    // The browser retries dropped connections itself; only a closed stream
+    // (e.g. the job was not found) needs a final status check
+    events.onerror = async () => {
+      if (events.readyState !== EventSource.CLOSED) return;
+
+      try {
+        const response = await fetch(`/api/jobs/${jobId}?${query}`);
+        const data = await response.json();
+        if (response.ok && (data.job.status === 'completed' || data.job.status === 'failed')) {
+          finish(data.job);
+        } else {
+          reject(new GenerationRequestError(data.error || 'Lost connection to generation job', response.status, data));
+        }
+      } catch (error) {
+        reject(error);
+      }
+    };
+  });
+}
@@ -0,0 +1,65 @@
+import type { GenerationDetailView, GenerationView } from './generation-history';
+
+// Response body of the generation history routes, throwing with the server's message on failure
+async function readGenerationResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+// Asset library filters, as sent to GET /api/generations
+export interface LibraryFilters {
+  query?: string;
+  brandKitId?: string;
+  platform?: string;
+  // Dates as YYYY-MM-DD; `to` is exclusive
+  from?: string;
+  to?: string;
+  favoritesOnly?: boolean;
+}
+
+export interface GenerationPage {
+  generations: GenerationView[];
+  // Pass as `before` to load the next page; null on the last page
+  nextCursor: string | null;
+}
+
+/**
+ * A page of the user's generations matching the filters, newest first
+ */
+export async function fetchGenerations(userId: string, filters: LibraryFilters = {}, before?: string): Promise<GenerationPage> {
+  const params = new URLSearchParams({ userId });
+  if (filters.query) params.set('q', filters.query);
+  if (filters.brandKitId) params.set('brandKitId', filters.brandKitId);
+  if (filters.platform) params.set('platform', filters.platform);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.favoritesOnly) params.set('favorites', 'true');
+  if (before) params.set('before', before);
+
+  const response = await fetch(`/api/generations?${params}`);
+  return readGenerationResponse<GenerationPage>(response, 'Failed to load your ads');
+}
+
+/**
+ * A generation with its product image, for re-opening it in the chat
+ */
+export async function fetchGeneration(userId: string, generationId: string): Promise<GenerationDetailView> {
+  const response = await fetch(`/api/generations/${generationId}?userId=${encodeURIComponent(userId)}`);
+  const data = await readGenerationResponse<{ generation: GenerationDetailView }>(response, 'Failed to load the ad');
+  return data.generation;
+}
+
+export async function setGenerationFavorite(userId: string, generationId: string, favorite: boolean): Promise<GenerationView> {
+  const response = await fetch(`/api/generations/${generationId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ userId, favorite }),
+  });
+  const data = await readGenerationResponse<{ generation: GenerationView }>(response, 'Failed to update the ad');
+  return data.generation;
+}
@@ -0,0 +1,206 @@
+/**
+ * Generation History
+ *
+ * Every completed generation is recorded in `generations` so a user's ads
+ * outlive the chat they were made in. The asset library searches and filters
+ * them, marks favorites, and re-opens one in the chat; a generation made from
+ * a re-opened one links back to it as its parent.
+ */
+
+import { and, desc, eq, gte, ilike, isNotNull, lt, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { generations, type Generation } from '@/lib/db/schema';
+import type { AdVariant } from './ai-processing';
+import type { AdCopy } from './ad-copy';
+import type { GenerationInput, GenerationOutput } from './generation';
+import { isUuid } from './generation-jobs';
+import logger from './logger';
+
+export const DEFAULT_LIBRARY_PAGE_SIZE = 24;
+export const MAX_LIBRARY_PAGE_SIZE = 60;
+
+export const MAX_LIBRARY_QUERY_LENGTH = 200;
+
+// Client-facing view of a generation (the product image is omitted, it can be a large data URL)
+export interface GenerationView {
+  id: string;
+  parentGenerationId: string | null;
+  generationJobId: string | null;
+  prompt: string;
+  dallePrompt: string;
+  brandKitId: string | null;
+  brandKitVersion: number | null;
+  templateName: string | null;
+  platform: string | null;
+  placement: string | null;
+  imageUrls: string[];
+  variants: AdVariant[];
+  copy: AdCopy[];
+  quality: 'standard' | 'hd';
+  tokensUsed: number;
+  costUsd: number;
+  favorite: boolean;
+  createdAt: string;
+}
+
+// A generation with what's needed to continue it in the chat
+export interface GenerationDetailView extends GenerationView {
+  sourceImageUrl: string;
+}
+
+export interface GenerationFilters {
+  // Matched against the prompt and the image prompt written from it
+  query?: string;
+  brandKitId?: string;
+  platform?: string;
+  from?: Date;
+  to?: Date;
+  favoritesOnly?: boolean;
+  // ID of the last generation of the previous page; only older ones are listed
+  before?: string;
+  limit?: number;
+}
+
+export function toGenerationView(generation: Generation): GenerationView {
+  return {
+    id: generation.id,
+    parentGenerationId: generation.parentGenerationId,
+    generationJobId: generation.generationJobId,
+    prompt: generation.prompt,
+    dallePrompt: generation.dallePrompt,
+    brandKitId: generation.brandKitId,
+    brandKitVersion: generation.brandKitVersion,
+    templateName: generation.templateName,
+    platform: generation.platform,
+    placement: generation.placement,
+    imageUrls: generation.imageUrls,
+    variants: generation.variants,
+    copy: generation.copy,
+    quality: generation.quality as GenerationView['quality'],
+    tokensUsed: generation.tokensUsed,
+    costUsd: generation.costUsd,
+    favorite: generation.favoritedAt !== null,
+    createdAt: generation.createdAt.toISOString()
+  };
+}
+
+export function toGenerationDetailView(generation: Generation): GenerationDetailView {
+  return { ...toGenerationView(generation), sourceImageUrl: generation.sourceImageUrl };
+}
+
+/**
+ * Store a completed generation. Failures are logged rather than thrown, since
+ * the user has already been charged for the ad.
+ * Returns the generation's ID, or null if it could not be stored.
+ */
+export async function recordGeneration(
+  input: GenerationInput,
+  output: GenerationOutput,
+  generationJobId?: string
+): Promise<string | null> {
+  try {
+    const [generation] = await db.insert(generations)
+      .values({
+        userId: input.userId,
+        requestId: output.requestId,
+        generationJobId: generationJobId ?? null,
+        parentGenerationId: input.parentGenerationId ?? null,
+        prompt: input.prompt,
+        dallePrompt: output.adDescription,
+        sourceImageUrl: input.imageUrl,
+        brandKitId: output.brandKitId,
+        brandKitVersion: output.brandKitVersion,
+        templateName: output.templateName,
+        platform: output.outputSize?.platform ?? null,
+        placement: output.outputSize?.placement ?? null,
+        imageUrls: output.variants.map(variant => variant.imageUrl),
+        variants: output.variants,
+        copy: output.copy,
+        quality: input.isHDQuality ? 'hd' : 'standard',
+        tokensUsed: output.tokensUsed,
+        costUsd: output.tokenUsage.totalCost
+      })
+      .onConflictDoNothing({ target: generations.requestId })
+      .returning({ id: generations.id });
+
+    return generation?.id ?? null;
+  } catch (error) {
+    logger.error('Failed to record generation', { requestId: output.requestId, userId: input.userId, error });
+    return null;
+  }
+}
+
+export async function getGeneration(userId: string, generationId: string): Promise<Generation | null> {
+  if (!isUuid(generationId)) {
+    return null;
+  }
+
+  const [generation] = await db.select()
+    .from(generations)
+    .where(and(eq(generations.id, generationId), eq(generations.userId, userId)))
+    .limit(1);
+
+  return generation ?? null;
+}
+
+// Escape LIKE wildcards so a search matches them literally
+function likePattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+/**
+ * The user's generations matching the filters, newest first
+ */
+export async function listGenerations(userId: string, filters: GenerationFilters = {}): Promise<Generation[]> {
+  const conditions: (SQL | undefined)[] = [eq(generations.userId, userId)];
+
+  if (filters.query) {
+    const pattern = likePattern(filters.query);
+    conditions.push(or(ilike(generations.prompt, pattern), ilike(generations.dallePrompt, pattern)));
+  }
+  if (filters.brandKitId) {
+    conditions.push(eq(generations.brandKitId, filters.brandKitId));
+  }
+  if (filters.platform) {
+    conditions.push(eq(generations.platform, filters.platform));
+  }
+  if (filters.from) {
+    conditions.push(gte(generations.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lt(generations.createdAt, filters.to));
+  }
+  if (filters.favoritesOnly) {
+    conditions.push(isNotNull(generations.favoritedAt));
+  }
+  if (filters.before) {
+    // Compared on (createdAt, id) read from the row itself: timestamps keep
+    // microseconds, and generations created at the same time are split by ID
+    conditions.push(sql`(${generations.createdAt}, ${generations.id}) < (
+      select page_cursor.created_at, page_cursor.id from ${generations} page_cursor
+      where page_cursor.id = ${filters.before}
+    )`);
+  }
+
+  return db.select()
+    .from(generations)
+    .where(and(...conditions))
+    .orderBy(desc(generations.createdAt), desc(generations.id))
+    .limit(Math.min(filters.limit ?? DEFAULT_LIBRARY_PAGE_SIZE, MAX_LIBRARY_PAGE_SIZE));
+}
+
+/**
+ * Mark or unmark a generation as a favorite. Returns null if the user has no such generation.
+ */
+export async function setGenerationFavorite(userId: string, generationId: string, favorite: boolean): Promise<Generation | null> {
+  if (!isUuid(generationId)) {
+    return null;
+  }
+
+  const [generation] = await db.update(generations)
+    .set({ favoritedAt: favorite ? new Date() : null })
+    .where(and(eq(generations.id, generationId), eq(generations.userId, userId)))
+    .returning();
+
+  return generation ?? null;
+}
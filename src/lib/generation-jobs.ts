@@ -0,0 +1,194 @@
+/**
+ * Generation Jobs
+ *
+ * Persists ad generations as `generation_jobs` rows so they can run in the
+ * background after the submitting request returns. Each processRequest stage
+ * is appended to the job as it completes, which is what the status and SSE
+ * routes report to the client.
+ */
+
+import { and, eq, inArray, lte, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { generationJobs, type GenerationJob } from '@/lib/db/schema';
+import type { PipelineStage } from './ai-processing';
+import { ApiError } from './api-error';
+import {
+  runGeneration,
+  type GenerationInput,
+  type GenerationOutput
+} from './generation';
+import logger from './logger';
+import { getReservationsForRequest, releaseReservation } from './token-ledger';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Jobs run inside the submitting request's invocation, which is stopped after
+// 300 seconds; a job unfinished this long after it was queued was killed
+export const STALE_JOB_MINUTES = 10;
+
+// Client-facing view of a job (input images are omitted, they can be large data URLs)
+export interface GenerationJobView {
+  id: string;
+  status: GenerationJobStatus;
+  stages: { stage: string; at: string }[];
+  prompt: string;
+  result: GenerationOutput | null;
+  error: string | null;
+  errorDetails: Record<string, unknown> | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export function isFinishedJob(job: Pick<GenerationJob, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+export function toJobView(job: GenerationJob): GenerationJobView {
+  return {
+    id: job.id,
+    status: job.status as GenerationJobStatus,
+    stages: job.stages,
+    prompt: job.input.prompt,
+    result: (job.result as unknown as GenerationOutput) ?? null,
+    error: job.error ?? null,
+    errorDetails: job.errorDetails ?? null,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt ? job.completedAt.toISOString() : null
+  };
+}
+
+/**
+ * Queue a generation for a user
+ */
+export async function createGenerationJob(input: GenerationInput): Promise<GenerationJob> {
+  const { userId, ...jobInput } = input;
+
+  const [job] = await db.insert(generationJobs)
+    .values({ userId, input: jobInput })
+    .returning();
+
+  logger.info('Generation job queued', { jobId: job.id, userId });
+  return job;
+}
+
+/**
+ * One of the user's jobs, or null if it doesn't exist or is someone else's
+ */
+export async function getGenerationJob(userId: string, jobId: string): Promise<GenerationJob | null> {
+  if (!isUuid(jobId)) {
+    return null;
+  }
+
+  const [job] = await db.select()
+    .from(generationJobs)
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.userId, userId)))
+    .limit(1);
+
+  return job ?? null;
+}
+
+async function appendStage(jobId: string, stage: PipelineStage): Promise<void> {
+  const entry = JSON.stringify([{ stage, at: new Date().toISOString() }]);
+
+  await db.update(generationJobs)
+    .set({ stages: sql`${generationJobs.stages} || ${entry}::jsonb`, updatedAt: new Date() })
+    .where(eq(generationJobs.id, jobId));
+}
+
+/**
+ * Run a queued job to completion, recording progress and the final outcome.
+ * Generation failures are stored on the job rather than thrown.
+ */
+export async function runGenerationJob(jobId: string): Promise<void> {
+  const [job] = await db.update(generationJobs)
+    .set({ status: 'running', updatedAt: new Date() })
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'queued')))
+    .returning();
+
+  if (!job) {
+    logger.warn('Generation job is not queued, skipping', { jobId });
+    return;
+  }
+
+  // Stage updates are chained so they land in order
+  let stageWrites = Promise.resolve();
+  const onStage = (stage: PipelineStage) => {
+    stageWrites = stageWrites
+      .then(() => appendStage(jobId, stage))
+      .catch(error => logger.error('Failed to record job stage', { jobId, stage, error }));
+  };
+
+  try {
+    const result = await runGeneration(
+      { ...job.input, userId: job.userId },
+      { requestId: job.id, jobId: job.id, onStage }
+    );
+    await stageWrites;
+
+    await db.update(generationJobs)
+      .set({
+        status: 'completed',
+        result: { ...result },
+        updatedAt: new Date(),
+        completedAt: new Date()
+      })
+      .where(eq(generationJobs.id, jobId));
+
+    logger.info('Generation job completed', { jobId });
+  } catch (error) {
+    await stageWrites;
+
+    const isApiError = error instanceof ApiError;
+    await db.update(generationJobs)
+      .set({
+        status: 'failed',
+        error: isApiError ? error.message : 'Failed to process generation request',
+        errorDetails: isApiError ? { status: error.status, ...error.details } : { status: 500 },
+        updatedAt: new Date(),
+        completedAt: new Date()
+      })
+      .where(eq(generationJobs.id, jobId));
+
+    logger.error('Generation job failed', { jobId, error });
+  }
+}
+
+/**
+ * The scheduled sweep for jobs whose run was killed: every job still queued
+ * or running STALE_JOB_MINUTES after it was queued is marked failed, and the
+ * tokens its generation still holds are released
+ */
+export async function failStaleGenerationJobs(now: Date = new Date()): Promise<{ jobs: number; tokens: number }> {
+  const cutoff = new Date(now.getTime() - STALE_JOB_MINUTES * 60 * 1000);
+  const failed = await db.update(generationJobs)
+    .set({
+      status: 'failed',
+      error: 'The generation took too long and was stopped. Please try again.',
+      errorDetails: { status: 504 },
+      updatedAt: now,
+      completedAt: now
+    })
+    .where(and(inArray(generationJobs.status, ['queued', 'running']), lte(generationJobs.createdAt, cutoff)))
+    .returning({ id: generationJobs.id });
+
+  let tokens = 0;
+  for (const { id } of failed) {
+    // The job's generation reserves under the job ID
+    const reservations = await getReservationsForRequest(id);
+    for (const reservation of reservations.filter(held => held.status === 'reserved')) {
+      const settled = await releaseReservation(reservation.id, 0, { error: 'Generation job timed out' });
+      tokens += settled?.refunded ?? 0;
+    }
+  }
+
+  if (failed.length > 0) {
+    logger.warn('Stale generation jobs failed', { jobIds: failed.map(job => job.id), tokens });
+  }
+  return { jobs: failed.length, tokens };
+}
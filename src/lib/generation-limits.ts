@@ -0,0 +1,9 @@
+/**
+ * Limits per generation, shared by the server pipeline and the chat UI
+ */
+
+// Maximum number of image variants rendered for one generation
+export const MAX_VARIANTS = 4;
+
+// Maximum number of reference ads analyzed for a single generation
+export const MAX_REFERENCE_ADS = 4;
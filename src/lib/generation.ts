@@ -0,0 +1,609 @@
+/**
+ * Generation Service
+ *
+ * Runs a full ad generation for a user: reserves the token cost, calls
+ * processRequest with retries, and settles the reservation. Shared by the
+ * synchronous /api/generate route and background generation jobs.
+ */
+
+import {
+  processRequest,
+  type AdVariant,
+  type CacheStatus,
+  type PipelineStage,
+  type ReferenceStyle
+} from './ai-processing';
+import { ApiError } from './api-error';
+import { LAYOUT_PRESETS, type AdOverlayInput, type LayoutPresetName } from './ad-compositor';
+import type { AdCopy } from './ad-copy';
+import { getBrandKitProfileData, resolveBrandKit } from './brand-kits';
+import { checkBrandCompliance } from './brand-compliance';
+import { safeParseBrandProfile } from './brand-profile-schema';
+import { resolveBrandTemplate } from './brand-templates';
+import { getGeneration, recordGeneration } from './generation-history';
+import { MAX_REFERENCE_ADS, MAX_VARIANTS } from './generation-limits';
+import { getPlacementSize, type PlacementSize, type PlatformPlacement } from './platform-sizes';
+import { getUserConversation, saveUserConversation } from './supabase';
+import {
+  commitReservation,
+  getGenerationFreeze,
+  InsufficientTokensError,
+  releaseReservation,
+  requireTokenAccount,
+  reserveTokens
+} from './token-ledger';
+import logger from './logger';
+import { trackAdGeneration, trackAdGenerationError } from './analytics';
+
+export interface GenerationInput {
+  imageUrl: string;
+  prompt: string;
+  userId: string;
+  templateName?: string;
+  isHDQuality?: boolean;
+  resetConversation?: boolean;
+  // Past ads whose style the generation should match
+  referenceAdUrls?: string[];
+  // Number of image variants to render (1 to MAX_VARIANTS)
+  variantCount?: number;
+  // PLATFORM_SIZES entry to size the output for; square 1024px when omitted
+  placement?: PlatformPlacement;
+  // Copy and logo composited onto the rendered images
+  overlay?: AdOverlayInput;
+  // Brand kit whose stored profile replaces analyzing the uploaded image;
+  // the user's active kit is used when omitted
+  brandKitId?: string;
+  // Past generation this one iterates on, e.g. one re-opened from the asset library
+  parentGenerationId?: string;
+}
+
+export interface GenerationOutput {
+  // Asset library entry, or null if the generation could not be stored
+  generationId: string | null;
+  adDescription: string;
+  adImageUrl: string;
+  variants: AdVariant[];
+  referenceStyle: ReferenceStyle | null;
+  // Placement the images were sized for, or null for the default square
+  outputSize: PlacementSize | null;
+  // Brand kit the profile came from, or null when the brand was analyzed from the image
+  brandKitId: string | null;
+  // Version of the kit's profile used (its pinned version if it has one)
+  brandKitVersion: number | null;
+  // Template whose art direction was used, or null if there was none
+  templateName: string | null;
+  // Alternative copy sets, within the placement's character limits
+  copy: AdCopy[];
+  tokenUsage: {
+    imageAnalysis: number;
+    promptGeneration: number;
+    copyGeneration: number;
+    // Vision tokens spent checking the ads against the brand (not charged)
+    complianceCheck: number;
+    totalCost: number;
+    // Whether the brand profile and product analysis were reused or freshly run
+    cache: { brandProfile: CacheStatus; productAnalysis: CacheStatus };
+  };
+  tokensLeft: number;
+  tokensUsed: number;
+  tokensPerVariant: number;
+  requestId: string;
+  hasConversationContext: boolean;
+}
+
+export interface GenerationOptions {
+  // Reservation/audit ID; a random one is generated when omitted
+  requestId?: string;
+  // Background job running the generation, linked from its library entry
+  jobId?: string;
+  // Called after each processRequest stage completes
+  onStage?: (stage: PipelineStage) => void;
+}
+
+/**
+ * A generation that could not be completed
+ */
+export class GenerationError extends ApiError {
+  constructor(message: string, status: number, details: Record<string, unknown> = {}) {
+    super(message, status, details);
+    this.name = 'GenerationError';
+  }
+}
+
+/**
+ * Reject image work while an open payment dispute has frozen the account
+ */
+export async function assertGenerationAllowed(userId: string): Promise<void> {
+  const frozenAt = await getGenerationFreeze(userId);
+  if (frozenAt) {
+    throw new GenerationError('Generating is paused while a payment dispute on your account is open', 403, {
+      frozenAt: frozenAt.toISOString()
+    });
+  }
+}
+
+const MAX_RETRIES = 2;
+
+// Extra tokens charged for analyzing each reference ad
+const REFERENCE_AD_TOKEN_COST = 1000;
+
+// Share of a single-image generation's cost attributed to each pipeline stage.
+// When a generation fails, only the stages that completed are charged.
+const STAGE_COST_WEIGHTS: Record<PipelineStage, number> = {
+  brand_analyzed: 0.15,
+  product_analyzed: 0.1,
+  prompt_ready: 0.1,
+  image_stored: 0.65
+};
+
+// Token cost of a generation, split the way it is charged
+export interface TokenCost {
+  total: number;
+  // Image rendering cost of each variant
+  perVariant: number;
+  // Cost of each stage when every requested variant renders
+  stages: Record<PipelineStage, number>;
+}
+
+/**
+ * Token cost of a generation, based on quality, prompt length, the number of
+ * reference ads to analyze and the number of image variants to render.
+ * Brand analysis is free when a stored brand kit profile is used.
+ */
+export function calculateTokenCost(
+  prompt: string,
+  isHDQuality?: boolean,
+  referenceCount: number = 0,
+  variantCount: number = 1,
+  usesBrandKit: boolean = false
+): TokenCost {
+  // Base token cost
+  const baseCost = isHDQuality ? 10000 : 5000;
+
+  // Add complexity based on prompt length
+  const promptComplexity = Math.min(1.5, 1 + (prompt.length / 500)); // Max 50% increase
+  const singleImageCost = Math.floor(baseCost * promptComplexity);
+
+  // Analysis and prompt writing are shared; rendering is paid per variant
+  const perVariant = Math.floor(singleImageCost * STAGE_COST_WEIGHTS.image_stored);
+  const stages: Record<PipelineStage, number> = {
+    brand_analyzed: usesBrandKit ? 0 : Math.floor(singleImageCost * STAGE_COST_WEIGHTS.brand_analyzed),
+    product_analyzed: Math.floor(singleImageCost * STAGE_COST_WEIGHTS.product_analyzed) + referenceCount * REFERENCE_AD_TOKEN_COST,
+    prompt_ready: Math.floor(singleImageCost * STAGE_COST_WEIGHTS.prompt_ready),
+    image_stored: perVariant * variantCount
+  };
+
+  const total = Object.values(stages).reduce((sum, cost) => sum + cost, 0);
+  return { total, perVariant, stages };
+}
+
+/**
+ * Validate the variantCount field of a request body.
+ * Returns the count (default 1), or null if it is not an integer from 1 to MAX_VARIANTS.
+ */
+function parseVariantCount(value: unknown): number | null {
+  if (value === undefined || value === null) {
+    return 1;
+  }
+
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_VARIANTS
+    ? value as number
+    : null;
+}
+
+/**
+ * Validate the platform and placement fields of a request body.
+ * Returns the placement's size, undefined when neither is set, or null if
+ * they don't name an entry in PLATFORM_SIZES.
+ */
+function parsePlacement(platform: unknown, placement: unknown): PlacementSize | null | undefined {
+  if ((platform === undefined || platform === null) && (placement === undefined || placement === null)) {
+    return undefined;
+  }
+
+  return typeof platform === 'string' && typeof placement === 'string'
+    ? getPlacementSize(platform, placement)
+    : null;
+}
+
+// Longest accepted overlay copy, in characters
+const MAX_OVERLAY_LENGTHS = { headline: 120, subhead: 200, cta: 30 };
+
+/**
+ * Validate the overlay field of a request body.
+ * Returns the overlay, undefined when it is absent, or null if it is malformed.
+ */
+function parseOverlay(value: unknown): AdOverlayInput | null | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const { headline, subhead, cta, logoUrl, preset } = value as Record<string, unknown>;
+  const isText = (text: unknown, maxLength: number) =>
+    typeof text === 'string' && text.trim().length > 0 && text.length <= maxLength;
+  const isOptional = (field: unknown, valid: boolean) => field === undefined || field === null || field === '' || valid;
+
+  if (
+    !isText(headline, MAX_OVERLAY_LENGTHS.headline) ||
+    !isOptional(subhead, isText(subhead, MAX_OVERLAY_LENGTHS.subhead)) ||
+    !isOptional(cta, isText(cta, MAX_OVERLAY_LENGTHS.cta)) ||
+    !isOptional(logoUrl, typeof logoUrl === 'string') ||
+    !isOptional(preset, typeof preset === 'string' && Object.hasOwn(LAYOUT_PRESETS, preset))
+  ) {
+    return null;
+  }
+
+  return {
+    headline: (headline as string).trim(),
+    subhead: (subhead as string | undefined)?.trim() || undefined,
+    cta: (cta as string | undefined)?.trim() || undefined,
+    logoUrl: (logoUrl as string | undefined) || undefined,
+    preset: (preset as LayoutPresetName | undefined) || undefined
+  };
+}
+
+/**
+ * Validate the referenceAdUrls field of a request body.
+ * Returns the URLs, or null if the value is not a list of up to MAX_REFERENCE_ADS strings.
+ */
+function parseReferenceAdUrls(value: unknown): string[] | null {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.length > MAX_REFERENCE_ADS) {
+    return null;
+  }
+
+  return value.every(url => typeof url === 'string' && url.length > 0) ? value : null;
+}
+
+// A validated generation request; the list and count fields always have a value
+export type GenerationRequest = GenerationInput & { referenceAdUrls: string[]; variantCount: number };
+
+// Optional ID or name fields of a request body: a string, or absent when empty
+function parseOptionalId(value: unknown, field: string, description: string): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new GenerationError(`${field} must be ${description}`, 400);
+  }
+  return value;
+}
+
+/**
+ * Validate the body of a generation request (POST /api/generate and
+ * POST /api/jobs). Throws GenerationError (400) for the first invalid field.
+ */
+export function parseGenerationRequest(data: Record<string, unknown>): GenerationRequest {
+  const { imageUrl, prompt, userId } = data;
+
+  if (typeof imageUrl !== 'string' || !imageUrl) {
+    throw new GenerationError('Image URL is required', 400);
+  }
+
+  if (typeof prompt !== 'string' || !prompt) {
+    throw new GenerationError('Prompt is required', 400);
+  }
+
+  const referenceAdUrls = parseReferenceAdUrls(data.referenceAdUrls);
+  if (!referenceAdUrls) {
+    throw new GenerationError(`referenceAdUrls must be a list of up to ${MAX_REFERENCE_ADS} image URLs`, 400);
+  }
+
+  const variantCount = parseVariantCount(data.variantCount);
+  if (!variantCount) {
+    throw new GenerationError(`variantCount must be a whole number from 1 to ${MAX_VARIANTS}`, 400);
+  }
+
+  const outputSize = parsePlacement(data.platform, data.placement);
+  if (outputSize === null) {
+    throw new GenerationError('platform and placement must name a supported platform size', 400);
+  }
+
+  const overlay = parseOverlay(data.overlay);
+  if (overlay === null) {
+    throw new GenerationError('overlay must include a headline and only valid subhead, cta, logoUrl and preset values', 400);
+  }
+
+  const templateName = parseOptionalId(data.templateName, 'templateName', 'the name of a brand template');
+  const brandKitId = parseOptionalId(data.brandKitId, 'brandKitId', 'the ID of one of your brand kits');
+  const parentGenerationId = parseOptionalId(data.parentGenerationId, 'parentGenerationId', 'the ID of one of your generations');
+
+  if (typeof userId !== 'string' || !userId) {
+    throw new GenerationError('User ID is required', 400);
+  }
+
+  return {
+    imageUrl,
+    prompt,
+    userId,
+    templateName,
+    isHDQuality: Boolean(data.isHDQuality),
+    resetConversation: Boolean(data.resetConversation),
+    referenceAdUrls,
+    variantCount,
+    placement: outputSize && { platform: outputSize.platform, placement: outputSize.placement },
+    overlay,
+    brandKitId,
+    parentGenerationId
+  };
+}
+
+function calculateStageCosts(tokenCost: TokenCost, stages: Iterable<PipelineStage>): Record<string, number> {
+  const costs: Record<string, number> = {};
+  for (const stage of stages) {
+    costs[stage] = tokenCost.stages[stage];
+  }
+  return costs;
+}
+
+// HTTP status attached to provider errors, if any
+function errorStatus(error: unknown): number | undefined {
+  return (error as { status?: number } | null)?.status;
+}
+
+// Upstream statuses worth retrying
+function isRetryable(error: unknown): boolean {
+  return [429, 500, 502, 503, 504].includes(errorStatus(error) ?? 0);
+}
+
+/**
+ * Generate an ad, charging the user's token ledger.
+ * Throws GenerationError on insufficient tokens or when all attempts fail.
+ */
+export async function runGeneration(
+  input: GenerationInput,
+  options: GenerationOptions = {}
+): Promise<GenerationOutput> {
+  const { imageUrl, prompt, userId, templateName, isHDQuality, resetConversation } = input;
+  const referenceAdUrls = input.referenceAdUrls || [];
+  const variantCount = input.variantCount || 1;
+  const outputSize = input.placement
+    ? getPlacementSize(input.placement.platform, input.placement.placement)
+    : null;
+  const requestId = options.requestId || crypto.randomUUID();
+
+  // Load the stored brand profile before charging anything; the brand is only
+  // analyzed from the image when the user has no kit
+  const storedKit = await resolveBrandKit(userId, input.brandKitId);
+  const storedProfile = storedKit ? await getBrandKitProfileData(storedKit) : null;
+  const brandProfile = storedProfile ? safeParseBrandProfile(storedProfile.profileData) : null;
+  if (storedKit && !brandProfile) {
+    logger.warn('Stored brand profile is unreadable, analyzing the image instead', { brandKitId: storedKit.id, userId });
+  }
+  const brandKit = brandProfile ? storedKit : null;
+
+  // A picked template must be available before anything is charged
+  if (templateName) {
+    await resolveBrandTemplate(templateName);
+  }
+
+  if (input.parentGenerationId && !(await getGeneration(userId, input.parentGenerationId))) {
+    throw new GenerationError('Parent generation not found', 404);
+  }
+
+  await assertGenerationAllowed(userId);
+
+  // Calculate the token cost for this operation
+  const tokenCost = calculateTokenCost(prompt, isHDQuality, referenceAdUrls.length, variantCount, Boolean(brandKit));
+
+  console.log(`Processing request ${requestId} for user ${userId} with token cost ${tokenCost.total}`);
+
+  // Reserve the generation cost before doing any work; unused tokens are
+  // released back to the user if the generation fails
+  let reservationId: string;
+  let tokensLeft: number;
+  try {
+    await requireTokenAccount(userId);
+    const { reservation, balance } = await reserveTokens(userId, tokenCost.total, requestId, {
+      isHDQuality: Boolean(isHDQuality),
+      promptLength: prompt.length,
+      referenceCount: referenceAdUrls.length,
+      variantCount,
+      brandKitId: brandKit?.id ?? null
+    });
+    reservationId = reservation.id;
+    tokensLeft = balance;
+  } catch (ledgerError) {
+    if (ledgerError instanceof InsufficientTokensError) {
+      throw new GenerationError('Not enough tokens for this generation', 402, {
+        tokensRequired: tokenCost.total,
+        tokensLeft: ledgerError.balance
+      });
+    }
+    throw ledgerError;
+  }
+
+  // Stages completed across all attempts; each is charged at most once
+  const completedStages = new Set<PipelineStage>();
+  let attempts = 0;
+
+  // Settle a failed request: charge the completed stages, refund the rest
+  const releaseUnusedTokens = async (error: unknown) => {
+    const stageCosts = calculateStageCosts(tokenCost, completedStages);
+    const usedTokens = Object.values(stageCosts).reduce((sum, cost) => sum + cost, 0);
+    try {
+      const settled = await releaseReservation(reservationId, usedTokens, {
+        completedStages: Array.from(completedStages),
+        stageCosts,
+        attempts,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      if (settled) {
+        tokensLeft = settled.balance;
+        return settled.refunded;
+      }
+    } catch (releaseError) {
+      logger.error('Failed to release token reservation', { reservationId, requestId, releaseError });
+    }
+    return 0;
+  };
+
+  const onStage = (stage: PipelineStage) => {
+    const isNew = !completedStages.has(stage);
+    completedStages.add(stage);
+    if (isNew) {
+      options.onStage?.(stage);
+    }
+  };
+
+  // Load previous conversation context if needed
+  if (!resetConversation) {
+    try {
+      await getUserConversation(userId);
+    } catch (convError) {
+      console.warn('Could not load conversation context:', convError);
+      // Continue without conversation context
+    }
+  }
+
+  let result: Awaited<ReturnType<typeof processRequest>> | null = null;
+  let lastError: unknown = null;
+  let tokensUsed = 0;
+
+  try {
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        attempts = attempt + 1;
+        if (attempt > 0) {
+          console.log(`Retry attempt ${attempt} for user ${userId}`);
+        }
+
+        // Process the request with user ID to maintain conversation context
+        result = await processRequest(
+          imageUrl,
+          prompt,
+          templateName, // The brand's industry default is used if none was picked
+          referenceAdUrls,
+          isHDQuality || false,
+          userId, // Pass userId to maintain conversation context
+          { onStage, variantCount, outputSize, overlay: input.overlay, brandProfile: brandProfile ?? undefined }
+        );
+        break;
+      } catch (error) {
+        lastError = error;
+
+        if (isRetryable(error)) {
+          console.log(`Retryable error encountered (${errorStatus(error)}), attempt ${attempt + 1} of ${MAX_RETRIES + 1}`);
+
+          // Wait before retrying (exponential backoff)
+          const delayMs = Math.min(1000 * Math.pow(2, attempt), 8000);
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+          continue;
+        }
+
+        // For non-retryable errors, stop retrying
+        break;
+      }
+    }
+
+    if (result) {
+      // The generation succeeded; keep the reservation except for variants that failed to render
+      const missingVariants = variantCount - result.variants.length;
+      tokensUsed = tokenCost.total - missingVariants * tokenCost.perVariant;
+      const settled = await commitReservation(reservationId, {
+        completedStages: Array.from(completedStages),
+        stageCosts: {
+          ...calculateStageCosts(tokenCost, completedStages),
+          image_stored: result.variants.length * tokenCost.perVariant
+        },
+        attempts
+      }, tokensUsed);
+      if (settled) {
+        tokensLeft = settled.balance;
+      }
+    }
+  } catch (error) {
+    // Never leave the reservation holding tokens; the cron sweep covers runs that are killed
+    await releaseUnusedTokens(error);
+    throw error;
+  }
+
+  if (result) {
+    // Save the updated conversation context
+    if (result.conversationSummary) {
+      try {
+        await saveUserConversation(userId, result.conversationSummary);
+      } catch (saveError) {
+        console.warn('Failed to save conversation:', saveError);
+        // Continue without saving conversation
+      }
+    }
+
+    // Track successful generation for analytics
+    trackAdGeneration(userId, Boolean(isHDQuality), result.costData);
+
+    // Check each ad against the brand; an ad whose check fails just has no report
+    const brandProfileUsed = result.brandProfile;
+    const variants = await Promise.all(result.variants.map(async variant => ({
+      ...variant,
+      compliance: await checkBrandCompliance({
+        imageUrl: variant.imageUrl,
+        brandProfile: brandProfileUsed,
+        overlay: variant.overlay,
+        logoRequested: Boolean(input.overlay?.logoUrl)
+      }).catch(complianceError => {
+        logger.warn('Brand compliance check failed', { requestId, variant: variant.index, error: complianceError });
+        return undefined;
+      })
+    })));
+
+    const output: GenerationOutput = {
+      generationId: null,
+      adDescription: result.adDescription,
+      adImageUrl: result.adImageUrl,
+      variants,
+      referenceStyle: result.referenceStyle ?? null,
+      outputSize,
+      brandKitId: brandKit?.id ?? null,
+      brandKitVersion: brandKit ? storedProfile?.version ?? null : null,
+      templateName: result.templateName ?? null,
+      copy: result.copy,
+      tokenUsage: {
+        imageAnalysis: result.costData.imageAnalysisTokens,
+        promptGeneration: result.costData.promptGenerationTokens,
+        copyGeneration: result.costData.copyGenerationTokens,
+        complianceCheck: variants.reduce((total, variant) => total + (variant.compliance?.tokenUsage ?? 0), 0),
+        totalCost: result.costData.totalCostUSD,
+        cache: result.costData.cache
+      },
+      tokensLeft, // Ledger balance after this generation's charge
+      tokensUsed,
+      tokensPerVariant: tokenCost.perVariant,
+      requestId,
+      hasConversationContext: !!result.conversationSummary
+    };
+
+    // Keep the ads for the asset library
+    output.generationId = await recordGeneration(input, output, options.jobId);
+    return output;
+  }
+
+  // If we get here, all attempts failed
+  console.error('All generation attempts failed:', lastError);
+  trackAdGenerationError(userId, Boolean(isHDQuality), String(lastError));
+  const tokensRefunded = await releaseUnusedTokens(lastError);
+
+  // Determine appropriate error message and status code
+  let errorMessage = 'Failed to generate content. Please try again.';
+  let statusCode = 500;
+
+  const lastStatus = errorStatus(lastError);
+  const lastMessage = lastError instanceof Error ? lastError.message : '';
+
+  if (lastStatus === 429) {
+    errorMessage = 'Our service is experiencing high demand. Please try again in a moment.';
+    statusCode = 429;
+  } else if (lastStatus === 504 || lastMessage.includes('timeout')) {
+    errorMessage = 'The request took too long to process. Try a simpler prompt or standard quality.';
+    statusCode = 504;
+  }
+
+  throw new GenerationError(errorMessage, statusCode, { requestId, tokensRefunded, tokensLeft });
+}
@@ -0,0 +1,210 @@
+/**
+ * Image Edits
+ *
+ * Revises a generated ad in place (optionally limited to a masked area) and
+ * records each revision in `image_edits`, linked to the generation job or
+ * edit it was made from so an ad's history can be followed back to its root.
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { generationJobs, imageEdits, type ImageEdit } from '@/lib/db/schema';
+import { editAdImage } from './ai-processing';
+import { ApiError } from './api-error';
+import { assertGenerationAllowed, GenerationError } from './generation';
+import { isUuid } from './generation-jobs';
+import { assertLoadableImageUrl } from './image-processing';
+import {
+  commitReservation,
+  getTokenBalance,
+  InsufficientTokensError,
+  releaseReservation,
+  requireTokenAccount,
+  reserveTokens,
+  type SettledReservation
+} from './token-ledger';
+import logger from './logger';
+
+export interface ImageEditInput {
+  userId: string;
+  // The image being revised (normally the parent's output)
+  imageUrl: string;
+  instruction: string;
+  maskUrl?: string;
+  // Where the image came from; at most one is needed, the parent edit wins
+  generationJobId?: string;
+  parentEditId?: string;
+}
+
+export interface ImageEditOutput {
+  edit: ImageEdit;
+  tokensUsed: number;
+  tokensLeft: number;
+}
+
+// Edits only rework an existing image, so they cost a share of a standard generation
+const EDIT_BASE_TOKEN_COST = 5000;
+const EDIT_COST_RATIO = 0.6;
+const MAJOR_EDIT_COST_RATIO = 0.8;
+const MAJOR_EDIT_KEYWORDS = ['completely', 'entirely', 'totally', 'redesign', 'overhaul'];
+
+// Maximum number of ancestors returned for an edit
+const MAX_LINEAGE_DEPTH = 50;
+
+/**
+ * Token cost of an edit, based on how sweeping the instruction is
+ */
+export function calculateEditTokenCost(instruction: string): number {
+  const isMajorEdit = MAJOR_EDIT_KEYWORDS.some(keyword => instruction.toLowerCase().includes(keyword));
+  const ratio = isMajorEdit ? MAJOR_EDIT_COST_RATIO : EDIT_COST_RATIO;
+
+  // Add complexity based on instruction length
+  const complexity = Math.min(1.5, 1 + (instruction.length / 500)); // Max 50% increase
+
+  return Math.floor(EDIT_BASE_TOKEN_COST * ratio * complexity);
+}
+
+export async function getImageEdit(editId: string): Promise<ImageEdit | null> {
+  if (!isUuid(editId)) {
+    return null;
+  }
+
+  const [edit] = await db.select()
+    .from(imageEdits)
+    .where(eq(imageEdits.id, editId))
+    .limit(1);
+
+  return edit ?? null;
+}
+
+/**
+ * One of the user's edits followed by its ancestors, nearest first. Empty if
+ * the edit doesn't exist or is someone else's.
+ */
+export async function getEditLineage(userId: string, editId: string): Promise<ImageEdit[]> {
+  const lineage: ImageEdit[] = [];
+  let nextId: string | null = editId;
+
+  while (nextId && lineage.length < MAX_LINEAGE_DEPTH) {
+    const edit = await getImageEdit(nextId);
+    if (!edit || edit.userId !== userId) break;
+    lineage.push(edit);
+    nextId = edit.parentEditId;
+  }
+
+  return lineage;
+}
+
+// Resolve the parent links for a new edit, checking they belong to the user
+async function resolveParent(input: ImageEditInput): Promise<{ generationJobId: string | null; parentEditId: string | null }> {
+  if (input.parentEditId) {
+    const parent = await getImageEdit(input.parentEditId);
+    if (!parent || parent.userId !== input.userId) {
+      throw new GenerationError('Parent edit not found', 404);
+    }
+    return { generationJobId: parent.generationJobId, parentEditId: parent.id };
+  }
+
+  if (input.generationJobId) {
+    const [job] = isUuid(input.generationJobId)
+      ? await db.select({ id: generationJobs.id })
+        .from(generationJobs)
+        .where(and(eq(generationJobs.id, input.generationJobId), eq(generationJobs.userId, input.userId)))
+        .limit(1)
+      : [];
+    if (!job) {
+      throw new GenerationError('Parent generation not found', 404);
+    }
+    return { generationJobId: job.id, parentEditId: null };
+  }
+
+  return { generationJobId: null, parentEditId: null };
+}
+
+/**
+ * Edit an image, charging the user's token ledger.
+ * Throws GenerationError on insufficient tokens, unknown parents or failure,
+ * and ApiError (400) for image or mask URLs that may not be loaded.
+ */
+export async function runImageEdit(input: ImageEditInput): Promise<ImageEditOutput> {
+  const { userId, imageUrl, instruction, maskUrl } = input;
+  const parent = await resolveParent(input);
+  await assertGenerationAllowed(userId);
+
+  // Refuse URLs that can't be loaded before any tokens are reserved
+  await assertLoadableImageUrl(imageUrl);
+  if (maskUrl) {
+    await assertLoadableImageUrl(maskUrl);
+  }
+  const requestId = crypto.randomUUID();
+  const tokenCost = calculateEditTokenCost(instruction);
+
+  let reservationId: string;
+  try {
+    await requireTokenAccount(userId);
+    const { reservation } = await reserveTokens(userId, tokenCost, requestId, {
+      type: 'edit',
+      masked: Boolean(maskUrl),
+      ...parent
+    });
+    reservationId = reservation.id;
+  } catch (ledgerError) {
+    if (ledgerError instanceof InsufficientTokensError) {
+      throw new GenerationError('Not enough tokens for this edit', 402, {
+        tokensRequired: tokenCost,
+        tokensLeft: ledgerError.balance
+      });
+    }
+    throw ledgerError;
+  }
+
+  let editedImageUrl: string;
+  try {
+    editedImageUrl = await editAdImage(imageUrl, instruction, maskUrl);
+  } catch (error) {
+    // Nothing was delivered, so refund the whole reservation
+    const settled = await releaseReservation(reservationId, 0, {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new GenerationError('Failed to edit image. Please try again.', 500, {
+      requestId,
+      tokensRefunded: settled?.refunded ?? 0,
+      tokensLeft: settled?.balance
+    });
+  }
+
+  let edit: ImageEdit;
+  let settled: SettledReservation | null;
+  try {
+    [edit] = await db.insert(imageEdits)
+      .values({
+        userId,
+        ...parent,
+        sourceImageUrl: imageUrl,
+        instruction,
+        masked: Boolean(maskUrl),
+        imageUrl: editedImageUrl,
+        tokensUsed: tokenCost
+      })
+      .returning();
+
+    settled = await commitReservation(reservationId, { completedStages: ['image_edited'] });
+  } catch (error) {
+    // The edit can't be handed back, so don't leave its tokens held
+    await releaseReservation(reservationId, 0, {
+      completedStages: ['image_edited'],
+      error: error instanceof Error ? error.message : String(error)
+    }).catch(releaseError => logger.error('Failed to release token reservation', { reservationId, requestId, releaseError }));
+    throw error;
+  }
+
+  logger.info('Image edited', { editId: edit.id, userId, ...parent });
+  return {
+    edit,
+    tokensUsed: tokenCost,
+    tokensLeft: settled?.balance ?? await getTokenBalance(userId)
+  };
+}
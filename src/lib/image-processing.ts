@@ -0,0 +1,289 @@
+/**
+ * Image Processing
+ *
+ * Server-side pixel work (resizing, masks, format conversion) with sharp.
+ * Images are passed around as URLs; data URLs are decoded in place and
+ * remote URLs are fetched, unless they point at a private network.
+ */
+
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { isIP, isIPv4, type LookupFunction } from 'net';
+import sharp from 'sharp';
+import { ApiError } from './api-error';
+
+// Square canvas size the image edit model works on
+export const EDIT_CANVAS_SIZE = 1024;
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+const OPAQUE_BLACK = { r: 0, g: 0, b: 0, alpha: 1 };
+
+// Largest aspect ratio change that is cropped; bigger changes are padded so
+// the product is not cut off
+const MAX_CROP_RATIO = 1.25;
+
+// Blur applied to the stretched copy of an image used to extend its background
+const BACKGROUND_EXTENSION_BLUR = 40;
+
+// Largest image loadImageBuffer will read, from a data URL or over the network
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_FETCH_TIMEOUT_MS = 30000;
+const MAX_IMAGE_REDIRECTS = 3;
+
+// Loopback, private, shared, link-local (which holds the cloud metadata
+// service), multicast and reserved addresses are never fetched
+function isNonPublicAddress(address: string): boolean {
+  if (isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+
+  const normalized = address.toLowerCase();
+  if (normalized.startsWith('::ffff:')) {
+    // IPv4-mapped; the hex form is rejected outright
+    const mapped = normalized.slice('::ffff:'.length);
+    return !isIPv4(mapped) || isNonPublicAddress(mapped);
+  }
+  return normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+}
+
+// Resolve a URL's host once, throwing ApiError (400) unless it is http(s) and
+// every address it resolves to is public. Requests connect to the returned
+// address, so the host can't be re-pointed between the check and the fetch.
+async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ApiError('Image URLs must use http or https', 400);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const family = isIP(hostname);
+  const addresses: LookupAddress[] = family
+    ? [{ address: hostname, family }]
+    : await lookup(hostname, { all: true }).catch(() => []);
+
+  if (addresses.length === 0) {
+    throw new ApiError(`Image host not found: ${hostname}`, 400);
+  }
+  if (addresses.some(entry => isNonPublicAddress(entry.address))) {
+    throw new ApiError('Image URL points to a private address', 400);
+  }
+  return addresses[0];
+}
+
+// GET a URL from an already checked address instead of resolving its host again
+function requestPinned(url: URL, pinned: LookupAddress, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    client.get(url, { lookup: pinnedLookup, signal }, resolve).on('error', reject);
+  });
+}
+
+// Read a response body, stopping as soon as it passes MAX_IMAGE_BYTES
+async function readImageBody(response: IncomingMessage): Promise<Buffer> {
+  if (Number(response.headers['content-length']) > MAX_IMAGE_BYTES) {
+    response.destroy();
+    throw new ApiError('Image is too large', 400);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of response) {
+    received += chunk.length;
+    if (received > MAX_IMAGE_BYTES) {
+      response.destroy();
+      throw new ApiError('Image is too large', 400);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function parseImageUrl(url: string): URL {
+  try {
+    return new URL(url);
+  } catch {
+    throw new ApiError('Invalid image URL', 400);
+  }
+}
+
+/**
+ * Throws ApiError (400) unless loadImageBuffer may fetch the URL, so work that
+ * costs tokens can reject it before charging. Redirects are only checked
+ * when the image is loaded.
+ */
+export async function assertLoadableImageUrl(url: string): Promise<void> {
+  if (!url.startsWith('data:')) {
+    await resolvePublicAddress(parseImageUrl(url));
+  }
+}
+
+/**
+ * Load the bytes of an image from a data URL or a public remote URL (at most
+ * MAX_IMAGE_BYTES). Throws ApiError (400) for URLs that may not be fetched.
+ */
+export async function loadImageBuffer(url: string): Promise<Buffer> {
+  if (url.startsWith('data:')) {
+    const separator = url.indexOf(',');
+    const isBase64 = url.slice(0, separator).endsWith(';base64');
+    const payload = url.slice(separator + 1);
+    const buffer = isBase64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload));
+    if (buffer.length > MAX_IMAGE_BYTES) {
+      throw new ApiError('Image is too large', 400);
+    }
+    return buffer;
+  }
+
+  // Redirects are followed by hand so every hop is checked and pinned
+  const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS);
+  let target = parseImageUrl(url);
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestPinned(target, await resolvePublicAddress(target), signal);
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      if (redirects >= MAX_IMAGE_REDIRECTS) {
+        throw new ApiError('Image URL redirects too many times', 400);
+      }
+      target = new URL(location, target);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Failed to fetch image: ${status}`);
+    }
+    return readImageBody(response);
+  }
+}
+
+export function toDataUrl(buffer: Buffer, mimeType: string = 'image/png'): string {
+  return `data:${mimeType};base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * Convert an image and optional mask into the square RGBA PNGs the edit model
+ * expects. Transparent mask pixels mark the area to repaint; without a mask
+ * the whole image may be reworked. The source dimensions are returned so the
+ * result can be restored with restoreEditedImage.
+ */
+export async function prepareEditImages(
+  imageUrl: string,
+  maskUrl?: string
+): Promise<{ imageUrl: string; maskUrl: string; width: number; height: number }> {
+  const source = await loadImageBuffer(imageUrl);
+  const { width = EDIT_CANVAS_SIZE, height = EDIT_CANVAS_SIZE } = await sharp(source).metadata();
+
+  const image = await sharp(source)
+    .resize(EDIT_CANVAS_SIZE, EDIT_CANVAS_SIZE, { fit: 'contain', background: TRANSPARENT })
+    .ensureAlpha()
+    .png()
+    .toBuffer();
+
+  // Letterbox padding in the mask stays opaque so only the painted area changes
+  const mask = maskUrl
+    ? await sharp(await loadImageBuffer(maskUrl))
+      .resize(EDIT_CANVAS_SIZE, EDIT_CANVAS_SIZE, { fit: 'contain', background: OPAQUE_BLACK })
+      .ensureAlpha()
+      .png()
+      .toBuffer()
+    : await sharp({
+      create: { width: EDIT_CANVAS_SIZE, height: EDIT_CANVAS_SIZE, channels: 4, background: TRANSPARENT }
+    })
+      .png()
+      .toBuffer();
+
+  return {
+    imageUrl: toDataUrl(image),
+    maskUrl: toDataUrl(mask),
+    width,
+    height
+  };
+}
+
+/**
+ * Resize an image to exact pixel dimensions. Small aspect ratio changes are
+ * cropped around the most interesting region; larger ones keep the whole
+ * image and extend its background with a blurred, stretched copy of itself.
+ */
+export async function fitImageToSize(
+  buffer: Buffer,
+  width: number,
+  height: number
+): Promise<{ buffer: Buffer; mode: 'crop' | 'pad' }> {
+  const image = sharp(buffer);
+  const metadata = await image.metadata();
+  const sourceRatio = (metadata.width || width) / (metadata.height || height);
+  const targetRatio = width / height;
+  const ratioChange = Math.max(sourceRatio, targetRatio) / Math.min(sourceRatio, targetRatio);
+
+  if (ratioChange <= MAX_CROP_RATIO) {
+    const cropped = await image
+      .resize(width, height, { fit: 'cover', position: sharp.strategy.attention })
+      .png()
+      .toBuffer();
+    return { buffer: cropped, mode: 'crop' };
+  }
+
+  const [background, foreground] = await Promise.all([
+    sharp(buffer)
+      .resize(width, height, { fit: 'cover' })
+      .blur(BACKGROUND_EXTENSION_BLUR)
+      .toBuffer(),
+    sharp(buffer)
+      .resize(width, height, { fit: 'inside' })
+      .toBuffer()
+  ]);
+  const padded = await sharp(background)
+    .composite([{ input: foreground, gravity: 'center' }])
+    .png()
+    .toBuffer();
+  return { buffer: padded, mode: 'pad' };
+}
+
+/**
+ * Undo the letterboxing of prepareEditImages: cut the original image's area
+ * out of the square edit result and scale it back to the source dimensions
+ */
+export async function restoreEditedImage(
+  editedBuffer: Buffer,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  const scale = EDIT_CANVAS_SIZE / Math.max(width, height);
+  const regionWidth = Math.min(EDIT_CANVAS_SIZE, Math.round(width * scale));
+  const regionHeight = Math.min(EDIT_CANVAS_SIZE, Math.round(height * scale));
+
+  // sharp applies one resize per pipeline, so normalize the canvas first
+  const canvas = await sharp(editedBuffer)
+    .resize(EDIT_CANVAS_SIZE, EDIT_CANVAS_SIZE, { fit: 'fill' })
+    .toBuffer();
+
+  return sharp(canvas)
+    .extract({
+      left: Math.floor((EDIT_CANVAS_SIZE - regionWidth) / 2),
+      top: Math.floor((EDIT_CANVAS_SIZE - regionHeight) / 2),
+      width: regionWidth,
+      height: regionHeight
+    })
+    .resize(width, height, { fit: 'fill' })
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,30 @@
+import type { NotificationView } from './notifications';
+
+// Response body of the notifications route, throwing with the server's message on failure
+async function readNotificationResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * The user's unread account notifications, newest first
+ */
+export async function fetchUnreadNotifications(userId: string): Promise<NotificationView[]> {
+  const response = await fetch(`/api/notifications?userId=${encodeURIComponent(userId)}&unread=true`);
+  const data = await readNotificationResponse<{ notifications: NotificationView[] }>(response, 'Failed to load notifications');
+  return data.notifications;
+}
+
+export async function markNotificationsRead(userId: string, ids: string[]): Promise<void> {
+  const response = await fetch('/api/notifications', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ userId, ids }),
+  });
+  await readNotificationResponse<{ updated: number }>(response, 'Failed to update notifications');
+}
@@ -0,0 +1,88 @@
+/**
+ * User Notifications
+ *
+ * Account messages the app shows the user on their next visit: refunds,
+ * disputes and expired checkouts. Billing code writes them inside its own
+ * transaction, so a notice exists exactly when its change was committed.
+ */
+
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { notifications, type UserNotification } from '@/lib/db/schema';
+import type { LedgerTransaction } from '@/lib/token-ledger';
+
+export type NotificationKind =
+  | 'refund'
+  | 'dispute_opened'
+  | 'dispute_closed'
+  | 'checkout_expired';
+
+export const MAX_NOTIFICATIONS = 50;
+
+export interface NotificationView {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  referenceId: string | null;
+  read: boolean;
+  createdAt: string;
+}
+
+export interface NewNotice {
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  referenceId?: string;
+}
+
+export function toNotificationView(notification: UserNotification): NotificationView {
+  return {
+    id: notification.id,
+    kind: notification.kind as NotificationKind,
+    title: notification.title,
+    message: notification.message,
+    referenceId: notification.referenceId,
+    read: Boolean(notification.readAt),
+    createdAt: notification.createdAt.toISOString()
+  };
+}
+
+/**
+ * Leave a message for the user; given `tx`, it commits with the caller's writes
+ */
+export async function notifyUser(userId: string, notice: NewNotice, tx?: LedgerTransaction): Promise<void> {
+  await (tx ?? db).insert(notifications).values({ userId, ...notice });
+}
+
+/**
+ * A user's notifications, newest first
+ */
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<UserNotification[]> {
+  return db.select()
+    .from(notifications)
+    .where(options.unreadOnly
+      ? and(eq(notifications.userId, userId), isNull(notifications.readAt))
+      : eq(notifications.userId, userId))
+    .orderBy(desc(notifications.createdAt))
+    .limit(options.limit ?? MAX_NOTIFICATIONS);
+}
+
+/**
+ * Mark the given notifications (or all of them) read; returns how many changed
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const updated = await db.update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(notifications.userId, userId),
+      isNull(notifications.readAt),
+      ids ? inArray(notifications.id, ids) : undefined
+    ))
+    .returning({ id: notifications.id });
+
+  return updated.length;
+}
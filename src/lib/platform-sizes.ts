@@ -0,0 +1,104 @@
+/**
+ * Platform Sizes
+ *
+ * Exact pixel dimensions of each social platform placement. Shared by the
+ * client (placement picker, token estimate) and the server, which renders at
+ * the closest supported generation size and then crops or pads the result to
+ * these dimensions.
+ */
+
+export type SocialPlatform = 'instagram' | 'facebook' | 'linkedin' | 'twitter';
+
+export interface PlatformSize {
+  width: number;
+  height: number;
+  type: 'post' | 'story' | 'ad' | 'carousel';
+}
+
+export const PLATFORM_SIZES: Record<SocialPlatform, Record<string, PlatformSize>> = {
+  instagram: {
+    post: { width: 1080, height: 1080, type: 'post' },
+    story: { width: 1080, height: 1920, type: 'story' },
+    ad_story: { width: 1080, height: 1920, type: 'ad' },
+    ad_landscape: { width: 1080, height: 566, type: 'ad' },
+    ad_square: { width: 1080, height: 1080, type: 'ad' }
+  },
+  facebook: {
+    post: { width: 1200, height: 630, type: 'post' },
+    ad: { width: 1080, height: 1080, type: 'ad' },
+    video: { width: 1280, height: 720, type: 'post' }
+  },
+  linkedin: {
+    post: { width: 1200, height: 627, type: 'post' },
+    story: { width: 1080, height: 1920, type: 'story' },
+    carousel: { width: 1080, height: 1080, type: 'carousel' }
+  },
+  twitter: {
+    tweet: { width: 1600, height: 900, type: 'post' },
+    ad_square: { width: 720, height: 720, type: 'ad' },
+    ad_landscape: { width: 1280, height: 720, type: 'ad' }
+  }
+};
+
+// A platform and one of its placements, e.g. { platform: 'instagram', placement: 'story' }
+export interface PlatformPlacement {
+  platform: SocialPlatform;
+  placement: string;
+}
+
+// A placement with its resolved dimensions
+export interface PlacementSize extends PlatformPlacement, PlatformSize {}
+
+export function getPlacementSize(platform: string, placement: string): PlacementSize | null {
+  const size = (PLATFORM_SIZES as Record<string, Record<string, PlatformSize> | undefined>)[platform]?.[placement];
+  return size ? { platform: platform as SocialPlatform, placement, ...size } : null;
+}
+
+// Human-readable placement name, e.g. "Instagram ad landscape (1080×566)"
+export function formatPlacement(size: PlacementSize): string {
+  const platform = size.platform.charAt(0).toUpperCase() + size.platform.slice(1);
+  return `${platform} ${size.placement.replace(/_/g, ' ')} (${size.width}×${size.height})`;
+}
+
+/**
+ * Detect the platform and placement a prompt is asking for
+ */
+export function detectPlatformAndSize(prompt: string): PlacementSize | null {
+  const promptLower = prompt.toLowerCase();
+
+  // Platform detection
+  let platform: SocialPlatform | null = null;
+  if (promptLower.includes('instagram') || promptLower.includes('ig')) platform = 'instagram';
+  else if (promptLower.includes('facebook') || promptLower.includes('fb')) platform = 'facebook';
+  else if (promptLower.includes('linkedin')) platform = 'linkedin';
+  else if (promptLower.includes('twitter') || promptLower.includes('x.com')) platform = 'twitter';
+
+  if (!platform) return null;
+
+  // Content type detection
+  const isStory = promptLower.includes('story') || promptLower.includes('stories');
+  const isAd = promptLower.includes('ad') || promptLower.includes('advertisement');
+  const isCarousel = promptLower.includes('carousel') || promptLower.includes('swipe');
+  const isLandscape = promptLower.includes('landscape') || promptLower.includes('horizontal');
+
+  // Determine the appropriate placement based on platform and content type
+  let placement: string;
+  if (platform === 'instagram') {
+    if (isStory) placement = 'story';
+    else if (isAd && isLandscape) placement = 'ad_landscape';
+    else if (isAd) placement = 'ad_square';
+    else placement = 'post'; // Default to square post
+  } else if (platform === 'facebook') {
+    placement = isAd ? 'ad' : 'post';
+  } else if (platform === 'linkedin') {
+    if (isStory) placement = 'story';
+    else if (isCarousel) placement = 'carousel';
+    else placement = 'post';
+  } else {
+    if (isAd && !isLandscape) placement = 'ad_square';
+    else if (isAd) placement = 'ad_landscape';
+    else placement = 'tweet';
+  }
+
+  return getPlacementSize(platform, placement);
+}
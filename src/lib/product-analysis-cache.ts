@@ -0,0 +1,44 @@
+/**
+ * Product Analysis Cache
+ *
+ * Stores product image analyses in `product_analyses` under a SHA-256 of the
+ * image bytes, so generating several ads for the same product photo only
+ * calls the vision model once.
+ */
+
+import { createHash } from 'crypto';
+import { eq, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { productAnalyses, type ProductAnalysis } from '@/lib/db/schema';
+
+export function hashImage(image: Buffer): string {
+  return createHash('sha256').update(image).digest('hex');
+}
+
+/**
+ * The cached analysis for an image hash, counting the hit
+ */
+export async function getCachedProductAnalysis(imageHash: string): Promise<ProductAnalysis | null> {
+  const [entry] = await db.update(productAnalyses)
+    .set({
+      hitCount: sql`${productAnalyses.hitCount} + 1`,
+      lastUsedAt: new Date()
+    })
+    .where(eq(productAnalyses.imageHash, imageHash))
+    .returning();
+
+  return entry ?? null;
+}
+
+/**
+ * Store a fresh analysis; a concurrent generation may already have stored one, which wins
+ */
+export async function cacheProductAnalysis(
+  imageHash: string,
+  analysis: Record<string, unknown>,
+  tokenUsage: number
+): Promise<void> {
+  await db.insert(productAnalyses)
+    .values({ imageHash, analysis, tokenUsage })
+    .onConflictDoNothing();
+}
@@ -3,31 +3,20 @@
 import { db } from '@/lib/db';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { STRIPE_PRICE_IDS } from '@/lib/env';
 import type { TokenPackage } from './stripe/constants';
-import { encrypt } from '@/lib/crypto';
-
-// MCP Stripe function declarations
-declare function mcp_stripe_create_customer(params: {
-  name: string;
-  email?: string;
-}): Promise<{ id: string }>;
-
-declare function mcp_stripe_create_payment_link(params: {
-  price: string;
-  quantity: number;
-}): Promise<{ url: string }>;
-
-declare function mcp_stripe_list_payment_intents(params: {
-  customer?: string;
-  limit?: number;
-}): Promise<{
-  data: Array<{
-    id: string;
-    amount: number;
-    status: string;
-    created: number;
-  }>;
-}>;
+import { getStripe } from './stripe/client';
+
+// A Checkout Session as seen by the success page
+export interface VerifiedCheckoutSession {
+  sessionId: string;
+  paid: boolean;
+  userId: string | null;
+  packageId: string | null;
+  amountTotal: number | null;
+}
 
 // Server-side functions only
 export async function createOrRetrieveCustomer(userId: string, email: string, name: string) {
@@ -38,9 +27,10 @@ export async function createOrRetrieveCustomer(userId: string, email: string, na
       return user.stripeCustomerId;
     }
 
-    const customer = await mcp_stripe_create_customer({
+    const customer = await getStripe().customers.create({
       name,
       email,
+      metadata: { userId }
     });
 
     await db.update(users)
@@ -54,6 +44,12 @@ export async function createOrRetrieveCustomer(userId: string, email: string, na
   }
 }
 
+/**
+ * Create a Checkout Session for a token package and return its URL. The
+ * session (and its payment) carry `userId` and `packageId` metadata, which
+ * the webhook uses to credit the tokens. `successUrl` may include
+ * `{CHECKOUT_SESSION_ID}` for the success page to verify.
+ */
 export async function createCheckoutSession(
   email: string,
   successUrl: string,
@@ -63,51 +59,78 @@ export async function createCheckoutSession(
   packageDetails: TokenPackage
 ) {
   try {
-    const customerId = await createOrRetrieveCustomer(userId, email, email);
-    
     if (!packageDetails) {
       throw new Error('Invalid package selected');
     }
 
-    // Encrypt session parameters
-    const encryptedParams = encrypt(JSON.stringify({
-      session_id: '{CHECKOUT_SESSION_ID}',
-      package: packageId
-    }));
-    
-    const secureSuccessUrl = `${successUrl.split('?')[0]}?data=${encryptedParams}`;
+    const customerId = await createOrRetrieveCustomer(userId, email, email);
+    const metadata = { userId, packageId };
 
-    const paymentLink = await mcp_stripe_create_payment_link({
-      price: packageDetails.priceId,
-      quantity: 1
+    const session = await getStripe().checkout.sessions.create({
+      mode: 'payment',
+      customer: customerId,
+      client_reference_id: userId,
+      line_items: [{
+        // Deployments can point packages at their own prices
+        price: STRIPE_PRICE_IDS[packageId as keyof typeof STRIPE_PRICE_IDS] || packageDetails.priceId,
+        quantity: 1
+      }],
+      metadata,
+      payment_intent_data: { metadata },
+      success_url: successUrl,
+      cancel_url: cancelUrl
     });
 
-    return paymentLink.url;
+    return session.url;
   } catch (error) {
     console.error('Error creating checkout session:', error);
     return null;
   }
 }
 
-export async function verifyPayment(sessionId: string): Promise<boolean> {
+/**
+ * Look up a Checkout Session by ID. Returns null when Stripe doesn't know it.
+ */
+export async function verifyCheckoutSession(sessionId: string): Promise<VerifiedCheckoutSession | null> {
   try {
-    const payments = await mcp_stripe_list_payment_intents({
-      limit: 1
-    });
-
-    return payments.data.some(payment => 
-      payment.id === sessionId && payment.status === 'succeeded'
-    );
+    const session = await getStripe().checkout.sessions.retrieve(sessionId);
+
+    return {
+      sessionId: session.id,
+      paid: session.payment_status === 'paid' || session.payment_status === 'no_payment_required',
+      userId: session.metadata?.userId ?? session.client_reference_id ?? null,
+      packageId: session.metadata?.packageId ?? null,
+      amountTotal: session.amount_total
+    };
   } catch (error) {
-    console.error('Error verifying payment:', error);
-    return false;
+    console.error('Error verifying checkout session:', error);
+    return null;
   }
 }
 
-export async function getPaymentHistory(customerId: string) {
+/**
+ * The signed-in user's 10 most recent payments. This is a server action, so
+ * the Stripe customer comes from the session's user, never from the caller.
+ * Empty without a verified session or a Stripe customer.
+ */
+export async function getPaymentHistory() {
   try {
-    const paymentIntents = await mcp_stripe_list_payment_intents({
-      customer: customerId,
+    const supabase = createClient(await cookies());
+    const { data: { user: sessionUser } } = await supabase.auth.getUser();
+    if (!sessionUser) {
+      return [];
+    }
+
+    const [user] = await db.select({ stripeCustomerId: users.stripeCustomerId })
+      .from(users)
+      .where(eq(users.id, sessionUser.id))
+      .limit(1);
+    if (!user?.stripeCustomerId) {
+      return [];
+    }
+
+    const paymentIntents = await getStripe().paymentIntents.list({
+      customer: user.stripeCustomerId,
       limit: 10
     });
 
@@ -121,4 +144,4 @@ export async function getPaymentHistory(customerId: string) {
     console.error('Error fetching payment history:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import Stripe from 'stripe';
+
+// Single Stripe client per server process
+let stripe: Stripe | null = null;
+
+// Where requests go when STRIPE_API_BASE_URL is set (e.g. a local stripe-mock)
+function apiHostConfig(baseUrl: string | undefined): Pick<Stripe.StripeConfig, 'host' | 'port' | 'protocol'> {
+  if (!baseUrl) {
+    return {};
+  }
+
+  const url = new URL(baseUrl);
+  const protocol = url.protocol === 'http:' ? 'http' : 'https';
+  return {
+    host: url.hostname,
+    port: url.port || (protocol === 'http' ? 80 : 443),
+    protocol
+  };
+}
+
+/**
+ * The server's Stripe client, configured from STRIPE_SECRET_KEY and, for
+ * tests, STRIPE_API_BASE_URL
+ */
+export function getStripe(): Stripe {
+  if (!stripe) {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error('STRIPE_SECRET_KEY is not configured');
+    }
+
+    stripe = new Stripe(secretKey, {
+      apiVersion: '2024-04-10',
+      ...apiHostConfig(process.env.STRIPE_API_BASE_URL)
+    });
+  }
+  return stripe;
+}
@@ -46,4 +46,60 @@ export const TOKEN_PACKAGES = {
     tier: 'Overlord' as const,
     priceId: 'price_1R8eFgBfSVCq5UYnbCgskl2Y'
   }
-} as const; 
\ No newline at end of file
+} as const;
+
+export type SubscriptionPlan = {
+  id: string;
+  name: string;
+  tier: TokenPackage['tier'];
+  monthlyTokens: number;
+  price: number; // USD per month
+  rolloverLimit: number; // Most unused allowance carried into the next month
+  rank: number; // Orders plans for upgrades and downgrades
+};
+
+// Monthly plans; each renewal grants the allowance as tokens that expire at the end of the month
+export const SUBSCRIPTION_PLANS = {
+  pioneer: {
+    id: 'pioneer',
+    name: 'Pioneer Plan',
+    monthlyTokens: 150000,
+    price: 6,
+    tier: 'Pioneer' as const,
+    rolloverLimit: 0,
+    rank: 1
+  },
+  voyager: {
+    id: 'voyager',
+    name: 'Voyager Plan',
+    monthlyTokens: 400000,
+    price: 14,
+    tier: 'Voyager' as const,
+    rolloverLimit: 100000,
+    rank: 2
+  },
+  dominator: {
+    id: 'dominator',
+    name: 'Dominator Plan',
+    monthlyTokens: 1000000,
+    price: 29,
+    tier: 'Dominator' as const,
+    rolloverLimit: 500000,
+    rank: 3
+  },
+  overlord: {
+    id: 'overlord',
+    name: 'Overlord Plan',
+    monthlyTokens: 2500000,
+    price: 59,
+    tier: 'Overlord' as const,
+    rolloverLimit: 2500000,
+    rank: 4
+  }
+} as const;
+
+export type SubscriptionPlanId = keyof typeof SUBSCRIPTION_PLANS;
+
+export function getSubscriptionPlan(planId: string | null | undefined): SubscriptionPlan | null {
+  return planId && Object.hasOwn(SUBSCRIPTION_PLANS, planId) ? SUBSCRIPTION_PLANS[planId as SubscriptionPlanId] : null;
+}
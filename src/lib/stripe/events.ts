@@ -0,0 +1,617 @@
+/**
+ * Stripe Events
+ *
+ * Every verified webhook event is stored in `stripe_events` before it is
+ * applied, and applied inside one transaction that locks its row, so Stripe's
+ * retries and duplicate deliveries are recognized and skipped. Token credits
+ * go through the ledger keyed by the purchase, which makes re-processing a
+ * stored event (the support replay) safe as well: it can fix up a failed
+ * purchase but never credits one twice.
+ *
+ * Refunds and lost disputes take back the unspent share of a purchase's
+ * tokens. An open dispute freezes the user's generations until it closes.
+ * Each of these changes is recorded in the transaction's history and the
+ * user is notified.
+ *
+ * Subscription invoices and subscription changes are applied by
+ * ./subscriptions; their Checkout Sessions and payment intents are ignored
+ * here.
+ */
+
+import { and, desc, eq, isNull, ne, sql } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import { db } from '@/lib/db';
+import { stripeEvents, transactions, users, type StripeEvent, type Transaction } from '@/lib/db/schema';
+import { clawBackTokens, creditTokensOnce, type LedgerTransaction } from '@/lib/token-ledger';
+import { notifyUser } from '@/lib/notifications';
+import logger from '@/lib/logger';
+import { TOKEN_PACKAGES, type TokenPackage } from './constants';
+import { handleInvoicePaid, handleSubscriptionChanged } from './subscriptions';
+import { findTransactionForPayment, historyEntry, recordTransactionStatus } from './transactions';
+
+// Dispute statuses after which the dispute is over
+const CLOSED_DISPUTE_STATUSES = ['won', 'lost', 'warning_closed'];
+
+export type StripeEventStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+export const STRIPE_EVENT_STATUSES: StripeEventStatus[] = ['received', 'processed', 'ignored', 'failed'];
+
+// Client-facing view of a stored event (the payload is left out, it can hold customer details)
+export interface StripeEventView {
+  id: string;
+  type: string;
+  status: StripeEventStatus;
+  attempts: number;
+  lastError: string | null;
+  receivedAt: string;
+  processedAt: string | null;
+  replayedAt: string | null;
+}
+
+/**
+ * An event that can't be applied as sent (missing metadata, an unknown
+ * package or user). Retrying the same data won't help; it is recorded as
+ * failed so support can fix the cause and replay it.
+ */
+export class StripeEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StripeEventError';
+  }
+}
+
+export interface ProcessedStripeEvent {
+  event: StripeEvent;
+  // True when the event had already been applied and nothing was done
+  duplicate: boolean;
+}
+
+export function toStripeEventView(event: StripeEvent): StripeEventView {
+  return {
+    id: event.id,
+    type: event.type,
+    status: event.status as StripeEventStatus,
+    attempts: event.attempts,
+    lastError: event.lastError,
+    receivedAt: event.receivedAt.toISOString(),
+    processedAt: event.processedAt ? event.processedAt.toISOString() : null,
+    replayedAt: event.replayedAt ? event.replayedAt.toISOString() : null
+  };
+}
+
+/**
+ * Store a verified event. A redelivered event keeps its original row.
+ */
+export async function recordStripeEvent(event: Stripe.Event): Promise<void> {
+  await db.insert(stripeEvents)
+    .values({
+      id: event.id,
+      type: event.type,
+      payload: event as unknown as Record<string, unknown>
+    })
+    .onConflictDoNothing({ target: stripeEvents.id });
+}
+
+export async function getStripeEvent(eventId: string): Promise<StripeEvent | null> {
+  const [event] = await db.select()
+    .from(stripeEvents)
+    .where(eq(stripeEvents.id, eventId))
+    .limit(1);
+
+  return event ?? null;
+}
+
+/**
+ * Most recently received events, optionally only those with a given status
+ */
+export async function listStripeEvents(status?: StripeEventStatus, limit: number = 50): Promise<StripeEvent[]> {
+  return db.select()
+    .from(stripeEvents)
+    .where(status ? eq(stripeEvents.status, status) : undefined)
+    .orderBy(desc(stripeEvents.receivedAt))
+    .limit(limit);
+}
+
+function packageFor(packageId: string | undefined): TokenPackage {
+  const packageDetails = packageId ? TOKEN_PACKAGES[packageId as keyof typeof TOKEN_PACKAGES] : undefined;
+  if (!packageDetails) {
+    throw new StripeEventError(`Invalid package ID in metadata: ${packageId ?? 'none'}`);
+  }
+  return packageDetails;
+}
+
+async function requireUser(tx: LedgerTransaction, userId: string): Promise<void> {
+  const [user] = await tx.select({ id: users.id })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    throw new StripeEventError(`User not found: ${userId}`);
+  }
+}
+
+// ID of an expandable Stripe reference
+function idOf(reference: string | { id: string } | null | undefined): string | undefined {
+  return typeof reference === 'string' ? reference : reference?.id;
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+async function requireTransactionForPayment(
+  tx: LedgerTransaction,
+  paymentIntent: string | Stripe.PaymentIntent | null,
+  source: string
+): Promise<Transaction> {
+  const paymentIntentId = idOf(paymentIntent);
+  const transaction = paymentIntentId ? await findTransactionForPayment(tx, paymentIntentId) : null;
+  if (!transaction) {
+    throw new StripeEventError(`No transaction for ${source} (payment ${paymentIntentId ?? 'none'})`);
+  }
+  return transaction;
+}
+
+/**
+ * Take back the tokens bought with the part of a payment that has been
+ * returned. `reversedTotal` is everything returned so far (in cents); only
+ * the part not already handled is clawed back, and only from tokens the user
+ * still has. Returns null when there is nothing new to reverse.
+ */
+async function reversePurchase(
+  tx: LedgerTransaction,
+  transaction: Transaction,
+  reversedTotal: number,
+  paidAmount: number,
+  eventId: string
+): Promise<{ reversedAmount: number; newlyReversed: number; tokensTaken: number; tokensClawedBack: number } | null> {
+  const previouslyReversed = transaction.metadata?.refundedAmount ?? 0;
+  const reversedAmount = Math.min(reversedTotal, paidAmount);
+  const newlyReversed = reversedAmount - previouslyReversed;
+  if (newlyReversed <= 0 || paidAmount <= 0) {
+    return null;
+  }
+
+  // Subscription payments record the tokens they granted; package purchases get the package's
+  const tokensBought = transaction.metadata?.tokens ?? packageFor(transaction.packageId).tokens;
+  const tokensOwed = Math.floor(tokensBought * newlyReversed / paidAmount);
+  const clawedBack = tokensOwed > 0
+    ? await clawBackTokens(transaction.userId, tokensOwed, {
+      reason: 'refund_clawback',
+      referenceId: transaction.id,
+      metadata: { eventId, reversedAmount: newlyReversed, tokensOwed }
+    }, tx)
+    : null;
+
+  const tokensTaken = clawedBack?.amount ?? 0;
+  return {
+    reversedAmount,
+    newlyReversed,
+    tokensTaken,
+    tokensClawedBack: (transaction.metadata?.tokensClawedBack ?? 0) + tokensTaken
+  };
+}
+
+async function handleCheckoutCompleted(tx: LedgerTransaction, session: Stripe.Checkout.Session, eventId: string): Promise<void> {
+  const { metadata } = session;
+  if (!metadata?.userId || !metadata?.packageId) {
+    throw new StripeEventError('Missing metadata in checkout session');
+  }
+
+  const packageDetails = packageFor(metadata.packageId);
+  await requireUser(tx, metadata.userId);
+  const customerId = idOf(session.customer);
+
+  // Checkout transactions are keyed by their session, so a replay finds the same one
+  await tx.insert(transactions)
+    .values({
+      id: session.id,
+      userId: metadata.userId,
+      packageId: metadata.packageId,
+      amount: session.amount_total ?? 0,
+      status: 'completed',
+      provider: 'stripe',
+      metadata: {
+        customerId,
+        sessionId: session.id,
+        paymentIntentId: idOf(session.payment_intent),
+        amount: session.amount_total ?? 0
+      },
+      history: [historyEntry('completed', eventId)]
+    })
+    .onConflictDoNothing({ target: transactions.id });
+
+  await tx.update(users)
+    .set({
+      tier: packageDetails.tier,
+      ...(customerId ? { stripeCustomerId: customerId } : {})
+    })
+    .where(eq(users.id, metadata.userId));
+
+  const credited = await creditTokensOnce(metadata.userId, packageDetails.tokens, {
+    reason: 'purchase',
+    referenceId: session.id,
+    metadata: { packageId: metadata.packageId, sessionId: session.id }
+  }, tx);
+
+  logger.info('Checkout completed', {
+    userId: metadata.userId,
+    packageId: metadata.packageId,
+    amount: session.amount_total,
+    tokens: credited ? packageDetails.tokens : 0,
+    customerId
+  });
+}
+
+async function handlePaymentSuccess(tx: LedgerTransaction, paymentIntent: Stripe.PaymentIntent, eventId: string): Promise<void> {
+  const { metadata } = paymentIntent;
+  if (!metadata?.userId || !metadata?.packageId || !metadata?.transactionId) {
+    throw new StripeEventError('Missing metadata in payment intent');
+  }
+
+  const packageDetails = packageFor(metadata.packageId);
+  await requireUser(tx, metadata.userId);
+  const customerId = idOf(paymentIntent.customer);
+
+  await recordTransactionStatus(tx, metadata.transactionId, historyEntry('completed', eventId), {
+    paymentIntentId: paymentIntent.id,
+    customerId
+  });
+
+  await tx.update(users)
+    .set({ tier: packageDetails.tier })
+    .where(eq(users.id, metadata.userId));
+
+  const credited = await creditTokensOnce(metadata.userId, packageDetails.tokens, {
+    reason: 'purchase',
+    referenceId: metadata.transactionId,
+    metadata: { packageId: metadata.packageId, paymentIntentId: paymentIntent.id }
+  }, tx);
+
+  logger.info('Payment succeeded', {
+    userId: metadata.userId,
+    packageId: metadata.packageId,
+    amount: paymentIntent.amount,
+    tokens: credited ? packageDetails.tokens : 0,
+    customerId
+  });
+}
+
+async function handlePaymentFailure(tx: LedgerTransaction, paymentIntent: Stripe.PaymentIntent, eventId: string): Promise<void> {
+  const transactionId = paymentIntent.metadata?.transactionId;
+  if (!transactionId) {
+    throw new StripeEventError('Missing transaction ID in payment intent');
+  }
+
+  // A late failure notice never overrides a completed payment
+  await recordTransactionStatus(
+    tx,
+    transactionId,
+    historyEntry('failed', eventId, paymentIntent.last_payment_error?.message),
+    {
+      paymentIntentId: paymentIntent.id,
+      error: paymentIntent.last_payment_error?.message
+    },
+    ne(transactions.status, 'completed')
+  );
+
+  logger.info('Payment failed', { transactionId, error: paymentIntent.last_payment_error?.message });
+}
+
+async function handlePaymentActionRequired(tx: LedgerTransaction, paymentIntent: Stripe.PaymentIntent, eventId: string): Promise<void> {
+  const transactionId = paymentIntent.metadata?.transactionId;
+  if (!transactionId) {
+    throw new StripeEventError('Missing transaction ID in payment intent');
+  }
+
+  // Like failures, this never overrides a completed payment
+  await recordTransactionStatus(
+    tx,
+    transactionId,
+    historyEntry('requires_action', eventId, paymentIntent.next_action?.type),
+    {
+      paymentIntentId: paymentIntent.id,
+      action: paymentIntent.next_action?.type
+    },
+    ne(transactions.status, 'completed')
+  );
+
+  logger.info('Payment requires action', { transactionId, action: paymentIntent.next_action?.type });
+}
+
+async function handleChargeRefunded(tx: LedgerTransaction, charge: Stripe.Charge, eventId: string): Promise<void> {
+  const transaction = await requireTransactionForPayment(tx, charge.payment_intent, `refunded charge ${charge.id}`);
+  const reversal = await reversePurchase(tx, transaction, charge.amount_refunded, transaction.amount || charge.amount, eventId);
+  if (!reversal) {
+    logger.info('Refund already applied', { transactionId: transaction.id, chargeId: charge.id });
+    return;
+  }
+
+  const fullyRefunded = charge.refunded || charge.amount_refunded >= charge.amount;
+  const status = fullyRefunded ? 'refunded' : 'partially_refunded';
+  await recordTransactionStatus(
+    tx,
+    transaction.id,
+    historyEntry(status, eventId, `Refunded ${formatCents(reversal.newlyReversed)}, ${reversal.tokensTaken} tokens taken back`),
+    {
+      chargeId: charge.id,
+      refundedAmount: reversal.reversedAmount,
+      tokensClawedBack: reversal.tokensClawedBack
+    }
+  );
+
+  await notifyUser(transaction.userId, {
+    kind: 'refund',
+    title: fullyRefunded ? 'Purchase refunded' : 'Purchase partially refunded',
+    message: `${formatCents(reversal.newlyReversed)} of your payment was refunded. `
+      + (reversal.tokensTaken > 0
+        ? `${reversal.tokensTaken.toLocaleString('en-US')} unused tokens from that purchase were removed from your balance.`
+        : 'No unused tokens from that purchase were left to remove.'),
+    referenceId: transaction.id
+  }, tx);
+
+  logger.info('Charge refunded', {
+    transactionId: transaction.id,
+    userId: transaction.userId,
+    refunded: reversal.newlyReversed,
+    tokens: reversal.tokensTaken
+  });
+}
+
+async function handleDisputeCreated(tx: LedgerTransaction, dispute: Stripe.Dispute, eventId: string): Promise<void> {
+  const transaction = await requireTransactionForPayment(tx, dispute.payment_intent, `dispute ${dispute.id}`);
+  if (transaction.metadata?.disputeId === dispute.id) {
+    logger.info('Dispute already recorded', { transactionId: transaction.id, disputeId: dispute.id });
+    return;
+  }
+
+  await recordTransactionStatus(
+    tx,
+    transaction.id,
+    historyEntry('disputed', eventId, `Dispute ${dispute.id} opened (${dispute.reason})`),
+    {
+      chargeId: idOf(dispute.charge),
+      disputeId: dispute.id,
+      disputeStatus: dispute.status
+    }
+  );
+
+  // Generating stays frozen from the first open dispute until the last one closes
+  await tx.update(users)
+    .set({ generationsFrozenAt: new Date() })
+    .where(and(eq(users.id, transaction.userId), isNull(users.generationsFrozenAt)));
+
+  await notifyUser(transaction.userId, {
+    kind: 'dispute_opened',
+    title: 'Payment disputed',
+    message: `Your payment of ${formatCents(dispute.amount)} was disputed with your bank. `
+      + 'Generating ads is paused until the dispute is resolved.',
+    referenceId: transaction.id
+  }, tx);
+
+  logger.info('Dispute opened', { transactionId: transaction.id, userId: transaction.userId, disputeId: dispute.id });
+}
+
+async function handleDisputeClosed(tx: LedgerTransaction, dispute: Stripe.Dispute, eventId: string): Promise<void> {
+  const transaction = await requireTransactionForPayment(tx, dispute.payment_intent, `dispute ${dispute.id}`);
+  const { metadata } = transaction;
+  if (metadata?.disputeId === dispute.id && CLOSED_DISPUTE_STATUSES.includes(metadata.disputeStatus ?? '')) {
+    logger.info('Dispute closure already recorded', { transactionId: transaction.id, disputeId: dispute.id });
+    return;
+  }
+
+  // A lost dispute returns the disputed amount, so it is handled like a refund
+  const lost = dispute.status === 'lost';
+  const reversal = lost
+    ? await reversePurchase(tx, transaction, (metadata?.refundedAmount ?? 0) + dispute.amount, transaction.amount || dispute.amount, eventId)
+    : null;
+
+  await recordTransactionStatus(
+    tx,
+    transaction.id,
+    historyEntry(
+      lost ? 'dispute_lost' : 'dispute_won',
+      eventId,
+      `Dispute ${dispute.id} closed as ${dispute.status}` + (reversal ? `, ${reversal.tokensTaken} tokens taken back` : '')
+    ),
+    {
+      disputeId: dispute.id,
+      disputeStatus: dispute.status,
+      ...(reversal ? { refundedAmount: reversal.reversedAmount, tokensClawedBack: reversal.tokensClawedBack } : {})
+    }
+  );
+
+  const [openDispute] = await tx.select({ id: transactions.id })
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, transaction.userId),
+      sql`${transactions.metadata}->>'disputeId' is not null`,
+      sql`coalesce(${transactions.metadata}->>'disputeStatus', '') not in ('won', 'lost', 'warning_closed')`
+    ))
+    .limit(1);
+
+  if (!openDispute) {
+    await tx.update(users)
+      .set({ generationsFrozenAt: null })
+      .where(eq(users.id, transaction.userId));
+  }
+
+  const outcome = lost
+    ? `was decided in your favor and ${formatCents(dispute.amount)} was returned to you.`
+      + (reversal?.tokensTaken ? ` ${reversal.tokensTaken.toLocaleString('en-US')} unused tokens from that purchase were removed from your balance.` : '')
+    : 'was closed and your purchase stands.';
+  await notifyUser(transaction.userId, {
+    kind: 'dispute_closed',
+    title: 'Dispute closed',
+    message: `The dispute on your payment ${outcome}` + (openDispute ? '' : ' Generating ads is available again.'),
+    referenceId: transaction.id
+  }, tx);
+
+  logger.info('Dispute closed', {
+    transactionId: transaction.id,
+    userId: transaction.userId,
+    disputeId: dispute.id,
+    status: dispute.status,
+    tokens: reversal?.tokensTaken ?? 0
+  });
+}
+
+async function handleCheckoutExpired(tx: LedgerTransaction, session: Stripe.Checkout.Session, eventId: string): Promise<void> {
+  const { metadata } = session;
+  if (!metadata?.userId || !metadata?.packageId) {
+    throw new StripeEventError('Missing metadata in checkout session');
+  }
+
+  const packageDetails = packageFor(metadata.packageId);
+  await requireUser(tx, metadata.userId);
+
+  // Keyed by the session like completed checkouts, so a replay finds the same row
+  const inserted = await tx.insert(transactions)
+    .values({
+      id: session.id,
+      userId: metadata.userId,
+      packageId: metadata.packageId,
+      amount: session.amount_total ?? 0,
+      status: 'expired',
+      provider: 'stripe',
+      metadata: {
+        customerId: idOf(session.customer),
+        sessionId: session.id
+      },
+      history: [historyEntry('expired', eventId, 'Checkout expired before payment')]
+    })
+    .onConflictDoNothing({ target: transactions.id })
+    .returning({ id: transactions.id });
+
+  if (inserted.length === 0) {
+    return;
+  }
+
+  await notifyUser(metadata.userId, {
+    kind: 'checkout_expired',
+    title: 'Checkout expired',
+    message: `Your checkout for the ${packageDetails.name} expired before payment, so you were not charged. You can start a new purchase any time.`,
+    referenceId: session.id
+  }, tx);
+
+  logger.info('Checkout expired', { userId: metadata.userId, packageId: metadata.packageId, sessionId: session.id });
+}
+
+// Checkout Sessions and subscription invoices create payment intents without a
+// transaction of ours; those payments are applied from checkout.session.completed
+// and invoice.paid instead
+function isAppliedElsewhere(paymentIntent: Stripe.PaymentIntent): boolean {
+  return !paymentIntent.metadata?.transactionId
+    && (Boolean(paymentIntent.metadata?.packageId) || Boolean(paymentIntent.invoice));
+}
+
+// Apply an event's effects; returns false for event types we don't handle
+async function applyStripeEvent(tx: LedgerTransaction, event: Stripe.Event): Promise<boolean> {
+  if (event.type.startsWith('payment_intent.') && isAppliedElsewhere(event.data.object as Stripe.PaymentIntent)) {
+    return false;
+  }
+  if (event.type.startsWith('checkout.session.') && (event.data.object as Stripe.Checkout.Session).mode === 'subscription') {
+    return false;
+  }
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(tx, event.data.object, event.id);
+      return true;
+
+    case 'checkout.session.expired':
+      await handleCheckoutExpired(tx, event.data.object, event.id);
+      return true;
+
+    case 'payment_intent.succeeded':
+      await handlePaymentSuccess(tx, event.data.object, event.id);
+      return true;
+
+    case 'payment_intent.payment_failed':
+      await handlePaymentFailure(tx, event.data.object, event.id);
+      return true;
+
+    case 'payment_intent.requires_action':
+      await handlePaymentActionRequired(tx, event.data.object, event.id);
+      return true;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(tx, event.data.object, event.id);
+      return true;
+
+    case 'charge.dispute.created':
+      await handleDisputeCreated(tx, event.data.object, event.id);
+      return true;
+
+    case 'charge.dispute.closed':
+      await handleDisputeClosed(tx, event.data.object, event.id);
+      return true;
+
+    case 'invoice.paid':
+      return handleInvoicePaid(tx, event.data.object, event.id);
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      return handleSubscriptionChanged(tx, event.data.object);
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply a stored event once. An event that was already processed (or
+ * ignored) is skipped unless `replay` is set. Failures roll back everything
+ * the event wrote, are recorded on the event, and are rethrown.
+ */
+export async function processStripeEvent(
+  eventId: string,
+  options: { replay?: boolean } = {}
+): Promise<ProcessedStripeEvent> {
+  try {
+    return await db.transaction(async (tx) => {
+      // Concurrent deliveries of the same event wait here for the first to finish
+      const [stored] = await tx.select()
+        .from(stripeEvents)
+        .where(eq(stripeEvents.id, eventId))
+        .for('update');
+
+      if (!stored) {
+        throw new StripeEventError(`Stripe event ${eventId} has not been received`);
+      }
+
+      if (!options.replay && (stored.status === 'processed' || stored.status === 'ignored')) {
+        return { event: stored, duplicate: true };
+      }
+
+      const handled = await applyStripeEvent(tx, stored.payload as unknown as Stripe.Event);
+      const [event] = await tx.update(stripeEvents)
+        .set({
+          status: handled ? 'processed' : 'ignored',
+          attempts: stored.attempts + 1,
+          lastError: null,
+          processedAt: new Date(),
+          ...(options.replay ? { replayedAt: new Date() } : {})
+        })
+        .where(eq(stripeEvents.id, eventId))
+        .returning();
+
+      return { event, duplicate: false };
+    });
+  } catch (error) {
+    await db.update(stripeEvents)
+      .set({
+        status: 'failed',
+        attempts: sql`${stripeEvents.attempts} + 1`,
+        lastError: error instanceof Error ? error.message : String(error),
+        ...(options.replay ? { replayedAt: new Date() } : {})
+      })
+      .where(eq(stripeEvents.id, eventId))
+      .catch(recordError => logger.error('Failed to record Stripe event failure', { eventId, recordError }));
+
+    logger.error('Stripe event failed', { eventId, replay: Boolean(options.replay), error });
+    throw error;
+  }
+}
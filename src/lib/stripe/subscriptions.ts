@@ -0,0 +1,423 @@
+/**
+ * Subscriptions
+ *
+ * Monthly plans billed by Stripe subscriptions. Each paid invoice grants the
+ * plan's allowance as a token bucket that expires when the billing period
+ * ends; at renewal up to the plan's rollover limit of what was left is
+ * carried over. Upgrades are charged (prorated) and topped up right away;
+ * downgrades and cancellations take effect at the end of the period. A
+ * downgrade is a Stripe subscription schedule whose second phase switches
+ * the price at renewal; until then the subscription (and its metadata
+ * planId) stays on the plan that was paid for.
+ *
+ * The rows in `subscriptions` follow Stripe through the webhook
+ * (invoice.paid, customer.subscription.*); the functions that call Stripe
+ * here also store what Stripe returns, so the plan screen is current
+ * without waiting for the event.
+ */
+
+import { and, desc, eq, inArray, ne } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import { ApiError } from '@/lib/api-error';
+import { db } from '@/lib/db';
+import { subscriptions, transactions, users, type Subscription } from '@/lib/db/schema';
+import { STRIPE_PLAN_PRICE_IDS } from '@/lib/env';
+import { createOrRetrieveCustomer } from '@/lib/stripe';
+import { grantSubscriptionAllowance, type LedgerTransaction } from '@/lib/token-ledger';
+import logger from '@/lib/logger';
+import { getStripe } from './client';
+import {
+  getSubscriptionPlan,
+  SUBSCRIPTION_PLANS,
+  type SubscriptionPlan,
+  type SubscriptionPlanId,
+  type TokenPackage
+} from './constants';
+import { historyEntry } from './transactions';
+
+// Stripe statuses in which the plan's tier and allowance apply
+const LIVE_SUBSCRIPTION_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+// Tier of an account without a live plan
+const DEFAULT_TIER: TokenPackage['tier'] = 'Pioneer';
+
+export type SubscriptionAction = 'change' | 'cancel' | 'resume';
+
+// Client-facing view of a subscription
+export interface SubscriptionView {
+  id: string;
+  planId: string;
+  status: string;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  scheduledPlanId: string | null;
+}
+
+/**
+ * A subscription request that can't be carried out (unknown or unavailable
+ * plan, nothing to change). `status` is the HTTP status to respond with.
+ */
+export class SubscriptionError extends ApiError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = 'SubscriptionError';
+  }
+}
+
+export function toSubscriptionView(subscription: Subscription): SubscriptionView {
+  return {
+    id: subscription.id,
+    planId: subscription.planId,
+    status: subscription.status,
+    currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
+    cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+    scheduledPlanId: subscription.scheduledPlanId
+  };
+}
+
+// The plan a Stripe price belongs to, if it is one of ours
+function planForPrice(priceId: string | undefined): SubscriptionPlan | null {
+  const planId = Object.keys(STRIPE_PLAN_PRICE_IDS)
+    .find(id => priceId && STRIPE_PLAN_PRICE_IDS[id as SubscriptionPlanId] === priceId);
+  return getSubscriptionPlan(planId);
+}
+
+function requirePlanPrice(planId: string): { plan: SubscriptionPlan; priceId: string } {
+  const plan = getSubscriptionPlan(planId);
+  if (!plan) {
+    throw new SubscriptionError(`planId must be one of ${Object.keys(SUBSCRIPTION_PLANS).join(', ')}`);
+  }
+
+  const priceId = STRIPE_PLAN_PRICE_IDS[plan.id as SubscriptionPlanId];
+  if (!priceId) {
+    throw new SubscriptionError(`The ${plan.name} is not available right now`, 503);
+  }
+  return { plan, priceId };
+}
+
+function idOf(reference: string | { id: string } | null | undefined): string | undefined {
+  return typeof reference === 'string' ? reference : reference?.id;
+}
+
+// Drop a scheduled downgrade; Stripe refuses direct changes to a subscription a schedule manages
+async function releaseSchedule(subscription: Stripe.Subscription): Promise<void> {
+  const scheduleId = idOf(subscription.schedule);
+  if (scheduleId) {
+    await getStripe().subscriptionSchedules.release(scheduleId);
+  }
+}
+
+/**
+ * The user's current subscription (live or ending at period end), or null
+ */
+export async function getCurrentSubscription(userId: string): Promise<Subscription | null> {
+  const [subscription] = await db.select()
+    .from(subscriptions)
+    .where(and(eq(subscriptions.userId, userId), inArray(subscriptions.status, LIVE_SUBSCRIPTION_STATUSES)))
+    .orderBy(desc(subscriptions.createdAt))
+    .limit(1);
+
+  return subscription ?? null;
+}
+
+/**
+ * The user's tier as set by their plan or latest purchase
+ */
+export async function getUserTier(userId: string): Promise<TokenPackage['tier']> {
+  const [row] = await db.select({ tier: users.tier })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return (row?.tier as TokenPackage['tier'] | null) ?? DEFAULT_TIER;
+}
+
+// Upsert our row from a Stripe subscription and bring the user's tier in line
+async function syncSubscription(tx: LedgerTransaction, subscription: Stripe.Subscription): Promise<Subscription | null> {
+  const userId = subscription.metadata?.userId;
+  const plan = planForPrice(subscription.items.data[0]?.price.id) ?? getSubscriptionPlan(subscription.metadata?.planId);
+  if (!userId || !plan) {
+    logger.warn('Subscription without our user or plan, ignoring', { subscriptionId: subscription.id });
+    return null;
+  }
+
+  // Pending only while the schedule that carries it out is attached
+  const scheduled = subscription.schedule ? getSubscriptionPlan(subscription.metadata?.scheduledPlanId) : null;
+
+  const values = {
+    planId: plan.id,
+    scheduledPlanId: scheduled && scheduled.id !== plan.id ? scheduled.id : null,
+    status: subscription.status,
+    currentPeriodStart: new Date(subscription.current_period_start * 1000),
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    canceledAt: subscription.ended_at ? new Date(subscription.ended_at * 1000) : null,
+    updatedAt: new Date()
+  };
+
+  const [row] = await tx.insert(subscriptions)
+    .values({ id: subscription.id, userId, customerId: idOf(subscription.customer) ?? '', ...values })
+    .onConflictDoUpdate({ target: subscriptions.id, set: values })
+    .returning();
+
+  const live = LIVE_SUBSCRIPTION_STATUSES.includes(subscription.status);
+  if (live) {
+    await tx.update(users)
+      .set({ tier: plan.tier })
+      .where(eq(users.id, userId));
+  } else {
+    // Back to the default tier, unless another plan is still live
+    const [other] = await tx.select({ id: subscriptions.id })
+      .from(subscriptions)
+      .where(and(
+        eq(subscriptions.userId, userId),
+        ne(subscriptions.id, subscription.id),
+        inArray(subscriptions.status, LIVE_SUBSCRIPTION_STATUSES)
+      ))
+      .limit(1);
+
+    if (!other) {
+      await tx.update(users)
+        .set({ tier: DEFAULT_TIER })
+        .where(eq(users.id, userId));
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Start a Checkout Session for a new subscription and return its URL
+ */
+export async function createSubscriptionCheckout(
+  userId: string,
+  email: string,
+  planId: string,
+  successUrl: string,
+  cancelUrl: string
+): Promise<string> {
+  const { plan, priceId } = requirePlanPrice(planId);
+  if (await getCurrentSubscription(userId)) {
+    throw new SubscriptionError('You already have a plan; change it instead', 409);
+  }
+
+  const customerId = await createOrRetrieveCustomer(userId, email, email);
+  const metadata = { userId, planId: plan.id };
+  const session = await getStripe().checkout.sessions.create({
+    mode: 'subscription',
+    customer: customerId,
+    client_reference_id: userId,
+    line_items: [{ price: priceId, quantity: 1 }],
+    metadata,
+    subscription_data: { metadata },
+    success_url: successUrl,
+    cancel_url: cancelUrl
+  });
+
+  if (!session.url) {
+    throw new Error('Stripe returned a Checkout Session without a URL');
+  }
+  return session.url;
+}
+
+/**
+ * Move a subscription to another plan. Upgrades are charged now, prorated,
+ * and their extra allowance granted when that invoice is paid. Downgrades
+ * are scheduled for the end of the period, so the plan paid for lasts until
+ * then; choosing the current plan again calls a scheduled downgrade off.
+ */
+export async function changeSubscriptionPlan(subscription: Subscription, planId: string): Promise<Subscription> {
+  const { plan, priceId } = requirePlanPrice(planId);
+  const current = getSubscriptionPlan(subscription.planId);
+  if (current?.id === plan.id && !subscription.scheduledPlanId) {
+    throw new SubscriptionError(`You are already on the ${plan.name}`, 409);
+  }
+
+  const stripe = getStripe();
+  const existing = await stripe.subscriptions.retrieve(subscription.id);
+  await releaseSchedule(existing);
+
+  const upgrade = !current || plan.rank > current.rank;
+  if (current?.id === plan.id || upgrade) {
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      ...(upgrade ? { items: [{ id: existing.items.data[0].id, price: priceId }], proration_behavior: 'always_invoice' } : {}),
+      cancel_at_period_end: false,
+      metadata: { ...existing.metadata, planId: plan.id, scheduledPlanId: '' }
+    });
+
+    logger.info(upgrade ? 'Subscription plan changed' : 'Scheduled downgrade called off', {
+      subscriptionId: subscription.id,
+      from: current?.id,
+      to: plan.id,
+      upgrade
+    });
+    return (await db.transaction(tx => syncSubscription(tx, updated))) ?? subscription;
+  }
+
+  // The current phase keeps the paid-for price and planId to the end of the
+  // period; the next one bills the new plan from renewal, then the schedule
+  // lets the subscription carry on by itself
+  const { metadata } = await stripe.subscriptions.update(subscription.id, {
+    cancel_at_period_end: false,
+    metadata: { ...existing.metadata, scheduledPlanId: plan.id }
+  });
+  const schedule = await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+  const [phase] = schedule.phases;
+  const currentItem = existing.items.data[0];
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'release',
+    phases: [
+      {
+        items: [{ price: currentItem.price.id, quantity: currentItem.quantity ?? 1 }],
+        start_date: phase.start_date,
+        end_date: phase.end_date,
+        metadata
+      },
+      {
+        items: [{ price: priceId, quantity: 1 }],
+        iterations: 1,
+        proration_behavior: 'none',
+        metadata: { ...metadata, planId: plan.id, scheduledPlanId: '' }
+      }
+    ]
+  });
+
+  const updated = await stripe.subscriptions.retrieve(subscription.id);
+  logger.info('Subscription downgrade scheduled', { subscriptionId: subscription.id, from: current?.id, to: plan.id });
+  return (await db.transaction(tx => syncSubscription(tx, updated))) ?? subscription;
+}
+
+/**
+ * Cancel at the end of the current period (`cancel`), or undo that.
+ * Cancelling drops a scheduled downgrade.
+ */
+export async function setSubscriptionCancellation(subscription: Subscription, cancel: boolean): Promise<Subscription> {
+  const stripe = getStripe();
+  let metadata: Stripe.MetadataParam | undefined;
+  if (cancel) {
+    const existing = await stripe.subscriptions.retrieve(subscription.id);
+    await releaseSchedule(existing);
+    metadata = { ...existing.metadata, scheduledPlanId: '' };
+  }
+  const updated = await stripe.subscriptions.update(subscription.id, { cancel_at_period_end: cancel, metadata });
+
+  logger.info(cancel ? 'Subscription set to cancel' : 'Subscription resumed', { subscriptionId: subscription.id });
+  return (await db.transaction(tx => syncSubscription(tx, updated))) ?? subscription;
+}
+
+/**
+ * customer.subscription.created/updated/deleted: mirror the subscription
+ */
+export async function handleSubscriptionChanged(tx: LedgerTransaction, subscription: Stripe.Subscription): Promise<boolean> {
+  return Boolean(await syncSubscription(tx, subscription));
+}
+
+/**
+ * invoice.paid for a subscription: record the payment as a transaction and
+ * grant the allowance it pays for. Returns false for invoices that aren't
+ * for one of our plans.
+ */
+export async function handleInvoicePaid(tx: LedgerTransaction, invoice: Stripe.Invoice, eventId: string): Promise<boolean> {
+  const subscriptionId = idOf(invoice.subscription);
+  // An upgrade's invoice credits the unused time on the old plan (a negative
+  // proration line for its price) before charging the new one, so the plan
+  // is the one being paid for: the subscription's planId (set when the plan
+  // changes), else the price of a line with a positive amount
+  const paidLines = invoice.lines.data.filter(item => item.amount > 0);
+  const line = paidLines.find(item => planForPrice(item.price?.id))
+    ?? invoice.lines.data.find(item => item.type === 'subscription' && item.amount >= 0);
+  const metadata = invoice.subscription_details?.metadata;
+  const plan = getSubscriptionPlan(metadata?.planId) ?? planForPrice(line?.price?.id);
+  const userId = metadata?.userId;
+  if (!subscriptionId || !line || !plan || !userId) {
+    return false;
+  }
+
+  const periodStart = new Date(line.period.start * 1000);
+  const periodEnd = new Date(line.period.end * 1000);
+
+  // The invoice can arrive before the subscription event that creates the row
+  await tx.insert(subscriptions)
+    .values({
+      id: subscriptionId,
+      userId,
+      customerId: idOf(invoice.customer) ?? '',
+      planId: plan.id,
+      status: 'active',
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: periodEnd
+    })
+    .onConflictDoNothing({ target: subscriptions.id });
+
+  const [subscription] = await tx.select()
+    .from(subscriptions)
+    .where(eq(subscriptions.id, subscriptionId))
+    .for('update');
+
+  // A mid-period upgrade tops the allowance up to the new plan's; anything else starts a period
+  const granted = getSubscriptionPlan(subscription.allowancePlanId);
+  const topUp = invoice.billing_reason === 'subscription_update';
+  const allowance = topUp ? plan.monthlyTokens - (granted?.monthlyTokens ?? 0) : plan.monthlyTokens;
+  if (topUp && allowance <= 0) {
+    // Only upgrades are invoiced mid-period, and they always raise the allowance
+    logger.warn('Subscription update invoice grants no tokens', {
+      subscriptionId,
+      invoiceId: invoice.id,
+      planId: plan.id,
+      grantedPlanId: granted?.id
+    });
+  }
+
+  const grant = allowance > 0
+    ? await grantSubscriptionAllowance(userId, allowance, {
+      referenceId: invoice.id,
+      expiresAt: periodEnd,
+      ...(topUp
+        ? { addTo: subscription.allowanceBucketId }
+        : { rolloverFrom: subscription.allowanceBucketId, rolloverLimit: granted?.rolloverLimit ?? 0 }),
+      metadata: { subscriptionId, planId: plan.id, invoiceId: invoice.id }
+    }, tx)
+    : null;
+
+  // Refunds and disputes of the invoice find it by its payment intent
+  await tx.insert(transactions)
+    .values({
+      id: invoice.id,
+      userId,
+      packageId: plan.id,
+      amount: invoice.amount_paid,
+      status: 'completed',
+      provider: 'stripe',
+      description: `${plan.name} (${invoice.billing_reason ?? 'subscription'})`,
+      metadata: {
+        customerId: idOf(invoice.customer),
+        paymentIntentId: idOf(invoice.payment_intent),
+        subscriptionId,
+        amount: invoice.amount_paid,
+        tokens: grant ? allowance + grant.carried : 0
+      },
+      history: [historyEntry('completed', eventId, `${plan.name} invoice paid`)]
+    })
+    .onConflictDoNothing({ target: transactions.id });
+
+  if (grant) {
+    await tx.update(subscriptions)
+      .set({
+        allowancePlanId: plan.id,
+        allowanceBucketId: grant.bucketId,
+        ...(topUp ? {} : { currentPeriodStart: periodStart, currentPeriodEnd: periodEnd }),
+        updatedAt: new Date()
+      })
+      .where(eq(subscriptions.id, subscriptionId));
+  }
+
+  logger.info('Subscription invoice paid', {
+    userId,
+    subscriptionId,
+    planId: plan.id,
+    billingReason: invoice.billing_reason,
+    tokens: grant ? allowance : 0,
+    carried: grant?.carried ?? 0
+  });
+  return true;
+}
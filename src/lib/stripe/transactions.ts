@@ -0,0 +1,71 @@
+/**
+ * Purchase Transactions
+ *
+ * Status changes made by Stripe events. Each change is appended to the
+ * transaction's `history` in the same UPDATE, so the row always carries an
+ * account of how it got to its current status.
+ */
+
+import { and, eq, sql, type SQL } from 'drizzle-orm';
+import { transactions, type Transaction } from '@/lib/db/schema';
+import type { LedgerTransaction } from '@/lib/token-ledger';
+
+export interface TransactionHistoryEntry {
+  status: string;
+  at: string;
+  // The Stripe event that caused the change
+  eventId?: string;
+  note?: string;
+}
+
+export type TransactionMetadata = NonNullable<Transaction['metadata']>;
+
+export function historyEntry(status: string, eventId?: string, note?: string): TransactionHistoryEntry {
+  return {
+    status,
+    at: new Date().toISOString(),
+    ...(eventId ? { eventId } : {}),
+    ...(note ? { note } : {})
+  };
+}
+
+/**
+ * Set a transaction's status, merge `metadata` into what it has, and append
+ * the change to its history. With `onlyIf`, rows not matching it are left
+ * alone; returns the updated row or null.
+ */
+export async function recordTransactionStatus(
+  tx: LedgerTransaction,
+  transactionId: string,
+  entry: TransactionHistoryEntry,
+  metadata: TransactionMetadata = {},
+  onlyIf?: SQL
+): Promise<Transaction | null> {
+  const [transaction] = await tx.update(transactions)
+    .set({
+      status: entry.status,
+      metadata: sql`coalesce(${transactions.metadata}, '{}'::jsonb) || ${JSON.stringify(metadata)}::jsonb`,
+      history: sql`${transactions.history} || ${JSON.stringify([entry])}::jsonb`,
+      updatedAt: new Date()
+    })
+    .where(onlyIf ? and(eq(transactions.id, transactionId), onlyIf) : eq(transactions.id, transactionId))
+    .returning();
+
+  return transaction ?? null;
+}
+
+/**
+ * The transaction paid by a payment intent, locked for the rest of `tx`
+ */
+export async function findTransactionForPayment(
+  tx: LedgerTransaction,
+  paymentIntentId: string
+): Promise<Transaction | null> {
+  const [transaction] = await tx.select()
+    .from(transactions)
+    .where(sql`${transactions.metadata}->>'paymentIntentId' = ${paymentIntentId}`)
+    .limit(1)
+    .for('update');
+
+  return transaction ?? null;
+}
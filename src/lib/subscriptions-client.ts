@@ -0,0 +1,55 @@
+import type { SubscriptionPlan } from './stripe/constants';
+import type { SubscriptionAction, SubscriptionView } from './stripe/subscriptions';
+
+export interface SubscriptionOverview {
+  plans: SubscriptionPlan[];
+  subscription: SubscriptionView | null;
+}
+
+// Response body of the subscriptions route, throwing with the server's message on failure
+async function readSubscriptionResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * The available plans and the user's current subscription
+ */
+export async function fetchSubscription(userId: string): Promise<SubscriptionOverview> {
+  const response = await fetch(`/api/subscriptions?userId=${encodeURIComponent(userId)}`);
+  return readSubscriptionResponse<SubscriptionOverview>(response, 'Failed to load your plan');
+}
+
+/**
+ * Start a subscription; resolves to the Stripe Checkout URL to send the user to
+ */
+export async function startSubscription(userId: string, planId: string): Promise<string> {
+  const response = await fetch('/api/subscriptions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ userId, planId }),
+  });
+  const data = await readSubscriptionResponse<{ url: string }>(response, 'Failed to start subscription');
+  return data.url;
+}
+
+export async function updateSubscription(
+  userId: string,
+  action: SubscriptionAction,
+  planId?: string
+): Promise<SubscriptionView> {
+  const response = await fetch('/api/subscriptions', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ userId, action, planId }),
+  });
+  const data = await readSubscriptionResponse<{ subscription: SubscriptionView }>(response, 'Failed to update subscription');
+  return data.subscription;
+}
@@ -45,35 +45,6 @@ export async function getUserData(userId: string): Promise<UserData | null> {
   return data as UserData;
 }
 
-// Helper function to update user tokens
-export async function updateUserTokens(userId: string, newTokenCount: number): Promise<boolean> {
-  try {
-    // In free mode, store tokens in localStorage
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('dekave_temp_tokens', newTokenCount.toString());
-      return true;
-    }
-    
-    // Commented out Supabase implementation
-    /*
-    const { error } = await supabase
-      .from('users')
-      .update({ tokens: newTokenCount })
-      .eq('id', userId);
-      
-    if (error) {
-      console.error('Error updating user tokens:', error);
-      return false;
-    }
-    */
-    
-    return true;
-  } catch (error) {
-    console.error('Error updating user tokens:', error);
-    return false;
-  }
-}
-
 // Helper function to create a new user
 export async function createUser(
   email: string, 
@@ -119,45 +90,24 @@ export function getIPAddress(req: Request): string {
   return '0.0.0.0';
 }
 
-// Helper function to update user tokens with expiration date
-export async function updateUserTokensWithExpiry(
-  userId: string, 
-  tokens: number, 
-  expirationDate: string
-): Promise<boolean> {
-  const { error } = await supabase
-    .from('users')
-    .update({ 
-      tokens,
-      tokens_expiry_date: expirationDate,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId);
-
-  if (error) {
-    console.error('Error updating user tokens:', error);
-    return false;
-  }
-
-  return true;
-}
-
 /**
  * Get user tokens
+ *
+ * Balances live in the server-side token ledger; the browser only reads them
+ * through /api/tokens and can never set them.
  */
 export async function getUserTokens(userId: string): Promise<number> {
   try {
-    // In free mode, get tokens from localStorage
     if (typeof window !== 'undefined') {
-      const storedTokens = localStorage.getItem('dekave_temp_tokens');
-      if (storedTokens) {
-        return parseInt(storedTokens, 10);
+      const response = await fetch(`/api/tokens?userId=${encodeURIComponent(userId)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch token balance: ${response.status}`);
       }
-      return 100000; // Default token amount in free mode
+      
+      const { balance } = await response.json();
+      return balance;
     }
     
-    // Commented out Supabase implementation
-    /*
     const { data, error } = await supabase
       .from('users')
       .select('tokens')
@@ -170,12 +120,9 @@ export async function getUserTokens(userId: string): Promise<number> {
     }
     
     return data?.tokens || 0;
-    */
-    
-    return 100000; // Default token amount in free mode
   } catch (error) {
     console.error('Error getting user tokens:', error);
-    return 100000; // Default token amount in free mode
+    return 0;
   }
 }
 
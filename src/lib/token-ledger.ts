@@ -0,0 +1,810 @@
+/**
+ * Token Ledger
+ *
+ * Server-side source of truth for token balances. Every movement is appended
+ * to `token_ledger`, and `users.tokens` is updated in the same transaction with
+ * a conditional UPDATE so concurrent debits can never overdraw an account.
+ *
+ * Work that can fail part-way (generation) reserves its tokens up front and
+ * later commits what was actually used, releasing the rest back to the user.
+ * Holds that a killed run never settles are released by a scheduled sweep.
+ *
+ * Purchased tokens are also kept in dated buckets (`token_buckets`) that
+ * expire PURCHASED_TOKEN_LIFETIME_DAYS after the purchase. Spending takes from
+ * the bucket expiring soonest before touching tokens that never expire (the
+ * initial grant), and whatever is left in a bucket on its expiry date is
+ * removed from the balance with an `expiry` ledger entry. Subscription
+ * allowances are buckets too, expiring when the billing period ends.
+ */
+
+import { and, asc, desc, eq, gt, gte, isNull, lte, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import {
+  tokenBuckets,
+  tokenLedger,
+  tokenReservations,
+  users,
+  type TokenBucket,
+  type TokenLedgerEntry,
+  type TokenReservation
+} from '@/lib/db/schema';
+import logger from '@/lib/logger';
+import { ApiError } from './api-error';
+
+// Tokens granted when a ledger account is first opened (matches the free tier allowance)
+export const INITIAL_TOKEN_GRANT = 100000;
+
+// Fixed cost of a brand profile analysis
+export const BRAND_ANALYSIS_TOKEN_COST = 5000;
+
+// Purchased tokens expire this many days after the purchase
+export const PURCHASED_TOKEN_LIFETIME_DAYS = 28;
+
+// A reservation still held this long after it was made belongs to a run that
+// was killed at its time limit (300 seconds at most), so the sweep releases it
+export const STALE_RESERVATION_MINUTES = 10;
+
+// Placeholder email for fingerprint-based temporary users
+const TEMPORARY_USER_EMAIL = 'temporary@user.com';
+
+export type LedgerReason =
+  | 'initial_grant'
+  | 'purchase'
+  | 'generation'
+  | 'brand_analysis'
+  | 'reservation'
+  | 'reservation_release'
+  | 'refund_clawback'
+  | 'expiry'
+  | 'subscription_allowance'
+  | 'adjustment';
+
+export interface LedgerOptions {
+  reason: LedgerReason;
+  referenceId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface LedgerResult {
+  entryId: string;
+  balance: number;
+}
+
+export interface ReservationOutcome {
+  completedStages?: string[];
+  stageCosts?: Record<string, number>;
+  attempts?: number;
+  error?: string;
+}
+
+export interface SettledReservation {
+  reservation: TokenReservation;
+  refunded: number;
+  balance: number;
+}
+
+// Tokens a debit took from one purchased bucket
+export type BucketDraw = NonNullable<TokenReservation['bucketDraws']>[number];
+
+// Client-facing view of a purchased bucket that still holds tokens
+export interface TokenBucketView {
+  id: string;
+  amount: number;
+  remaining: number;
+  purchasedAt: string;
+  expiresAt: string;
+}
+
+export interface ExpiredTokens {
+  buckets: number;
+  tokens: number;
+}
+
+export class InsufficientTokensError extends Error {
+  constructor(public readonly required: number, public readonly balance: number) {
+    super(`Insufficient tokens: ${required} required, ${balance} available`);
+    this.name = 'InsufficientTokensError';
+  }
+}
+
+// A database transaction ledger writes can join
+export type LedgerTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Append the ledger row for a balance change made in the same transaction
+async function recordEntry(
+  tx: LedgerTransaction,
+  userId: string,
+  amount: number,
+  balanceAfter: number,
+  options: LedgerOptions
+): Promise<string> {
+  const [entry] = await tx.insert(tokenLedger)
+    .values({
+      userId,
+      amount,
+      balanceAfter,
+      reason: options.reason,
+      referenceId: options.referenceId,
+      metadata: options.metadata
+    })
+    .returning({ id: tokenLedger.id });
+
+  return entry.id;
+}
+
+// Conditionally decrement the balance; returns null if it would go negative
+async function decrementBalance(tx: LedgerTransaction, userId: string, amount: number): Promise<number | null> {
+  const [row] = await tx.update(users)
+    .set({ tokens: sql`${users.tokens} - ${amount}`, updatedAt: new Date() })
+    .where(and(eq(users.id, userId), gte(users.tokens, amount)))
+    .returning({ tokens: users.tokens });
+
+  return row ? row.tokens ?? 0 : null;
+}
+
+// Remove what is left in the user's buckets past their expiry date. Locks
+// the user's row first, so it never races a debit on the same account.
+async function expireStaleBuckets(tx: LedgerTransaction, userId: string, now: Date = new Date()): Promise<ExpiredTokens> {
+  const [account] = await tx.select({ tokens: users.tokens })
+    .from(users)
+    .where(eq(users.id, userId))
+    .for('update');
+
+  const stale = await tx.select()
+    .from(tokenBuckets)
+    .where(and(eq(tokenBuckets.userId, userId), isNull(tokenBuckets.expiredAt), lte(tokenBuckets.expiresAt, now)))
+    .orderBy(asc(tokenBuckets.expiresAt));
+
+  let balance = account?.tokens ?? 0;
+  let tokens = 0;
+  for (const bucket of stale) {
+    const expired = await closeBucket(tx, bucket, balance, now);
+    balance -= expired;
+    tokens += expired;
+  }
+
+  return { buckets: stale.length, tokens };
+}
+
+// Remove what is left in a bucket from a balance of `balance` (never below
+// zero) and mark it expired; returns the tokens removed
+async function closeBucket(tx: LedgerTransaction, bucket: TokenBucket, balance: number, now: Date): Promise<number> {
+  const expired = Math.min(bucket.remaining, balance);
+  if (expired > 0) {
+    const balanceAfter = await decrementBalance(tx, bucket.userId, expired) ?? balance;
+    await recordEntry(tx, bucket.userId, -expired, balanceAfter, {
+      reason: 'expiry',
+      referenceId: bucket.id,
+      metadata: { purchaseId: bucket.referenceId, expiresAt: bucket.expiresAt.toISOString() }
+    });
+  }
+
+  await tx.update(tokenBuckets)
+    .set({ remaining: 0, expiredAmount: expired, expiredAt: now })
+    .where(eq(tokenBuckets.id, bucket.id));
+
+  return expired;
+}
+
+// Take `amount` from the user's live buckets, soonest-expiring first (or the
+// bucket bought by `preferReference` before any other)
+async function drawFromBuckets(
+  tx: LedgerTransaction,
+  userId: string,
+  amount: number,
+  preferReference?: string
+): Promise<BucketDraw[]> {
+  const live = await tx.select()
+    .from(tokenBuckets)
+    .where(and(eq(tokenBuckets.userId, userId), isNull(tokenBuckets.expiredAt), gt(tokenBuckets.remaining, 0)))
+    .orderBy(asc(tokenBuckets.expiresAt), asc(tokenBuckets.createdAt))
+    .for('update');
+
+  const ordered = preferReference
+    ? [...live.filter(bucket => bucket.referenceId === preferReference), ...live.filter(bucket => bucket.referenceId !== preferReference)]
+    : live;
+
+  const draws: BucketDraw[] = [];
+  let left = amount;
+  for (const bucket of ordered) {
+    if (left <= 0) break;
+    const taken = Math.min(bucket.remaining, left);
+    await tx.update(tokenBuckets)
+      .set({ remaining: bucket.remaining - taken })
+      .where(eq(tokenBuckets.id, bucket.id));
+    draws.push({ bucketId: bucket.id, amount: taken });
+    left -= taken;
+  }
+
+  return draws;
+}
+
+// Put `amount` of a released hold back where it came from: the part drawn
+// from tokens that never expire first, then the buckets in reverse order.
+// Tokens whose bucket has expired since are forfeited; returns how many.
+async function returnToBuckets(
+  tx: LedgerTransaction,
+  reservation: TokenReservation,
+  amount: number,
+  now: Date = new Date()
+): Promise<number> {
+  const draws = reservation.bucketDraws ?? [];
+  const drawnFromBuckets = draws.reduce((sum, draw) => sum + draw.amount, 0);
+  let left = amount - Math.min(amount, reservation.amount - drawnFromBuckets);
+  let forfeited = 0;
+
+  for (const draw of [...draws].reverse()) {
+    if (left <= 0) break;
+    const returned = Math.min(draw.amount, left);
+    left -= returned;
+
+    const [bucket] = await tx.update(tokenBuckets)
+      .set({ remaining: sql`${tokenBuckets.remaining} + ${returned}` })
+      .where(and(eq(tokenBuckets.id, draw.bucketId), isNull(tokenBuckets.expiredAt), gt(tokenBuckets.expiresAt, now)))
+      .returning({ id: tokenBuckets.id });
+
+    if (!bucket) {
+      forfeited += returned;
+    }
+  }
+
+  return forfeited;
+}
+
+// Debit the balance, spending expiring purchased tokens first; returns null
+// if the balance (after removing expired tokens) is too low
+async function applyDebit(
+  tx: LedgerTransaction,
+  userId: string,
+  amount: number,
+  preferReference?: string
+): Promise<{ balance: number; draws: BucketDraw[] } | null> {
+  await expireStaleBuckets(tx, userId);
+  const balance = await decrementBalance(tx, userId, amount);
+  if (balance === null) {
+    return null;
+  }
+
+  return { balance, draws: await drawFromBuckets(tx, userId, amount, preferReference) };
+}
+
+async function applyCredit(tx: LedgerTransaction, userId: string, amount: number): Promise<number> {
+  const [row] = await tx.update(users)
+    .set({ tokens: sql`coalesce(${users.tokens}, 0) + ${amount}`, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning({ tokens: users.tokens });
+
+  if (!row) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  return row.tokens ?? 0;
+}
+
+// Balance read inside an open transaction
+async function getTokenBalanceIn(tx: LedgerTransaction, userId: string): Promise<number> {
+  const [row] = await tx.select({ tokens: users.tokens })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return row?.tokens ?? 0;
+}
+
+/**
+ * Throws ApiError (404) unless the account exists. Accounts are only opened
+ * by openTokenAccount, so an ID made up by a client never gets a balance.
+ */
+export async function requireTokenAccount(userId: string): Promise<void> {
+  const [row] = await db.select({ id: users.id })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!row) {
+    throw new ApiError('Account not found', 404);
+  }
+}
+
+/**
+ * Make sure a users row exists for this ID, granting `grant` tokens through
+ * the ledger the first time the account is seen. Only for IDs the server
+ * vouches for: signed-in users and IDs it issued (see ./accounts).
+ */
+export async function openTokenAccount(
+  userId: string,
+  email: string = TEMPORARY_USER_EMAIL,
+  grant: number = INITIAL_TOKEN_GRANT
+): Promise<void> {
+  const opened = await db.transaction(async (tx) => {
+    const inserted = await tx.insert(users)
+      .values({ id: userId, email, tokens: grant })
+      .onConflictDoNothing({ target: users.id })
+      .returning({ id: users.id });
+
+    if (inserted.length === 0) {
+      return false;
+    }
+
+    if (grant > 0) {
+      await recordEntry(tx, userId, grant, grant, { reason: 'initial_grant' });
+    }
+    return true;
+  });
+
+  if (opened) {
+    logger.info('Opened token account', { userId, tokens: grant });
+  }
+}
+
+/**
+ * Current balance for a user (0 if the user has no account yet)
+ */
+export async function getTokenBalance(userId: string): Promise<number> {
+  const [row] = await db.select({ tokens: users.tokens })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return row?.tokens ?? 0;
+}
+
+/**
+ * When the user's generations were frozen (an open payment dispute), or null
+ */
+export async function getGenerationFreeze(userId: string): Promise<Date | null> {
+  const [row] = await db.select({ frozenAt: users.generationsFrozenAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return row?.frozenAt ?? null;
+}
+
+/**
+ * Atomically remove tokens from a user's balance.
+ * Throws InsufficientTokensError if the balance would go negative.
+ */
+export async function debitTokens(userId: string, amount: number, options: LedgerOptions): Promise<LedgerResult> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error(`Invalid debit amount: ${amount}`);
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const debit = await applyDebit(tx, userId, amount);
+    if (!debit) {
+      return null;
+    }
+
+    const entryId = await recordEntry(tx, userId, -amount, debit.balance, options);
+    return { entryId, balance: debit.balance };
+  });
+
+  if (!result) {
+    throw new InsufficientTokensError(amount, await getTokenBalance(userId));
+  }
+
+  logger.info('Tokens debited', { userId, amount, reason: options.reason, balance: result.balance });
+  return result;
+}
+
+/**
+ * Atomically add tokens to a user's balance
+ */
+export async function creditTokens(userId: string, amount: number, options: LedgerOptions): Promise<LedgerResult> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error(`Invalid credit amount: ${amount}`);
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const balance = await applyCredit(tx, userId, amount);
+    const entryId = await recordEntry(tx, userId, amount, balance, options);
+    return { entryId, balance };
+  });
+
+  logger.info('Tokens credited', { userId, amount, reason: options.reason, balance: result.balance });
+  return result;
+}
+
+/**
+ * Credit tokens for an outside event (a payment) at most once: if the ledger
+ * already has an entry with the same reason and reference ID, nothing is
+ * credited and null is returned. Given `tx`, the credit commits or rolls back
+ * with the caller's other writes. Purchases open a bucket that expires
+ * PURCHASED_TOKEN_LIFETIME_DAYS from now.
+ */
+export async function creditTokensOnce(
+  userId: string,
+  amount: number,
+  options: LedgerOptions & { referenceId: string },
+  tx?: LedgerTransaction
+): Promise<LedgerResult | null> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error(`Invalid credit amount: ${amount}`);
+  }
+
+  const credit = async (tx: LedgerTransaction) => {
+    const [existing] = await tx.select({ id: tokenLedger.id })
+      .from(tokenLedger)
+      .where(and(eq(tokenLedger.reason, options.reason), eq(tokenLedger.referenceId, options.referenceId)))
+      .limit(1);
+
+    if (existing) {
+      return null;
+    }
+
+    const balance = await applyCredit(tx, userId, amount);
+    const entryId = await recordEntry(tx, userId, amount, balance, options);
+
+    if (options.reason === 'purchase') {
+      await tx.insert(tokenBuckets).values({
+        userId,
+        referenceId: options.referenceId,
+        amount,
+        remaining: amount,
+        expiresAt: new Date(Date.now() + PURCHASED_TOKEN_LIFETIME_DAYS * 24 * 60 * 60 * 1000)
+      });
+    }
+
+    return { entryId, balance };
+  };
+
+  const result = tx ? await credit(tx) : await db.transaction(credit);
+
+  if (!result) {
+    logger.info('Tokens already credited for reference, skipping', { userId, reason: options.reason, referenceId: options.referenceId });
+    return null;
+  }
+
+  logger.info('Tokens credited', { userId, amount, reason: options.reason, balance: result.balance });
+  return result;
+}
+
+/**
+ * Take back up to `amount` tokens inside `tx`, as many as the user still has
+ * (spent tokens can't be recovered). The bucket bought by the purchase named
+ * in `options.referenceId` is emptied first. Returns null when nothing was taken.
+ */
+export async function clawBackTokens(
+  userId: string,
+  amount: number,
+  options: LedgerOptions,
+  tx: LedgerTransaction
+): Promise<(LedgerResult & { amount: number }) | null> {
+  await expireStaleBuckets(tx, userId);
+  const taken = Math.min(Math.floor(amount), await getTokenBalanceIn(tx, userId));
+  if (taken <= 0) {
+    return null;
+  }
+
+  const debit = await applyDebit(tx, userId, taken, options.referenceId);
+  if (!debit) {
+    return null;
+  }
+
+  const { balance } = debit;
+  const entryId = await recordEntry(tx, userId, -taken, balance, options);
+  logger.info('Tokens clawed back', { userId, amount: taken, requested: amount, reason: options.reason, balance });
+  return { entryId, balance, amount: taken };
+}
+
+/**
+ * Grant a subscription allowance for a paid invoice (`options.referenceId`)
+ * at most once, inside `tx`. The tokens expire at `expiresAt` (the end of
+ * the billing period).
+ *
+ * At a renewal, `rolloverFrom` is the previous period's bucket: it is closed
+ * and up to `rolloverLimit` of what was left in it is carried into the new
+ * allowance. For a mid-period upgrade, `addTo` names the current allowance
+ * bucket, which the extra tokens join. Returns null if the invoice was
+ * already granted.
+ */
+export async function grantSubscriptionAllowance(
+  userId: string,
+  amount: number,
+  options: Omit<LedgerOptions, 'reason'> & {
+    referenceId: string;
+    expiresAt: Date;
+    rolloverFrom?: string | null;
+    rolloverLimit?: number;
+    addTo?: string | null;
+  },
+  tx: LedgerTransaction
+): Promise<(LedgerResult & { bucketId: string; carried: number }) | null> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error(`Invalid allowance amount: ${amount}`);
+  }
+
+  const [existing] = await tx.select({ id: tokenLedger.id })
+    .from(tokenLedger)
+    .where(and(eq(tokenLedger.reason, 'subscription_allowance'), eq(tokenLedger.referenceId, options.referenceId)))
+    .limit(1);
+
+  if (existing) {
+    logger.info('Allowance already granted for invoice, skipping', { userId, referenceId: options.referenceId });
+    return null;
+  }
+
+  await expireStaleBuckets(tx, userId);
+
+  // Whatever was left last period was either swept already or is closed now
+  let carried = 0;
+  if (options.rolloverFrom) {
+    const [previous] = await tx.select()
+      .from(tokenBuckets)
+      .where(eq(tokenBuckets.id, options.rolloverFrom))
+      .for('update');
+
+    if (previous) {
+      const left = previous.expiredAt
+        ? previous.expiredAmount
+        : await closeBucket(tx, previous, await getTokenBalanceIn(tx, userId), new Date());
+      carried = Math.min(left, options.rolloverLimit ?? 0);
+    }
+  }
+
+  const granted = amount + carried;
+  const balance = await applyCredit(tx, userId, granted);
+  const entryId = await recordEntry(tx, userId, granted, balance, {
+    reason: 'subscription_allowance',
+    referenceId: options.referenceId,
+    metadata: { ...options.metadata, allowance: amount, rollover: carried }
+  });
+
+  const [joined] = options.addTo
+    ? await tx.update(tokenBuckets)
+      .set({
+        amount: sql`${tokenBuckets.amount} + ${granted}`,
+        remaining: sql`${tokenBuckets.remaining} + ${granted}`
+      })
+      .where(and(eq(tokenBuckets.id, options.addTo), isNull(tokenBuckets.expiredAt)))
+      .returning({ id: tokenBuckets.id })
+    : [];
+
+  const [bucket] = joined
+    ? [joined]
+    : await tx.insert(tokenBuckets)
+      .values({
+        userId,
+        referenceId: options.referenceId,
+        amount: granted,
+        remaining: granted,
+        expiresAt: options.expiresAt
+      })
+      .returning({ id: tokenBuckets.id });
+
+  logger.info('Subscription allowance granted', { userId, amount, carried, referenceId: options.referenceId, balance });
+  return { entryId, balance, bucketId: bucket.id, carried };
+}
+
+/**
+ * Hold tokens for a request before doing any work. The hold is debited from
+ * the balance immediately and must later be settled with commitReservation or
+ * releaseReservation. Throws InsufficientTokensError if the balance is too low.
+ */
+export async function reserveTokens(
+  userId: string,
+  amount: number,
+  requestId: string,
+  metadata?: Record<string, unknown>
+): Promise<{ reservation: TokenReservation; balance: number }> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error(`Invalid reservation amount: ${amount}`);
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const debit = await applyDebit(tx, userId, amount);
+    if (!debit) {
+      return null;
+    }
+
+    const { balance, draws } = debit;
+    const [reservation] = await tx.insert(tokenReservations)
+      .values({ userId, requestId, amount, bucketDraws: draws })
+      .returning();
+
+    await recordEntry(tx, userId, -amount, balance, {
+      reason: 'reservation',
+      referenceId: reservation.id,
+      metadata: { requestId, ...metadata }
+    });
+
+    return { reservation, balance };
+  });
+
+  if (!result) {
+    throw new InsufficientTokensError(amount, await getTokenBalance(userId));
+  }
+
+  logger.info('Tokens reserved', { userId, amount, requestId, reservationId: result.reservation.id });
+  return result;
+}
+
+// Close a reservation, keeping `committedAmount` and refunding the remainder.
+// Only the first settlement takes effect; later calls return null.
+async function settleReservation(
+  reservationId: string,
+  committedAmount: number,
+  status: 'committed' | 'released',
+  outcome: ReservationOutcome
+): Promise<SettledReservation | null> {
+  const result = await db.transaction(async (tx) => {
+    const [current] = await tx.select()
+      .from(tokenReservations)
+      .where(and(eq(tokenReservations.id, reservationId), eq(tokenReservations.status, 'reserved')))
+      .for('update');
+
+    if (!current) {
+      return null;
+    }
+
+    const committed = Math.max(0, Math.min(current.amount, Math.floor(committedAmount)));
+    const refunded = current.amount - committed;
+
+    const [reservation] = await tx.update(tokenReservations)
+      .set({ status, committedAmount: committed, outcome, settledAt: new Date() })
+      .where(eq(tokenReservations.id, reservationId))
+      .returning();
+
+    // Tokens from buckets that expired while they were held are not returned
+    const forfeited = refunded > 0 ? await returnToBuckets(tx, current, refunded) : 0;
+    const returned = refunded - forfeited;
+
+    let balance: number;
+    if (returned > 0) {
+      balance = await applyCredit(tx, current.userId, returned);
+      await recordEntry(tx, current.userId, returned, balance, {
+        reason: 'reservation_release',
+        referenceId: reservationId,
+        metadata: { requestId: current.requestId, committed, ...(forfeited > 0 ? { expired: forfeited } : {}) }
+      });
+    } else {
+      balance = await getTokenBalanceIn(tx, current.userId);
+    }
+
+    return { reservation, refunded: returned, balance };
+  });
+
+  if (!result) {
+    logger.warn('Reservation already settled or missing', { reservationId });
+    return null;
+  }
+
+  logger.info('Reservation settled', {
+    reservationId,
+    status,
+    committed: result.reservation.committedAmount,
+    refunded: result.refunded
+  });
+  return result;
+}
+
+/**
+ * Settle a successful request. Keeps the full reserved amount unless a
+ * smaller `amount` is given (e.g. some of the requested work was not delivered).
+ */
+export async function commitReservation(
+  reservationId: string,
+  outcome: ReservationOutcome = {},
+  amount: number = Number.MAX_SAFE_INTEGER
+): Promise<SettledReservation | null> {
+  return settleReservation(reservationId, amount, 'committed', outcome);
+}
+
+/**
+ * Settle a failed request: keep only `usedAmount` (the cost of the steps that
+ * actually ran) and refund everything else to the user
+ */
+export async function releaseReservation(
+  reservationId: string,
+  usedAmount: number,
+  outcome: ReservationOutcome = {}
+): Promise<SettledReservation | null> {
+  return settleReservation(reservationId, usedAmount, 'released', outcome);
+}
+
+export function toTokenBucketView(bucket: TokenBucket): TokenBucketView {
+  return {
+    id: bucket.id,
+    amount: bucket.amount,
+    remaining: bucket.remaining,
+    purchasedAt: bucket.createdAt.toISOString(),
+    expiresAt: bucket.expiresAt.toISOString()
+  };
+}
+
+/**
+ * A user's purchased buckets that still hold tokens, soonest-expiring first
+ */
+export async function getTokenBuckets(userId: string): Promise<TokenBucket[]> {
+  return db.select()
+    .from(tokenBuckets)
+    .where(and(
+      eq(tokenBuckets.userId, userId),
+      isNull(tokenBuckets.expiredAt),
+      gt(tokenBuckets.remaining, 0),
+      gt(tokenBuckets.expiresAt, new Date())
+    ))
+    .orderBy(asc(tokenBuckets.expiresAt));
+}
+
+/**
+ * Expire a user's buckets that are past their date
+ */
+export async function expireUserTokenBuckets(userId: string): Promise<ExpiredTokens> {
+  const expired = await db.transaction(tx => expireStaleBuckets(tx, userId));
+  if (expired.tokens > 0) {
+    logger.info('Tokens expired', { userId, ...expired });
+  }
+  return expired;
+}
+
+/**
+ * The scheduled sweep: expire every bucket past its date, one user per
+ * transaction, for up to `userLimit` users per run
+ */
+export async function expireTokenBuckets(userLimit: number = 500): Promise<ExpiredTokens & { users: number }> {
+  const due = await db.selectDistinct({ userId: tokenBuckets.userId })
+    .from(tokenBuckets)
+    .where(and(isNull(tokenBuckets.expiredAt), lte(tokenBuckets.expiresAt, new Date())))
+    .limit(userLimit);
+
+  const total = { users: due.length, buckets: 0, tokens: 0 };
+  for (const { userId } of due) {
+    const expired = await expireUserTokenBuckets(userId);
+    total.buckets += expired.buckets;
+    total.tokens += expired.tokens;
+  }
+
+  return total;
+}
+
+/**
+ * The scheduled sweep for reservations no run will settle any more: each one
+ * older than STALE_RESERVATION_MINUTES is released in full. Up to `limit`
+ * reservations per run.
+ */
+export async function releaseStaleReservations(
+  now: Date = new Date(),
+  limit: number = 500
+): Promise<{ reservations: number; tokens: number }> {
+  const cutoff = new Date(now.getTime() - STALE_RESERVATION_MINUTES * 60 * 1000);
+  const stale = await db.select({ id: tokenReservations.id })
+    .from(tokenReservations)
+    .where(and(eq(tokenReservations.status, 'reserved'), lte(tokenReservations.createdAt, cutoff)))
+    .orderBy(asc(tokenReservations.createdAt))
+    .limit(limit);
+
+  const total = { reservations: 0, tokens: 0 };
+  for (const { id } of stale) {
+    // Settling skips a reservation its run settled in the meantime
+    const settled = await releaseReservation(id, 0, { error: 'Released by the stale reservation sweep' });
+    if (settled) {
+      total.reservations += 1;
+      total.tokens += settled.refunded;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Reservations recorded for a request ID, for support audits
+ */
+export async function getReservationsForRequest(requestId: string): Promise<TokenReservation[]> {
+  return db.select()
+    .from(tokenReservations)
+    .where(eq(tokenReservations.requestId, requestId))
+    .orderBy(desc(tokenReservations.createdAt));
+}
+
+/**
+ * Most recent ledger entries for a user, newest first
+ */
+export async function getLedgerEntries(userId: string, limit: number = 50): Promise<TokenLedgerEntry[]> {
+  return db.select()
+    .from(tokenLedger)
+    .where(eq(tokenLedger.userId, userId))
+    .orderBy(desc(tokenLedger.createdAt))
+    .limit(limit);
+}
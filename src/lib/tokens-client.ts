@@ -0,0 +1,38 @@
+import type { TokenPackage } from './stripe/constants';
+import type { TokenBucketView } from './token-ledger';
+
+// Purchased tokens expiring within this many days are called out to the user
+export const TOKEN_EXPIRY_WARNING_DAYS = 7;
+
+export interface TokenBalance {
+  balance: number;
+  // Purchased tokens still held, soonest-expiring first
+  buckets: TokenBucketView[];
+  nonExpiring: number;
+  tier: TokenPackage['tier'];
+}
+
+// Response body of the token balance route, throwing with the server's message on failure
+async function readTokenResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({ error: fallbackError }));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * The user's balance and tier, with the expiry dates of their purchased tokens
+ */
+export async function fetchTokenBalance(userId: string): Promise<TokenBalance> {
+  const response = await fetch(`/api/tokens?userId=${encodeURIComponent(userId)}`);
+  return readTokenResponse<TokenBalance>(response, 'Failed to fetch token balance');
+}
+
+/**
+ * Buckets that expire within TOKEN_EXPIRY_WARNING_DAYS of `now`
+ */
+export function expiringSoon(buckets: TokenBucketView[], now: Date = new Date()): TokenBucketView[] {
+  const cutoff = now.getTime() + TOKEN_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
+  return buckets.filter(bucket => new Date(bucket.expiresAt).getTime() <= cutoff);
+}